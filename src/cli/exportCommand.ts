@@ -0,0 +1,232 @@
+/**
+ * `rsx export` command
+ * Loads paks with the renderer's file loader, filters their assets with the
+ * asset query language and exports them with the export service. Progress,
+ * results and errors are written to stdout as JSON lines.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Asset } from '../renderer/types/asset';
+import { loadFile, detectFileType, LoadResult } from '../renderer/parsers/fileLoader';
+import { RpakParser } from '../renderer/parsers/rpakParser';
+import { exportAssets, findExportFormat, ExportResult } from '../renderer/services/exportService';
+import { compileAssetQuery, createTextMatcher, AssetQueryError } from '../renderer/services/assetQuery';
+import { readTextureData } from '../renderer/services/textureData';
+import { getSettings, applySettings, Settings } from '../renderer/stores/settingsStore';
+
+export interface ExportCommandOptions {
+  paths: string[];
+  types: string[];
+  name?: string;
+  query?: string;
+  format?: string;
+  outputDir: string;
+  settingsFile?: string;
+  fullPaths: boolean;
+}
+
+export type CliEvent = Record<string, unknown> & { event: string };
+
+// Exit codes
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Write one machine-readable event line to stdout
+ */
+export function emit(event: CliEvent): void {
+  process.stdout.write(JSON.stringify(event) + '\n');
+}
+
+async function readSettingsFile(filePath: string): Promise<Partial<Settings>> {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new CliUsageError(`Failed to read settings from ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Expand folders to the paks inside them. Starpaks are skipped as they are
+ * opened through the paks that reference them.
+ */
+async function collectInputFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const inputPath of paths) {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(inputPath);
+    } catch {
+      throw new CliUsageError(`No such file or folder: ${inputPath}`);
+    }
+
+    if (stats.isDirectory()) {
+      const entries = await fs.promises.readdir(inputPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const type = detectFileType(entry.name);
+        if (entry.isFile() && type !== 'unknown' && type !== 'starpak') {
+          files.push(path.join(inputPath, entry.name));
+        }
+      }
+    } else {
+      files.push(inputPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Combine the type and query options into one asset query. The name filter is
+ * matched separately since the query syntax can't quote every name.
+ */
+function buildQuery(options: ExportCommandOptions): string {
+  const terms: string[] = [];
+  if (options.types.length > 0) {
+    terms.push(`type:${options.types.join(',')}`);
+  }
+  if (options.query) {
+    terms.push(`(${options.query})`);
+  }
+  return terms.join(' ');
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+export async function runExportCommand(options: ExportCommandOptions): Promise<number> {
+  // User settings, then the settings file, then command-line options. The
+  // asset index cache is skipped as exports need the parsed paks.
+  const userSettingsFile = path.join(await window.electron.getPath('userData'), 'settings.json');
+  if (fs.existsSync(userSettingsFile)) {
+    applySettings(await readSettingsFile(userSettingsFile));
+  }
+  if (options.settingsFile) {
+    applySettings(await readSettingsFile(options.settingsFile));
+  }
+  applySettings({ enableCaching: false });
+  if (options.fullPaths) {
+    applySettings({ exportPathsFull: true });
+  }
+
+  const files = await collectInputFiles(options.paths);
+  if (files.length === 0) {
+    throw new CliUsageError('No supported files found');
+  }
+
+  let failed = false;
+  emit({ event: 'start', files: files.length });
+
+  // Parsers by container file name, for reading texture pixel data
+  const parsers = new Map<string, { path: string; parser: RpakParser }>();
+  const loadedPaths = new Set<string>();
+  const assets: Asset[] = [];
+
+  for (const filePath of files) {
+    // Patch chains are loaded as a whole, so later members are already covered
+    if (loadedPaths.has(path.resolve(filePath).toLowerCase())) continue;
+
+    let result: LoadResult;
+    try {
+      result = await loadFile(filePath, { useIndexCache: false });
+    } catch (error) {
+      result = { success: false, assets: [], error: (error as Error).message };
+    }
+
+    if (!result.success) {
+      failed = true;
+      emit({ event: 'error', file: filePath, error: result.error || 'Failed to load file' });
+      continue;
+    }
+
+    const chainParsers = result.chainParsers || new Map(result.rpakParser ? [[filePath, result.rpakParser]] : []);
+    for (const [chainPath, parser] of chainParsers) {
+      parsers.set(getFileName(chainPath), { path: chainPath, parser });
+    }
+    for (const chainPath of result.patchChain || [filePath]) {
+      loadedPaths.add(path.resolve(chainPath).toLowerCase());
+    }
+
+    assets.push(...result.assets);
+    emit({ event: 'loaded', file: filePath, assets: result.assets.length, warnings: result.warnings || [] });
+  }
+
+  let predicate: ((asset: Asset) => boolean) | null;
+  try {
+    predicate = compileAssetQuery(buildQuery(options), assets);
+  } catch (error) {
+    if (error instanceof AssetQueryError) {
+      throw new CliUsageError(`Invalid filter: ${error.message}`);
+    }
+    throw error;
+  }
+
+  // Same matching as the query's name field
+  const matchesName = options.name ? createTextMatcher(options.name) : null;
+  const targets = assets.filter(asset => (!predicate || predicate(asset)) && (!matchesName || matchesName(asset.name)));
+  emit({ event: 'matched', assets: targets.length, loaded: assets.length });
+  if (targets.length === 0) {
+    emit({ event: 'error', error: 'No assets matched the filters' });
+    emit({ event: 'done', exported: 0, failed: 0 });
+    return EXIT_FAILED;
+  }
+
+  const format = options.format;
+  if (format && !targets.some(asset => findExportFormat(asset.type, format))) {
+    throw new CliUsageError(`None of the matched asset types can be exported as ${format}`);
+  }
+
+  await fs.promises.mkdir(options.outputDir, { recursive: true });
+
+  const getTextureData = async (asset: Asset) => {
+    const source = parsers.get(asset.containerFile);
+    return readTextureData(asset, source?.path || null, source?.parser || null);
+  };
+
+  let results: ExportResult[];
+  try {
+    results = await exportAssets(
+      targets,
+      options.outputDir,
+      getSettings(),
+      (current, total, message) => emit({ event: 'progress', current, total, message }),
+      assets,
+      getTextureData,
+      options.format
+    );
+  } catch (error) {
+    emit({ event: 'error', error: (error as Error).message });
+    return EXIT_FAILED;
+  }
+
+  let exported = 0;
+  results.forEach((result, index) => {
+    const asset = targets[index];
+    const details = { guid: asset.guid, name: asset.name, type: asset.type };
+    if (result.success) {
+      exported++;
+      emit({
+        event: 'exported',
+        ...details,
+        output: result.outputPath,
+        files: result.filesExported ?? 1,
+        ...(result.warnings?.length ? { warnings: result.warnings } : {}),
+      });
+    } else {
+      failed = true;
+      emit({ event: 'failed', ...details, error: result.error || 'Export failed' });
+    }
+  });
+
+  emit({ event: 'done', exported, failed: results.length - exported });
+  return failed ? EXIT_FAILED : EXIT_OK;
+}
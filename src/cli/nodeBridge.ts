@@ -0,0 +1,161 @@
+/**
+ * Node implementation of the preload bridge
+ * Lets the renderer's loaders and exporters run from the command line, where
+ * there is no window or main process to forward file system calls to.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ElectronAPI, FileResult } from '../renderer/types/electron';
+
+// Chunk size for streamed reads (matches the main process)
+const STREAM_CHUNK_SIZE = 16 * 1024 * 1024;
+
+async function wrap<T>(action: () => Promise<T>): Promise<FileResult<T>> {
+  try {
+    return { success: true, data: await action() };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+async function readRange(filePath: string, offset: number, size: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.allocUnsafe(size);
+    let bytesRead = 0;
+    while (bytesRead < size) {
+      const result = await handle.read(buffer, bytesRead, size - bytesRead, offset + bytesRead);
+      if (result.bytesRead === 0) break;
+      bytesRead += result.bytesRead;
+    }
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function unavailable(): never {
+  throw new Error('Not available from the command line');
+}
+
+/**
+ * Create the bridge
+ * @param userDataPath Folder used for settings, caches and name databases
+ * @param oodleDllPath Oodle DLL used for Oodle-compressed paks, if any
+ */
+export function createNodeBridge(userDataPath: string, oodleDllPath?: string): ElectronAPI {
+  // The Oodle binding needs a native module, so it is only loaded when asked for
+  let oodle: typeof import('../main/oodleDecompress') | null = null;
+  const getOodle = async () => {
+    if (!oodle && oodleDllPath) {
+      oodle = await import('../main/oodleDecompress');
+      oodle.initOodle(oodleDllPath);
+    }
+    return oodle?.isOodleAvailable() ? oodle : null;
+  };
+
+  const noListener = () => () => {};
+
+  return {
+    openFile: async () => unavailable(),
+    openFolder: async () => unavailable(),
+    saveFile: async () => null,
+    selectFolder: async () => null,
+    selectFiles: async () => null,
+
+    readFile: (filePath) => wrap(() => fs.promises.readFile(filePath)),
+    readFileRange: (filePath, offset, size) => wrap(() => readRange(filePath, offset, size)),
+    streamFileRange: (filePath, offset, size, onChunk) => wrap(async () => {
+      let position = 0;
+      while (position < size) {
+        const chunk = await readRange(filePath, offset + position, Math.min(STREAM_CHUNK_SIZE, size - position));
+        if (chunk.length === 0) break;
+        onChunk(chunk, position);
+        position += chunk.length;
+      }
+      return position;
+    }),
+    writeFile: (filePath, data) => wrap(async () => {
+      await fs.promises.writeFile(filePath, data);
+    }),
+    readDir: (dirPath) => wrap(async () => {
+      const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      return entries.map((entry) => ({
+        name: entry.name,
+        isDirectory: entry.isDirectory(),
+        path: path.join(dirPath, entry.name),
+      }));
+    }),
+    exists: async (filePath) => {
+      try {
+        await fs.promises.access(filePath);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    stat: (filePath) => wrap(async () => {
+      const stats = await fs.promises.stat(filePath);
+      return {
+        size: stats.size,
+        isDirectory: stats.isDirectory(),
+        isFile: stats.isFile(),
+        created: stats.birthtime,
+        modified: stats.mtime,
+      };
+    }),
+    mkdir: (dirPath) => wrap(async () => {
+      await fs.promises.mkdir(dirPath, { recursive: true });
+    }),
+    createDir: (dirPath) => wrap(async () => {
+      await fs.promises.mkdir(dirPath, { recursive: true });
+    }),
+    openPath: async () => {},
+
+    getPath: async (name) => {
+      if (name === 'userData') return userDataPath;
+      if (name === 'temp') return path.join(userDataPath, 'temp');
+      return unavailable();
+    },
+    setRecentSessions: async () => {},
+    clearAssetIndexCache: () => wrap(async () => {
+      await fs.promises.rm(path.join(userDataPath, 'asset_index'), { recursive: true, force: true });
+    }),
+
+    minimize: () => {},
+    maximize: () => {},
+    close: () => {},
+
+    onFilesOpened: noListener,
+    onFolderOpened: noListener,
+    onMenuExportSelected: noListener,
+    onMenuExportAll: noListener,
+    onMenuSettings: noListener,
+    onMenuAbout: noListener,
+    onMenuSaveSession: noListener,
+    onMenuOpenSession: noListener,
+
+    oodle: {
+      init: async (customDllPath) => {
+        if (customDllPath) {
+          oodleDllPath = customDllPath;
+        }
+        const lib = await getOodle();
+        return lib
+          ? { success: true, dllPath: lib.getOodleDllPath() }
+          : { success: false, dllPath: null, error: 'Oodle not available; pass --oodle <dll>' };
+      },
+      isAvailable: async () => (await getOodle()) !== null,
+      getDllPath: async () => (await getOodle())?.getOodleDllPath() || null,
+      decompress: async (compressedData, decompressedSize) => {
+        const lib = await getOodle();
+        if (!lib) {
+          return { success: false, error: 'Oodle not available; pass --oodle <dll>' };
+        }
+        const result = lib.decompressOodle(compressedData, decompressedSize);
+        return result ? { success: true, data: Buffer.from(result.buffer, result.byteOffset, result.byteLength) } : { success: false, error: 'Decompression failed' };
+      },
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * RSX command line
+ * Runs exports without a window, either from the desktop app
+ * (`rsx export ...`) or from Node (`node dist/cli/rsx.js export ...`).
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { createNodeBridge } from './nodeBridge';
+import {
+  runExportCommand,
+  emit,
+  CliUsageError,
+  ExportCommandOptions,
+  EXIT_FAILED,
+  EXIT_USAGE,
+} from './exportCommand';
+
+const USAGE = `Usage: rsx export <paths...> --out <dir> [options]
+
+Exports assets from paks or folders of paks without opening a window.
+
+Options:
+  --out <dir>          Output folder (required)
+  --type <list>        Asset types to export, comma separated (e.g. txtr,matl)
+  --name <glob>        Asset name filter; * and ? are wildcards, otherwise a substring
+  --query <query>      Asset list query, e.g. "size>2MB NOT streamed:true"
+  --format <format>    Format id or extension (e.g. png, dds_mipmapped); types
+                       without it use their default format
+  --full-paths         Mirror asset name folders in the output folder
+  --settings <file>    Settings JSON applied over the user's settings
+  --oodle <dll>        Oodle DLL for Oodle-compressed paks
+  --verbose            Write loader logs to stderr
+  --help               Show this help
+
+Progress, results and errors are written to stdout as one JSON object per line.
+Exit codes: 0 all assets exported, 1 a file or asset failed or nothing matched,
+2 invalid arguments.`;
+
+export interface CliOptions {
+  // Folder for settings and caches; defaults to the desktop app's
+  userDataPath?: string;
+}
+
+interface ParsedArgs {
+  command: string | null;
+  positional: string[];
+  flags: Map<string, string | true>;
+}
+
+// Flags that don't take a value
+const BOOLEAN_FLAGS = new Set(['full-paths', 'verbose', 'help']);
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    // Both --name value and --name=value
+    const [name, inlineValue] = arg.substring(2).split(/=(.*)/s);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags.set(name, true);
+    } else if (inlineValue !== undefined) {
+      flags.set(name, inlineValue);
+    } else if (i + 1 < args.length) {
+      flags.set(name, args[++i]);
+    } else {
+      throw new CliUsageError(`Missing value for --${name}`);
+    }
+  }
+
+  return { command: positional.shift() || null, positional, flags };
+}
+
+function getStringFlag(flags: Map<string, string | true>, name: string): string | undefined {
+  const value = flags.get(name);
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function getExportOptions({ positional, flags }: ParsedArgs): ExportCommandOptions {
+  const known = new Set(['out', 'type', 'name', 'query', 'format', 'settings', 'oodle', ...BOOLEAN_FLAGS]);
+  for (const name of flags.keys()) {
+    if (!known.has(name)) {
+      throw new CliUsageError(`Unknown option --${name}`);
+    }
+  }
+
+  const outputDir = getStringFlag(flags, 'out');
+  if (positional.length === 0) {
+    throw new CliUsageError('No input paths given');
+  }
+  if (!outputDir) {
+    throw new CliUsageError('--out is required');
+  }
+
+  return {
+    paths: positional,
+    types: (getStringFlag(flags, 'type') || '').split(',').map(type => type.trim()).filter(Boolean),
+    name: getStringFlag(flags, 'name'),
+    query: getStringFlag(flags, 'query'),
+    format: getStringFlag(flags, 'format'),
+    outputDir: path.resolve(outputDir),
+    settingsFile: getStringFlag(flags, 'settings'),
+    fullPaths: flags.has('full-paths'),
+  };
+}
+
+/**
+ * The desktop app's userData folder, for runs outside Electron
+ */
+function getDefaultUserDataPath(): string {
+  switch (process.platform) {
+    case 'win32':
+      return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'rsx');
+    case 'darwin':
+      return path.join(os.homedir(), 'Library', 'Application Support', 'rsx');
+    default:
+      return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'rsx');
+  }
+}
+
+/**
+ * Route the loaders' console output to stderr, or drop it, so stdout only
+ * carries events
+ */
+function redirectLogs(verbose: boolean): void {
+  const write = verbose ? (...args: unknown[]) => console.error(...args) : () => {};
+  console.log = write;
+  console.info = write;
+  console.debug = write;
+  console.warn = write;
+}
+
+/**
+ * Run a command line
+ * @param args Arguments after the executable, starting with the command
+ * @returns Process exit code
+ */
+export async function runCli(args: string[], options: CliOptions = {}): Promise<number> {
+  try {
+    const parsed = parseArgs(args);
+    if (parsed.flags.has('help') || parsed.command === null) {
+      process.stderr.write(USAGE + '\n');
+      return parsed.flags.has('help') ? 0 : EXIT_USAGE;
+    }
+    if (parsed.command !== 'export') {
+      throw new CliUsageError(`Unknown command: ${parsed.command}`);
+    }
+
+    const exportOptions = getExportOptions(parsed);
+    redirectLogs(parsed.flags.has('verbose'));
+
+    const bridge = createNodeBridge(options.userDataPath || getDefaultUserDataPath(), getStringFlag(parsed.flags, 'oodle'));
+    Object.assign(globalThis, { window: { electron: bridge } });
+
+    return await runExportCommand(exportOptions);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      emit({ event: 'error', error: error.message });
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      return EXIT_USAGE;
+    }
+    emit({ event: 'error', error: (error as Error).message });
+    return EXIT_FAILED;
+  }
+}
+
+// Run directly with Node
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -3,8 +3,14 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { initOodle, isOodleAvailable, decompressOodle, getOodleDllPath, cleanupOodle } from './oodleDecompress';
 
+// Asset index cache folder under userData (see assetIndexCache.ts)
+const ASSET_INDEX_DIRECTORY = 'asset_index';
+
 let mainWindow: BrowserWindow | null = null;
 
+// Workspace session names listed under File > Recent Sessions, most recent first
+let recentSessions: string[] = [];
+
 // Check if we're in dev mode with Vite running
 const isDev = process.env.VITE_DEV_SERVER === 'true';
 
@@ -71,6 +77,21 @@ function createMenu(): void {
           click: () => handleOpenFolder(),
         },
         { type: 'separator' },
+        {
+          label: 'Save Session...',
+          accelerator: 'CmdOrCtrl+Shift+S',
+          click: () => mainWindow?.webContents.send('menu:save-session'),
+        },
+        {
+          label: 'Recent Sessions',
+          submenu: recentSessions.length > 0
+            ? recentSessions.map((name) => ({
+                label: name,
+                click: () => mainWindow?.webContents.send('menu:open-session', name),
+              }))
+            : [{ label: 'No Recent Sessions', enabled: false }],
+        },
+        { type: 'separator' },
         {
           label: 'Export Selected',
           accelerator: 'CmdOrCtrl+E',
@@ -177,6 +198,11 @@ async function handleOpenFolder(): Promise<void> {
 ipcMain.handle('dialog:openFile', handleOpenFile);
 ipcMain.handle('dialog:openFolder', handleOpenFolder);
 
+ipcMain.handle('sessions:setRecent', (_, names: string[]) => {
+  recentSessions = names;
+  createMenu();
+});
+
 ipcMain.handle('dialog:saveFile', async (_, defaultPath: string, filters: Electron.FileFilter[]) => {
   if (!mainWindow) return null;
 
@@ -200,6 +226,18 @@ ipcMain.handle('dialog:selectFolder', async () => {
   return result.canceled ? null : result.filePaths[0];
 });
 
+ipcMain.handle('dialog:selectFiles', async (_, filters: Electron.FileFilter[]) => {
+  if (!mainWindow) return null;
+
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: 'Select Files',
+    filters,
+    properties: ['openFile', 'multiSelections'],
+  });
+
+  return result.canceled ? null : result.filePaths;
+});
+
 ipcMain.handle('fs:readFile', async (_, filePath: string) => {
   try {
     const buffer = await fs.promises.readFile(filePath);
@@ -210,32 +248,77 @@ ipcMain.handle('fs:readFile', async (_, filePath: string) => {
 });
 
 ipcMain.handle('fs:readFileRange', async (_, filePath: string, offset: number, size: number) => {
+  let handle: fs.promises.FileHandle | null = null;
   try {
-    // Use createReadStream for large file support (handles >2GB files)
-    const chunks: Buffer[] = [];
-    
-    return new Promise((resolve) => {
-      const stream = fs.createReadStream(filePath, {
-        start: offset,
-        end: offset + size - 1,
-        highWaterMark: 64 * 1024, // 64KB chunks
-      });
-      
-      stream.on('data', (chunk) => {
-        chunks.push(Buffer.from(chunk));
-      });
-      
-      stream.on('end', () => {
-        const buffer = Buffer.concat(chunks);
-        resolve({ success: true, data: buffer });
-      });
-      
-      stream.on('error', (error: Error) => {
-        resolve({ success: false, error: error.message });
-      });
-    });
+    // Positional reads handle offsets past 2GB and fill one buffer directly
+    handle = await fs.promises.open(filePath, 'r');
+    const buffer = Buffer.allocUnsafe(size);
+    let bytesRead = 0;
+    while (bytesRead < size) {
+      const result = await handle.read(buffer, bytesRead, size - bytesRead, offset + bytesRead);
+      if (result.bytesRead === 0) break;
+      bytesRead += result.bytesRead;
+    }
+    return { success: true, data: buffer.subarray(0, bytesRead) };
   } catch (error) {
     return { success: false, error: (error as Error).message };
+  } finally {
+    await handle?.close();
+  }
+});
+
+// Chunk size and number of unacknowledged chunks for streamed reads
+const STREAM_CHUNK_SIZE = 16 * 1024 * 1024;
+const STREAM_MAX_IN_FLIGHT = 4;
+
+// Streams a file range to the renderer over a MessagePort in chunks, so large
+// reads never go through a single IPC message. The renderer acknowledges each
+// chunk, which bounds how much is buffered between the processes.
+ipcMain.on('fs:streamFileRange', async (event, request: { filePath: string; offset: number; size: number }) => {
+  const { filePath, offset, size } = request;
+  const [port] = event.ports;
+  if (!port) return;
+
+  let inFlight = 0;
+  let wakeUp: (() => void) | null = null;
+  let closed = false;
+  port.on('message', () => {
+    inFlight--;
+    wakeUp?.();
+  });
+  port.on('close', () => {
+    closed = true;
+    wakeUp?.();
+  });
+  port.start();
+
+  let handle: fs.promises.FileHandle | null = null;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+    let position = 0;
+
+    while (position < size && !closed) {
+      while (inFlight >= STREAM_MAX_IN_FLIGHT && !closed) {
+        await new Promise<void>((resolve) => { wakeUp = resolve; });
+        wakeUp = null;
+      }
+      if (closed) break;
+
+      const chunk = Buffer.allocUnsafe(Math.min(STREAM_CHUNK_SIZE, size - position));
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, offset + position);
+      if (bytesRead === 0) break;
+
+      port.postMessage({ type: 'chunk', offset: position, data: chunk.subarray(0, bytesRead) });
+      inFlight++;
+      position += bytesRead;
+    }
+
+    port.postMessage({ type: 'end', bytesRead: position });
+  } catch (error) {
+    port.postMessage({ type: 'error', error: (error as Error).message });
+  } finally {
+    await handle?.close();
+    port.close();
   }
 });
 
@@ -309,6 +392,7 @@ ipcMain.handle('fs:createDir', async (_, dirPath: string) => {
   }
 });
 
+
 ipcMain.handle('shell:openPath', async (_, pathToOpen: string) => {
   try {
     await shell.openPath(pathToOpen);
@@ -321,6 +405,16 @@ ipcMain.handle('app:getPath', (_, name: string) => {
   return app.getPath(name as any);
 });
 
+// Takes no path so the renderer can't delete anything outside the cache
+ipcMain.handle('cache:clearAssetIndex', async () => {
+  try {
+    await fs.promises.rm(path.join(app.getPath('userData'), ASSET_INDEX_DIRECTORY), { recursive: true, force: true });
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 ipcMain.handle('window:minimize', () => {
   mainWindow?.minimize();
 });
@@ -377,16 +471,27 @@ ipcMain.handle('oodle:decompress', async (_, compressedData: Uint8Array, decompr
   }
 });
 
-// App lifecycle
-app.whenReady().then(() => {
-  createWindow();
+// Command-line arguments after the executable (and the app path when unpackaged)
+const cliArgs = process.argv.slice(app.isPackaged ? 1 : 2);
 
-  app.on('activate', () => {
-    if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
-    }
+// App lifecycle
+if (cliArgs[0] === 'export') {
+  // Headless export: `rsx export <paths...>` runs the CLI without opening a window
+  app.whenReady().then(async () => {
+    const { runCli } = require('../cli/rsx.js');
+    app.exit(await runCli(cliArgs, { userDataPath: app.getPath('userData') }));
   });
-});
+} else {
+  app.whenReady().then(() => {
+    createWindow();
+
+    app.on('activate', () => {
+      if (BrowserWindow.getAllWindows().length === 0) {
+        createWindow();
+      }
+    });
+  });
+}
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
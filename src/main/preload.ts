@@ -41,10 +41,17 @@ export interface ElectronAPI {
   openFolder: () => Promise<void>;
   saveFile: (defaultPath: string, filters: Electron.FileFilter[]) => Promise<string | null>;
   selectFolder: () => Promise<string | null>;
+  selectFiles: (filters: Electron.FileFilter[]) => Promise<string[] | null>;
 
   // File system operations
   readFile: (filePath: string) => Promise<FileResult<Buffer>>;
   readFileRange: (filePath: string, offset: number, size: number) => Promise<FileResult<Buffer>>;
+  streamFileRange: (
+    filePath: string,
+    offset: number,
+    size: number,
+    onChunk: (chunk: Uint8Array, chunkOffset: number) => void
+  ) => Promise<FileResult<number>>;
   writeFile: (filePath: string, data: Buffer | Uint8Array) => Promise<FileResult<void>>;
   readDir: (dirPath: string) => Promise<FileResult<FileEntry[]>>;
   exists: (filePath: string) => Promise<boolean>;
@@ -55,6 +62,8 @@ export interface ElectronAPI {
 
   // App operations
   getPath: (name: string) => Promise<string>;
+  setRecentSessions: (names: string[]) => Promise<void>;
+  clearAssetIndexCache: () => Promise<FileResult<void>>;
 
   // Window operations
   minimize: () => void;
@@ -68,6 +77,8 @@ export interface ElectronAPI {
   onMenuExportAll: (callback: () => void) => () => void;
   onMenuSettings: (callback: () => void) => () => void;
   onMenuAbout: (callback: () => void) => () => void;
+  onMenuSaveSession: (callback: () => void) => () => void;
+  onMenuOpenSession: (callback: (name: string) => void) => () => void;
 
   // Oodle decompression
   oodle: OodleAPI;
@@ -79,10 +90,28 @@ const electronAPI: ElectronAPI = {
   openFolder: () => ipcRenderer.invoke('dialog:openFolder'),
   saveFile: (defaultPath, filters) => ipcRenderer.invoke('dialog:saveFile', defaultPath, filters),
   selectFolder: () => ipcRenderer.invoke('dialog:selectFolder'),
+  selectFiles: (filters) => ipcRenderer.invoke('dialog:selectFiles', filters),
 
   // File system operations
   readFile: (filePath) => ipcRenderer.invoke('fs:readFile', filePath),
   readFileRange: (filePath, offset, size) => ipcRenderer.invoke('fs:readFileRange', filePath, offset, size),
+  streamFileRange: (filePath, offset, size, onChunk) => new Promise((resolve) => {
+    // Chunks arrive over a dedicated port and are acknowledged one by one
+    const { port1, port2 } = new MessageChannel();
+    port1.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'chunk') {
+        onChunk(message.data, message.offset);
+        port1.postMessage('ack');
+      } else {
+        port1.close();
+        resolve(message.type === 'end'
+          ? { success: true, data: message.bytesRead }
+          : { success: false, error: message.error });
+      }
+    };
+    ipcRenderer.postMessage('fs:streamFileRange', { filePath, offset, size }, [port2]);
+  }),
   writeFile: (filePath, data) => ipcRenderer.invoke('fs:writeFile', filePath, data),
   readDir: (dirPath) => ipcRenderer.invoke('fs:readDir', dirPath),
   exists: (filePath) => ipcRenderer.invoke('fs:exists', filePath),
@@ -93,6 +122,8 @@ const electronAPI: ElectronAPI = {
 
   // App operations
   getPath: (name) => ipcRenderer.invoke('app:getPath', name),
+  setRecentSessions: (names) => ipcRenderer.invoke('sessions:setRecent', names),
+  clearAssetIndexCache: () => ipcRenderer.invoke('cache:clearAssetIndex'),
 
   // Window operations
   minimize: () => ipcRenderer.invoke('window:minimize'),
@@ -130,6 +161,16 @@ const electronAPI: ElectronAPI = {
     ipcRenderer.on('menu:about', handler);
     return () => ipcRenderer.removeListener('menu:about', handler);
   },
+  onMenuSaveSession: (callback) => {
+    const handler = () => callback();
+    ipcRenderer.on('menu:save-session', handler);
+    return () => ipcRenderer.removeListener('menu:save-session', handler);
+  },
+  onMenuOpenSession: (callback) => {
+    const handler = (_: IpcRendererEvent, name: string) => callback(name);
+    ipcRenderer.on('menu:open-session', handler);
+    return () => ipcRenderer.removeListener('menu:open-session', handler);
+  },
 
   // Oodle decompression
   oodle: {
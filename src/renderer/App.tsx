@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { TitleBar } from './components/TitleBar';
 import { Sidebar } from './components/Sidebar';
 import { AssetList } from './components/AssetList';
@@ -7,26 +7,132 @@ import { StatusBar } from './components/StatusBar';
 import { SettingsPage } from './components/SettingsPage';
 import { AboutModal } from './components/AboutModal';
 import { ExportDialog } from './components/ExportDialog';
-import { useAssetStore } from './stores/assetStore';
+import { PakDiffModal } from './components/PakDiffModal';
+import { PakValidatorModal } from './components/PakValidatorModal';
+import { GameProfilesModal } from './components/GameProfilesModal';
+import { ContentSearchModal } from './components/ContentSearchModal';
+import { WorkspaceSessionsModal } from './components/WorkspaceSessionsModal';
+import { useAssetStore, getLoadedAssets } from './stores/assetStore';
 import { useSettingsStore } from './stores/settingsStore';
+import { useWorkspaceStore, getWorkspace, updateWorkspace } from './stores/workspaceStore';
+import { workspaceSessions, WorkspaceSession } from './services/workspaceSessions';
 import './styles/App.css';
 
 type AppPage = 'main' | 'settings';
 
+// Delay before the workspace is snapshotted for restoring on launch
+const SESSION_AUTOSAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<AppPage>('main');
   const [showAbout, setShowAbout] = useState(false);
   const [showExportAll, setShowExportAll] = useState(false);
+  const [showPakDiff, setShowPakDiff] = useState(false);
+  const [showPakValidator, setShowPakValidator] = useState(false);
+  const [showGameProfiles, setShowGameProfiles] = useState(false);
+  const [showContentSearch, setShowContentSearch] = useState(false);
+  const [showSessions, setShowSessions] = useState(false);
   const [sidebarWidth, setSidebarWidth] = useState(250);
   const [assetListWidth, setAssetListWidth] = useState(450);
+  const { workspace, setQuery: setAssetQuery } = useWorkspaceStore();
+  const assetQuery = workspace.query;
 
-  const { loadFiles, loadFolder, selectedAsset, selectedAssets, assets } = useAssetStore();
+  const {
+    loadFiles,
+    loadFolder,
+    replaceWorkingSet,
+    clearAll,
+    selectAsset,
+    setStatus,
+    loadedFiles,
+    selectedAsset,
+    selectedAssets,
+    assets,
+  } = useAssetStore();
   const { loadSettings } = useSettingsStore();
 
-  // Load settings on mount
+  // Set once the last session has been restored, so it isn't overwritten before then
+  const sessionRestoredRef = useRef(false);
+
+  const captureSession = useCallback((name: string): WorkspaceSession => ({
+    ...getWorkspace(),
+    name,
+    lastUsedAt: new Date().toISOString(),
+    loadedFiles,
+    selectedGuid: selectedAsset?.guid || null,
+  }), [loadedFiles, selectedAsset]);
+
+  const restoreSession = useCallback(async (session: WorkspaceSession) => {
+    const { query, typeFilter, preview, exportChoices, loadedFiles: files, selectedGuid } = session;
+    updateWorkspace({ query, typeFilter, preview, exportChoices });
+
+    const existing: string[] = [];
+    for (const file of files) {
+      if (await window.electron.exists(file)) {
+        existing.push(file);
+      }
+    }
+    if (existing.length > 0) {
+      await replaceWorkingSet(existing);
+    } else {
+      clearAll();
+    }
+
+    const selected = selectedGuid ? getLoadedAssets().find(asset => asset.guid === selectedGuid) : undefined;
+    if (selected) {
+      selectAsset(selected);
+    }
+
+    const missing = files.length - existing.length;
+    const label = session.name ? `session "${session.name}"` : 'last session';
+    setStatus(missing > 0
+      ? `Restored ${label} (${missing} file${missing === 1 ? '' : 's'} no longer found)`
+      : `Restored ${label}`);
+  }, [replaceWorkingSet, clearAll, selectAsset, setStatus]);
+
+  const handleSaveSession = useCallback(async (name: string) => {
+    await workspaceSessions.saveSession(captureSession(name));
+    setStatus(`Saved session "${name}"`);
+  }, [captureSession, setStatus]);
+
+  const handleOpenSession = useCallback(async (name: string) => {
+    await workspaceSessions.load();
+    const session = workspaceSessions.getSession(name);
+    if (!session) {
+      setStatus(`Session "${name}" no longer exists`);
+      return;
+    }
+    await workspaceSessions.touchSession(name);
+    await restoreSession(session);
+  }, [restoreSession, setStatus]);
+
+  // Load settings on mount, then restore the last session once (not when
+  // restoreSession changes). Parsing reads the thread count and caching settings.
   useEffect(() => {
-    loadSettings();
-  }, [loadSettings]);
+    loadSettings()
+      .then(() => workspaceSessions.load())
+      .then(async () => {
+        const lastSession = workspaceSessions.getLastSession();
+        if (lastSession) {
+          await restoreSession(lastSession);
+        }
+      })
+      .catch(error => console.error('[Sessions] Failed to restore the last session:', error))
+      .finally(() => {
+        sessionRestoredRef.current = true;
+      });
+  }, []);
+
+  // Snapshot the workspace as it changes so it can be restored on the next launch
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    const timer = setTimeout(() => {
+      workspaceSessions.setLastSession(captureSession('')).catch(error => {
+        console.error('[Sessions] Failed to save the last session:', error);
+      });
+    }, SESSION_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [captureSession, workspace]);
 
   // Set up IPC event listeners
   useEffect(() => {
@@ -56,6 +162,18 @@ const App: React.FC = () => {
       })
     );
 
+    cleanupFns.push(
+      window.electron.onMenuSaveSession(() => {
+        setShowSessions(true);
+      })
+    );
+
+    cleanupFns.push(
+      window.electron.onMenuOpenSession((name) => {
+        handleOpenSession(name);
+      })
+    );
+
     // Export menu handlers
     cleanupFns.push(
       window.electron.onMenuExportSelected(() => {
@@ -81,7 +199,7 @@ const App: React.FC = () => {
     return () => {
       cleanupFns.forEach((fn) => fn());
     };
-  }, [loadFiles, loadFolder, selectedAssets, selectedAsset, assets]);
+  }, [loadFiles, loadFolder, handleOpenSession, selectedAssets, selectedAsset, assets]);
 
   const handleOpenFile = useCallback(() => {
     window.electron.openFile();
@@ -124,11 +242,20 @@ const App: React.FC = () => {
           onOpenFolder={handleOpenFolder}
           onOpenSettings={handleOpenSettings}
           onExportAll={handleExportAll}
+          onComparePaks={() => setShowPakDiff(true)}
+          onValidatePaks={() => setShowPakValidator(true)}
+          onGameProfiles={() => setShowGameProfiles(true)}
+          onSearchContent={() => setShowContentSearch(true)}
+          onSessions={() => setShowSessions(true)}
+          assetQuery={assetQuery}
+          onApplyQuery={setAssetQuery}
         />
         
         <AssetList 
           width={assetListWidth} 
           onWidthChange={setAssetListWidth} 
+          query={assetQuery}
+          onQueryChange={setAssetQuery}
         />
         
         <PreviewPanel asset={selectedAsset} />
@@ -140,6 +267,30 @@ const App: React.FC = () => {
         <AboutModal onClose={() => setShowAbout(false)} />
       )}
 
+      {showPakDiff && (
+        <PakDiffModal onClose={() => setShowPakDiff(false)} />
+      )}
+
+      {showPakValidator && (
+        <PakValidatorModal onClose={() => setShowPakValidator(false)} />
+      )}
+
+      {showGameProfiles && (
+        <GameProfilesModal onClose={() => setShowGameProfiles(false)} />
+      )}
+
+      {showContentSearch && (
+        <ContentSearchModal onClose={() => setShowContentSearch(false)} />
+      )}
+
+      {showSessions && (
+        <WorkspaceSessionsModal
+          onClose={() => setShowSessions(false)}
+          onSave={handleSaveSession}
+          onOpen={handleOpenSession}
+        />
+      )}
+
       {/* Export All Dialog - triggered from menu */}
       {showExportAll && (
         <ExportDialog
@@ -2,43 +2,54 @@ import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { FixedSizeList as List } from 'react-window';
 import AutoSizer from 'react-virtualized-auto-sizer';
 import { useAssetStore } from '../stores/assetStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
 import { Asset, AssetType } from '../types/asset';
 import { getAssetTypeColor, getAssetTypeBadgeClass } from '../utils/assetUtils';
+import { compileAssetQuery, AssetPredicate, AssetQueryError } from '../services/assetQuery';
 import { ExportDialog } from './ExportDialog';
+import { AssetTree } from './AssetTree';
 import './AssetList.css';
 
 interface AssetListProps {
   width: number;
   onWidthChange: (width: number) => void;
+  query: string;
+  onQueryChange: (query: string) => void;
 }
 
 type SortField = 'type' | 'name' | 'guid' | 'file';
 type SortDirection = 'asc' | 'desc';
+type ViewMode = 'list' | 'tree';
 
 const ROW_HEIGHT = 36;
 
-export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) => {
+export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange, query, onQueryChange }) => {
   const { assets, selectedAsset, selectAsset, selectedAssets, toggleAssetSelection } = useAssetStore();
   
-  const [searchQuery, setSearchQuery] = useState('');
-  const [typeFilter, setTypeFilter] = useState<AssetType | 'all'>('all');
+  const { workspace: { typeFilter }, setTypeFilter } = useWorkspaceStore();
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
-  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [exportTargets, setExportTargets] = useState<Asset[] | null>(null);
   const listRef = useRef<List>(null);
 
+  const { predicate, queryError } = useMemo((): { predicate: AssetPredicate | null; queryError: AssetQueryError | null } => {
+    try {
+      return { predicate: compileAssetQuery(query, assets), queryError: null };
+    } catch (error) {
+      if (error instanceof AssetQueryError) {
+        return { predicate: null, queryError: error };
+      }
+      throw error;
+    }
+  }, [query, assets]);
+
   const filteredAssets = useMemo(() => {
     let result = assets;
 
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(
-        (asset) =>
-          asset.name.toLowerCase().includes(query) ||
-          asset.guid.toLowerCase().includes(query) ||
-          asset.containerFile.toLowerCase().includes(query)
-      );
+    // Apply search query
+    if (predicate) {
+      result = result.filter(predicate);
     }
 
     // Apply type filter
@@ -67,7 +78,7 @@ export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) =>
     });
 
     return result;
-  }, [assets, searchQuery, typeFilter, sortField, sortDirection]);
+  }, [assets, predicate, typeFilter, sortField, sortDirection]);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -138,16 +149,19 @@ export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) =>
     <>
       <div className="asset-list" style={{ width }}>
         <div className="asset-list-header">
-          <div className="asset-list-search">
+          <div
+            className={`asset-list-search ${queryError ? 'invalid' : ''}`}
+            title="Search by name, or with terms like type:txtr size>2MB NOT streamed:true, combined with AND/OR/NOT"
+          >
             <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <circle cx="11" cy="11" r="8" />
               <path d="M21 21l-4.35-4.35" />
             </svg>
             <input
               type="text"
-              placeholder="Search assets..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search assets... (type:txtr name:*wraith* size>2MB)"
+              value={query}
+              onChange={(e) => onQueryChange(e.target.value)}
             />
           </div>
           <select
@@ -162,28 +176,61 @@ export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) =>
               </option>
             ))}
           </select>
+          <button
+            className="btn btn-ghost btn-icon"
+            onClick={() => setViewMode(viewMode === 'list' ? 'tree' : 'list')}
+            title={viewMode === 'list' ? 'Show as folder tree' : 'Show as flat list'}
+          >
+            {viewMode === 'list' ? (
+              <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
+              </svg>
+            ) : (
+              <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="8" y1="6" x2="21" y2="6" />
+                <line x1="8" y1="12" x2="21" y2="12" />
+                <line x1="8" y1="18" x2="21" y2="18" />
+                <line x1="3" y1="6" x2="3.01" y2="6" />
+                <line x1="3" y1="12" x2="3.01" y2="12" />
+                <line x1="3" y1="18" x2="3.01" y2="18" />
+              </svg>
+            )}
+          </button>
         </div>
+        {queryError && (
+          <div className="asset-list-query-error">{queryError.message} (at character {queryError.position + 1})</div>
+        )}
 
         <div className="asset-list-table-container">
           {/* Header */}
-          <div className="asset-list-table-header">
-            <div className="asset-header-cell type-cell sortable" onClick={() => handleSort('type')}>
-              Type <SortIcon field="type" />
-            </div>
-            <div className="asset-header-cell name-cell sortable" onClick={() => handleSort('name')}>
-              Name <SortIcon field="name" />
-            </div>
-            <div className="asset-header-cell guid-cell sortable" onClick={() => handleSort('guid')}>
-              GUID <SortIcon field="guid" />
-            </div>
-            <div className="asset-header-cell file-cell sortable" onClick={() => handleSort('file')}>
-              File <SortIcon field="file" />
+          {viewMode === 'list' && (
+            <div className="asset-list-table-header">
+              <div className="asset-header-cell type-cell sortable" onClick={() => handleSort('type')}>
+                Type <SortIcon field="type" />
+              </div>
+              <div className="asset-header-cell name-cell sortable" onClick={() => handleSort('name')}>
+                Name <SortIcon field="name" />
+              </div>
+              <div className="asset-header-cell guid-cell sortable" onClick={() => handleSort('guid')}>
+                GUID <SortIcon field="guid" />
+              </div>
+              <div className="asset-header-cell file-cell sortable" onClick={() => handleSort('file')}>
+                File <SortIcon field="file" />
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Virtualized List */}
           <div className="asset-list-body">
-            {filteredAssets.length > 0 ? (
+            {filteredAssets.length > 0 && viewMode === 'tree' ? (
+              <AssetTree
+                assets={filteredAssets}
+                selectedAsset={selectedAsset}
+                selectedAssets={selectedAssets}
+                onAssetClick={handleRowClick}
+                onExportFolder={setExportTargets}
+              />
+            ) : filteredAssets.length > 0 ? (
               <AutoSizer>
                 {({ height, width: autoWidth }) => (
                   <List
@@ -248,7 +295,7 @@ export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) =>
               <span>{selectedAssets.size.toLocaleString()} selected</span>
               <button 
                 className="btn btn-primary btn-xs"
-                onClick={() => setShowExportDialog(true)}
+                onClick={() => setExportTargets(selectedAssetObjects)}
               >
                 Export Selected
               </button>
@@ -259,11 +306,11 @@ export const AssetList: React.FC<AssetListProps> = ({ width, onWidthChange }) =>
       <div className="resizer" onMouseDown={handleResizeStart} />
 
       {/* Export Dialog */}
-      {showExportDialog && selectedAssetObjects.length > 0 && (
+      {exportTargets && exportTargets.length > 0 && (
         <ExportDialog
-          assets={selectedAssetObjects}
+          assets={exportTargets}
           allAssets={assets}
-          onClose={() => setShowExportDialog(false)}
+          onClose={() => setExportTargets(null)}
         />
       )}
     </>
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { FixedSizeList as List } from 'react-window';
+import AutoSizer from 'react-virtualized-auto-sizer';
+import { Asset } from '../types/asset';
+import { getAssetTypeBadgeClass, formatFileSize } from '../utils/assetUtils';
+import { getAssetDataSize } from '../services/assetQuery';
+import './AssetTree.css';
+
+interface AssetTreeProps {
+  assets: Asset[];
+  selectedAsset: Asset | null;
+  selectedAssets: Set<string>;
+  onAssetClick: (asset: Asset, event: React.MouseEvent) => void;
+  onExportFolder: (assets: Asset[]) => void;
+}
+
+interface FolderNode {
+  name: string;
+  // Path from the root, '/' separated
+  path: string;
+  folders: Map<string, FolderNode>;
+  assets: Asset[];
+  // Totals including subfolders
+  count: number;
+  size: number;
+}
+
+type TreeRow =
+  | { kind: 'folder'; node: FolderNode; depth: number }
+  | { kind: 'asset'; asset: Asset; name: string; depth: number };
+
+const ROW_HEIGHT = 28;
+const INDENT = 16;
+
+// Path of the group holding assets without a resolved name
+const UNNAMED_PATH = '\0unnamed';
+
+function createFolder(name: string, path: string): FolderNode {
+  return { name, path, folders: new Map(), assets: [], count: 0, size: 0 };
+}
+
+/**
+ * Assets whose name is still their GUID
+ */
+function isUnnamed(asset: Asset): boolean {
+  return !asset.name || /^(0x)?[0-9a-f]{16}$/i.test(asset.name);
+}
+
+function getPathParts(name: string): string[] {
+  return name.split(/[/\\]+/).filter(Boolean);
+}
+
+/**
+ * Build the folder tree from asset name paths
+ */
+function buildAssetTree(assets: Asset[]): FolderNode {
+  const root = createFolder('', '');
+  const unnamed = createFolder('(unnamed)', UNNAMED_PATH);
+
+  for (const asset of assets) {
+    const size = getAssetDataSize(asset);
+    if (isUnnamed(asset)) {
+      unnamed.assets.push(asset);
+      unnamed.count++;
+      unnamed.size += size;
+      continue;
+    }
+
+    const parts = getPathParts(asset.name);
+    let folder = root;
+    folder.count++;
+    folder.size += size;
+    for (let i = 0; i < parts.length - 1; i++) {
+      let child = folder.folders.get(parts[i]);
+      if (!child) {
+        child = createFolder(parts[i], folder.path ? `${folder.path}/${parts[i]}` : parts[i]);
+        folder.folders.set(parts[i], child);
+      }
+      folder = child;
+      folder.count++;
+      folder.size += size;
+    }
+    folder.assets.push(asset);
+  }
+
+  if (unnamed.count > 0) {
+    root.folders.set(UNNAMED_PATH, unnamed);
+    root.count += unnamed.count;
+    root.size += unnamed.size;
+  }
+  return root;
+}
+
+/**
+ * Every asset in a folder and its subfolders
+ */
+function collectFolderAssets(node: FolderNode): Asset[] {
+  const result: Asset[] = [...node.assets];
+  for (const child of node.folders.values()) {
+    for (const asset of collectFolderAssets(child)) {
+      result.push(asset);
+    }
+  }
+  return result;
+}
+
+function getSortedFolders(node: FolderNode): FolderNode[] {
+  // The unnamed group always comes last
+  return Array.from(node.folders.values()).sort((a, b) =>
+    Number(a.path === UNNAMED_PATH) - Number(b.path === UNNAMED_PATH) || a.name.localeCompare(b.name)
+  );
+}
+
+export const AssetTree: React.FC<AssetTreeProps> = ({
+  assets,
+  selectedAsset,
+  selectedAssets,
+  onAssetClick,
+  onExportFolder,
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const root = useMemo(() => buildAssetTree(assets), [assets]);
+
+  // Flatten the expanded part of the tree for the virtualised list
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const addFolder = (node: FolderNode, depth: number) => {
+      for (const folder of getSortedFolders(node)) {
+        result.push({ kind: 'folder', node: folder, depth });
+        if (expanded.has(folder.path)) {
+          addFolder(folder, depth + 1);
+        }
+      }
+      for (const asset of node.assets) {
+        const parts = getPathParts(asset.name);
+        result.push({ kind: 'asset', asset, name: parts[parts.length - 1] || asset.guid, depth });
+      }
+    };
+    addFolder(root, 0);
+    return result;
+  }, [root, expanded]);
+
+  const toggleFolder = (path: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="asset-tree">
+      <AutoSizer>
+        {({ height, width }) => (
+          <List
+            height={height || 400}
+            width={width || 500}
+            itemCount={rows.length}
+            itemSize={ROW_HEIGHT}
+            overscanCount={10}
+          >
+            {({ index, style }) => {
+              const row = rows[index];
+              const indent = { paddingLeft: row.depth * INDENT + 8 };
+
+              if (row.kind === 'folder') {
+                const isExpanded = expanded.has(row.node.path);
+                return (
+                  <div
+                    style={{ ...style, ...indent }}
+                    className="asset-tree-row folder"
+                    onClick={() => toggleFolder(row.node.path)}
+                  >
+                    <svg className={`asset-tree-chevron ${isExpanded ? 'expanded' : ''}`} viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M10 7l5 5-5 5V7z" />
+                    </svg>
+                    <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z" />
+                    </svg>
+                    <span className="asset-tree-name truncate" title={row.node.path === UNNAMED_PATH ? 'Assets without a resolved name' : row.node.path}>
+                      {row.node.name}
+                    </span>
+                    <span className="asset-tree-stats">
+                      {row.node.count.toLocaleString()} · {formatFileSize(row.node.size)}
+                    </span>
+                    <button
+                      className="btn btn-ghost btn-xs asset-tree-export"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onExportFolder(collectFolderAssets(row.node));
+                      }}
+                      title="Export folder"
+                    >
+                      Export
+                    </button>
+                  </div>
+                );
+              }
+
+              const isSelected = selectedAsset?.guid === row.asset.guid;
+              const isMultiSelected = selectedAssets.has(row.asset.guid);
+              return (
+                <div
+                  style={{ ...style, ...indent }}
+                  className={`asset-tree-row asset-row ${isSelected ? 'selected' : ''} ${isMultiSelected ? 'multi-selected' : ''}`}
+                  onClick={(e) => onAssetClick(row.asset, e)}
+                >
+                  <span className={`badge badge-sm ${getAssetTypeBadgeClass(row.asset.type)}`}>{row.asset.type}</span>
+                  <span className="asset-tree-name truncate" title={row.asset.name}>{row.name}</span>
+                </div>
+              );
+            }}
+          </List>
+        )}
+      </AutoSizer>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { contentSearchIndex, ContentEntry } from '../services/contentSearch';
+import { useAssetStore } from '../stores/assetStore';
+import { getAssetTypeBadgeClass } from '../utils/assetUtils';
+import './ContentSearchModal.css';
+
+interface ContentSearchModalProps {
+  onClose: () => void;
+}
+
+// Matches listed at once
+const MAX_RESULTS = 500;
+
+// Shortest query that is searched
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Split a string around the first case-insensitive occurrence of the query
+ */
+function highlightMatch(text: string, query: string): React.ReactNode {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index < 0) return text;
+  return (
+    <>
+      {text.substring(0, index)}
+      <mark>{text.substring(index, index + query.length)}</mark>
+      {text.substring(index + query.length)}
+    </>
+  );
+}
+
+export const ContentSearchModal: React.FC<ContentSearchModalProps> = ({ onClose }) => {
+  const { assets, revealAsset, setStatus } = useAssetStore();
+  const [query, setQuery] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [indexVersion, setIndexVersion] = useState(0);
+
+  // Build (or refresh) the index in the background when the modal opens
+  useEffect(() => {
+    let cancelled = false;
+    if (!contentSearchIndex.isCurrent()) {
+      setProgress('Indexing...');
+    }
+    contentSearchIndex.sync(assets, (indexed, total) => {
+      if (!cancelled) setProgress(`Indexing ${indexed.toLocaleString()} of ${total.toLocaleString()} assets...`);
+    }).then(() => {
+      if (cancelled) return;
+      setProgress(null);
+      setIndexVersion(version => version + 1);
+    });
+    return () => { cancelled = true; };
+  }, [assets]);
+
+  const trimmedQuery = query.trim();
+  const results = useMemo(() => {
+    if (trimmedQuery.length < MIN_QUERY_LENGTH) return null;
+    return contentSearchIndex.search(trimmedQuery, MAX_RESULTS);
+  }, [trimmedQuery, indexVersion]);
+
+  const assetsByGuid = useMemo(() => new Map(assets.map(asset => [asset.guid, asset])), [assets]);
+
+  const handleResultClick = (match: ContentEntry) => {
+    const asset = assetsByGuid.get(match.guid);
+    if (!asset) {
+      setStatus(`${match.assetName} is no longer loaded`);
+      return;
+    }
+    revealAsset(asset, match.location);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal content-search-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Search Content</h2>
+          <button className="btn btn-ghost btn-icon" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="content-search-toolbar">
+          <input
+            type="text"
+            placeholder="Search datatables, settings, localisation, subtitles, RSON, materials and shaders..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+          />
+          <span className="content-search-muted">
+            {progress || `${contentSearchIndex.size.toLocaleString()} strings indexed`}
+          </span>
+        </div>
+
+        <div className="modal-content content-search-results">
+          {!results && (
+            <p className="content-search-muted">
+              Type at least {MIN_QUERY_LENGTH} characters. Only parsed paks are searched; paks listed from the index cache are included once they have been opened.
+            </p>
+          )}
+          {results && results.total === 0 && !progress && (
+            <p className="content-search-muted">No matches</p>
+          )}
+          {results && results.matches.map((match, index) => (
+            <div
+              key={`${match.guid}:${index}`}
+              className="content-search-result"
+              onClick={() => handleResultClick(match)}
+            >
+              <div className="content-search-result-header">
+                <span className={`badge badge-sm ${getAssetTypeBadgeClass(match.assetType)}`}>{match.assetType}</span>
+                <span className="truncate" title={match.assetName}>{match.assetName}</span>
+                <span className="content-search-context mono">{match.context}</span>
+              </div>
+              <div className="content-search-text">{highlightMatch(match.text, trimmedQuery)}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="modal-footer">
+          {results && results.total > results.matches.length && (
+            <span className="content-search-muted">
+              Showing {results.matches.length.toLocaleString()} of {results.total.toLocaleString()} matches
+            </span>
+          )}
+          <button className="btn btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useRef, useEffect } from 'react';
+import * as THREE from 'three';
+import './CubemapSkybox.css';
+
+interface CubemapSkyboxProps {
+  // Decoded RGBA faces in +X, -X, +Y, -Y, +Z, -Z order
+  faces: Uint8Array[];
+  size: number;
+}
+
+/**
+ * Create a canvas holding one RGBA cubemap face
+ */
+function createFaceCanvas(rgba: Uint8Array, size: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const imageData = ctx.createImageData(size, size);
+  imageData.data.set(rgba.subarray(0, size * size * 4));
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * Cubemap shown as the background of a 3D scene, viewed from the inside.
+ * Drag to look around and scroll to change the field of view.
+ */
+export const CubemapSkybox: React.FC<CubemapSkyboxProps> = ({ faces, size }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current || faces.length !== 6) return;
+
+    const container = containerRef.current;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+
+    const cubeTexture = new THREE.CubeTexture(faces.map(face => createFaceCanvas(face, size)));
+    cubeTexture.colorSpace = THREE.SRGBColorSpace;
+    cubeTexture.needsUpdate = true;
+
+    const scene = new THREE.Scene();
+    scene.background = cubeTexture;
+
+    const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 10);
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(width, height);
+    renderer.setPixelRatio(window.devicePixelRatio);
+    renderer.outputColorSpace = THREE.SRGBColorSpace;
+    container.appendChild(renderer.domElement);
+
+    // Look direction as yaw and pitch
+    let yaw = 0;
+    let pitch = 0;
+    let isDragging = false;
+    let previousMousePosition = { x: 0, y: 0 };
+
+    const updateCamera = () => {
+      const direction = new THREE.Vector3(
+        Math.sin(yaw) * Math.cos(pitch),
+        Math.sin(pitch),
+        -Math.cos(yaw) * Math.cos(pitch)
+      );
+      camera.lookAt(direction);
+    };
+    updateCamera();
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return;
+      isDragging = true;
+      previousMousePosition = { x: e.clientX, y: e.clientY };
+      e.preventDefault();
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isDragging) return;
+
+      // Scale with the field of view so dragging follows the cursor
+      const rotateSpeed = THREE.MathUtils.degToRad(camera.fov) / container.clientHeight;
+      yaw -= (e.clientX - previousMousePosition.x) * rotateSpeed;
+      pitch = Math.max(-Math.PI / 2 + 0.01, Math.min(Math.PI / 2 - 0.01, pitch + (e.clientY - previousMousePosition.y) * rotateSpeed));
+
+      updateCamera();
+      previousMousePosition = { x: e.clientX, y: e.clientY };
+    };
+
+    const handleMouseUp = () => {
+      isDragging = false;
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      camera.fov = Math.max(20, Math.min(120, camera.fov + e.deltaY * 0.05));
+      camera.updateProjectionMatrix();
+    };
+
+    container.addEventListener('mousedown', handleMouseDown);
+    container.addEventListener('mousemove', handleMouseMove);
+    container.addEventListener('mouseup', handleMouseUp);
+    container.addEventListener('mouseleave', handleMouseUp);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+
+    // Animation loop
+    let animationId: number;
+    const animate = () => {
+      animationId = requestAnimationFrame(animate);
+      renderer.render(scene, camera);
+    };
+    animate();
+
+    // Resize handler
+    const handleResize = () => {
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      renderer.setSize(width, height);
+    };
+
+    const resizeObserver = new ResizeObserver(handleResize);
+    resizeObserver.observe(container);
+
+    // Cleanup
+    return () => {
+      cancelAnimationFrame(animationId);
+      resizeObserver.disconnect();
+      container.removeEventListener('mousedown', handleMouseDown);
+      container.removeEventListener('mousemove', handleMouseMove);
+      container.removeEventListener('mouseup', handleMouseUp);
+      container.removeEventListener('mouseleave', handleMouseUp);
+      container.removeEventListener('wheel', handleWheel);
+      cubeTexture.dispose();
+      renderer.dispose();
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
+      }
+    };
+  }, [faces, size]);
+
+  return <div ref={containerRef} className="cubemap-skybox" />;
+};
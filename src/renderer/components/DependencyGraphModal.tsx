@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Asset } from '../types/asset';
+import {
+  createDependencyGraph,
+  expandNode,
+  expandToDepth,
+  collapseNode,
+  graphToDot,
+  graphToJson,
+  DependencyGraph,
+  GraphNode,
+} from '../services/dependencyGraph';
+import { REFERENCE_KIND_LABELS } from '../services/assetReferences';
+import { useAssetStore, hasIndexedPaks, loadIndexedPaks } from '../stores/assetStore';
+import './DependencyGraphModal.css';
+
+interface DependencyGraphModalProps {
+  asset: Asset;
+  assetsByGuid: Map<string, Asset>;
+  onClose: () => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 90;
+const ROW_GAP = 14;
+const PADDING = 20;
+
+interface NodeLayout {
+  node: GraphNode;
+  x: number;
+  y: number;
+}
+
+/**
+ * Place nodes in columns by their shortest distance from the root
+ */
+function layoutGraph(graph: DependencyGraph): { nodes: Map<string, NodeLayout>; width: number; height: number } {
+  const levels = new Map<string, number>([[graph.rootGuid, 0]]);
+  const queue = [graph.rootGuid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.from === current && !levels.has(edge.to)) {
+        levels.set(edge.to, levels.get(current)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const columns: GraphNode[][] = [];
+  for (const node of graph.nodes.values()) {
+    const level = levels.get(node.guid) ?? 0;
+    (columns[level] ||= []).push(node);
+  }
+
+  const nodes = new Map<string, NodeLayout>();
+  let maxRows = 0;
+  columns.forEach((column, level) => {
+    maxRows = Math.max(maxRows, column.length);
+    column.forEach((node, row) => {
+      nodes.set(node.guid, {
+        node,
+        x: PADDING + level * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  return {
+    nodes,
+    width: PADDING * 2 + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * COLUMN_GAP,
+    height: PADDING * 2 + maxRows * NODE_HEIGHT + Math.max(0, maxRows - 1) * ROW_GAP,
+  };
+}
+
+export const DependencyGraphModal: React.FC<DependencyGraphModalProps> = ({ asset, assetsByGuid, onClose }) => {
+  const { selectAsset, setStatus } = useAssetStore();
+  const [graph, setGraph] = useState<DependencyGraph>(() => expandNode(createDependencyGraph(asset.guid), asset.guid.toUpperCase()));
+
+  // References are followed through the parsers of the loaded paks, so paks
+  // listed from the asset index cache are parsed and the graph rebuilt
+  useEffect(() => {
+    if (!hasIndexedPaks()) return;
+    let cancelled = false;
+    setStatus('Loading paks listed from the index cache...');
+    loadIndexedPaks().then((parsed) => {
+      if (cancelled || !parsed) return;
+      setGraph(expandNode(createDependencyGraph(asset.guid), asset.guid.toUpperCase()));
+      setStatus('Dependency graph updated');
+    });
+    return () => { cancelled = true; };
+  }, [asset.guid]);
+
+  const layout = useMemo(() => layoutGraph(graph), [graph]);
+  const missingCount = useMemo(
+    () => Array.from(graph.nodes.values()).filter(node => node.status === 'missing').length,
+    [graph]
+  );
+
+  const handleNodeClick = (node: GraphNode) => {
+    setGraph(node.expanded ? collapseNode(graph, node.guid) : expandNode(graph, node.guid));
+  };
+
+  const handleNodeDoubleClick = (node: GraphNode) => {
+    const loadedAsset = assetsByGuid.get(node.guid);
+    if (loadedAsset) {
+      selectAsset(loadedAsset);
+      onClose();
+    }
+  };
+
+  const handleExpandLevel = () => {
+    const maxDepth = Math.max(...Array.from(graph.nodes.values()).map(node => node.depth));
+    setGraph(expandToDepth(graph, maxDepth + 1));
+  };
+
+  const handleExport = async (format: 'dot' | 'json') => {
+    const baseName = asset.name.split(/[/\\]/).pop()?.replace(/\.[^.]+$/, '') || asset.guid;
+    const filePath = await window.electron.saveFile(
+      `${baseName}_dependencies.${format}`,
+      [format === 'dot' ? { name: 'Graphviz DOT', extensions: ['dot', 'gv'] } : { name: 'JSON', extensions: ['json'] }]
+    );
+    if (!filePath) return;
+
+    const text = format === 'dot' ? graphToDot(graph) : graphToJson(graph);
+    const result = await window.electron.writeFile(filePath, new TextEncoder().encode(text));
+    setStatus(result.success ? `Exported dependency graph to ${filePath}` : `Failed to export graph: ${result.error}`);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal dependency-graph-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Dependency Graph - {asset.name}</h2>
+          <button className="btn btn-ghost btn-icon" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="graph-toolbar">
+          <button className="btn btn-secondary btn-sm" onClick={handleExpandLevel}>Expand Level</button>
+          <button
+            className="btn btn-secondary btn-sm"
+            onClick={() => setGraph(expandNode(createDependencyGraph(asset.guid), asset.guid.toUpperCase()))}
+          >
+            Reset
+          </button>
+          <span className="graph-stats">
+            {graph.nodes.size} assets, {graph.edges.length} references
+            {missingCount > 0 && <span className="graph-missing-count">, {missingCount} missing</span>}
+          </span>
+          <span className="graph-hint">Click to expand/collapse, double-click to open</span>
+        </div>
+
+        <div className="modal-content graph-canvas">
+          <div className="graph-surface" style={{ width: layout.width, height: layout.height }}>
+            <svg className="graph-edges" width={layout.width} height={layout.height}>
+              {graph.edges.map((edge) => {
+                const from = layout.nodes.get(edge.from);
+                const to = layout.nodes.get(edge.to);
+                if (!from || !to) return null;
+
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+
+                return (
+                  <path
+                    key={`${edge.from}-${edge.to}`}
+                    d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                    className={`graph-edge ${edge.kind}`}
+                  >
+                    <title>{REFERENCE_KIND_LABELS[edge.kind]}</title>
+                  </path>
+                );
+              })}
+            </svg>
+
+            {Array.from(layout.nodes.values()).map(({ node, x, y }) => (
+              <div
+                key={node.guid}
+                className={`graph-node ${node.status} ${node.expanded ? 'expanded' : ''} ${node.guid === graph.rootGuid ? 'root' : ''}`}
+                style={{ left: x, top: y, width: NODE_WIDTH, height: NODE_HEIGHT, borderLeftColor: node.color }}
+                title={`0x${node.guid}${node.pakFile ? `\n${node.pakFile}` : ''}\n${node.status}`}
+                onClick={() => handleNodeClick(node)}
+                onDoubleClick={() => handleNodeDoubleClick(node)}
+              >
+                <span className="graph-node-name">{node.name.split(/[/\\]/).pop()}</span>
+                <span className="graph-node-meta">
+                  <span style={{ color: node.color }}>{node.type}</span>
+                  {node.status !== 'loaded' && <span className="graph-node-status">{node.status}</span>}
+                  {node.expanded && node.referenceCount !== undefined && <span>{node.referenceCount} refs</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={() => handleExport('dot')}>Export DOT</button>
+          <button className="btn btn-secondary" onClick={() => handleExport('json')}>Export JSON</button>
+          <button className="btn btn-primary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,13 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { Asset } from '../types/asset';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useAssetStore } from '../stores/assetStore';
+import { useWorkspaceStore } from '../stores/workspaceStore';
 import { 
   getExportFormats, 
+  getDefaultExportFormat,
   canExport, 
   exportAsset, 
   exportAssets,
   ExportFormat,
-  ExportResult
+  ExportResult,
+  TextureNameRegistry
 } from '../services/exportService';
 import './ExportDialog.css';
 
@@ -26,8 +29,9 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
   onExportComplete 
 }) => {
   const { settings } = useSettingsStore();
-  const { getTextureData } = useAssetStore();
-  const [outputPath, setOutputPath] = useState(settings.defaultExportPath || '');
+  const { getTextureData, ensureAssetData } = useAssetStore();
+  const { workspace: { exportChoices }, updateExportChoices } = useWorkspaceStore();
+  const [outputPath, setOutputPath] = useState(exportChoices.outputPath || settings.defaultExportPath || '');
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat | null>(null);
   const [availableFormats, setAvailableFormats] = useState<ExportFormat[]>([]);
   const [isExporting, setIsExporting] = useState(false);
@@ -35,9 +39,9 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
   const [results, setResults] = useState<ExportResult[]>([]);
   const [showResults, setShowResults] = useState(false);
 
-  // Export options from settings
-  const [exportWithDeps, setExportWithDeps] = useState(settings.exportAssetDeps);
-  const [useFullPaths, setUseFullPaths] = useState(settings.exportPathsFull);
+  // Export options from settings, or from the last export in this workspace
+  const [exportWithDeps, setExportWithDeps] = useState(exportChoices.exportWithDeps ?? settings.exportAssetDeps);
+  const [useFullPaths, setUseFullPaths] = useState(exportChoices.useFullPaths ?? settings.exportPathsFull);
 
   // Get unique asset types being exported
   const assetTypes = [...new Set(assets.map(a => a.type))];
@@ -50,7 +54,8 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
       const formats = getExportFormats(assets[0].type);
       setAvailableFormats(formats);
       if (formats.length > 0) {
-        setSelectedFormat(formats[0]);
+        const lastFormat = exportChoices.formatByType[assets[0].type];
+        setSelectedFormat(formats.find(format => format.id === lastFormat) || getDefaultExportFormat(assets[0].type, settings));
       }
     } else {
       // For mixed types, we'll use default format for each
@@ -72,6 +77,15 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
       return;
     }
 
+    updateExportChoices({
+      outputPath,
+      exportWithDeps,
+      useFullPaths,
+      formatByType: isSingleType && selectedFormat
+        ? { ...exportChoices.formatByType, [assets[0].type]: selectedFormat.id }
+        : exportChoices.formatByType,
+    });
+
     setIsExporting(true);
     setProgress({ current: 0, total: assets.length, message: 'Starting export...' });
 
@@ -82,25 +96,30 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
         exportPathsFull: useFullPaths,
       };
 
+      // Paks listed from the asset index cache are parsed before their data is read
+      const exportTargets = await ensureAssetData(assets);
+
       if (isSingleType && selectedFormat) {
         // Export all assets with the selected format
         const exportResults: ExportResult[] = [];
+        const textureNames: TextureNameRegistry = new Map();
         
-        for (let i = 0; i < assets.length; i++) {
+        for (let i = 0; i < exportTargets.length; i++) {
           setProgress({ 
             current: i + 1, 
-            total: assets.length, 
-            message: `Exporting ${assets[i].name || `Asset ${i + 1}`}...` 
+            total: exportTargets.length, 
+            message: `Exporting ${exportTargets[i].name || `Asset ${i + 1}`}...` 
           });
           
           const result = await exportAsset(
-            assets[i],
+            exportTargets[i],
             selectedFormat,
             outputPath,
             exportSettings,
             undefined,  // onProgress (handled above)
             allAssets,  // Pass all assets for dependency resolution
-            getTextureData  // Pass texture data loader for starpak textures
+            getTextureData,  // Pass texture data loader for starpak textures
+            textureNames  // Texture names taken earlier in this export
           );
           exportResults.push(result);
         }
@@ -109,7 +128,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
       } else {
         // Export mixed types with default formats
         const exportResults = await exportAssets(
-          assets.filter(a => canExport(a.type)),
+          exportTargets.filter(a => canExport(a.type)),
           outputPath,
           exportSettings,
           (current: number, total: number, message: string) => setProgress({ current, total, message }),
@@ -131,6 +150,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
 
   const successCount = results.filter(r => r.success).length;
   const failCount = results.filter(r => !r.success).length;
+  const warnings = results.flatMap(r => r.success ? r.warnings || [] : []);
 
   return (
     <div className="export-dialog-overlay" onClick={onClose}>
@@ -299,6 +319,19 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                   </div>
                 )}
 
+                {warnings.length > 0 && (
+                  <div className="results-errors results-warnings">
+                    <h4>Warnings</h4>
+                    <ul className="error-list">
+                      {warnings.map((warning, i) => (
+                        <li key={i} className="error-item">
+                          {warning}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {successCount > 0 && outputPath && (
                   <button 
                     className="btn btn-secondary open-folder-btn"
@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  gameProfiles,
+  detectGame,
+  discoverInstall,
+  getGameDefinition,
+  GAME_DEFINITIONS,
+  GameId,
+  GameProfile,
+  DiscoveredInstall,
+  PakCategory,
+} from '../services/gameProfiles';
+import { useAssetStore } from '../stores/assetStore';
+import './GameProfilesModal.css';
+
+interface GameProfilesModalProps {
+  onClose: () => void;
+}
+
+interface NewProfile {
+  name: string;
+  game: GameId;
+  installPath: string;
+}
+
+const CATEGORY_LABELS: Record<PakCategory, string> = {
+  common: 'Common',
+  ui: 'UI',
+  map: 'Map',
+  patch: 'Patch',
+  other: 'Other',
+};
+
+const DIRECTORY_LABELS: Record<string, string> = {
+  paks: 'Paks',
+  vpk: 'VPKs',
+  audio: 'Audio',
+  maps: 'Maps',
+};
+
+// Files listed in the load order preview
+const MAX_LISTED_FILES = 500;
+
+export const GameProfilesModal: React.FC<GameProfilesModalProps> = ({ onClose }) => {
+  const { replaceWorkingSet, setStatus } = useAssetStore();
+  const [profiles, setProfiles] = useState<GameProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newProfile, setNewProfile] = useState<NewProfile | null>(null);
+  const [install, setInstall] = useState<DiscoveredInstall | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    gameProfiles.load().then(() => {
+      setProfiles(gameProfiles.getProfiles());
+      const active = gameProfiles.getActiveProfile();
+      setActiveId(active?.id || null);
+      setSelectedId(active?.id || gameProfiles.getProfiles()[0]?.id || null);
+    });
+  }, []);
+
+  const selectedProfile = profiles.find(profile => profile.id === selectedId) || null;
+
+  // Discover the selected install whenever the selection changes
+  useEffect(() => {
+    setInstall(null);
+    setError(null);
+    if (!selectedProfile) return;
+
+    let cancelled = false;
+    setIsDiscovering(true);
+    discoverInstall(selectedProfile.installPath, selectedProfile.game)
+      .then(result => { if (!cancelled) setInstall(result); })
+      .catch(err => { if (!cancelled) setError((err as Error).message); })
+      .finally(() => { if (!cancelled) setIsDiscovering(false); });
+
+    return () => { cancelled = true; };
+  }, [selectedProfile]);
+
+  const categoryCounts = useMemo(() => {
+    const counts: Partial<Record<PakCategory, number>> = {};
+    for (const file of install?.files || []) {
+      counts[file.category] = (counts[file.category] || 0) + 1;
+    }
+    return counts;
+  }, [install]);
+
+  const handleAdd = async () => {
+    const installPath = await window.electron.selectFolder();
+    if (!installPath) return;
+
+    const game = await detectGame(installPath) || 'apex';
+    setNewProfile({ name: getGameDefinition(game).name, game, installPath });
+  };
+
+  const handleSaveNew = async () => {
+    if (!newProfile) return;
+    const profile = await gameProfiles.addProfile(newProfile.name.trim() || getGameDefinition(newProfile.game).name, newProfile.game, newProfile.installPath);
+    setProfiles(gameProfiles.getProfiles());
+    setSelectedId(profile.id);
+    setNewProfile(null);
+  };
+
+  const handleRemove = async (profile: GameProfile) => {
+    if (!confirm(`Remove the profile "${profile.name}"?`)) return;
+    await gameProfiles.removeProfile(profile.id);
+    setProfiles(gameProfiles.getProfiles());
+    setActiveId(gameProfiles.getActiveProfile()?.id || null);
+    if (selectedId === profile.id) {
+      setSelectedId(null);
+    }
+  };
+
+  const handleLoad = async () => {
+    if (!selectedProfile || !install) return;
+    if (install.files.length === 0) {
+      setError('No loadable files were found in this install');
+      return;
+    }
+
+    await gameProfiles.setActiveProfile(selectedProfile.id);
+    setActiveId(selectedProfile.id);
+    setStatus(`Switching to ${selectedProfile.name}...`);
+    onClose();
+    await replaceWorkingSet(install.files.map(file => file.path));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal game-profiles-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Game Profiles</h2>
+          <button className="btn btn-ghost btn-icon" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="modal-content game-profiles-content">
+          <div className="game-profiles-list">
+            {profiles.length === 0 && !newProfile && (
+              <p className="game-profiles-muted">Add a profile by pointing at a game's install folder</p>
+            )}
+            {profiles.map(profile => (
+              <div
+                key={profile.id}
+                className={`game-profile-item ${profile.id === selectedId ? 'selected' : ''}`}
+                onClick={() => setSelectedId(profile.id)}
+              >
+                <div className="game-profile-name">
+                  <span className="truncate">{profile.name}</span>
+                  {profile.id === activeId && <span className="badge badge-sm badge-success">Active</span>}
+                </div>
+                <div className="game-profiles-muted">{getGameDefinition(profile.game).name}</div>
+                <div className="game-profiles-muted truncate" title={profile.installPath}>{profile.installPath}</div>
+              </div>
+            ))}
+
+            {newProfile ? (
+              <div className="game-profile-form">
+                <input
+                  type="text"
+                  value={newProfile.name}
+                  onChange={(e) => setNewProfile({ ...newProfile, name: e.target.value })}
+                  placeholder="Profile name"
+                />
+                <select
+                  value={newProfile.game}
+                  onChange={(e) => setNewProfile({ ...newProfile, game: e.target.value as GameId })}
+                >
+                  {GAME_DEFINITIONS.map(definition => (
+                    <option key={definition.id} value={definition.id}>{definition.name}</option>
+                  ))}
+                </select>
+                <div className="game-profiles-muted truncate" title={newProfile.installPath}>{newProfile.installPath}</div>
+                <div className="game-profile-form-actions">
+                  <button className="btn btn-ghost btn-sm" onClick={() => setNewProfile(null)}>Cancel</button>
+                  <button className="btn btn-primary btn-sm" onClick={handleSaveNew}>Save</button>
+                </div>
+              </div>
+            ) : (
+              <button className="btn btn-secondary btn-sm" onClick={handleAdd}>Add Profile...</button>
+            )}
+          </div>
+
+          <div className="game-profiles-details">
+            {!selectedProfile && <p className="game-profiles-muted">Select a profile to see what it will load</p>}
+
+            {selectedProfile && (
+              <>
+                <div className="game-profiles-details-header">
+                  <h3 className="truncate">{selectedProfile.name}</h3>
+                  <button className="btn btn-ghost btn-sm" onClick={() => handleRemove(selectedProfile)}>Remove</button>
+                </div>
+
+                {isDiscovering && <p className="game-profiles-muted">Scanning install...</p>}
+                {error && <p className="game-profiles-error">{error}</p>}
+
+                {install && (
+                  <>
+                    <div className="game-profiles-section">
+                      <h4>Folders</h4>
+                      {install.directories.length === 0 && (
+                        <p className="game-profiles-muted">None of the {getGameDefinition(install.game).name} folders were found</p>
+                      )}
+                      {install.directories.map(directory => (
+                        <div key={directory.kind} className="game-profiles-row">
+                          <span className="game-profiles-label">{DIRECTORY_LABELS[directory.kind]}</span>
+                          <span className="truncate" title={directory.path}>{directory.path}</span>
+                          <span className="game-profiles-muted">{directory.fileCount} files</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="game-profiles-section">
+                      <h4>Load Order ({install.files.length} files)</h4>
+                      <div className="game-profiles-categories">
+                        {(Object.keys(CATEGORY_LABELS) as PakCategory[]).filter(category => categoryCounts[category]).map(category => (
+                          <span key={category} className="game-profiles-muted">
+                            {CATEGORY_LABELS[category]}: {categoryCounts[category]}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="game-profiles-files">
+                        {install.files.slice(0, MAX_LISTED_FILES).map((file, index) => (
+                          <div key={file.path} className="game-profiles-row mono">
+                            <span className="game-profiles-index">{index + 1}</span>
+                            <span className="truncate" title={file.path}>{file.name}</span>
+                            <span className={`game-profiles-category ${file.category}`}>{CATEGORY_LABELS[file.category]}</span>
+                          </div>
+                        ))}
+                        {install.files.length > MAX_LISTED_FILES && (
+                          <p className="game-profiles-muted">...and {install.files.length - MAX_LISTED_FILES} more</p>
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>Close</button>
+          <button className="btn btn-primary" onClick={handleLoad} disabled={!install || isDiscovering}>
+            Load Profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,443 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Asset } from '../types/asset';
+import { PagePtr } from '../parsers/rpakTypes';
+import { RpakParser } from '../parsers/rpakParser';
+import { useAssetStore } from '../stores/assetStore';
+import './HexInspector.css';
+
+interface HexInspectorProps {
+  asset: Asset;
+}
+
+export type HexValueType = 'u8' | 'u16' | 'u32' | 'i32' | 'u64' | 'f32' | 'f64' | 'guid' | 'string' | 'pageptr';
+
+const VALUE_TYPES: HexValueType[] = ['u8', 'u16', 'u32', 'i32', 'u64', 'f32', 'f64', 'guid', 'string', 'pageptr'];
+
+const VALUE_SIZES: Record<HexValueType, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  i32: 4,
+  u64: 8,
+  f32: 4,
+  f64: 8,
+  guid: 8,
+  string: 1,
+  pageptr: 8,
+};
+
+interface HexOverlay {
+  pageIndex: number;
+  offset: number;
+  type: HexValueType;
+  label: string;
+}
+
+interface HexBookmark {
+  pageIndex: number;
+  offset: number;
+  label: string;
+}
+
+const BYTES_PER_ROW = 16;
+const VIEW_SIZE = 0x400;
+const MAX_STRING_LENGTH = 256;
+
+// Overlays and bookmarks are kept per pak for the session, so they survive switching assets
+const overlaysByPak = new Map<string, HexOverlay[]>();
+const bookmarksByPak = new Map<string, HexBookmark[]>();
+
+function hex(value: number | bigint, pad = 0): string {
+  return value.toString(16).toUpperCase().padStart(pad, '0');
+}
+
+function formatPtr(ptr: PagePtr): string {
+  return `${ptr.index}:0x${hex(ptr.offset)}`;
+}
+
+/**
+ * Decode a value of a given type from page data
+ */
+function decodeValue(data: Uint8Array, offset: number, type: HexValueType): string | null {
+  const size = VALUE_SIZES[type];
+  if (offset < 0 || offset + size > data.length) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  switch (type) {
+    case 'u8': return String(view.getUint8(offset));
+    case 'u16': return String(view.getUint16(offset, true));
+    case 'u32': return String(view.getUint32(offset, true));
+    case 'i32': return String(view.getInt32(offset, true));
+    case 'u64': return String(view.getBigUint64(offset, true));
+    case 'f32': return String(view.getFloat32(offset, true));
+    case 'f64': return String(view.getFloat64(offset, true));
+    case 'guid': return `0x${hex(view.getBigUint64(offset, true), 16)}`;
+    case 'pageptr': return formatPtr(readPtr(data, offset)!);
+    case 'string': {
+      let text = '';
+      for (let i = offset; i < data.length && data[i] !== 0 && text.length < MAX_STRING_LENGTH; i++) {
+        text += String.fromCharCode(data[i]);
+      }
+      return JSON.stringify(text);
+    }
+  }
+}
+
+function readPtr(data: Uint8Array, offset: number): PagePtr | null {
+  if (offset + 8 > data.length) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { index: view.getUint32(offset, true), offset: view.getUint32(offset + 4, true) };
+}
+
+/**
+ * Index the pak's pointer and GUID ref tables by page, so fields can be
+ * recognised while rendering
+ */
+function indexPageFields(parser: RpakParser): { pointers: Map<number, Set<number>>; guidRefs: Map<number, Set<number>> } {
+  const pointers = new Map<number, Set<number>>();
+  const guidRefs = new Map<number, Set<number>>();
+  const { pointers: pointerList, guidRefs: guidRefList } = parser.getRawData();
+
+  for (const ptr of pointerList) {
+    if (!pointers.has(ptr.index)) pointers.set(ptr.index, new Set());
+    pointers.get(ptr.index)!.add(ptr.offset);
+  }
+  for (const ref of guidRefList) {
+    if (!guidRefs.has(ref.index)) guidRefs.set(ref.index, new Set());
+    guidRefs.get(ref.index)!.add(ref.offset);
+  }
+
+  return { pointers, guidRefs };
+}
+
+export const HexInspector: React.FC<HexInspectorProps> = ({ asset }) => {
+  const { getParser, setStatus } = useAssetStore();
+  const parser = getParser(asset.containerFile);
+  const parsedAsset = useMemo(() => parser?.findAssetByGuid(asset.guid), [parser, asset.guid]);
+  const fields = useMemo(() => parser ? indexPageFields(parser) : null, [parser]);
+
+  const [location, setLocation] = useState<PagePtr | null>(null);
+  const [history, setHistory] = useState<PagePtr[]>([]);
+  const [selection, setSelection] = useState<number | null>(null);
+  const [gotoText, setGotoText] = useState('');
+  const [overlayType, setOverlayType] = useState<HexValueType>('u32');
+  const [overlayLabel, setOverlayLabel] = useState('');
+  const [overlays, setOverlays] = useState<HexOverlay[]>([]);
+  const [bookmarks, setBookmarks] = useState<HexBookmark[]>([]);
+
+  // Start at the asset's header
+  useEffect(() => {
+    setLocation(parsedAsset ? parsedAsset.headPagePtr : null);
+    setHistory([]);
+    setSelection(parsedAsset ? parsedAsset.headPagePtr.offset : null);
+    setOverlays(overlaysByPak.get(asset.containerFile) || []);
+    setBookmarks(bookmarksByPak.get(asset.containerFile) || []);
+  }, [parsedAsset, asset.containerFile]);
+
+  if (!parser || !parsedAsset || !fields) {
+    return (
+      <div className="preview-empty">
+        <p>Raw data is only available for assets of loaded paks</p>
+      </div>
+    );
+  }
+
+  const updateOverlays = (next: HexOverlay[]) => {
+    overlaysByPak.set(asset.containerFile, next);
+    setOverlays(next);
+  };
+
+  const updateBookmarks = (next: HexBookmark[]) => {
+    bookmarksByPak.set(asset.containerFile, next);
+    setBookmarks(next);
+  };
+
+  // Patch pages are not stored in the file, so only their index can be checked
+  const isValidTarget = (target: PagePtr) =>
+    parser.isPatchPage(target.index) || parser.readPagePtr(target, 0) !== null;
+
+  /**
+   * Move the view to a page pointer, checking it with readPagePtr first
+   */
+  const jumpTo = (target: PagePtr, pushHistory = true) => {
+    if (!isValidTarget(target)) {
+      setStatus(`Page pointer ${formatPtr(target)} is outside the pak`);
+      return;
+    }
+    if (parser.isPatchPage(target.index)) {
+      setStatus(`Page ${target.index} is rebuilt by the patch stream and not stored in this file`);
+    }
+    if (pushHistory && location) {
+      setHistory([...history, location]);
+    }
+    setLocation(target);
+    setSelection(target.offset);
+  };
+
+  const handleBack = () => {
+    if (history.length === 0) return;
+    const previous = history[history.length - 1];
+    setHistory(history.slice(0, -1));
+    setLocation(previous);
+    setSelection(previous.offset);
+  };
+
+  const handleGoto = () => {
+    // Accepts "page:offset" or an offset in the current page; offsets are hex
+    const match = gotoText.trim().match(/^(?:(\d+)\s*:\s*)?(?:0x)?([0-9a-f]+)$/i);
+    if (!match || !location) {
+      setStatus('Enter a location as page:offset, e.g. 3:0x1A0');
+      return;
+    }
+    jumpTo({ index: match[1] !== undefined ? parseInt(match[1], 10) : location.index, offset: parseInt(match[2], 16) });
+  };
+
+  if (!location) return null;
+
+  const pageData = parser.getPageData(location.index) || new Uint8Array(0);
+  const pageHeader = parser.getLayout().pages[location.index];
+  const viewStart = Math.max(0, Math.floor(location.offset / BYTES_PER_ROW) * BYTES_PER_ROW);
+  const viewEnd = Math.min(pageData.length, viewStart + VIEW_SIZE);
+
+  const pagePointers = fields.pointers.get(location.index) || new Set<number>();
+  const pageGuidRefs = fields.guidRefs.get(location.index) || new Set<number>();
+  const pageOverlays = overlays.filter(overlay => overlay.pageIndex === location.index);
+
+  const head = parsedAsset.headPagePtr;
+  const isHeaderByte = (offset: number) =>
+    location.index === head.index && offset >= head.offset && offset < head.offset + parsedAsset.headerSize;
+  const isDataStart = (offset: number) =>
+    location.index === parsedAsset.dataPagePtr.index && offset === parsedAsset.dataPagePtr.offset;
+
+  // Which kind of field covers each byte of the view
+  const fieldAt = (offset: number): string => {
+    for (let start = offset - 7; start <= offset; start++) {
+      if (pagePointers.has(start)) return 'pointer';
+      if (pageGuidRefs.has(start)) return 'guidref';
+    }
+    for (const overlay of pageOverlays) {
+      if (offset >= overlay.offset && offset < overlay.offset + VALUE_SIZES[overlay.type]) return 'overlay';
+    }
+    return '';
+  };
+
+  const renderAnnotations = (rowStart: number) => {
+    const items: React.ReactNode[] = [];
+    for (let offset = rowStart; offset < rowStart + BYTES_PER_ROW; offset++) {
+      if (pagePointers.has(offset)) {
+        const target = readPtr(pageData, offset);
+        if (target) {
+          const valid = isValidTarget(target);
+          items.push(
+            <span
+              key={`p${offset}`}
+              className={`hex-annotation pointer ${valid ? '' : 'invalid'}`}
+              title={`Pointer at +0x${hex(offset)}`}
+              onClick={() => valid && jumpTo(target)}
+            >
+              → {formatPtr(target)}
+            </span>
+          );
+        }
+      }
+      if (pageGuidRefs.has(offset)) {
+        items.push(
+          <span key={`g${offset}`} className="hex-annotation guidref">
+            {decodeValue(pageData, offset, 'guid')}
+          </span>
+        );
+      }
+      for (const overlay of pageOverlays.filter(o => o.offset === offset)) {
+        items.push(
+          <span key={`o${offset}${overlay.type}`} className="hex-annotation overlay">
+            {overlay.label || overlay.type}: {decodeValue(pageData, offset, overlay.type) ?? '?'}
+          </span>
+        );
+      }
+    }
+    return items;
+  };
+
+  const rows: number[] = [];
+  for (let offset = viewStart; offset < viewEnd; offset += BYTES_PER_ROW) {
+    rows.push(offset);
+  }
+
+  return (
+    <div className="hex-inspector">
+      <div className="hex-toolbar">
+        <button className="btn btn-secondary btn-xs" onClick={() => jumpTo(parsedAsset.headPagePtr)}>Header</button>
+        <button
+          className="btn btn-secondary btn-xs"
+          onClick={() => jumpTo(parsedAsset.dataPagePtr)}
+          disabled={!isValidTarget(parsedAsset.dataPagePtr)}
+        >
+          Data
+        </button>
+        <button className="btn btn-ghost btn-xs" onClick={handleBack} disabled={history.length === 0}>Back</button>
+        <input
+          className="hex-goto"
+          placeholder="page:offset"
+          value={gotoText}
+          onChange={(e) => setGotoText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleGoto()}
+        />
+        <button className="btn btn-ghost btn-xs" onClick={handleGoto}>Go</button>
+        <span className="hex-location mono">
+          Page {location.index}
+          {pageHeader && ` (segment ${pageHeader.segment}, 0x${hex(pageHeader.size)} bytes)`}
+        </span>
+        <button
+          className="btn btn-ghost btn-xs"
+          onClick={() => jumpTo({ index: location.index, offset: Math.max(0, viewStart - VIEW_SIZE) }, false)}
+          disabled={viewStart === 0}
+        >
+          ◀
+        </button>
+        <button
+          className="btn btn-ghost btn-xs"
+          onClick={() => jumpTo({ index: location.index, offset: viewEnd }, false)}
+          disabled={viewEnd >= pageData.length}
+        >
+          ▶
+        </button>
+      </div>
+
+      <div className="hex-body">
+        <div className="hex-view mono">
+          {pageData.length === 0 && (
+            <div className="hex-empty">
+              {parser.isPatchPage(location.index)
+                ? 'This page is rebuilt by the patch stream and is not stored in this file'
+                : 'Page is empty'}
+            </div>
+          )}
+          {rows.map(rowStart => {
+            const bytes = Array.from(pageData.subarray(rowStart, Math.min(rowStart + BYTES_PER_ROW, viewEnd)));
+            return (
+              <div key={rowStart} className="hex-row">
+                <span className="hex-offset">{hex(rowStart, 8)}</span>
+                <span className="hex-bytes">
+                  {bytes.map((byte, i) => {
+                    const offset = rowStart + i;
+                    const classes = [
+                      'hex-byte',
+                      fieldAt(offset),
+                      isHeaderByte(offset) ? 'header' : '',
+                      isDataStart(offset) ? 'data-start' : '',
+                      selection === offset ? 'selected' : '',
+                    ].filter(Boolean).join(' ');
+                    return (
+                      <span key={offset} className={classes} onClick={() => setSelection(offset)}>
+                        {hex(byte, 2)}
+                      </span>
+                    );
+                  })}
+                </span>
+                <span className="hex-ascii">
+                  {bytes.map(byte => (byte >= 32 && byte < 127 ? String.fromCharCode(byte) : '.')).join('')}
+                </span>
+                <span className="hex-annotations">{renderAnnotations(rowStart)}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="hex-sidebar">
+          {selection !== null && (
+            <div className="hex-section">
+              <h4>Values at {location.index}:0x{hex(selection)}</h4>
+              {VALUE_TYPES.map(type => {
+                const value = decodeValue(pageData, selection, type);
+                const target = type === 'pageptr' ? readPtr(pageData, selection) : null;
+                return (
+                  <div key={type} className="hex-value-row">
+                    <span className="hex-value-type">{type}</span>
+                    {target && isValidTarget(target) ? (
+                      <span className="hex-value hex-link" onClick={() => jumpTo(target)}>{value}</span>
+                    ) : (
+                      <span className="hex-value truncate" title={value ?? ''}>{value ?? '-'}</span>
+                    )}
+                  </div>
+                );
+              })}
+
+              <div className="hex-overlay-form">
+                <select value={overlayType} onChange={(e) => setOverlayType(e.target.value as HexValueType)}>
+                  {VALUE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <input
+                  className="hex-overlay-label"
+                  placeholder="Label"
+                  value={overlayLabel}
+                  onChange={(e) => setOverlayLabel(e.target.value)}
+                />
+                <button
+                  className="btn btn-secondary btn-xs"
+                  onClick={() => {
+                    updateOverlays([...overlays, { pageIndex: location.index, offset: selection, type: overlayType, label: overlayLabel }]);
+                    setOverlayLabel('');
+                  }}
+                >
+                  Add Overlay
+                </button>
+              </div>
+            </div>
+          )}
+
+          {overlays.length > 0 && (
+            <div className="hex-section">
+              <h4>Overlays</h4>
+              {overlays.map((overlay, index) => (
+                <div key={index} className="hex-list-item">
+                  <span className="hex-link" onClick={() => jumpTo({ index: overlay.pageIndex, offset: overlay.offset })}>
+                    {overlay.label || overlay.type}
+                  </span>
+                  <span className="hex-list-meta mono">{overlay.type} @ {formatPtr({ index: overlay.pageIndex, offset: overlay.offset })}</span>
+                  <button className="btn btn-ghost btn-xs" onClick={() => updateOverlays(overlays.filter((_, i) => i !== index))}>✕</button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="hex-section">
+            <div className="hex-section-header">
+              <h4>Bookmarks</h4>
+              <button
+                className="btn btn-ghost btn-xs"
+                onClick={() => {
+                  const offset = selection ?? location.offset;
+                  updateBookmarks([...bookmarks, {
+                    pageIndex: location.index,
+                    offset,
+                    label: `${asset.name.split(/[/\\]/).pop()} +0x${hex(offset)}`,
+                  }]);
+                }}
+              >
+                + Add
+              </button>
+            </div>
+            {bookmarks.length === 0 && <p className="hex-list-meta">No bookmarks</p>}
+            {bookmarks.map((bookmark, index) => (
+              <div key={index} className="hex-list-item">
+                <span className="hex-link truncate" title={bookmark.label} onClick={() => jumpTo({ index: bookmark.pageIndex, offset: bookmark.offset })}>
+                  {bookmark.label}
+                </span>
+                <span className="hex-list-meta mono">{formatPtr({ index: bookmark.pageIndex, offset: bookmark.offset })}</span>
+                <button className="btn btn-ghost btn-xs" onClick={() => updateBookmarks(bookmarks.filter((_, i) => i !== index))}>✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="hex-section hex-legend">
+            <span className="hex-byte header">Header</span>
+            <span className="hex-byte pointer">Pointer</span>
+            <span className="hex-byte guidref">GUID</span>
+            <span className="hex-byte overlay">Overlay</span>
+            <span className="hex-byte data-start">Data</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
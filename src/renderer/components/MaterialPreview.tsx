@@ -9,64 +9,17 @@ import {
   TextureBindingNames,
   ParsedMaterialData,
 } from '../parsers/materialParser';
-import { decodeTextureToRGBA, calculateMipSize, CompressionType, TextureFormat } from '../parsers/textureParser';
+import { decodeTextureToRGBA, calculateMipSize, CompressionType } from '../parsers/textureParser';
 import { loadTextureMipFromStarpak } from '../parsers/starpakLoader';
 import { decompress as zstdDecompress } from 'fzstd';
 import { decompressRTech } from '../utils/rtechDecompress';
 import { decompressOodle } from '../utils/oodleDecompress';
+import { recalculateNormalMap } from '../utils/normalMap';
 import { useAssetStore } from '../stores/assetStore';
 import { TexturePreview } from './TexturePreview';
 import { extractTextureBindings } from '../parsers/dxbcParser';
 import './MaterialPreview.css';
 
-/**
- * Calculate normal Z from X and Y components
- * Based on RSX's GetNormalZFromXY function
- */
-function getNormalZFromXY(x: number, y: number): number {
-  const xm = (2.0 * x) - 1.0;
-  const ym = (2.0 * y) - 1.0;
-  
-  const a = 1.0 - (xm * xm) - (ym * ym);
-  
-  // Can't be valid if negative
-  if (a < 0.0) {
-    return 0.5;
-  }
-  
-  const sq = Math.sqrt(a);
-  return (sq / 2.0) + 0.5;
-}
-
-/**
- * Convert Source/Respawn BC5 normal map to standard format with reconstructed Z channel
- * Based on RSX's ConvertNormalOpenDX - preserves the original R and G channels
- * and only reconstructs the blue (Z) channel
- */
-function convertNormalMap(rgba: Uint8Array, width: number, height: number, format: TextureFormat): Uint8Array {
-  const output = new Uint8Array(rgba.length);
-  
-  for (let i = 0; i < rgba.length; i += 4) {
-    const r = rgba[i];     // X component (keep as-is)
-    const g = rgba[i + 1]; // Y component (keep as-is for DX format)
-    
-    // Normalize to 0-1 range for Z calculation
-    const x = r / 255.0;
-    const y = g / 255.0;
-    
-    // Calculate Z using the same formula as RSX
-    const z = getNormalZFromXY(x, y);
-    
-    // Output: R=X, G=Y, B=Z (calculated), A=255
-    output[i] = r;
-    output[i + 1] = g;
-    output[i + 2] = Math.round(z * 255);
-    output[i + 3] = 255;
-  }
-  
-  return output;
-}
-
 interface MaterialPreviewProps {
   asset: Asset;
 }
@@ -454,7 +407,7 @@ export const MaterialPreview: React.FC<MaterialPreviewProps> = ({ asset }) => {
             continue;
           }
 
-          const { header, pixelData, starpakOffset, optStarpakOffset } = textureData;
+          const { header, pixelData, starpakOffset, optStarpakOffset, rpakPath } = textureData;
           
           // Try to load highest quality mip available
           let finalPixelData = pixelData;
@@ -462,10 +415,6 @@ export const MaterialPreview: React.FC<MaterialPreviewProps> = ({ asset }) => {
           let mipWidth = Math.max(1, header.width >> mipLevel);
           let mipHeight = Math.max(1, header.height >> mipLevel);
           
-          // Get the rpak base path from the texture's container file
-          const texRpakPath = tex.textureAsset?.containerFile;
-          const texRpakBasePath = texRpakPath ? texRpakPath.substring(0, Math.max(texRpakPath.lastIndexOf('/'), texRpakPath.lastIndexOf('\\'))) : undefined;
-          
           // Try to load from starpak for higher resolution (mip 0 or best available)
           const hasStarpak = starpakOffset && starpakOffset !== 0n;
           const hasOptStarpak = optStarpakOffset && optStarpakOffset !== 0n;
@@ -493,7 +442,7 @@ export const MaterialPreview: React.FC<MaterialPreviewProps> = ({ asset }) => {
                   compressedBytes: header.compressedBytes,
                 },
                 isOpt,
-                texRpakBasePath
+                rpakPath || undefined
               );
               
               if (starpakResult) {
@@ -582,7 +531,7 @@ export const MaterialPreview: React.FC<MaterialPreviewProps> = ({ asset }) => {
           } else if (bindingName.includes('normal') || bindingName.includes('nml')) {
             console.log('[MaterialPreview] Applying as normal map, converting format...');
             // Convert normal map from Source/Respawn format to OpenGL format
-            const convertedNormal = convertNormalMap(rgba, mipWidth, mipHeight, header.format);
+            const convertedNormal = recalculateNormalMap(rgba, 'directx');
             const normalTexture = new THREE.DataTexture(
               convertedNormal,
               mipWidth,
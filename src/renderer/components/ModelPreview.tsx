@@ -3,57 +3,18 @@ import * as THREE from 'three';
 import { Asset } from '../types/asset';
 import { parseStudioHeader, ParsedModel, parseMeshGeometry, MeshGeometry, parseVGFormat, SubMesh, extractMeshMaterialMapping, BodyPart, SkinFamily } from '../parsers/modelParser';
 import { loadModelStreamingData } from '../parsers/fileLoader';
-import { useAssetStore } from '../stores/assetStore';
+import { findAssetFile, useAssetStore } from '../stores/assetStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { getPreviewState, updatePreviewState } from '../stores/workspaceStore';
 import { parseMaterialAsset, ParsedMaterialData, MaterialTextureEntry, TextureBindingNames, MaterialShaderType } from '../parsers/materialParser';
 import { decodeTextureToRGBA, TextureFormat, CompressionType } from '../parsers/textureParser';
 import { loadTextureMipFromStarpak } from '../parsers/starpakLoader';
 import { decompress as zstdDecompress } from 'fzstd';
 import { decompressRTech } from '../utils/rtechDecompress';
 import { decompressOodle } from '../utils/oodleDecompress';
+import { recalculateNormalMap } from '../utils/normalMap';
 import './ModelPreview.css';
 
-/**
- * Calculate normal Z from X and Y components
- * Based on RSX's GetNormalZFromXY function
- */
-function getNormalZFromXY(x: number, y: number): number {
-  const xm = (2.0 * x) - 1.0;
-  const ym = (2.0 * y) - 1.0;
-  
-  const a = 1.0 - (xm * xm) - (ym * ym);
-  
-  if (a < 0.0) {
-    return 0.5;
-  }
-  
-  const sq = Math.sqrt(a);
-  return (sq / 2.0) + 0.5;
-}
-
-/**
- * Convert Source/Respawn BC5 normal map to standard format with reconstructed Z channel
- */
-function convertNormalMap(rgba: Uint8Array, width: number, height: number): Uint8Array {
-  const output = new Uint8Array(rgba.length);
-  
-  for (let i = 0; i < rgba.length; i += 4) {
-    const r = rgba[i];     // X component
-    const g = rgba[i + 1]; // Y component
-    
-    const x = r / 255.0;
-    const y = g / 255.0;
-    const z = getNormalZFromXY(x, y);
-    
-    output[i] = r;
-    output[i + 1] = g;
-    output[i + 2] = Math.round(z * 255);
-    output[i + 3] = 255;
-  }
-  
-  return output;
-}
-
 // Material info for display
 interface LoadedMaterialInfo {
   material: THREE.Material;
@@ -143,8 +104,9 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
             setBodyGroupVisibility(new Map());
           }
           
-          // Reset skin selection
-          setSelectedSkin(0);
+          // Reset skin selection, unless a workspace session recorded one
+          const restoredSkin = getPreviewState(asset.guid)?.skin;
+          setSelectedSkin(restoredSkin !== undefined && restoredSkin < (parsed.skinFamilies?.length || 0) ? restoredSkin : 0);
           
           // Try to get mesh geometry
           let geometry: MeshGeometry | null = null;
@@ -159,7 +121,7 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
             const offset = BigInt(starpakOffset as any);
             if (offset !== 0n && offset !== -1n) {
               try {
-                const streamingData = await loadModelStreamingData(offset);
+                const streamingData = await loadModelStreamingData(offset, findAssetFile(asset));
                 if (streamingData && streamingData.length > 0) {
                   // Extract mesh-to-material mapping from studiohdr
                   const meshMaterialMapping = extractMeshMaterialMapping(dataPageData);
@@ -319,16 +281,13 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
               const textureData = await getTextureData(textureAsset);
               if (!textureData) return null;
 
-              const { header, pixelData, starpakOffset, optStarpakOffset } = textureData;
+              const { header, pixelData, starpakOffset, optStarpakOffset, rpakPath } = textureData;
               
               let finalPixelData = pixelData;
               let mipLevel = header.streamedMipCount + header.optStreamedMipCount;
               let mipWidth = Math.max(1, header.width >> mipLevel);
               let mipHeight = Math.max(1, header.height >> mipLevel);
               
-              const texRpakPath = textureAsset.containerFile;
-              const texRpakBasePath = texRpakPath ? texRpakPath.substring(0, Math.max(texRpakPath.lastIndexOf('/'), texRpakPath.lastIndexOf('\\'))) : undefined;
-              
               const hasStarpak = starpakOffset && starpakOffset !== 0n && starpakOffset !== 0xFFFFFFFFFFFFFFFFn;
               const hasOptStarpak = optStarpakOffset && optStarpakOffset !== 0n && optStarpakOffset !== 0xFFFFFFFFFFFFFFFFn;
               
@@ -352,7 +311,7 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
                       compressedBytes: header.compressedBytes,
                     },
                     isOpt,
-                    texRpakBasePath
+                    rpakPath || undefined
                   );
                   
                   if (starpakResult) {
@@ -447,7 +406,7 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
               // Normal maps only work with PBR materials
               if (isPBRMaterial) {
                 // Convert normal map format
-                const convertedNormal = convertNormalMap(rgba, width, height);
+                const convertedNormal = recalculateNormalMap(rgba, 'directx');
                 const normalTexture = new THREE.DataTexture(
                   convertedNormal,
                   width,
@@ -1276,7 +1235,11 @@ export const ModelPreview: React.FC<ModelPreviewProps> = ({ asset }) => {
                 <div className="skin-selector">
                   <select
                     value={selectedSkin}
-                    onChange={(e) => setSelectedSkin(parseInt(e.target.value, 10))}
+                    onChange={(e) => {
+                      const skin = parseInt(e.target.value, 10);
+                      setSelectedSkin(skin);
+                      updatePreviewState(asset.guid, { skin });
+                    }}
                     className="skin-dropdown"
                   >
                     {modelInfo.skinFamilies.map((skin, idx) => (
@@ -0,0 +1,309 @@
+import React, { useMemo, useState } from 'react';
+import { diffPakFiles, diffFolders, AssetChangeType, PakDiffResult } from '../services/pakDiff';
+import { useAssetStore } from '../stores/assetStore';
+import { formatFileSize } from '../utils/assetUtils';
+import { ExportDialog } from './ExportDialog';
+import './PakDiffModal.css';
+
+interface PakDiffModalProps {
+  onClose: () => void;
+}
+
+type DiffMode = 'files' | 'folders';
+type ChangeFilter = AssetChangeType | 'all';
+
+const RPAK_FILTERS = [{ name: 'RPak Files', extensions: ['rpak'] }];
+const MAX_VISIBLE_ROWS = 1000;
+
+function formatSizeDelta(delta: number): string {
+  if (delta === 0) return '0 B';
+  return `${delta > 0 ? '+' : '-'}${formatFileSize(Math.abs(delta))}`;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+export const PakDiffModal: React.FC<PakDiffModalProps> = ({ onClose }) => {
+  const { assets, loadedFiles, loadFiles, setStatus } = useAssetStore();
+  const [mode, setMode] = useState<DiffMode>('files');
+  const [oldPath, setOldPath] = useState<string | null>(null);
+  const [newPath, setNewPath] = useState<string | null>(null);
+  const [result, setResult] = useState<PakDiffResult | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [changeFilter, setChangeFilter] = useState<ChangeFilter>('changed');
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+
+  const handleModeChange = (newMode: DiffMode) => {
+    setMode(newMode);
+    setOldPath(null);
+    setNewPath(null);
+    setResult(null);
+  };
+
+  const handleBrowse = async (side: 'old' | 'new') => {
+    let selected: string | null = null;
+    if (mode === 'folders') {
+      selected = await window.electron.selectFolder();
+    } else {
+      selected = (await window.electron.selectFiles(RPAK_FILTERS))?.[0] || null;
+    }
+    if (!selected) return;
+
+    if (side === 'old') setOldPath(selected);
+    else setNewPath(selected);
+  };
+
+  const handleCompare = async () => {
+    if (!oldPath || !newPath) return;
+
+    setResult(null);
+    setError(null);
+    try {
+      const onProgress = (current: number, total: number, message: string) => {
+        setProgress(`${message} (${current}/${total})`);
+      };
+      const diff = mode === 'folders'
+        ? await diffFolders(oldPath, newPath, onProgress)
+        : await diffPakFiles(oldPath, newPath, onProgress);
+      setResult(diff);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const filteredEntries = useMemo(() => {
+    if (!result) return [];
+    return result.entries.filter(entry =>
+      (changeFilter === 'all' || entry.change === changeFilter) &&
+      (!typeFilter || entry.type === typeFilter)
+    );
+  }, [result, changeFilter, typeFilter]);
+
+  const totals = useMemo(() => {
+    const counts: Record<AssetChangeType, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    for (const summary of result?.byType || []) {
+      counts.added += summary.added;
+      counts.removed += summary.removed;
+      counts.changed += summary.changed;
+      counts.unchanged += summary.unchanged;
+    }
+    return counts;
+  }, [result]);
+
+  // Changed and added assets of the new build, once its paks are loaded
+  const exportableAssets = useMemo(() => {
+    if (!result) return [];
+
+    const wanted = new Map<string, string>();
+    for (const entry of result.entries) {
+      if ((entry.change === 'changed' || entry.change === 'added') && entry.newPak) {
+        wanted.set(entry.guid, entry.newPak);
+      }
+    }
+
+    // Only the copies loaded from the new build's paks, not same-named old ones
+    return assets.filter(asset => asset.containerPath !== undefined && wanted.get(asset.guid) === asset.containerPath);
+  }, [result, assets]);
+
+  const handleExportChanged = async () => {
+    if (!result) return;
+
+    const newPaks = new Set<string>();
+    for (const entry of result.entries) {
+      if ((entry.change === 'changed' || entry.change === 'added') && entry.newPak) {
+        newPaks.add(entry.newPak);
+      }
+    }
+
+    const toLoad = Array.from(newPaks).filter(pakPath => !loadedFiles.includes(pakPath));
+    if (toLoad.length > 0) {
+      setProgress(`Loading ${toLoad.length} pak(s)...`);
+      await loadFiles(toLoad);
+      setProgress(null);
+    }
+
+    if (newPaks.size === 0) {
+      setStatus('No changed assets to export');
+      return;
+    }
+    setShowExport(true);
+  };
+
+  return (
+    <>
+      <div className="modal-overlay" onClick={onClose}>
+        <div className="modal pak-diff-modal" onClick={(e) => e.stopPropagation()}>
+          <div className="modal-header">
+            <h2>Compare Paks</h2>
+            <button className="btn btn-ghost btn-icon" onClick={onClose}>
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="pak-diff-inputs">
+            <div className="pak-diff-mode">
+              <button
+                className={`btn btn-sm ${mode === 'files' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => handleModeChange('files')}
+              >
+                Files
+              </button>
+              <button
+                className={`btn btn-sm ${mode === 'folders' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => handleModeChange('folders')}
+              >
+                Folders
+              </button>
+            </div>
+
+            {(['old', 'new'] as const).map(side => {
+              const value = side === 'old' ? oldPath : newPath;
+              return (
+                <div key={side} className="pak-diff-path">
+                  <span className="pak-diff-label">{side === 'old' ? 'Old' : 'New'}</span>
+                  <span className="pak-diff-value truncate" title={value || ''}>
+                    {value || `No ${mode === 'folders' ? 'folder' : 'file'} selected`}
+                  </span>
+                  <button className="btn btn-secondary btn-sm" onClick={() => handleBrowse(side)}>Browse</button>
+                </div>
+              );
+            })}
+
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleCompare}
+              disabled={!oldPath || !newPath || progress !== null}
+            >
+              Compare
+            </button>
+            {progress && <span className="pak-diff-progress">{progress}</span>}
+            {error && <span className="pak-diff-error">{error}</span>}
+          </div>
+
+          <div className="modal-content pak-diff-content">
+            {result && (
+              <>
+                <div className="pak-diff-summary">
+                  <div className="pak-diff-totals">
+                    <span className="badge badge-sm badge-success">{totals.added} added</span>
+                    <span className="badge badge-sm badge-error">{totals.removed} removed</span>
+                    <span className="badge badge-sm badge-warning">{totals.changed} changed</span>
+                    <span className="pak-diff-muted">{totals.unchanged} unchanged</span>
+                    <span className="pak-diff-muted">Size {formatSizeDelta(result.totalSizeDelta)}</span>
+                  </div>
+                  {(result.addedPaks.length > 0 || result.removedPaks.length > 0) && (
+                    <div className="pak-diff-muted">
+                      {result.addedPaks.length} new pak(s), {result.removedPaks.length} removed pak(s)
+                    </div>
+                  )}
+
+                  <table className="pak-diff-table pak-diff-types">
+                    <thead>
+                      <tr>
+                        <th>Type</th>
+                        <th>Added</th>
+                        <th>Removed</th>
+                        <th>Changed</th>
+                        <th>Unchanged</th>
+                        <th>Size Delta</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.byType.map(summary => (
+                        <tr
+                          key={summary.type}
+                          className={typeFilter === summary.type ? 'selected' : ''}
+                          onClick={() => setTypeFilter(typeFilter === summary.type ? null : summary.type)}
+                        >
+                          <td><span className={`badge badge-${summary.type.toLowerCase()}`}>{summary.type}</span></td>
+                          <td>{summary.added}</td>
+                          <td>{summary.removed}</td>
+                          <td>{summary.changed}</td>
+                          <td>{summary.unchanged}</td>
+                          <td>{formatSizeDelta(summary.sizeDelta)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="pak-diff-filters">
+                  {(['changed', 'added', 'removed', 'unchanged', 'all'] as const).map(filter => (
+                    <button
+                      key={filter}
+                      className={`btn btn-xs ${changeFilter === filter ? 'btn-primary' : 'btn-ghost'}`}
+                      onClick={() => setChangeFilter(filter)}
+                    >
+                      {filter}
+                    </button>
+                  ))}
+                  {typeFilter && (
+                    <button className="btn btn-xs btn-ghost" onClick={() => setTypeFilter(null)}>
+                      Type: {typeFilter} ✕
+                    </button>
+                  )}
+                  <span className="pak-diff-muted">{filteredEntries.length} assets</span>
+                </div>
+
+                <table className="pak-diff-table">
+                  <thead>
+                    <tr>
+                      <th>Change</th>
+                      <th>Type</th>
+                      <th>Name</th>
+                      <th>Pak</th>
+                      <th>Old Size</th>
+                      <th>New Size</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredEntries.slice(0, MAX_VISIBLE_ROWS).map(entry => (
+                      <tr key={`${entry.guid}-${entry.newPak || entry.oldPak}`} className={`change-${entry.change}`}>
+                        <td className="pak-diff-change">{entry.change}</td>
+                        <td><span className={`badge badge-${entry.type.toLowerCase()}`}>{entry.type}</span></td>
+                        <td className="truncate" title={`0x${entry.guid}`}>{entry.name}</td>
+                        <td className="truncate">{getFileName((entry.newPak || entry.oldPak)!)}</td>
+                        <td>{entry.oldSize ? formatFileSize(entry.oldSize) : '-'}</td>
+                        <td>{entry.newSize ? formatFileSize(entry.newSize) : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {filteredEntries.length > MAX_VISIBLE_ROWS && (
+                  <div className="pak-diff-muted">Showing first {MAX_VISIBLE_ROWS} of {filteredEntries.length} assets</div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="modal-footer">
+            <button
+              className="btn btn-secondary"
+              onClick={handleExportChanged}
+              disabled={!result || totals.added + totals.changed === 0 || progress !== null}
+            >
+              Export Changed
+            </button>
+            <button className="btn btn-primary" onClick={onClose}>Close</button>
+          </div>
+        </div>
+      </div>
+
+      {showExport && (
+        <ExportDialog
+          assets={exportableAssets}
+          allAssets={assets}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { validatePak, validationReportsToJson, ValidationReport, ValidationSeverity } from '../parsers/pakValidator';
+import { useAssetStore } from '../stores/assetStore';
+import './PakValidatorModal.css';
+
+interface PakValidatorModalProps {
+  onClose: () => void;
+}
+
+type SeverityFilter = ValidationSeverity | 'all';
+
+const RPAK_FILTERS = [{ name: 'RPak Files', extensions: ['rpak'] }];
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+export const PakValidatorModal: React.FC<PakValidatorModalProps> = ({ onClose }) => {
+  const { assets, loadedFiles, selectAsset, setStatus } = useAssetStore();
+  const [files, setFiles] = useState<string[]>(() => loadedFiles.filter(file => file.toLowerCase().endsWith('.rpak')));
+  const [reports, setReports] = useState<ValidationReport[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>('all');
+
+  const assetsByGuid = useMemo(() => new Map(assets.map(asset => [asset.guid, asset])), [assets]);
+
+  const handleAddFiles = async () => {
+    const selected = await window.electron.selectFiles(RPAK_FILTERS);
+    if (!selected) return;
+    setFiles(current => [...current, ...selected.filter(file => !current.includes(file))]);
+  };
+
+  const handleValidate = async () => {
+    const results: ValidationReport[] = [];
+    for (let i = 0; i < files.length; i++) {
+      setProgress(`Validating ${getFileName(files[i])} (${i + 1}/${files.length})...`);
+      results.push(await validatePak(files[i]));
+    }
+    setReports(results);
+    setProgress(null);
+
+    const errors = results.reduce((sum, report) => sum + report.errorCount, 0);
+    const warnings = results.reduce((sum, report) => sum + report.warningCount, 0);
+    setStatus(`Validated ${results.length} pak(s): ${errors} errors, ${warnings} warnings`);
+  };
+
+  const handleExport = async () => {
+    const defaultName = reports.length === 1
+      ? `${getFileName(reports[0].filePath).replace(/\.rpak$/i, '')}_validation.json`
+      : 'pak_validation.json';
+    const filePath = await window.electron.saveFile(defaultName, [{ name: 'JSON', extensions: ['json'] }]);
+    if (!filePath) return;
+
+    const result = await window.electron.writeFile(filePath, new TextEncoder().encode(validationReportsToJson(reports)));
+    setStatus(result.success ? `Exported validation report to ${filePath}` : `Failed to export report: ${result.error}`);
+  };
+
+  const handleIssueClick = (guid?: string) => {
+    const asset = guid ? assetsByGuid.get(guid) : undefined;
+    if (asset) {
+      selectAsset(asset);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal pak-validator-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Validate Paks</h2>
+          <button className="btn btn-ghost btn-icon" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="validator-toolbar">
+          <button className="btn btn-secondary btn-sm" onClick={handleAddFiles}>Add Files</button>
+          <button className="btn btn-ghost btn-sm" onClick={() => { setFiles([]); setReports([]); }} disabled={files.length === 0}>
+            Clear
+          </button>
+          <button className="btn btn-primary btn-sm" onClick={handleValidate} disabled={files.length === 0 || progress !== null}>
+            Validate {files.length > 0 ? `(${files.length})` : ''}
+          </button>
+          {progress && <span className="validator-muted">{progress}</span>}
+
+          {reports.length > 0 && (
+            <div className="validator-filters">
+              {(['all', 'error', 'warning'] as const).map(filter => (
+                <button
+                  key={filter}
+                  className={`btn btn-xs ${severityFilter === filter ? 'btn-primary' : 'btn-ghost'}`}
+                  onClick={() => setSeverityFilter(filter)}
+                >
+                  {filter === 'all' ? 'All' : filter === 'error' ? 'Errors' : 'Warnings'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-content validator-content">
+          {reports.length === 0 && (
+            <div className="validator-files">
+              {files.length === 0
+                ? <p className="validator-muted">Add .rpak files to check them for structural problems</p>
+                : files.map(file => <div key={file} className="truncate validator-muted" title={file}>{file}</div>)}
+            </div>
+          )}
+
+          {reports.map(report => {
+            const issues = report.issues.filter(issue => severityFilter === 'all' || issue.severity === severityFilter);
+            return (
+              <div key={report.filePath} className="validator-report">
+                <div className="validator-report-header">
+                  <span className="validator-report-name truncate" title={report.filePath}>{getFileName(report.filePath)}</span>
+                  {report.version !== undefined && <span className="validator-muted">v{report.version}, {report.assetCount} assets</span>}
+                  {report.errorCount === 0 && report.warningCount === 0
+                    ? <span className="badge badge-sm badge-success">OK</span>
+                    : (
+                      <>
+                        {report.errorCount > 0 && <span className="badge badge-sm badge-error">{report.errorCount} errors</span>}
+                        {report.warningCount > 0 && <span className="badge badge-sm badge-warning">{report.warningCount} warnings</span>}
+                      </>
+                    )}
+                </div>
+
+                {issues.length > 0 && (
+                  <table className="validator-issues">
+                    <thead>
+                      <tr>
+                        <th>Severity</th>
+                        <th>Section</th>
+                        <th>Message</th>
+                        <th>Asset</th>
+                        <th>Offset</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {issues.map((issue, index) => {
+                        const asset = issue.guid ? assetsByGuid.get(issue.guid) : undefined;
+                        return (
+                          <tr key={index} className={`validator-issue ${issue.severity}`}>
+                            <td className="validator-severity">{issue.severity}</td>
+                            <td>{issue.section}</td>
+                            <td className="validator-message">{issue.message}</td>
+                            <td
+                              className={`truncate ${asset ? 'validator-link' : ''}`}
+                              title={issue.guid ? `0x${issue.guid}` : undefined}
+                              onClick={() => handleIssueClick(issue.guid)}
+                            >
+                              {asset ? asset.name : issue.guid ? `0x${issue.guid}` : '-'}
+                            </td>
+                            <td className="validator-offset">
+                              {issue.offset !== undefined ? `0x${issue.offset.toString(16).toUpperCase()}` : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={handleExport} disabled={reports.length === 0}>Export JSON</button>
+          <button className="btn btn-primary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
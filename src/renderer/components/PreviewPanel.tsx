@@ -16,7 +16,11 @@ import { AnimSeqPreview } from './AnimSeqPreview';
 import { UIImagePreview } from './UIImagePreview';
 import { EffectPreview } from './EffectPreview';
 import { ExportDialog } from './ExportDialog';
-import { useAssetStore } from '../stores/assetStore';
+import { UsedByTree } from './UsedByTree';
+import { DependencyGraphModal } from './DependencyGraphModal';
+import { HexInspector } from './HexInspector';
+import { useAssetStore, loadIndexedPaksWithAssets } from '../stores/assetStore';
+import { dependencyResolver } from '../services/dependencyResolver';
 import './PreviewPanel.css';
 
 interface PreviewPanelProps {
@@ -26,17 +30,27 @@ interface PreviewPanelProps {
 export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [activeTab, setActiveTab] = useState<'preview' | 'details' | 'dependencies'>('preview');
+  const [activeTab, setActiveTab] = useState<'preview' | 'details' | 'dependencies' | 'raw'>('preview');
   const [showExportDialog, setShowExportDialog] = useState(false);
-  const { assets: allAssets, getParser } = useAssetStore();
+  const [showDependencyGraph, setShowDependencyGraph] = useState(false);
+  const { assets: allAssets, getParser, loadFiles, setStatus, selectAsset } = useAssetStore();
   const [resolvedDependencies, setResolvedDependencies] = useState<AssetDependency[]>([]);
-  const [resolvedDependents, setResolvedDependents] = useState<AssetDependency[]>([]);
+  const [isScanningPaks, setIsScanningPaks] = useState(false);
+  // Bumped after a folder scan so dependency statuses are resolved again
+  const [scanVersion, setScanVersion] = useState(0);
 
-  // Resolve dependencies and dependents when asset changes
+  const assetsByGuid = useMemo(() => {
+    const map = new Map<string, Asset>();
+    for (const a of allAssets) {
+      map.set(a.guid.toUpperCase(), a);
+    }
+    return map;
+  }, [allAssets]);
+
+  // Resolve dependencies when asset changes
   useEffect(() => {
     if (!asset || asset.containerType !== 'pak') {
       setResolvedDependencies([]);
-      setResolvedDependents([]);
       return;
     }
 
@@ -47,7 +61,6 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
     const parser = getParser(asset.containerFile);
     if (!parser) {
       setResolvedDependencies([]);
-      setResolvedDependents([]);
       return;
     }
 
@@ -55,7 +68,6 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
     const parsedAsset = parser.findAssetByGuid(asset.guid);
     if (!parsedAsset) {
       setResolvedDependencies([]);
-      setResolvedDependents([]);
       return;
     }
 
@@ -63,82 +75,48 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
     // RESOLVE DEPENDENCIES (what this asset uses)
     // ==========================================
     if (dependenciesCount > 0) {
-      // Get dependency GUIDs from parser
-      const depGuids = parser.getAssetDependencies(parsedAsset);
-      
-      // Resolve each dependency - check if it's loaded
-      const deps: AssetDependency[] = depGuids.map(dep => {
-        // Look for this asset in all loaded assets
-        const normalizedGuid = dep.guid.toUpperCase();
-        const loadedAsset = allAssets.find(a => a.guid.toUpperCase() === normalizedGuid);
-        
-        if (loadedAsset) {
-          return {
-            guid: dep.guid,
-            type: loadedAsset.type,
-            name: loadedAsset.name,
-            status: 'loaded' as const,
-          };
-        }
-        
-        // Check if it's in the same rpak (resolved but not yet fully loaded)
-        const parsedDep = parser.findAssetByGuid(dep.guid);
-        if (parsedDep) {
-          return {
-            guid: dep.guid,
-            type: parsedDep.typeFourCC as AssetType,
-            name: parsedDep.name,
-            status: 'loaded' as const,
-          };
-        }
-        
-        // External/missing dependency
-        return {
-          guid: dep.guid,
-          type: 'unkn' as AssetType,
-          name: undefined,
-          status: 'external' as const,
-        };
+      // Resolve each dependency to its owning pak across all loaded files
+      const deps = dependencyResolver.resolveDependencies(parser, parsedAsset).map(dep => {
+        // Prefer the name shown in the asset list
+        const loadedAsset = dep.status === 'loaded' ? assetsByGuid.get(dep.guid) : undefined;
+        return loadedAsset ? { ...dep, type: loadedAsset.type, name: loadedAsset.name } : dep;
       });
 
       setResolvedDependencies(deps);
+
+      // Dependencies in paks listed from the asset index cache resolve once those paks are parsed
+      const missingGuids = deps.filter(dep => dep.status === 'missing').map(dep => dep.guid);
+      if (missingGuids.length > 0) {
+        loadIndexedPaksWithAssets(missingGuids).then((parsed) => {
+          if (parsed) setScanVersion(v => v + 1);
+        });
+      }
     } else {
       setResolvedDependencies([]);
     }
+  }, [asset, assetsByGuid, getParser, scanVersion]);
 
-    // ==========================================
-    // RESOLVE DEPENDENTS (what uses this asset)
-    // ==========================================
-    // Find all assets that have this asset in their dependencies
-    const thisGuid = asset.guid.toUpperCase();
-    const dependents: AssetDependency[] = [];
-    
-    // Get all parsed assets from the parser
-    const allParsedAssets = parser.getAssets();
-    
-    for (const otherAsset of allParsedAssets) {
-      if (otherAsset.guid === parsedAsset.guid) continue; // Skip self
-      if (otherAsset.dependenciesCount === 0) continue;
-      
-      // Get this asset's dependencies and check if our asset is in there
-      const otherDeps = parser.getAssetDependencies(otherAsset);
-      const dependsOnUs = otherDeps.some(d => d.guid.toUpperCase() === thisGuid);
-      
-      if (dependsOnUs) {
-        // Look for this asset in all loaded assets
-        const loadedAsset = allAssets.find(a => a.guid.toUpperCase() === otherAsset.guid);
-        
-        dependents.push({
-          guid: otherAsset.guid,
-          type: otherAsset.typeFourCC as AssetType,
-          name: loadedAsset?.name || otherAsset.name,
-          status: 'loaded' as const,
-        });
+  // Scan the folder of the loaded paks for paks that provide missing dependencies
+  const handleFindPaks = async () => {
+    setIsScanningPaks(true);
+
+    try {
+      const missing = resolvedDependencies.filter(dep => dep.status === 'missing');
+      let found = 0;
+      for (const dep of missing) {
+        if (await dependencyResolver.findPakForGuid(dep.guid)) {
+          found++;
+        }
       }
+      setStatus(`Found paks for ${found} of ${missing.length} missing dependencies`);
+      setScanVersion(v => v + 1);
+    } catch (error) {
+      console.error('[PreviewPanel] Pak scan failed:', error);
+      setStatus(`Pak scan failed: ${(error as Error).message}`);
+    } finally {
+      setIsScanningPaks(false);
     }
-    
-    setResolvedDependents(dependents);
-  }, [asset, allAssets, getParser]);
+  };
 
   const renderPreviewContent = () => {
     if (!asset) {
@@ -336,23 +314,43 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
             <span className="dep-stat-value">{dependentsCount}</span>
             <span className="dep-stat-label">Dependents</span>
           </div>
+          {asset.containerType === 'pak' && (
+            <button className="btn btn-secondary btn-sm dep-graph-button" onClick={() => setShowDependencyGraph(true)}>
+              Graph
+            </button>
+          )}
         </div>
 
         {resolvedDependencies.length > 0 ? (
           <>
-            <h4>Dependencies</h4>
+            <div className="dependency-header">
+              <h4>Dependencies</h4>
+              {resolvedDependencies.some(dep => dep.status === 'missing') && (
+                <button className="btn btn-secondary btn-xs" onClick={handleFindPaks} disabled={isScanningPaks}>
+                  {isScanningPaks ? 'Scanning...' : 'Find Paks'}
+                </button>
+              )}
+            </div>
             <div className="dependency-list">
               {resolvedDependencies.map((dep, index) => (
                 <div key={index} className={`dependency-item ${dep.status}`}>
                   <div className="dep-info">
                     <span className="dep-name">{dep.name || `0x${dep.guid}`}</span>
                     <span className="dep-guid mono">0x{dep.guid}</span>
+                    {dep.pakFile && (
+                      <span className="dep-pak mono" title={dep.pakFile}>{dep.pakFile.split(/[/\\]/).pop()}</span>
+                    )}
                   </div>
                   <div className="dep-meta">
                     <span className={`badge badge-sm ${dep.status === 'loaded' ? 'badge-success' : dep.status === 'missing' ? 'badge-error' : 'badge-warning'}`}>
                       {dep.status}
                     </span>
                     <span className="badge badge-sm">{dep.type}</span>
+                    {dep.status === 'external' && dep.pakFile && (
+                      <button className="btn btn-primary btn-xs" onClick={() => loadFiles([dep.pakFile!])}>
+                        Load
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -370,32 +368,10 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
           </div>
         )}
 
-        {/* Dependents Section */}
-        {resolvedDependents.length > 0 ? (
-          <>
-            <h4>Dependents</h4>
-            <div className="dependency-list">
-              {resolvedDependents.map((dep, index) => (
-                <div key={index} className={`dependency-item ${dep.status}`}>
-                  <div className="dep-info">
-                    <span className="dep-name">{dep.name || `0x${dep.guid}`}</span>
-                    <span className="dep-guid mono">0x{dep.guid}</span>
-                  </div>
-                  <div className="dep-meta">
-                    <span className={`badge badge-sm ${dep.status === 'loaded' ? 'badge-success' : dep.status === 'missing' ? 'badge-error' : 'badge-warning'}`}>
-                      {dep.status}
-                    </span>
-                    <span className="badge badge-sm">{dep.type}</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </>
-        ) : dependentsCount > 0 ? (
-          <div className="preview-info">
-            <p>This asset has {dependentsCount} dependents.</p>
-            <p className="text-muted">Loading dependents...</p>
-          </div>
+        {/* Used By Section - users across all loaded paks, expandable to any depth */}
+        <h4>Used By</h4>
+        {asset.containerType === 'pak' ? (
+          <UsedByTree guid={asset.guid} assetsByGuid={assetsByGuid} onSelect={selectAsset} />
         ) : (
           <div className="preview-info">
             <p>No dependents</p>
@@ -428,6 +404,12 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
           >
             Dependencies
           </button>
+          <button
+            className={`preview-tab ${activeTab === 'raw' ? 'active' : ''}`}
+            onClick={() => setActiveTab('raw')}
+          >
+            Raw
+          </button>
         </div>
 
         {asset && (
@@ -448,6 +430,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
         {activeTab === 'preview' && renderPreviewContent()}
         {activeTab === 'details' && renderDetails()}
         {activeTab === 'dependencies' && renderDependencies()}
+        {activeTab === 'raw' && asset && <HexInspector asset={asset} />}
       </div>
 
       {/* Export Dialog */}
@@ -458,6 +441,15 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({ asset }) => {
           onClose={() => setShowExportDialog(false)}
         />
       )}
+
+      {/* Dependency Graph */}
+      {showDependencyGraph && asset && (
+        <DependencyGraphModal
+          asset={asset}
+          assetsByGuid={assetsByGuid}
+          onClose={() => setShowDependencyGraph(false)}
+        />
+      )}
     </div>
   );
 };
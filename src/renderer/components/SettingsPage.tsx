@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { useSettingsStore, Settings, NormalRecalcMode, TextureNameMode, ModelExportFormat, TextureExportFormat } from '../stores/settingsStore';
+import { useSettingsStore, Settings, NormalRecalcMode, TextureNameMode, ModelExportFormat, TextureExportFormat, ExrPixelType, ExrCompression } from '../stores/settingsStore';
+import { useAssetStore } from '../stores/assetStore';
+import { nameDatabase } from '../services/nameDatabase';
+import { assetIndexCache } from '../services/assetIndexCache';
 import './SettingsPage.css';
 
 interface SettingsPageProps {
@@ -13,6 +16,54 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
   const [activeTab, setActiveTab] = useState<SettingsTab>('general');
   const [localSettings, setLocalSettings] = useState<Settings>(settings);
   const [hasChanges, setHasChanges] = useState(false);
+  const { applyNameDatabase } = useAssetStore();
+  const [nameCount, setNameCount] = useState(nameDatabase.size);
+  const [nameStatus, setNameStatus] = useState<string | null>(null);
+  const [indexCacheStatus, setIndexCacheStatus] = useState<string | null>(null);
+
+  // Load the name database to show its size
+  useEffect(() => {
+    nameDatabase.load().then(() => setNameCount(nameDatabase.size));
+  }, []);
+
+  const handleImportNames = async () => {
+    const filePaths = await window.electron.selectFiles([
+      { name: 'Name Lists', extensions: ['txt', 'csv', 'tsv'] },
+      { name: 'All Files', extensions: ['*'] },
+    ]);
+    if (!filePaths) return;
+
+    try {
+      let imported = 0;
+      for (const filePath of filePaths) {
+        imported += await nameDatabase.importFile(filePath);
+      }
+      setNameCount(nameDatabase.size);
+      setNameStatus(`Imported ${imported} names`);
+      if (!settings.disableCachedNames) {
+        applyNameDatabase();
+      }
+    } catch (error) {
+      setNameStatus(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleClearIndexCache = async () => {
+    try {
+      await assetIndexCache.clear();
+      setIndexCacheStatus('Index cache cleared');
+    } catch (error) {
+      setIndexCacheStatus(`Failed to clear the index cache: ${(error as Error).message}`);
+    }
+  };
+
+  const handleClearNames = async () => {
+    if (confirm('Are you sure you want to remove all names from the name database?')) {
+      await nameDatabase.clear();
+      setNameCount(0);
+      setNameStatus(null);
+    }
+  };
 
   // Update local settings when global settings change
   useEffect(() => {
@@ -178,6 +229,23 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                 </label>
                 <p className="setting-description">Don't load asset names from the cache database</p>
               </div>
+
+              <div className="setting-group">
+                <label className="setting-label">Asset Name Database</label>
+                <p className="setting-description">
+                  Import asset path lists (one path per line, or CSV with a GUID column) to name assets
+                  that don't embed their name. {nameCount.toLocaleString()} names known.
+                </p>
+                <div className="setting-input-row">
+                  <button className="btn btn-secondary" onClick={handleImportNames}>
+                    Import Name List...
+                  </button>
+                  <button className="btn btn-secondary" onClick={handleClearNames} disabled={nameCount === 0}>
+                    Clear
+                  </button>
+                </div>
+                {nameStatus && <p className="setting-description">{nameStatus}</p>}
+              </div>
             </div>
           )}
 
@@ -228,13 +296,17 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                   <option value="dds_highest">DDS (Highest Mip)</option>
                   <option value="dds_all">DDS (All Mips)</option>
                   <option value="dds_mipmapped">DDS (Mip Mapped)</option>
+                  <option value="tga_highest">TGA (Highest Mip)</option>
+                  <option value="tga_all">TGA (All Mips)</option>
+                  <option value="exr">OpenEXR</option>
+                  <option value="hdr">Radiance HDR</option>
                   <option value="json_meta">JSON (Meta Data)</option>
                 </select>
               </div>
 
               <div className="setting-group">
                 <label className="setting-label">Normal Map Recalculation</label>
-                <p className="setting-description">Convert normal maps between DirectX and OpenGL formats</p>
+                <p className="setting-description">Rebuild the blue channel of exported normal maps, flipping green for OpenGL. Recalculated DDS normal maps are saved as uncompressed RGBA8 instead of their source format and listed in the export results</p>
                 <select
                   value={localSettings.exportNormalRecalc}
                   onChange={(e) => updateLocalSetting('exportNormalRecalc', e.target.value as NormalRecalcMode)}
@@ -248,7 +320,7 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
 
               <div className="setting-group">
                 <label className="setting-label">Texture Naming</label>
-                <p className="setting-description">How exported textures should be named</p>
+                <p className="setting-description">How exported textures should be named. Real uses the last part of the asset path, Text the full path from the name database with its folders kept in the file name (e.g. models_r97_r97_col) and Semantic the material and texture slot (e.g. material_normalTexture)</p>
                 <select
                   value={localSettings.exportTextureNameMode}
                   onChange={(e) => updateLocalSetting('exportTextureNameMode', e.target.value as TextureNameMode)}
@@ -274,6 +346,45 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                 <p className="setting-description">Include textures when exporting materials</p>
               </div>
 
+              <div className="setting-group">
+                <label className="setting-toggle">
+                  <input
+                    type="checkbox"
+                    checked={localSettings.exportTgaRle}
+                    onChange={(e) => updateLocalSetting('exportTgaRle', e.target.checked)}
+                  />
+                  <span className="toggle-slider"></span>
+                  <span className="toggle-label">Compress TGA exports</span>
+                </label>
+                <p className="setting-description">Run-length encode TGA files; smaller, but not every tool reads them</p>
+              </div>
+
+              <div className="setting-group">
+                <label className="setting-label">EXR Channels</label>
+                <p className="setting-description">Half floats are half the size and cover the range of BC6H textures</p>
+                <select
+                  value={localSettings.exportExrPixelType}
+                  onChange={(e) => updateLocalSetting('exportExrPixelType', e.target.value as ExrPixelType)}
+                  className="setting-select"
+                >
+                  <option value="half">Half (16-bit)</option>
+                  <option value="float">Float (32-bit)</option>
+                </select>
+              </div>
+
+              <div className="setting-group">
+                <label className="setting-label">EXR Compression</label>
+                <p className="setting-description">Lossless compression used for EXR files</p>
+                <select
+                  value={localSettings.exportExrCompression}
+                  onChange={(e) => updateLocalSetting('exportExrCompression', e.target.value as ExrCompression)}
+                  className="setting-select"
+                >
+                  <option value="zip">ZIP</option>
+                  <option value="none">None</option>
+                </select>
+              </div>
+
               <h3 className="settings-subsection-title">Model Settings</h3>
 
               <div className="setting-group">
@@ -518,7 +629,15 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
                   <span className="toggle-slider"></span>
                   <span className="toggle-label">Enable asset caching</span>
                 </label>
-                <p className="setting-description">Cache parsed assets for faster repeated access</p>
+                <p className="setting-description">
+                  Keep an on-disk index of each pak's assets so re-opened paks are listed without decompressing them
+                </p>
+                <div className="setting-input-row">
+                  <button className="btn btn-secondary" onClick={handleClearIndexCache}>
+                    Clear Index Cache
+                  </button>
+                </div>
+                {indexCacheStatus && <p className="setting-description">{indexCacheStatus}</p>}
               </div>
 
               <div className="setting-group">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Asset, AssetDependency } from '../types/asset';
 import { 
   parseSettingsHeader, 
@@ -17,12 +17,28 @@ interface SettingsPreviewProps {
   asset: Asset;
 }
 
+// Values listed before "+N more values"
+const MAX_LISTED_VALUES = 50;
+
+function isSamePath(a: number[] | null, b: number[]): boolean {
+  return !!a && a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
 export const SettingsPreview: React.FC<SettingsPreviewProps> = ({ asset }) => {
   const [parsed, setParsed] = useState<ParsedSettingsAsset | null>(null);
   const [layoutAsset, setLayoutAsset] = useState<Asset | null>(null);
   const [parsedValues, setParsedValues] = useState<SettingsValue[]>([]);
   const [error, setError] = useState<string | null>(null);
-  const { assets, getParser } = useAssetStore();
+  const { assets, getParser, revealedLocation } = useAssetStore();
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // Value picked from content search
+  const revealedPath = revealedLocation?.kind === 'field' ? revealedLocation.path : null;
+  const listedValueCount = Math.max(MAX_LISTED_VALUES, (revealedPath?.[0] ?? 0) + 1);
+
+  useEffect(() => {
+    contentRef.current?.querySelector('.revealed')?.scrollIntoView({ block: 'center' });
+  }, [revealedPath, parsedValues]);
 
   useEffect(() => {
     // Get header data from metadata (where fileLoader stores it)
@@ -137,7 +153,7 @@ export const SettingsPreview: React.FC<SettingsPreviewProps> = ({ asset }) => {
   }, [parsed]);
 
   // Helper to render a value based on its type
-  const renderValue = (val: SettingsValue): React.ReactNode => {
+  const renderValue = (val: SettingsValue, path: number[]): React.ReactNode => {
     if (val.value === null || val.value === undefined) {
       return <span className="value-null">null</span>;
     }
@@ -180,13 +196,16 @@ export const SettingsPreview: React.FC<SettingsPreviewProps> = ({ asset }) => {
                   <div key={elemIdx} className="array-element">
                     <span className="element-index">[{elemIdx}]</span>
                     <div className="element-fields">
-                      {elem.map((field, fieldIdx) => (
-                        <div key={fieldIdx} className="element-field">
-                          <span className="element-field-name">{field.name}</span>
-                          <span className="element-field-type">{field.typeName}</span>
-                          <span className="element-field-value">{renderValue(field)}</span>
-                        </div>
-                      ))}
+                      {elem.map((field, fieldIdx) => {
+                        const fieldPath = [...path, elemIdx, fieldIdx];
+                        return (
+                          <div key={fieldIdx} className={`element-field ${isSamePath(revealedPath, fieldPath) ? 'revealed' : ''}`}>
+                            <span className="element-field-name">{field.name}</span>
+                            <span className="element-field-type">{field.typeName}</span>
+                            <span className="element-field-value">{renderValue(field, fieldPath)}</span>
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                 ))}
@@ -235,7 +254,7 @@ export const SettingsPreview: React.FC<SettingsPreviewProps> = ({ asset }) => {
         </div>
       </div>
 
-      <div className="settings-content">
+      <div className="settings-content" ref={contentRef}>
         {/* Properties */}
         <div className="settings-section">
           <h4>Properties</h4>
@@ -348,18 +367,18 @@ export const SettingsPreview: React.FC<SettingsPreviewProps> = ({ asset }) => {
             <h4>Values {parsedValues.length > 0 && `(${parsedValues.length})`}</h4>
             {parsedValues.length > 0 ? (
               <div className="settings-values-list">
-                {parsedValues.slice(0, 50).map((val, idx) => (
-                  <div className="settings-value-item" key={idx}>
+                {parsedValues.slice(0, listedValueCount).map((val, idx) => (
+                  <div className={`settings-value-item ${isSamePath(revealedPath, [idx]) ? 'revealed' : ''}`} key={idx}>
                     <span className="value-name">{val.name}</span>
                     <span className={`value-type type-${val.type}`}>{val.typeName}</span>
                     <span className="value-content">
-                      {renderValue(val)}
+                      {renderValue(val, [idx])}
                     </span>
                   </div>
                 ))}
-                {parsedValues.length > 50 && (
+                {parsedValues.length > listedValueCount && (
                   <div className="values-more">
-                    +{parsedValues.length - 50} more values
+                    +{parsedValues.length - listedValueCount} more values
                   </div>
                 )}
               </div>
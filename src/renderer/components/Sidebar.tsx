@@ -1,5 +1,7 @@
-import React from 'react';
-import { useAssetStore } from '../stores/assetStore';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAssetStore, getFileMemoryUsage } from '../stores/assetStore';
+import { savedQueries } from '../services/savedQueries';
+import { formatFileSize } from '../utils/assetUtils';
 import './Sidebar.css';
 
 interface SidebarProps {
@@ -9,6 +11,13 @@ interface SidebarProps {
   onOpenFolder: () => void;
   onOpenSettings: () => void;
   onExportAll: () => void;
+  onComparePaks: () => void;
+  onValidatePaks: () => void;
+  onGameProfiles: () => void;
+  onSearchContent: () => void;
+  onSessions: () => void;
+  assetQuery: string;
+  onApplyQuery: (query: string) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
@@ -18,8 +27,37 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onOpenFolder,
   onOpenSettings,
   onExportAll,
+  onComparePaks,
+  onValidatePaks,
+  onGameProfiles,
+  onSearchContent,
+  onSessions,
+  assetQuery,
+  onApplyQuery,
 }) => {
-  const { loadedFiles, assetStats, clearAll } = useAssetStore();
+  const { loadedFiles, assets, assetStats, isLoading, clearAll, unloadFile } = useAssetStore();
+
+  const [queries, setQueries] = useState<string[]>([]);
+
+  useEffect(() => {
+    savedQueries.load().then(() => setQueries(savedQueries.getQueries()));
+  }, []);
+
+  const handleSaveQuery = async () => {
+    await savedQueries.addQuery(assetQuery.trim());
+    setQueries(savedQueries.getQueries());
+  };
+
+  const handleRemoveQuery = async (query: string) => {
+    await savedQueries.removeQuery(query);
+    setQueries(savedQueries.getQueries());
+  };
+
+  const memoryUsage = useMemo(() => getFileMemoryUsage(), [loadedFiles, assets]);
+  const totalMemory = useMemo(
+    () => [...memoryUsage.values()].reduce((total, bytes) => total + bytes, 0),
+    [memoryUsage]
+  );
 
   const handleResizeStart = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -62,6 +100,50 @@ export const Sidebar: React.FC<SidebarProps> = ({
               </svg>
               Open Folder
             </button>
+            <button className="btn btn-secondary btn-lg sidebar-action" onClick={onComparePaks}>
+              <svg className="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <polyline points="16,3 21,3 21,8" />
+                <line x1="4" y1="20" x2="21" y2="3" />
+                <polyline points="21,16 21,21 16,21" />
+                <line x1="15" y1="15" x2="21" y2="21" />
+                <line x1="4" y1="4" x2="9" y2="9" />
+              </svg>
+              Compare Paks
+            </button>
+            <button className="btn btn-secondary btn-lg sidebar-action" onClick={onValidatePaks}>
+              <svg className="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+                <polyline points="9,12 11,14 15,10" />
+              </svg>
+              Validate Paks
+            </button>
+            <button className="btn btn-secondary btn-lg sidebar-action" onClick={onGameProfiles}>
+              <svg className="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="2" y="6" width="20" height="12" rx="2" />
+                <line x1="6" y1="12" x2="10" y2="12" />
+                <line x1="8" y1="10" x2="8" y2="14" />
+                <circle cx="15" cy="13" r="1" />
+                <circle cx="18" cy="11" r="1" />
+              </svg>
+              Game Profiles
+            </button>
+            <button className="btn btn-secondary btn-lg sidebar-action" onClick={onSearchContent}>
+              <svg className="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h5" />
+                <polyline points="14,2 14,8 20,8" />
+                <circle cx="17" cy="17" r="3" />
+                <line x1="19.2" y1="19.2" x2="22" y2="22" />
+              </svg>
+              Search Content
+            </button>
+            <button className="btn btn-secondary btn-lg sidebar-action" onClick={onSessions}>
+              <svg className="icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z" />
+                <polyline points="17,21 17,13 7,13 7,21" />
+                <polyline points="7,3 7,8 15,8" />
+              </svg>
+              Sessions
+            </button>
           </div>
         </div>
 
@@ -70,6 +152,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <div className="sidebar-section">
               <div className="sidebar-section-header">
                 <h3 className="sidebar-section-title">Loaded Files</h3>
+                <span className="sidebar-memory" title="Approximate memory held by loaded files">{formatFileSize(totalMemory)}</span>
                 <span className="sidebar-count">{loadedFiles.length}</span>
               </div>
               <div className="sidebar-file-list">
@@ -80,6 +163,56 @@ export const Sidebar: React.FC<SidebarProps> = ({
                       <polyline points="14,2 14,8 20,8" />
                     </svg>
                     <span className="truncate" title={file}>{file.split(/[/\\]/).pop()}</span>
+                    <span className="sidebar-file-memory">{formatFileSize(memoryUsage.get(file) || 0)}</span>
+                    <button
+                      className="btn btn-ghost btn-xs sidebar-item-remove"
+                      onClick={() => unloadFile(file)}
+                      disabled={isLoading}
+                      title="Unload file"
+                    >
+                      <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                      </svg>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="sidebar-section">
+              <div className="sidebar-section-header">
+                <h3 className="sidebar-section-title">Saved Queries</h3>
+                <button
+                  className="btn btn-ghost btn-xs"
+                  onClick={handleSaveQuery}
+                  disabled={!assetQuery.trim() || queries.includes(assetQuery.trim())}
+                  title="Save the current asset list query"
+                >
+                  Save Current
+                </button>
+              </div>
+              <div className="sidebar-file-list">
+                {queries.length === 0 && (
+                  <p className="sidebar-queries-empty">Type a query in the asset list and save it here</p>
+                )}
+                {queries.map(query => (
+                  <div
+                    key={query}
+                    className={`sidebar-file-item sidebar-query-item ${query === assetQuery.trim() ? 'active' : ''}`}
+                    onClick={() => onApplyQuery(query)}
+                  >
+                    <span className="truncate mono" title={query}>{query}</span>
+                    <button
+                      className="btn btn-ghost btn-xs sidebar-item-remove"
+                      onClick={(e) => { e.stopPropagation(); handleRemoveQuery(query); }}
+                      title="Remove saved query"
+                    >
+                      <svg className="icon icon-sm" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                      </svg>
+                    </button>
                   </div>
                 ))}
               </div>
@@ -3,7 +3,7 @@ import { useAssetStore } from '../stores/assetStore';
 import './StatusBar.css';
 
 export const StatusBar: React.FC = () => {
-  const { status, progress } = useAssetStore();
+  const { status, progress, isLoading, cancelLoad } = useAssetStore();
 
   return (
     <div className="statusbar">
@@ -17,6 +17,11 @@ export const StatusBar: React.FC = () => {
           </div>
         )}
         <span className="statusbar-message">{status}</span>
+        {isLoading && (
+          <button className="btn btn-ghost btn-xs" onClick={cancelLoad}>
+            Cancel
+          </button>
+        )}
       </div>
       
       <div className="statusbar-right">
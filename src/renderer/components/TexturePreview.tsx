@@ -3,6 +3,9 @@ import { Asset } from '../types/asset';
 import { 
   TextureFormatNames, 
   decodeTextureToRGBA, 
+  decodeTextureToFloat,
+  floatToRGBA,
+  isHDRFormat,
   rgbaToDataUrl, 
   TextureAssetHeader, 
   calculateMipSize,
@@ -11,12 +14,17 @@ import {
   MipType,
   getMipType,
   CompressionType,
+  isCubemap,
+  getSliceName,
 } from '../parsers/textureParser';
 import { useAssetStore } from '../stores/assetStore';
+import { getPreviewState, updatePreviewState } from '../stores/workspaceStore';
 import { loadTextureMipFromStarpak, starpakManager, decodeStarpakOffset } from '../parsers/starpakLoader';
 import { decompress as zstdDecompress } from 'fzstd';
 import { decompressRTech } from '../utils/rtechDecompress';
 import { decompressOodle } from '../utils/oodleDecompress';
+import { isNormalMapFormat, recalculateNormalMap } from '../utils/normalMap';
+import { CubemapSkybox } from './CubemapSkybox';
 import './TexturePreview.css';
 
 interface TexturePreviewProps {
@@ -25,59 +33,33 @@ interface TexturePreviewProps {
 
 type BackgroundType = 'checkerboard' | 'black' | 'white' | 'transparent';
 type ChannelMode = 'rgba' | 'rgb' | 'r' | 'g' | 'b' | 'a';
+type ViewMode = 'single' | 'cross' | 'skybox';
+
+// Cell (column, row) of each cubemap face in a 4x3 horizontal cross
+const CUBE_CROSS_CELLS: [number, number][] = [
+  [2, 1], // +X
+  [0, 1], // -X
+  [1, 0], // +Y
+  [1, 2], // -Y
+  [1, 1], // +Z
+  [3, 1], // -Z
+];
 
 /**
- * Check if texture format is a normal map format (BC5)
+ * Lay out six RGBA faces as a 4x3 horizontal cross, leaving the empty cells
+ * transparent
  */
-function isNormalMapFormat(format: number): boolean {
-  // BC5_UNORM = 8, BC5_SNORM = 9
-  return format === 8 || format === 9;
-}
-
-/**
- * Calculate normal Z from X and Y components
- * Based on RSX's GetNormalZFromXY function from dx.cpp
- */
-function getNormalZFromXY(x: number, y: number): number {
-  const xm = (2.0 * x) - 1.0;
-  const ym = (2.0 * y) - 1.0;
-  
-  const a = 1.0 - (xm * xm) - (ym * ym);
-  
-  if (a < 0.0) {
-    return 0.5;
-  }
-  
-  const sq = Math.sqrt(a);
-  return (sq / 2.0) + 0.5;
-}
-
-/**
- * Reconstruct normal map Z channel from X and Y
- * Based on RSX's ConvertNormalOpenDX function
- */
-function reconstructNormalMap(rgba: Uint8Array): Uint8Array {
-  const output = new Uint8Array(rgba.length);
-  
-  for (let i = 0; i < rgba.length; i += 4) {
-    const r = rgba[i];     // X component
-    const g = rgba[i + 1]; // Y component
-    
-    // Normalize to 0-1 range for Z calculation
-    const x = r / 255.0;
-    const y = g / 255.0;
-    
-    // Calculate Z using RSX formula
-    const z = getNormalZFromXY(x, y);
-    
-    // Output: R=X, G=Y, B=Z (calculated), A=255
-    output[i] = r;
-    output[i + 1] = g;
-    output[i + 2] = Math.round(z * 255);
-    output[i + 3] = 255;
-  }
-  
-  return output;
+function composeCubeCross(faces: Uint8Array[], size: number): Uint8Array {
+  const rowSize = size * 4;
+  const out = new Uint8Array(rowSize * 4 * size * 3);
+  faces.forEach((face, i) => {
+    const [col, row] = CUBE_CROSS_CELLS[i];
+    for (let y = 0; y < size; y++) {
+      const dst = ((row * size + y) * size * 4 + col * size) * 4;
+      out.set(face.subarray(y * rowSize, (y + 1) * rowSize), dst);
+    }
+  });
+  return out;
 }
 
 interface MipInfo {
@@ -128,6 +110,15 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
   // Normal map reconstruction toggle
   const [reconstructNormals, setReconstructNormals] = useState<boolean>(true);
   
+  // Exposure in stops for HDR formats, with the float decodes of the shown mip by slice
+  const [exposure, setExposure] = useState(0);
+  const hdrDecodeRef = useRef<{ key: string; slices: Map<number, Float32Array> } | null>(null);
+  
+  // Array slice or cubemap face, and how cubemaps are shown
+  const [slice, setSlice] = useState(0);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [skyboxFaces, setSkyboxFaces] = useState<{ faces: Uint8Array[]; size: number } | null>(null);
+  
   const { getTextureData } = useAssetStore();
 
   // Load texture data
@@ -143,6 +134,17 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
     setStarpakMipCache(new Map());
     setStarpakAvailable(false);
     setOptStarpakAvailable(false);
+
+    // Choices restored from a workspace session for this texture
+    const restored = getPreviewState(asset.guid);
+    if (restored?.channel) {
+      setChannelMode(restored.channel as ChannelMode);
+    }
+    setExposure(restored?.exposure ?? 0);
+    setSlice(restored?.slice ?? 0);
+    setViewMode((restored?.view as ViewMode) ?? 'single');
+    setSkyboxFaces(null);
+    hdrDecodeRef.current = null;
     
     (async () => {
       try {
@@ -154,6 +156,15 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
           return;
         }
         
+        // Drop restored choices that don't fit this texture
+        const arraySize = result.header.arraySize || 1;
+        if ((restored?.slice ?? 0) >= arraySize) {
+          setSlice(0);
+        }
+        if (!isCubemap(result.header)) {
+          setViewMode('single');
+        }
+        
         setHeader(result.header);
         setAllPixelData(result.pixelData);
         setStarpakOffset(result.starpakOffset);
@@ -167,7 +178,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
         let starpakAvail = false;
         if (hasStarpakMips && result.starpakOffset !== 0n) {
           const { index } = decodeStarpakOffset(result.starpakOffset);
-          starpakAvail = await starpakManager.checkStarpakExists(index, false);
+          starpakAvail = await starpakManager.checkStarpakExists(index, false, result.rpakPath);
           setStarpakAvailable(starpakAvail);
           console.log('[TexturePreview] StarPak available:', starpakAvail);
         }
@@ -175,7 +186,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
         let optAvailable = false;
         if (hasOptStarpakMips && result.optStarpakOffset !== 0n) {
           const { index } = decodeStarpakOffset(result.optStarpakOffset);
-          optAvailable = await starpakManager.checkStarpakExists(index, true);
+          optAvailable = await starpakManager.checkStarpakExists(index, true, result.rpakPath);
           setOptStarpakAvailable(optAvailable);
           console.log('[TexturePreview] OptStarPak available:', optAvailable);
         }
@@ -196,7 +207,8 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
         }
         
         console.log('[TexturePreview] Selecting best available mip:', bestMip);
-        setCurrentMip(bestMip);
+        const restoredMip = restored?.mip;
+        setCurrentMip(restoredMip !== undefined && restoredMip >= bestMip && restoredMip < result.header.mipCount ? restoredMip : bestMip);
         setIsLoading(false);
       } catch (err) {
         setError((err as Error).message);
@@ -245,10 +257,10 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
         // Calculate offset to this mip within our pixel data
         let offset = 0;
         for (let mip = totalMips - 1; mip > currentMip; mip--) {
-          offset += calculateMipSize(header.width, header.height, header.format, mip);
+          offset += calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
         }
         
-        const mipSize = calculateMipSize(header.width, header.height, header.format, currentMip);
+        const mipSize = calculateMipSize(header.width, header.height, header.format, currentMip, header.arraySize);
         
         if (offset + mipSize > allPixelData.length) {
           setMipData({
@@ -335,13 +347,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
     };
     
     loadMip();
-  }, [header, allPixelData, currentMip, channelMode, reconstructNormals, starpakAvailable, optStarpakAvailable, starpakOffset, optStarpakOffset, starpakMipCache]);
-
-  // Get the rpak base path from the asset's container file
-  const rpakBasePath = React.useMemo(() => {
-    const rpakPath = asset.containerFile;
-    return rpakPath ? rpakPath.substring(0, Math.max(rpakPath.lastIndexOf('/'), rpakPath.lastIndexOf('\\'))) : undefined;
-  }, [asset.containerFile]);
+  }, [header, allPixelData, currentMip, slice, viewMode, channelMode, reconstructNormals, exposure, starpakAvailable, optStarpakAvailable, starpakOffset, optStarpakOffset, starpakMipCache]);
 
   // Load a mip from starpak
   const loadStarpakMip = async (mip: number, mipWidth: number, mipHeight: number, isOpt: boolean) => {
@@ -360,13 +366,14 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
           height: header.height,
           format: header.format,
           mipCount: header.mipCount,
+          arraySize: header.arraySize,
           optStreamedMipCount: header.optStreamedMipCount,
           streamedMipCount: header.streamedMipCount,
           compTypePacked: header.compTypePacked,
           compressedBytes: header.compressedBytes,
         },
         isOpt,
-        rpakBasePath
+        rpakPath || undefined
       );
       
       if (!result) {
@@ -384,7 +391,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
       
       // Decompress if needed
       if (result.compressed) {
-        const expectedSize = calculateMipSize(header.width, header.height, header.format, mip);
+        const expectedSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
         console.log(`[TexturePreview] Decompressing mip (type: ${result.compressionType}), compressed: ${result.data.length} bytes, expected decompressed: ${expectedSize} bytes`);
         console.log(`[TexturePreview] First 16 bytes of compressed data:`, Array.from(result.data.slice(0, 16)).map(b => b.toString(16).padStart(2, '0')).join(' '));
         
@@ -415,7 +422,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
           }
         } else if (result.compressionType === 4) {
           // ZSTD decompression (extended type, used in newer games)
-          const expectedSize = calculateMipSize(header.width, header.height, header.format, mip);
+          const expectedSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
           try {
             pixelData = zstdDecompress(result.data);
             console.log(`[TexturePreview] ZSTD decompressed: ${result.data.length} -> ${pixelData.length} (expected: ${expectedSize})`);
@@ -446,23 +453,78 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
     }
   };
 
+  // Decode one slice of a mip level, with normal reconstruction and the channel filter applied
+  const decodeSlice = (levelData: Uint8Array, sliceIndex: number, mipWidth: number, mipHeight: number): Uint8Array => {
+    if (!header) return new Uint8Array(0);
+    
+    // Every slice of a mip level is stored one after another
+    const sliceSize = calculateMipSize(header.width, header.height, header.format, currentMip);
+    const pixelData = levelData.subarray(sliceIndex * sliceSize, (sliceIndex + 1) * sliceSize);
+    if ((header.arraySize || 1) > 1 && pixelData.length < sliceSize) {
+      throw new Error('Insufficient pixel data');
+    }
+    
+    let rgba: Uint8Array;
+    if (isHDRFormat(header.format)) {
+      // Keep the float decodes so exposure changes only redo the tone mapping
+      const key = `${asset.guid}:${currentMip}`;
+      if (hdrDecodeRef.current?.key !== key) {
+        hdrDecodeRef.current = { key, slices: new Map() };
+      }
+      let floatData = hdrDecodeRef.current.slices.get(sliceIndex);
+      if (!floatData) {
+        floatData = decodeTextureToFloat(pixelData, mipWidth, mipHeight, header.format);
+        hdrDecodeRef.current.slices.set(sliceIndex, floatData);
+      }
+      rgba = floatToRGBA(floatData, exposure);
+    } else {
+      rgba = decodeTextureToRGBA(pixelData, mipWidth, mipHeight, header.format);
+    }
+    
+    // Apply normal map reconstruction for BC5 formats
+    if (reconstructNormals && isNormalMapFormat(header.format)) {
+      rgba = recalculateNormalMap(rgba, 'directx');
+    }
+    
+    // Apply channel filter
+    if (channelMode !== 'rgba') {
+      rgba = applyChannelFilter(rgba, channelMode);
+    }
+    
+    return rgba;
+  };
+
   // Decode mip pixel data to displayable image
   const decodeMipToImage = async (pixelData: Uint8Array, mipWidth: number, mipHeight: number) => {
     if (!header) return;
     
     try {
-      let rgba = decodeTextureToRGBA(pixelData, mipWidth, mipHeight, header.format);
-      
-      // Apply normal map reconstruction for BC5 formats
-      if (reconstructNormals && isNormalMapFormat(header.format)) {
-        rgba = reconstructNormalMap(rgba);
-      }
-      
-      // Apply channel filter
-      if (channelMode !== 'rgba') {
-        rgba = applyChannelFilter(rgba, channelMode);
+      // Cubemap views show all six faces of the cube holding the selected face
+      if (viewMode !== 'single' && isCubemap(header)) {
+        const firstFace = Math.floor(slice / 6) * 6;
+        const faces = Array.from({ length: 6 }, (_, face) => decodeSlice(pixelData, firstFace + face, mipWidth, mipHeight));
+        
+        if (viewMode === 'skybox') {
+          setSkyboxFaces({ faces, size: mipWidth });
+          setMipData({
+            level: currentMip,
+            width: mipWidth,
+            height: mipHeight,
+            dataUrl: null,
+          });
+          return;
+        }
+        
+        setMipData({
+          level: currentMip,
+          width: mipWidth * 4,
+          height: mipHeight * 3,
+          dataUrl: rgbaToDataUrl(composeCubeCross(faces, mipWidth), mipWidth * 4, mipHeight * 3),
+        });
+        return;
       }
       
+      const rgba = decodeSlice(pixelData, slice, mipWidth, mipHeight);
       const dataUrl = rgbaToDataUrl(rgba, mipWidth, mipHeight);
       
       setMipData({
@@ -618,6 +680,9 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
   ) : [];
 
   const backgroundClass = `texture-bg-${background}`;
+  const arraySize = header?.arraySize || 1;
+  const cubemap = header ? isCubemap(header) : false;
+  const showSkybox = viewMode === 'skybox' && cubemap && !!skyboxFaces && !mipData?.error && !mipData?.isLoading;
 
   if (isLoading) {
     return (
@@ -675,7 +740,11 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
           <label>Mip:</label>
           <select 
             value={currentMip} 
-            onChange={(e) => setCurrentMip(parseInt(e.target.value))}
+            onChange={(e) => {
+              const mip = parseInt(e.target.value);
+              setCurrentMip(mip);
+              updatePreviewState(asset.guid, { mip });
+            }}
             className="mip-selector"
           >
             {availableMips.map(mip => {
@@ -693,6 +762,51 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
           </select>
         </div>
 
+        {/* Array slice / cubemap face selector */}
+        {header && arraySize > 1 && (
+          <>
+            <div className="toolbar-separator" />
+            <div className="toolbar-group">
+              <label>{cubemap ? 'Face:' : 'Slice:'}</label>
+              <select
+                value={slice}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  setSlice(value);
+                  updatePreviewState(asset.guid, { slice: value });
+                }}
+                className="mip-selector"
+              >
+                {Array.from({ length: arraySize }, (_, i) => (
+                  <option key={i} value={i}>{getSliceName(header, i)}</option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
+        {/* Cubemap view mode */}
+        {cubemap && (
+          <>
+            <div className="toolbar-separator" />
+            <div className="toolbar-group">
+              {([['single', 'Face', 'Show the selected face'], ['cross', 'Cross', 'Show all faces as a cross'], ['skybox', 'Skybox', 'Look around the cubemap in 3D']] as [ViewMode, string, string][]).map(([mode, label, title]) => (
+                <button
+                  key={mode}
+                  className={`view-btn ${viewMode === mode ? 'active' : ''}`}
+                  onClick={() => {
+                    setViewMode(mode);
+                    updatePreviewState(asset.guid, { view: mode });
+                  }}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
         <div className="toolbar-separator" />
 
         {/* Channel selector */}
@@ -701,7 +815,10 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
             <button
               key={mode}
               className={`channel-btn channel-${mode} ${channelMode === mode ? 'active' : ''}`}
-              onClick={() => setChannelMode(mode)}
+              onClick={() => {
+                setChannelMode(mode);
+                updatePreviewState(asset.guid, { channel: mode });
+              }}
               title={`View ${mode.toUpperCase()} channel`}
             >
               {mode.toUpperCase()}
@@ -758,19 +875,50 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
             </div>
           </>
         )}
+
+        {/* Exposure slider (only shown for HDR formats) */}
+        {header && isHDRFormat(header.format) && (
+          <>
+            <div className="toolbar-separator" />
+            <div className="toolbar-group">
+              <label>Exposure:</label>
+              <input
+                type="range"
+                className="exposure-slider"
+                min={-8}
+                max={8}
+                step={0.1}
+                value={exposure}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  setExposure(value);
+                  updatePreviewState(asset.guid, { exposure: value });
+                }}
+                onDoubleClick={() => {
+                  setExposure(0);
+                  updatePreviewState(asset.guid, { exposure: 0 });
+                }}
+                title="Exposure in stops (double-click to reset)"
+              />
+              <span className="exposure-value">{exposure > 0 ? '+' : ''}{exposure.toFixed(1)} EV</span>
+            </div>
+          </>
+        )}
       </div>
 
       {/* Image viewport */}
       <div 
         ref={containerRef}
         className={`texture-viewport ${backgroundClass}`}
-        onWheel={handleWheel}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onWheel={showSkybox ? undefined : handleWheel}
+        onMouseDown={showSkybox ? undefined : handleMouseDown}
+        onMouseMove={showSkybox ? undefined : handleMouseMove}
+        onMouseUp={showSkybox ? undefined : handleMouseUp}
+        onMouseLeave={showSkybox ? undefined : handleMouseUp}
       >
-        {mipData?.dataUrl ? (
+        {showSkybox ? (
+          <CubemapSkybox faces={skyboxFaces!.faces} size={skyboxFaces!.size} />
+        ) : mipData?.dataUrl ? (
           <img
             ref={imageRef}
             src={mipData.dataUrl}
@@ -823,7 +971,7 @@ export const TexturePreview: React.FC<TexturePreviewProps> = ({ asset }) => {
         )}
         {header?.arraySize && header.arraySize > 1 && (
           <span className="info-item">
-            <strong>Array:</strong> {header.arraySize} slices
+            <strong>Array:</strong> {cubemap ? `${header.arraySize / 6} cube${header.arraySize > 6 ? 's' : ''}` : `${header.arraySize} slices`}
           </span>
         )}
       </div>
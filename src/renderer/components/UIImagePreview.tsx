@@ -427,7 +427,7 @@ export const UIImagePreview: React.FC<UIImagePreviewProps> = ({ asset }) => {
           return;
         }
         
-        const { header, pixelData, starpakOffset, optStarpakOffset } = result;
+        const { header, pixelData, starpakOffset, optStarpakOffset, rpakPath } = result;
         const totalStreamedMips = header.optStreamedMipCount + header.streamedMipCount;
         
         // Try to get the best available mip
@@ -443,12 +443,12 @@ export const UIImagePreview: React.FC<UIImagePreviewProps> = ({ asset }) => {
         
         if (hasStarpakMips && starpakOffset !== 0n) {
           const { index } = decodeStarpakOffset(starpakOffset);
-          starpakAvailable = await starpakManager.checkStarpakExists(index, false);
+          starpakAvailable = await starpakManager.checkStarpakExists(index, false, rpakPath);
         }
         
         if (hasOptStarpakMips && optStarpakOffset !== 0n) {
           const { index } = decodeStarpakOffset(optStarpakOffset);
-          optStarpakAvailable = await starpakManager.checkStarpakExists(index, true);
+          optStarpakAvailable = await starpakManager.checkStarpakExists(index, true, rpakPath);
         }
         
         // Find best available mip
@@ -492,7 +492,8 @@ export const UIImagePreview: React.FC<UIImagePreviewProps> = ({ asset }) => {
                 compTypePacked: header.compTypePacked,
                 compressedBytes: header.compressedBytes,
               },
-              isOpt
+              isOpt,
+              rpakPath
             );
             
             if (starpakResult) {
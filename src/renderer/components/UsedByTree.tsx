@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Asset } from '../types/asset';
+import { usageIndex, AssetUsage } from '../services/usageIndex';
+import { dependencyResolver } from '../services/dependencyResolver';
+import { hasIndexedPaks, loadIndexedPaks } from '../stores/assetStore';
+import './UsedByTree.css';
+
+interface UsedByTreeProps {
+  guid: string;
+  assetsByGuid: Map<string, Asset>;
+  onSelect: (asset: Asset) => void;
+}
+
+interface UsedByNodeProps {
+  usage: AssetUsage;
+  // GUIDs of the nodes above this one, to stop at reference cycles
+  ancestors: Set<string>;
+  assetsByGuid: Map<string, Asset>;
+  onSelect: (asset: Asset) => void;
+}
+
+const KIND_LABELS: Record<AssetUsage['kind'], string> = {
+  dependency: 'dep',
+  texture: 'texture',
+  material: 'material',
+  datatable: 'datatable',
+};
+
+const UsedByNode: React.FC<UsedByNodeProps> = ({ usage, ancestors, assetsByGuid, onSelect }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const isCycle = ancestors.has(usage.guid);
+  const users = useMemo(() => isCycle ? [] : usageIndex.getUsers(usage.guid), [usage.guid, isCycle]);
+  const childAncestors = useMemo(() => new Set(ancestors).add(usage.guid), [ancestors, usage.guid]);
+
+  const loadedAsset = assetsByGuid.get(usage.guid);
+  const resolved = loadedAsset ? null : dependencyResolver.resolveGuid(usage.guid);
+  const name = loadedAsset?.name || resolved?.name || `0x${usage.guid}`;
+  const type = loadedAsset?.type || resolved?.type;
+
+  return (
+    <div className="used-by-node">
+      <div className="used-by-row">
+        <button
+          className={`used-by-toggle ${users.length === 0 ? 'empty' : ''}`}
+          onClick={() => setExpanded(!expanded)}
+          disabled={users.length === 0}
+        >
+          {users.length > 0 ? (expanded ? '▾' : '▸') : ''}
+        </button>
+        <span
+          className={`used-by-name ${loadedAsset ? 'selectable' : ''}`}
+          title={`0x${usage.guid}`}
+          onClick={() => loadedAsset && onSelect(loadedAsset)}
+        >
+          {name}
+        </span>
+        {isCycle && <span className="used-by-cycle">(cycle)</span>}
+        <span className="badge badge-sm">{KIND_LABELS[usage.kind]}</span>
+        {type && <span className="badge badge-sm">{type}</span>}
+        {users.length > 0 && <span className="used-by-count">{users.length}</span>}
+      </div>
+      {expanded && (
+        <div className="used-by-children">
+          {users.map((child) => (
+            <UsedByNode
+              key={`${child.guid}:${child.kind}`}
+              usage={child}
+              ancestors={childAncestors}
+              assetsByGuid={assetsByGuid}
+              onSelect={onSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const UsedByTree: React.FC<UsedByTreeProps> = ({ guid, assetsByGuid, onSelect }) => {
+  // Users can be in any pak, so paks listed from the asset index cache are parsed first
+  const [ready, setReady] = useState(() => !hasIndexedPaks() && usageIndex.isCurrent());
+  useEffect(() => {
+    if (ready) return;
+    let cancelled = false;
+    loadIndexedPaks()
+      .then(() => usageIndex.sync())
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+    return () => { cancelled = true; };
+  }, [ready]);
+
+  const users = useMemo(() => ready ? usageIndex.getUsers(guid) : [], [guid, ready]);
+  const root = useMemo(() => new Set([guid.toUpperCase()]), [guid]);
+
+  if (!ready) {
+    return (
+      <div className="preview-info">
+        <p className="text-muted">Indexing asset references...</p>
+      </div>
+    );
+  }
+
+  if (users.length === 0) {
+    return (
+      <div className="preview-info">
+        <p>Not used</p>
+        <p className="text-muted">No loaded asset references this asset.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="used-by-tree">
+      {users.map((usage) => (
+        <UsedByNode
+          key={`${usage.guid}:${usage.kind}`}
+          usage={usage}
+          ancestors={root}
+          assetsByGuid={assetsByGuid}
+          onSelect={onSelect}
+        />
+      ))}
+    </div>
+  );
+};
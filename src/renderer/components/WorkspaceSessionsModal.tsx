@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { workspaceSessions, WorkspaceSession } from '../services/workspaceSessions';
+import './WorkspaceSessionsModal.css';
+
+interface WorkspaceSessionsModalProps {
+  onClose: () => void;
+  onSave: (name: string) => Promise<void>;
+  onOpen: (name: string) => Promise<void>;
+}
+
+export const WorkspaceSessionsModal: React.FC<WorkspaceSessionsModalProps> = ({ onClose, onSave, onOpen }) => {
+  const [sessions, setSessions] = useState<WorkspaceSession[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    workspaceSessions.load().then(() => setSessions(workspaceSessions.getSessions()));
+  }, []);
+
+  const trimmedName = name.trim();
+  const existing = sessions.some(session => session.name === trimmedName);
+
+  const handleSave = async () => {
+    if (!trimmedName) return;
+    try {
+      await onSave(trimmedName);
+      setSessions(workspaceSessions.getSessions());
+      setName('');
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleOpen = (session: WorkspaceSession) => {
+    onClose();
+    onOpen(session.name);
+  };
+
+  const handleRemove = async (session: WorkspaceSession) => {
+    await workspaceSessions.removeSession(session.name);
+    setSessions(workspaceSessions.getSessions());
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal workspace-sessions-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Workspace Sessions</h2>
+          <button className="btn btn-ghost btn-icon" onClick={onClose}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="18" y1="6" x2="6" y2="18" />
+              <line x1="6" y1="6" x2="18" y2="18" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="workspace-sessions-toolbar">
+          <input
+            type="text"
+            placeholder="Session name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            autoFocus
+          />
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={!trimmedName}>
+            {existing ? 'Overwrite' : 'Save Current'}
+          </button>
+        </div>
+
+        <div className="modal-content workspace-sessions-list">
+          {error && <p className="workspace-sessions-error">{error}</p>}
+          {sessions.length === 0 && (
+            <p className="workspace-sessions-muted">
+              Save the loaded files, selection, filters, preview and export choices to reopen them later
+            </p>
+          )}
+          {sessions.map(session => (
+            <div key={session.name} className="workspace-session-item" onClick={() => setName(session.name)}>
+              <div className="workspace-session-info">
+                <span className="workspace-session-name truncate">{session.name}</span>
+                <span className="workspace-sessions-muted">
+                  {session.loadedFiles.length} file{session.loadedFiles.length === 1 ? '' : 's'}
+                  {session.lastUsedAt && ` · ${new Date(session.lastUsedAt).toLocaleString()}`}
+                </span>
+                {(session.query || session.typeFilter !== 'all') && (
+                  <span className="workspace-sessions-muted mono truncate">
+                    {[session.typeFilter !== 'all' ? session.typeFilter : '', session.query].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+              </div>
+              <button
+                className="btn btn-secondary btn-xs"
+                onClick={(e) => { e.stopPropagation(); handleOpen(session); }}
+              >
+                Open
+              </button>
+              <button
+                className="btn btn-ghost btn-xs"
+                onClick={(e) => { e.stopPropagation(); handleRemove(session); }}
+                title="Delete session"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="modal-footer">
+          <button className="btn btn-secondary" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+};
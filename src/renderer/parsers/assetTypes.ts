@@ -41,7 +41,7 @@ export const AssetType = {
 } as const;
 
 // Helper function to create FourCC from string
-function fourCC(str: string): number {
+export function fourCC(str: string): number {
   return str.charCodeAt(0) |
          (str.charCodeAt(1) << 8) |
          (str.charCodeAt(2) << 16) |
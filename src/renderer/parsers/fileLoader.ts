@@ -4,12 +4,19 @@
 
 import { Asset } from '../types/asset';
 import { getFileExtension } from '../utils/assetUtils';
-import { parseRPak, ParsedRPak, ParsedAsset, CompressionType, RpakParser } from './rpakParser';
+import { ParsedRPak, ParsedAsset, CompressionType, RpakParser, RPakFileRanges } from './rpakParser';
 import { BinaryReader } from '../utils/binaryUtils';
 import { starpakManager } from './starpakLoader';
 import { parseMaterialAsset, ParsedMaterialData } from './materialParser';
 import { parseShaderSetHeader, parseShaderHeader } from './shaderParser';
 import { extractTextureBindings } from './dxbcParser';
+import { nameDatabase } from '../services/nameDatabase';
+import { parseWorkerPool } from '../services/parseWorkerPool';
+import { assetIndexCache } from '../services/assetIndexCache';
+import { openFileSource } from './fileSource';
+import { readPakForParse } from './pakHeaderScanner';
+import { getSettings } from '../stores/settingsStore';
+import { findPatchChain, mergePatchChain, parsePatchFileName, PatchChainMember } from './patchChain';
 
 export type FileType = 'rpak' | 'starpak' | 'mbnk' | 'bsp' | 'mdl' | 'bpk' | 'unknown';
 
@@ -39,10 +46,22 @@ export interface LoadResult {
   assets: Asset[];
   parsedRPak?: ParsedRPak;
   rpakParser?: RpakParser;
+  // All files of a patch chain (base first) and their parsers, when the rpak is patched
+  patchChain?: string[];
+  chainParsers?: Map<string, RpakParser>;
+  // The assets came from the asset index cache and the pak hasn't been parsed
+  fromIndexCache?: boolean;
   error?: string;
   warnings?: string[];
 }
 
+export interface LoadOptions {
+  // List the assets from the asset index cache when it is up to date (default true)
+  useIndexCache?: boolean;
+  // Cancels the parses started by this load
+  signal?: AbortSignal;
+}
+
 /**
  * Get shader texture bindings for a material by parsing its shader set's pixel shader
  */
@@ -278,6 +297,10 @@ function convertParsedAsset(
       dependenciesIndex: parsed.dependenciesIndex,
       dependentsCount: parsed.dependentsCount,
       dependenciesCount: parsed.dependenciesCount,
+      // GUIDs of the assets this one depends on
+      dependencyGuids: parser && parsed.dependenciesCount > 0
+        ? parser.getAssetDependencies(parsed).map(dep => dep.guid)
+        : undefined,
       // Include raw header data for preview parsing
       headerData: parsed.headerData,
       // For model assets, include the data pointed to by the header
@@ -290,70 +313,129 @@ function convertParsedAsset(
   };
 }
 
+/**
+ * Read and parse every rpak in a patch chain, base first
+ * Members are read in ranges and parsed in parallel on the parse worker pool
+ */
+async function loadPatchChainMembers(chainPaths: string[], signal?: AbortSignal): Promise<PatchChainMember[]> {
+  return Promise.all(chainPaths.map(async (memberPath): Promise<PatchChainMember> => {
+    let memberData: ArrayBuffer | RPakFileRanges;
+    try {
+      memberData = await readPakForParse(await openFileSource(memberPath));
+    } catch (error) {
+      throw new Error(`Failed to read ${memberPath}: ${(error as Error).message}`);
+    }
+
+    // The buffers are transferred to the worker and unusable afterwards
+    const { parsed, parser } = await parseWorkerPool.parse(memberData, memberPath, signal);
+    return {
+      filePath: memberPath,
+      fileName: parsed.fileName,
+      patchNumber: parsePatchFileName(parsed.fileName).patchNumber,
+      parsed,
+      parser,
+    };
+  }));
+}
+
+/**
+ * Find the patch chain of an rpak, always including the file itself
+ */
+async function getChainPaths(filePath: string): Promise<string[]> {
+  const chainPaths = await findPatchChain(filePath);
+  if (!chainPaths.includes(filePath)) {
+    chainPaths.push(filePath);
+  }
+  return chainPaths;
+}
+
+export function getBasePath(filePath: string): string {
+  // Extract base directory from file path (handle both / and \ separators)
+  const separatorIndex = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  return separatorIndex >= 0 ? filePath.substring(0, separatorIndex) : filePath;
+}
+
+/**
+ * List an rpak's assets from the asset index cache without parsing it
+ */
+async function loadFromIndexCache(filePath: string): Promise<LoadResult | null> {
+  const chainPaths = await getChainPaths(filePath);
+  const cached = await assetIndexCache.lookup(filePath, chainPaths);
+  if (!cached) {
+    return null;
+  }
+
+  await starpakManager.initialize(filePath, cached.streamingFiles, cached.optStreamingFiles);
+
+  // Names imported since the entry was written
+  if (!getSettings().disableCachedNames) {
+    await nameDatabase.load();
+    nameDatabase.applyToAssets(cached.assets);
+  }
+
+  console.log(`[FileLoader] Listed ${cached.assets.length} assets from the asset index cache`);
+  return {
+    success: true,
+    assets: cached.assets,
+    patchChain: chainPaths.length > 1 ? chainPaths : undefined,
+    fromIndexCache: true,
+    warnings: cached.warnings.length > 0 ? cached.warnings : undefined,
+  };
+}
+
 /**
  * Load and parse a file, returning its assets
  */
-export async function loadFile(filePath: string): Promise<LoadResult> {
+export async function loadFile(filePath: string, options: LoadOptions = {}): Promise<LoadResult> {
   const fileName = filePath.split(/[/\\]/).pop() || 'unknown';
   const fileType = detectFileType(fileName);
 
   console.log(`[FileLoader] Loading file: ${fileName}, type: ${fileType}`);
 
   try {
-    // Read the file
-    const result = await window.electron.readFile(filePath);
-    
-    console.log(`[FileLoader] Read file result: success=${result.success}, dataType=${typeof result.data}, dataLength=${result.data?.length || 0}`);
-    
-    if (!result.success || !result.data) {
-      return {
-        success: false,
-        assets: [],
-        error: result.error || 'Failed to read file',
-      };
-    }
-
-    // Convert the data to Uint8Array
-    // IPC serializes Buffer as an object with numbered properties or as a Uint8Array
-    let uint8Array: Uint8Array;
-    
-    if (result.data instanceof Uint8Array) {
-      uint8Array = result.data;
-    } else if (result.data instanceof ArrayBuffer) {
-      uint8Array = new Uint8Array(result.data);
-    } else if (typeof result.data === 'object' && result.data !== null) {
-      // Buffer serialized through IPC becomes { type: 'Buffer', data: [...] } or just numbered properties
-      if ('data' in result.data && Array.isArray((result.data as any).data)) {
-        uint8Array = new Uint8Array((result.data as any).data);
-      } else {
-        // Try to convert object with numbered properties to array
-        const values = Object.values(result.data) as number[];
-        uint8Array = new Uint8Array(values);
+    if (fileType === 'rpak' && getSettings().enableCaching && options.useIndexCache !== false) {
+      const cachedResult = await loadFromIndexCache(filePath);
+      if (cachedResult) {
+        return cachedResult;
       }
-    } else {
-      return {
-        success: false,
-        assets: [],
-        error: 'Invalid data format received from file read',
-      };
     }
 
-    const buffer = uint8Array.buffer.slice(uint8Array.byteOffset, uint8Array.byteOffset + uint8Array.byteLength);
+    // Rpaks are read in ranges when they are parsed and starpaks are only
+    // read on demand; other files are read whole
+    let buffer = new ArrayBuffer(0);
+    if (fileType !== 'rpak' && fileType !== 'starpak') {
+      try {
+        buffer = await (await openFileSource(filePath)).readAll();
+      } catch (error) {
+        return {
+          success: false,
+          assets: [],
+          error: (error as Error).message,
+        };
+      }
 
-    console.log(`[FileLoader] Buffer size: ${buffer.byteLength}`);
+      console.log(`[FileLoader] Buffer size: ${buffer.byteLength}`);
+    }
 
     // Parse based on file type
     let assets: Asset[] = [];
     let parsedRPak: ParsedRPak | undefined;
     let rpakParser: RpakParser | undefined;
+    let patchChain: string[] | undefined;
+    let chainParsers: Map<string, RpakParser> | undefined;
     let warnings: string[] = [];
 
     switch (fileType) {
-      case 'rpak':
+      case 'rpak': {
         console.log(`[FileLoader] Parsing RPak...`);
-        const rpakResult = await parseRPak(buffer, filePath);
-        parsedRPak = rpakResult.parsed;
-        rpakParser = rpakResult.parser;
+
+        // Find the base pak and numbered patches this file belongs to
+        const chainPaths = await getChainPaths(filePath);
+
+        const members = await loadPatchChainMembers(chainPaths, options.signal);
+        const newest = members[members.length - 1];
+        parsedRPak = newest.parsed;
+        rpakParser = newest.parser;
         
         console.log(`[FileLoader] RPak parsed:`, {
           version: parsedRPak.header.version,
@@ -361,14 +443,12 @@ export async function loadFile(filePath: string): Promise<LoadResult> {
           isCompressed: parsedRPak.isCompressed,
           compressionType: parsedRPak.compressionType,
           assetsFound: parsedRPak.assets.length,
+          patchChain: members.map(m => m.fileName),
         });
         
         // Initialize starpak manager with streaming file paths
-        // Extract base directory from file path (handle both / and \ separators)
-        const separatorIndex = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
-        const basePath = separatorIndex >= 0 ? filePath.substring(0, separatorIndex) : filePath;
         await starpakManager.initialize(
-          basePath,
+          filePath,
           parsedRPak.streamingFiles,
           parsedRPak.optStreamingFiles
         );
@@ -385,7 +465,8 @@ export async function loadFile(filePath: string): Promise<LoadResult> {
               warnings.push('ZSTD-compressed RPak file was successfully decompressed.');
               break;
             case CompressionType.OODLE:
-              warnings.push('This RPak file uses Oodle compression which is not supported in the browser.');
+              // Oodle was successfully decompressed
+              warnings.push('Oodle-compressed RPak file was successfully decompressed.');
               break;
             case CompressionType.RTECH:
               warnings.push('This RPak file uses RTech compression which is not supported in the browser.');
@@ -393,13 +474,23 @@ export async function loadFile(filePath: string): Promise<LoadResult> {
           }
         }
         
-        if (parsedRPak.isPatched) {
-          warnings.push('This is a patch RPak file. Some assets may require the base file to be loaded.');
+        // Apply the patches in order to get one merged asset view
+        const merged = mergePatchChain(members);
+
+        if (members.length > 1) {
+          warnings.push(`Merged patch chain: ${members.map(m => m.fileName).join(', ')}.`);
+        }
+        if (merged.missingPatchNumbers.length > 0) {
+          const missingNames = merged.missingPatchNumbers.map(n => n === 0 ? 'base pak' : `patch ${String(n).padStart(2, '0')}`);
+          warnings.push(`Patch chain is incomplete (missing ${missingNames.join(', ')}).`);
+        }
+        if (merged.unresolvedCount > 0) {
+          warnings.push(`${merged.unresolvedCount} assets are stored in patched pages that could not be rebuilt.`);
         }
         
         // Build asset map by GUID for shader lookups
         const assetsByGuid = new Map<string, ParsedAsset>();
-        for (const asset of parsedRPak.assets) {
+        for (const { asset } of merged.assets) {
           const guidHex = `0x${BigInt('0x' + asset.guid.replace(/^0x/i, '')).toString(16).toUpperCase()}`;
           assetsByGuid.set(guidHex, asset);
         }
@@ -408,11 +499,49 @@ export async function loadFile(filePath: string): Promise<LoadResult> {
         const shaderBindingsCache = new Map<string, Map<number, string>>();
         
         // Convert parsed assets to UI format (with shader bindings for materials)
-        assets = parsedRPak.assets.map(a => 
-          convertParsedAsset(a, fileName, rpakParser, assetsByGuid, shaderBindingsCache)
-        );
+        // The newest chain member holds every page once the patches are applied;
+        // each asset is attributed to the chain member that supplied it
+        assets = merged.assets.map(({ asset, source }) => {
+          const converted = convertParsedAsset(asset, newest.fileName, merged.parser, assetsByGuid, shaderBindingsCache);
+          if (members.length > 1 && converted.metadata) {
+            converted.metadata.patchFile = source.fileName;
+            converted.metadata.patchNumber = source.patchNumber;
+          }
+          return converted;
+        });
         console.log(`[FileLoader] Converted ${assets.length} assets`);
+
+        // Name anonymous assets from the name database
+        if (!getSettings().disableCachedNames) {
+          await nameDatabase.load();
+          const named = nameDatabase.applyToAssets(assets);
+          if (named > 0) {
+            console.log(`[FileLoader] Named ${named} assets from the name database`);
+          }
+        }
+
+        if (members.length > 1) {
+          patchChain = members.map(m => m.filePath);
+          chainParsers = new Map(members.map(m => [m.filePath, m.parser]));
+        }
+
+        // Remember the asset table so the next load can skip parsing
+        if (getSettings().enableCaching) {
+          const stamps = await assetIndexCache.stampFiles(chainPaths);
+          if (stamps) {
+            assetIndexCache.store(filePath, {
+              members: stamps,
+              streamingFiles: parsedRPak.streamingFiles,
+              optStreamingFiles: parsedRPak.optStreamingFiles,
+              warnings: [...warnings],
+              assets,
+            }).catch((error) => {
+              console.warn(`[FileLoader] Failed to store the asset index cache entry for ${fileName}:`, error);
+            });
+          }
+        }
         break;
+      }
       
       case 'starpak':
         // StarPak files are streaming data, they don't contain asset headers
@@ -451,6 +580,8 @@ export async function loadFile(filePath: string): Promise<LoadResult> {
       assets,
       parsedRPak,
       rpakParser,
+      patchChain,
+      chainParsers,
       warnings: warnings.length > 0 ? warnings : undefined,
     };
   } catch (error) {
@@ -535,9 +666,10 @@ export async function loadFiles(filePaths: string[]): Promise<Map<string, LoadRe
 
 /**
  * Load streaming data for a model asset from starpak
+ * @param rpakPath Path of the pak holding the model, used for starpak lookups
  */
-export async function loadModelStreamingData(starpakOffset: bigint): Promise<Uint8Array | null> {
-  return starpakManager.readStreamingData(starpakOffset, false);
+export async function loadModelStreamingData(starpakOffset: bigint, rpakPath?: string): Promise<Uint8Array | null> {
+  return starpakManager.readStreamingData(starpakOffset, false, rpakPath);
 }
 
 /**
@@ -0,0 +1,112 @@
+/**
+ * File sources
+ * Range-based access to files on disk. Small reads go through fs:readFileRange;
+ * large reads are streamed over a MessagePort in chunks straight into one
+ * preallocated buffer, so a file is never held twice while it is read.
+ */
+
+// Reads up to this size are done with a single IPC call
+const DIRECT_READ_LIMIT = 4 * 1024 * 1024;
+
+/**
+ * Convert range data received over IPC to a Uint8Array
+ * Buffers normally arrive as Uint8Array; older serializations are still handled
+ */
+export function toUint8Array(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return new Uint8Array(data);
+  }
+  if (typeof data === 'object' && data !== null && 'data' in data && Array.isArray((data as any).data)) {
+    return new Uint8Array((data as any).data);
+  }
+  return new Uint8Array(Object.values(data as Record<string, number>));
+}
+
+export class FileSource {
+  readonly filePath: string;
+  readonly size: number;
+
+  constructor(filePath: string, size: number) {
+    this.filePath = filePath;
+    this.size = size;
+  }
+
+  /**
+   * Read a range of the file
+   * Ranges past the end of the file are clamped
+   */
+  async read(offset: number, size: number): Promise<Uint8Array> {
+    const length = Math.max(0, Math.min(size, this.size - offset));
+    if (length === 0) {
+      return new Uint8Array(0);
+    }
+
+    if (length <= DIRECT_READ_LIMIT) {
+      const result = await window.electron.readFileRange(this.filePath, offset, length);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || `Failed to read ${this.filePath}`);
+      }
+      return toUint8Array(result.data);
+    }
+
+    return new Uint8Array(await this.stream(offset, length));
+  }
+
+  /**
+   * Read a range into a buffer owned by the caller, which can be transferred
+   * to a worker without copying
+   * Ranges past the end of the file are clamped
+   */
+  async readBuffer(offset: number, size: number): Promise<ArrayBuffer> {
+    const length = Math.max(0, Math.min(size, this.size - offset));
+    if (length > DIRECT_READ_LIMIT) {
+      return this.stream(offset, length);
+    }
+
+    // IPC data can be a view into a larger shared buffer (Node's Buffer pool),
+    // so it is copied unless it owns its whole buffer
+    const data = await this.read(offset, length);
+    return data.byteOffset === 0 && data.byteLength === data.buffer.byteLength && data.buffer instanceof ArrayBuffer
+      ? data.buffer
+      : new Uint8Array(data).buffer;
+  }
+
+  /**
+   * Read the whole file into a buffer owned by the caller
+   */
+  async readAll(): Promise<ArrayBuffer> {
+    return this.readBuffer(0, this.size);
+  }
+
+  private async stream(offset: number, length: number): Promise<ArrayBuffer> {
+    const buffer = new ArrayBuffer(length);
+    const target = new Uint8Array(buffer);
+
+    const result = await window.electron.streamFileRange(this.filePath, offset, length, (chunk, chunkOffset) => {
+      target.set(toUint8Array(chunk), chunkOffset);
+    });
+    if (!result.success) {
+      throw new Error(result.error || `Failed to read ${this.filePath}`);
+    }
+    if (result.data !== length) {
+      throw new Error(`Unexpected end of file reading ${this.filePath} (${result.data} of ${length} bytes)`);
+    }
+
+    return buffer;
+  }
+}
+
+/**
+ * Open a file for range reads
+ */
+export async function openFileSource(filePath: string): Promise<FileSource> {
+  const statResult = await window.electron.stat(filePath);
+  if (!statResult.success || !statResult.data) {
+    throw new Error(statResult.error || `Failed to stat ${filePath}`);
+  }
+
+  return new FileSource(filePath, statResult.data.size);
+}
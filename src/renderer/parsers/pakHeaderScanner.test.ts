@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { readPakForParse, scanPakAssets } from './pakHeaderScanner';
+import { FileSource } from './fileSource';
+import { parseRPak, RPakFileRanges } from './rpakParser';
+import { RPakWriter } from './rpakWriter';
+import { PAK_HEADER_FLAGS, PATCH_COMMANDS } from './rpakTypes';
+import { buildTestPak, concat, encodePatchEditStream, fill, TestPak } from './rpakTestUtils';
+
+const PAK: TestPak = {
+  pages: [32, 256],
+  pageData: [concat([fill(16, 0xA1), fill(16, 0xB1)]), fill(256, 0xD0)],
+  assets: [
+    { guid: 0x1111n, head: [0, 0], data: [1, 0], headerSize: 16 },
+    { guid: 0x2222n, head: [0, 16], data: [1, 128], headerSize: 16 },
+  ],
+  streamingFiles: ['paks/Win64/test.starpak'],
+};
+
+// Page 0 is rebuilt from the patch stream, page 1 is stored in the file
+// after the insert data
+const PATCHED_PAK: TestPak = {
+  pages: [32, 16],
+  pageData: [fill(16, 0xC1)],
+  assets: [{ guid: 0x3333n, head: [1, 0], data: [0, 0], headerSize: 16 }],
+  patch: {
+    pageCount: 1,
+    patchIndices: [0],
+    stream: encodePatchEditStream([[PATCH_COMMANDS.INSERT, 4], [PATCH_COMMANDS.COPY, 28]]),
+    insertData: fill(4, 0xE1),
+  },
+};
+
+/**
+ * Turn a v8 test pak into an Oodle pak: `stream` replaces the body after the header
+ */
+function withOodleBody(pak: Uint8Array, stream: Uint8Array): Uint8Array {
+  const oodlePak = concat([pak.subarray(0, 0x80), stream]);
+  const view = new DataView(oodlePak.buffer);
+  view.setUint16(6, PAK_HEADER_FLAGS.OODLE_ENCODED, true);
+  view.setBigUint64(0x18, BigInt(oodlePak.length), true);
+  return oodlePak;
+}
+
+/**
+ * Oodle stream of stored (uncompressed) 256KB blocks
+ */
+function storedOodleStream(data: Uint8Array): Uint8Array {
+  const blocks: Uint8Array[] = [];
+  for (let offset = 0; offset < data.length; offset += 0x40000) {
+    blocks.push(new Uint8Array([0xCC, 0x06]), data.subarray(offset, offset + 0x40000));
+  }
+  return concat(blocks);
+}
+
+// Files served to FileSource by the stubbed IPC
+const files = new Map<string, Uint8Array>();
+const readRanges: [number, number][] = [];
+
+function openTestSource(filePath: string, data: Uint8Array): FileSource {
+  files.set(filePath, data);
+  return new FileSource(filePath, data.length);
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.stubGlobal('window', {
+    electron: {
+      stat: async (filePath: string) => ({ success: true, data: { size: files.get(filePath)!.length } }),
+      readFileRange: async (filePath: string, offset: number, size: number) => {
+        readRanges.push([offset, size]);
+        return { success: true, data: files.get(filePath)!.slice(offset, offset + size) };
+      },
+    },
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('readPakForParse', () => {
+  it('reads uncompressed paks page by page', async () => {
+    const original = buildTestPak(PAK);
+    readRanges.length = 0;
+    const data = await readPakForParse(openTestSource('test.rpak', original)) as RPakFileRanges;
+
+    const pageDataStart = original.length - 32 - 256;
+    expect(data.head.length).toBe(pageDataStart);
+    expect(data.pages.map(page => page.length)).toEqual([32, 256]);
+    expect(data.trailing.length).toBe(0);
+
+    // No read covers the whole file
+    expect(readRanges.every(([, size]) => size < original.length)).toBe(true);
+
+    // Parsed from ranges, the pak matches the pak parsed whole
+    const { parsed, parser } = await parseRPak(data, 'paks/test.rpak');
+    const { parsed: whole } = await parseRPak(original.slice(), 'paks/test.rpak');
+    expect(parsed.assets.map(a => [a.guid, Array.from(a.headerData!)])).toEqual(whole.assets.map(a => [a.guid, Array.from(a.headerData!)]));
+    expect(parsed.streamingFiles).toEqual(PAK.streamingFiles);
+    expect(Array.from(new RPakWriter(parser).build())).toEqual(Array.from(original));
+  });
+
+  it('skips the pages rebuilt from the patch stream and keeps the insert data', async () => {
+    const original = buildTestPak(PATCHED_PAK);
+    const data = await readPakForParse(openTestSource('test(01).rpak', original)) as RPakFileRanges;
+    expect(data.pages.map(page => Array.from(page))).toEqual([Array.from(fill(16, 0xC1))]);
+
+    const { parser } = await parseRPak(data, 'paks/test(01).rpak');
+    expect(Array.from(parser.getRawData().patchInsertData)).toEqual(Array.from(fill(4, 0xE1)));
+    expect(Array.from(new RPakWriter(parser).build())).toEqual(Array.from(original));
+  });
+});
+
+describe('scanPakAssets', () => {
+  it('lists the assets of an Oodle pak', async () => {
+    const pak = buildTestPak(PAK);
+    files.set('oodle.rpak', withOodleBody(pak, storedOodleStream(pak.subarray(0x80))));
+    expect(await scanPakAssets('oodle.rpak')).toEqual([
+      { guid: '0000000000001111', typeFourCC: 'dtbl' },
+      { guid: '0000000000002222', typeFourCC: 'dtbl' },
+    ]);
+  });
+
+  it('fails on corrupt Oodle data without reading more of the file', async () => {
+    // A bad decoder type, in a file larger than the first read
+    const pak = buildTestPak(PAK);
+    files.set('corrupt.rpak', withOodleBody(pak, concat([new Uint8Array([0x8C, 0x07]), fill(5 * 1024 * 1024, 0)])));
+    readRanges.length = 0;
+
+    await expect(scanPakAssets('corrupt.rpak')).rejects.toThrow('Oodle decompression failed: Unknown Oodle decoder type 7');
+    expect(readRanges).toEqual([[0, 0x80], [0x80, 4 * 1024 * 1024]]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * RPak header scanner
+ * Reads just enough of an rpak to list the assets it contains,
+ * without loading pages. Compressed paks are only decompressed up to the end
+ * of the asset table. Also reads uncompressed paks for parsing header first,
+ * then page by page.
+ */
+
+import { Decompress as ZstdDecompress } from 'fzstd';
+import { BinaryReader } from '../utils/binaryUtils';
+import { decompressOodleLz, OodleDecodeError } from '../utils/oodleLzDecompress';
+import { decompressRTech } from '../utils/rtechDecompress';
+import { PakHeader, PAK_HEADER_FLAGS, PAK_HEADER_FLAGS_COMPRESSED } from './rpakTypes';
+import { RpakParser, RPakFileRanges } from './rpakParser';
+import { decodePatchEditStream, getPatchInsertSize } from './patchStream';
+import { fourCCToString } from './assetTypes';
+import { FileSource, openFileSource } from './fileSource';
+
+export interface ScannedPakAsset {
+  guid: string;
+  typeFourCC: string;
+}
+
+// Largest header size (v8)
+const MAX_HEADER_SIZE = 0x80;
+
+// Compressed data is read in chunks of this size until the asset table is covered
+const SCAN_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Oodle decodes in 256KB blocks, so partial decodes must end on a block boundary
+const OODLE_BLOCK_SIZE = 0x40000;
+
+/**
+ * Size of the patch data header, the patch file headers and the patch numbers
+ */
+function getPatchHeadersSize(header: PakHeader): number {
+  return 8 + header.patchCount * (16 + 2);
+}
+
+/**
+ * Size of everything from the end of the header to the end of the asset table
+ */
+function getAssetTableEnd(header: PakHeader): number {
+  let size = 0;
+
+  if (header.patchCount > 0) {
+    size += getPatchHeadersSize(header);
+  }
+
+  size += header.streamingFilesBufSize + header.optStreamingFilesBufSize;
+  size += header.numSegments * 16;
+  size += header.numPages * 12;
+  size += header.numPointers * 8;
+  size += header.numAssets * header.pakAssetSize;
+
+  return size;
+}
+
+/**
+ * File offset of the data following the descriptor tables and patch edit
+ * stream of an uncompressed pak: the patch insert data, then the stored pages
+ * @param patchDataStreamSize Size of the patch edit stream, from the patch data header
+ */
+function getPageDataStart(header: PakHeader, patchDataStreamSize: number): number {
+  let size = header.pakHdrSize + getAssetTableEnd(header);
+
+  size += header.numGuidRefs * 8;
+  size += header.numDependencies * 4;
+  if (header.numExternalAssetRefs > 0) {
+    size += header.numExternalAssetRefs * 4 + header.externalAssetRefsSize;
+  }
+  size += header.unkDataSize_74 + header.unkDataSize_78;
+  size += patchDataStreamSize;
+
+  return size;
+}
+
+/**
+ * Read the decompressed bytes following the header, up to at least `needed` bytes
+ */
+async function readBody(source: FileSource, header: PakHeader, needed: number): Promise<Uint8Array> {
+  const fileSize = source.size;
+  const headerSize = header.pakHdrSize;
+  const bodySize = Number(header.dcmpSize) - headerSize;
+
+  if (header.flags & PAK_HEADER_FLAGS.ZSTD_ENCODED) {
+    const chunks: Uint8Array[] = [];
+    let produced = 0;
+    const stream = new ZstdDecompress((chunk) => {
+      chunks.push(chunk);
+      produced += chunk.length;
+    });
+
+    for (let offset = headerSize; offset < fileSize && produced < needed; offset += SCAN_CHUNK_SIZE) {
+      const size = Math.min(SCAN_CHUNK_SIZE, fileSize - offset);
+      stream.push(await source.read(offset, size), offset + size >= fileSize);
+    }
+
+    const body = new Uint8Array(produced);
+    let pos = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, pos);
+      pos += chunk.length;
+    }
+    return body;
+  }
+
+  if (header.flags & PAK_HEADER_FLAGS.OODLE_ENCODED) {
+    const target = Math.min(bodySize, Math.ceil(needed / OODLE_BLOCK_SIZE) * OODLE_BLOCK_SIZE);
+
+    // Grow the compressed prefix until it holds enough blocks to cover the
+    // table. Only a prefix that ends mid-block is retried; corrupt data fails.
+    for (let readSize = SCAN_CHUNK_SIZE; ; readSize *= 4) {
+      const size = Math.min(readSize, fileSize - headerSize);
+      const compressed = await source.read(headerSize, size);
+      try {
+        return decompressOodleLz(compressed, target);
+      } catch (error) {
+        const needsMoreInput = error instanceof OodleDecodeError && error.truncated;
+        if (!needsMoreInput || headerSize + size >= fileSize) {
+          throw new Error(`Oodle decompression failed: ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+
+  if (header.flags & PAK_HEADER_FLAGS.RTECH_ENCODED) {
+    // RTech streams can't be decoded partially
+    const compressed = await source.read(headerSize, fileSize - headerSize);
+    return decompressRTech(compressed, 0);
+  }
+
+  return source.read(headerSize, Math.min(needed, fileSize - headerSize));
+}
+
+/**
+ * List the assets of an rpak (GUID as 16 uppercase hex digits, and type)
+ */
+export async function scanPakAssets(filePath: string): Promise<ScannedPakAsset[]> {
+  const source = await openFileSource(filePath);
+  const header = RpakParser.readHeader(await source.read(0, MAX_HEADER_SIZE));
+  const tableEnd = getAssetTableEnd(header);
+  const body = await readBody(source, header, tableEnd);
+
+  if (body.length < tableEnd) {
+    throw new Error(`Asset table extends past the end of ${filePath}`);
+  }
+
+  const reader = new BinaryReader(body);
+  const tableStart = tableEnd - header.numAssets * header.pakAssetSize;
+
+  const assets: ScannedPakAsset[] = [];
+  for (let i = 0; i < header.numAssets; i++) {
+    const entryOffset = tableStart + i * header.pakAssetSize;
+
+    reader.seek(entryOffset);
+    const guid = reader.readUint64();
+
+    // The asset type is the last field of the entry in every version
+    reader.seek(entryOffset + header.pakAssetSize - 4);
+    const type = reader.readUint32();
+
+    assets.push({
+      guid: guid.toString(16).padStart(16, '0').toUpperCase(),
+      typeFourCC: fourCCToString(type),
+    });
+  }
+
+  return assets;
+}
+
+/**
+ * Read an rpak for parsing. Uncompressed paks are read header first, then the
+ * descriptor tables, then each stored page as its own range, so no buffer
+ * holds the whole file. Compressed paks are read whole since their pages only
+ * exist after decompression.
+ */
+export async function readPakForParse(source: FileSource): Promise<ArrayBuffer | RPakFileRanges> {
+  const header = RpakParser.readHeader(await source.read(0, MAX_HEADER_SIZE));
+  if (header.flags & PAK_HEADER_FLAGS_COMPRESSED) {
+    return source.readAll();
+  }
+
+  // The patch data header follows the pak header: stream size, then patched page count
+  let patchDataStreamSize = 0;
+  let patchPageCount = 0;
+  if (header.patchCount > 0) {
+    const patchReader = new BinaryReader(await source.read(header.pakHdrSize, 8));
+    patchDataStreamSize = patchReader.readUint32();
+    patchPageCount = patchReader.readUint32();
+  }
+
+  const pageDataStart = getPageDataStart(header, patchDataStreamSize);
+  if (pageDataStart > source.size) {
+    throw new Error(`Descriptor tables extend past the end of ${source.filePath}`);
+  }
+  let head = new Uint8Array(await source.readBuffer(0, pageDataStart));
+
+  // Page headers follow the patch data, streaming file names and segment headers
+  const reader = new BinaryReader(head);
+  const segmentsEnd = header.pakHdrSize
+    + (header.patchCount > 0 ? getPatchHeadersSize(header) : 0)
+    + header.streamingFilesBufSize + header.optStreamingFilesBufSize
+    + header.numSegments * 16;
+  const pageSizes: number[] = [];
+  for (let i = 0; i < header.numPages; i++) {
+    reader.seek(segmentsEnd + i * 12 + 8);
+    pageSizes.push(reader.readUint32());
+  }
+
+  // The insert data of the patch edit stream comes before the stored pages
+  let offset = pageDataStart;
+  if (patchDataStreamSize > 0) {
+    const editStream = head.subarray(pageDataStart - patchDataStreamSize);
+    const outputSize = pageSizes.slice(0, patchPageCount).reduce((sum, size) => sum + size, 0);
+    let insertSize: number;
+    try {
+      insertSize = getPatchInsertSize(decodePatchEditStream(editStream, outputSize));
+    } catch {
+      // The parser reports edit streams it can't decode
+      return source.readAll();
+    }
+    if (pageDataStart + insertSize > source.size) {
+      throw new Error(`Patch insert data extends past the end of ${source.filePath}`);
+    }
+
+    const withInsertData = new Uint8Array(pageDataStart + insertSize);
+    withInsertData.set(head);
+    withInsertData.set(await source.read(pageDataStart, insertSize), pageDataStart);
+    head = withInsertData;
+    offset += insertSize;
+  }
+
+  const pages: Uint8Array[] = [];
+  for (let i = patchPageCount; i < header.numPages; i++) {
+    pages.push(new Uint8Array(await source.readBuffer(offset, pageSizes[i])));
+    offset += pageSizes[i];
+  }
+
+  const trailing = new Uint8Array(await source.readBuffer(offset, source.size - offset));
+  return { head, pages, trailing };
+}
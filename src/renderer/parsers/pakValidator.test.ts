@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { validatePak } from './pakValidator';
+import { buildTestPak, fill, TestPak } from './rpakTestUtils';
+
+// Two dtbl v1 assets with their 0x28-byte headers in page 0
+const PAK: TestPak = {
+  pages: [0x60, 64],
+  pageData: [fill(0x60, 0), fill(64, 0)],
+  assets: [
+    { guid: 0x1111n, head: [0, 0], data: [1, 0], headerSize: 0x28 },
+    { guid: 0x2222n, head: [0, 0x28], data: [1, 32], headerSize: 0x28 },
+  ],
+};
+
+// Files served by the stubbed IPC
+const files = new Map<string, Uint8Array>();
+
+async function validate(data: Uint8Array) {
+  files.set('test.rpak', data);
+  return validatePak('test.rpak');
+}
+
+describe('validatePak', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubGlobal('window', {
+      electron: {
+        stat: async (filePath: string) => files.has(filePath)
+          ? { success: true, data: { size: files.get(filePath)!.length } }
+          : { success: false, error: 'not found' },
+        readFileRange: async (filePath: string, offset: number, size: number) => (
+          { success: true, data: files.get(filePath)!.slice(offset, offset + size) }
+        ),
+      },
+    });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports nothing for a well-formed pak', async () => {
+    const report = await validate(buildTestPak(PAK));
+    expect(report.issues).toEqual([]);
+    expect(report.version).toBe(8);
+    expect(report.assetCount).toBe(2);
+  });
+
+  it('checks header sizes against the known size of the type and version', async () => {
+    // Every dtbl asset has the same wrong size, so there is no majority to go by
+    const report = await validate(buildTestPak({
+      ...PAK,
+      assets: PAK.assets.map(asset => ({ ...asset, headerSize: 0x20 })),
+    }));
+
+    expect(report.warningCount).toBe(2);
+    expect(report.issues.map(issue => issue.message)).toEqual([
+      "Header size 0x20 doesn't match the dtbl v1 header (0x28)",
+      "Header size 0x20 doesn't match the dtbl v1 header (0x28)",
+    ]);
+    expect(report.issues[1]).toMatchObject({ section: 'assets', guid: '0000000000002222', offset: 0x80 + 16 + 24 + 0x50 });
+  });
+
+  it('reports malformed asset entries', async () => {
+    const report = await validate(buildTestPak({
+      ...PAK,
+      assets: [
+        PAK.assets[0],
+        // Header runs past the end of page 0
+        { guid: 0x2222n, head: [0, 0x50], data: [1, 32], headerSize: 0x28 },
+        // Duplicate GUID with dependencies past the (empty) GUID ref table
+        { guid: 0x1111n, head: [0, 0x28], data: [1, 32], headerSize: 0x28, dependencies: [0, 2] },
+        // Data in a page that doesn't exist
+        { guid: 0x4444n, head: [0, 0x28], data: [5, 0], headerSize: 0x28 },
+      ],
+    }));
+
+    const errors = report.issues.filter(issue => issue.severity === 'error');
+    expect(errors.map(issue => [issue.section, issue.message])).toEqual([
+      ['assets', 'Header (0x28 bytes): offset 0x50 + 0x28 past the end of page 0 (size 0x60)'],
+      ['assets', 'Duplicate asset GUID'],
+      ['dependencies', 'Dependencies 0..1 past the GUID ref table (0)'],
+      ['assets', 'Data pointer: page 5 out of range (2 pages)'],
+    ]);
+    expect(report.errorCount).toBe(4);
+  });
+
+  it('reports files that are not paks or are cut short', async () => {
+    const notPak = await validate(fill(0x80, 0x41));
+    expect(notPak.issues).toEqual([expect.objectContaining({ severity: 'error', message: 'Invalid magic 0x41414141, expected 0x6B615052' })]);
+
+    const pak = buildTestPak(PAK);
+    const truncated = await validate(pak.slice(0, pak.length - 16));
+    expect(truncated.issues[0]).toMatchObject({
+      severity: 'error',
+      message: `File is truncated: header declares ${`0x${pak.length.toString(16).toUpperCase()}`} bytes, file has 0x${(pak.length - 16).toString(16).toUpperCase()}`,
+    });
+    expect(truncated.issues.some(issue => issue.message.startsWith('Page 1 is truncated'))).toBe(true);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * RPak integrity validator
+ * Checks the header, segment and page tables, pointers, asset entries,
+ * dependency tables and starpak offsets of a pak and reports every problem
+ * found instead of stopping at the first one.
+ *
+ * Offsets are byte offsets into the decompressed pak (file header included).
+ */
+
+import { RpakParser, ParsedRPak, parseRPak } from './rpakParser';
+import { PagePtr, RPAK_MAGIC, HEADER_SIZES, PAK_HEADER_FLAGS_COMPRESSED } from './rpakTypes';
+import { parseStarpakEntries, decodeStarpakOffset, StarpakFile } from './starpakLoader';
+import { openFileSource } from './fileSource';
+import { BinaryReader } from '../utils/binaryUtils';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationSection =
+  | 'header'
+  | 'segments'
+  | 'pages'
+  | 'pointers'
+  | 'assets'
+  | 'dependencies'
+  | 'starpak';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  section: ValidationSection;
+  message: string;
+  guid?: string;
+  offset?: number;
+  pagePtr?: PagePtr;
+}
+
+export interface ValidationReport {
+  filePath: string;
+  fileSize: number;
+  version?: number;
+  assetCount: number;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+  validatedAt: string;
+}
+
+// Page index used by assets without page data
+const NO_PAGE = 0xFFFFFFFF;
+// Starpak offset of assets without streamed data
+const NO_STARPAK_OFFSET = 0xFFFFFFFFFFFFFFFFn;
+
+// Header struct sizes by asset type and version, as laid out by the asset
+// parsers; other types and versions aren't checked
+const HEADER_STRUCT_SIZES: Record<string, Record<number, number[]>> = {
+  txtr: { 8: [0x38], 9: [0x38], 10: [0x38] },
+  txan: { 1: [0x18] },
+  uimg: { 10: [0x48] },
+  matl: { 12: [0xD0], 15: [0x100], 16: [0xF0], 22: [0x100], 23: [0xC0, 0xC8] },
+  'mdl_': { 8: [0x50], 9: [0x78], 13: [0x80], 16: [0x60] },
+  shds: { 8: [0x58], 11: [0x40], 12: [0x50], 13: [0x70], 14: [0x40] },
+  arig: { 4: [0x28], 5: [0x28] },
+  aseq: { 7: [0x30, 0x38], 8: [0x40] },
+  dtbl: { 0: [0x20], 1: [0x28] },
+  stlt: { 0: [0x48] },
+  stgs: { 1: [0x48], 2: [0x50] },
+};
+
+const SEGMENT_HEADER_SIZE = 16;
+const PAGE_HEADER_SIZE = 12;
+const PAGE_PTR_SIZE = 8;
+
+/**
+ * Offsets of the pak sections, computed from the header
+ */
+interface PakSectionOffsets {
+  pointers: number;
+  assets: number;
+  guidRefs: number;
+  dependencies: number;
+  // Start of each page's data; -1 for pages rebuilt by the patch stream
+  pages: number[];
+  end: number;
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+function toHex(value: number | bigint): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
+
+function computeSectionOffsets(parser: RpakParser): PakSectionOffsets {
+  const { header, pages, patchData } = parser.getLayout();
+
+  let position = header.pakHdrSize;
+  if (header.patchCount > 0) {
+    // Patch data header, file headers and patch numbers
+    position += 8 + header.patchCount * (16 + 2);
+  }
+  position += header.streamingFilesBufSize + header.optStreamingFilesBufSize;
+  position += header.numSegments * SEGMENT_HEADER_SIZE + header.numPages * PAGE_HEADER_SIZE;
+
+  const pointers = position;
+  const assets = pointers + header.numPointers * PAGE_PTR_SIZE;
+  const guidRefs = assets + header.numAssets * header.pakAssetSize;
+  const dependencies = guidRefs + header.numGuidRefs * PAGE_PTR_SIZE;
+
+  position = dependencies + header.numDependencies * 4;
+  if (header.numExternalAssetRefs > 0) {
+    position += header.numExternalAssetRefs * 4 + header.externalAssetRefsSize;
+  }
+  position += header.unkDataSize_74 + header.unkDataSize_78;
+  position += patchData?.dataHeader.patchDataStreamSize || 0;
+  position += parser.getRawData().patchInsertData.length;
+
+  const patchPageCount = patchData?.dataHeader.patchPageCount || 0;
+  const pageOffsets: number[] = [];
+  pages.forEach((page, index) => {
+    if (index < patchPageCount) {
+      pageOffsets.push(-1);
+    } else {
+      pageOffsets.push(position);
+      position += page.size;
+    }
+  });
+
+  return { pointers, assets, guidRefs, dependencies, pages: pageOffsets, end: position };
+}
+
+/**
+ * Collects issues for one pak
+ */
+class PakValidator {
+  readonly issues: ValidationIssue[] = [];
+  private offsets!: PakSectionOffsets;
+
+  constructor(private parser: RpakParser) {}
+
+  private add(severity: ValidationSeverity, section: ValidationSection, message: string, details: Partial<ValidationIssue> = {}): void {
+    this.issues.push({ severity, section, message, ...details });
+  }
+
+  private pageOffset(ptr: PagePtr): number | undefined {
+    const start = this.offsets.pages[ptr.index];
+    return start !== undefined && start >= 0 ? start + ptr.offset : undefined;
+  }
+
+  /**
+   * Check that `size` bytes at a page pointer fall inside the page. Returns a
+   * description of the problem, if any.
+   */
+  private checkPagePtr(ptr: PagePtr, size: number): string | null {
+    const { pages } = this.parser.getLayout();
+    if (ptr.index >= pages.length) {
+      return `page ${ptr.index} out of range (${pages.length} pages)`;
+    }
+    if (ptr.offset + size > pages[ptr.index].size) {
+      return `offset ${toHex(ptr.offset)} + ${toHex(size)} past the end of page ${ptr.index} (size ${toHex(pages[ptr.index].size)})`;
+    }
+    return null;
+  }
+
+  validateStructure(): void {
+    this.offsets = computeSectionOffsets(this.parser);
+
+    this.validateTables();
+    this.validatePages();
+    this.validatePointers();
+    this.validateAssets();
+    this.validateDependencyTable();
+  }
+
+  private validateTables(): void {
+    const { header, segments, pages } = this.parser.getLayout();
+    const segmentCount = segments.length;
+    const pageCount = pages.length;
+    const segmentTableOffset = this.offsets.pointers - pageCount * PAGE_HEADER_SIZE - segmentCount * SEGMENT_HEADER_SIZE;
+
+    if (header.numAssets > 0 && pageCount === 0) {
+      this.add('error', 'header', `Header declares ${header.numAssets} assets but no pages`, { offset: 0 });
+    }
+
+    segments.forEach((segment, index) => {
+      const offset = segmentTableOffset + index * SEGMENT_HEADER_SIZE;
+      if (!isPowerOfTwo(segment.align)) {
+        this.add('warning', 'segments', `Segment ${index} alignment ${toHex(segment.align)} is not a power of two`, { offset });
+      }
+
+      const pageTotal = pages.filter(page => page.segment === index).reduce((sum, page) => sum + page.size, 0);
+      if (BigInt(pageTotal) > segment.size) {
+        this.add('warning', 'segments', `Segment ${index} size ${toHex(segment.size)} is smaller than its pages (${toHex(pageTotal)})`, { offset });
+      }
+    });
+
+    const pageTableOffset = segmentTableOffset + segmentCount * SEGMENT_HEADER_SIZE;
+    pages.forEach((page, index) => {
+      const offset = pageTableOffset + index * PAGE_HEADER_SIZE;
+      if (page.segment >= segmentCount) {
+        this.add('error', 'pages', `Page ${index} references segment ${page.segment} (${segmentCount} segments)`, { offset });
+      }
+      if (!isPowerOfTwo(page.align)) {
+        this.add('warning', 'pages', `Page ${index} alignment ${toHex(page.align)} is not a power of two`, { offset });
+      }
+    });
+  }
+
+  private validatePages(): void {
+    const { pages } = this.parser.getLayout();
+    let truncated = false;
+
+    pages.forEach((page, index) => {
+      if (this.parser.isPatchPage(index)) return;
+
+      const data = this.parser.getPageData(index);
+      if (page.size > 0 && (!data || data.length < page.size)) {
+        truncated = true;
+        this.add('error', 'pages', `Page ${index} is truncated: expected ${toHex(page.size)} bytes, got ${toHex(data?.length || 0)}`, {
+          offset: this.offsets.pages[index],
+          pagePtr: { index, offset: 0 },
+        });
+      }
+    });
+
+    // The data of a truncated page ends up after the last page
+    const trailing = this.parser.getRawData().trailingData.length;
+    if (trailing > 0 && !truncated) {
+      this.add('warning', 'pages', `${toHex(trailing)} bytes of unexpected data after the last page`, { offset: this.offsets.end });
+    }
+  }
+
+  private validatePointers(): void {
+    const { pages } = this.parser.getLayout();
+    const { pointers, guidRefs } = this.parser.getRawData();
+
+    pointers.forEach((ptr, index) => {
+      const offset = this.offsets.pointers + index * PAGE_PTR_SIZE;
+      const problem = this.checkPagePtr(ptr, PAGE_PTR_SIZE);
+      if (problem) {
+        this.add('error', 'pointers', `Pointer ${index}: ${problem}`, { offset, pagePtr: ptr });
+        return;
+      }
+
+      // The pointed-to field holds a page pointer itself
+      const field = this.parser.isPatchPage(ptr.index) ? null : this.parser.readPagePtr(ptr, PAGE_PTR_SIZE);
+      if (!field) return;
+
+      const reader = new BinaryReader(field);
+      const target = { index: reader.readUint32(), offset: reader.readUint32() };
+      if (target.index >= pages.length || target.offset > pages[target.index].size) {
+        this.add('error', 'pointers', `Pointer at page ${ptr.index} ${toHex(ptr.offset)} targets ${target.index}:${toHex(target.offset)}, outside the pak`, {
+          offset: this.pageOffset(ptr),
+          pagePtr: ptr,
+        });
+      }
+    });
+
+    guidRefs.forEach((ptr, index) => {
+      const problem = this.checkPagePtr(ptr, 8);
+      if (problem) {
+        this.add('error', 'pointers', `GUID ref ${index}: ${problem}`, { offset: this.offsets.guidRefs + index * PAGE_PTR_SIZE, pagePtr: ptr });
+      }
+    });
+  }
+
+  private validateAssets(): void {
+    const { header } = this.parser.getLayout();
+    const assets = this.parser.getAssets();
+    const seen = new Set<string>();
+
+    assets.forEach((asset, index) => {
+      const offset = this.offsets.assets + index * header.pakAssetSize;
+      const details = { guid: asset.guid, offset };
+
+      if (seen.has(asset.guid)) {
+        this.add('error', 'assets', `Duplicate asset GUID`, details);
+      }
+      seen.add(asset.guid);
+
+      // Header
+      if (asset.headerSize === 0) {
+        this.add('warning', 'assets', `${asset.typeFourCC} asset has an empty header`, details);
+      } else {
+        const problem = this.checkPagePtr(asset.headPagePtr, asset.headerSize);
+        if (problem) {
+          this.add('error', 'assets', `Header (${toHex(asset.headerSize)} bytes): ${problem}`, { ...details, pagePtr: asset.headPagePtr });
+        }
+      }
+
+      const expectedSizes = HEADER_STRUCT_SIZES[asset.typeFourCC]?.[asset.version];
+      if (expectedSizes !== undefined && !expectedSizes.includes(asset.headerSize)) {
+        this.add('warning', 'assets', `Header size ${toHex(asset.headerSize)} doesn't match the ${asset.typeFourCC} v${asset.version} header (${expectedSizes.map(toHex).join(' or ')})`, details);
+      }
+
+      // Page data
+      if (asset.dataPagePtr.index !== NO_PAGE) {
+        const problem = this.checkPagePtr(asset.dataPagePtr, 0);
+        if (problem) {
+          this.add('error', 'assets', `Data pointer: ${problem}`, { ...details, pagePtr: asset.dataPagePtr });
+        }
+      }
+
+      if (asset.pageEnd > header.numPages) {
+        this.add('warning', 'assets', `Page end ${asset.pageEnd} is past the page count (${header.numPages})`, details);
+      }
+
+      // Dependency tables
+      if (asset.dependenciesCount > 0 && asset.dependenciesIndex + asset.dependenciesCount > header.numGuidRefs) {
+        this.add('error', 'dependencies', `Dependencies ${asset.dependenciesIndex}..${asset.dependenciesIndex + asset.dependenciesCount - 1} past the GUID ref table (${header.numGuidRefs})`, details);
+      }
+      if (asset.dependentsCount > 0 && asset.dependentsIndex + asset.dependentsCount > header.numDependencies) {
+        this.add('error', 'dependencies', `Dependents ${asset.dependentsIndex}..${asset.dependentsIndex + asset.dependentsCount - 1} past the dependents table (${header.numDependencies})`, details);
+      }
+    });
+  }
+
+  private validateDependencyTable(): void {
+    const assetCount = this.parser.getAssets().length;
+    this.parser.getRawData().dependencies.forEach((assetIndex, index) => {
+      if (assetIndex >= assetCount) {
+        this.add('error', 'dependencies', `Dependents table entry ${index} references asset ${assetIndex} (${assetCount} assets)`, {
+          offset: this.offsets.dependencies + index * 4,
+        });
+      }
+    });
+  }
+
+  /**
+   * Check that streamed data offsets fall inside their starpak
+   */
+  async validateStarpaks(parsed: ParsedRPak, pakPath: string): Promise<void> {
+    const directory = pakPath.replace(/[/\\][^/\\]*$/, '');
+    const separator = pakPath.includes('\\') ? '\\' : '/';
+    const starpaks = new Map<string, StarpakFile | null>();
+    const fileSizes = new Map<string, number | null>();
+
+    const check = async (value: bigint, isOpt: boolean, assetIndex: number, guid: string) => {
+      if (value === 0n || value === NO_STARPAK_OFFSET) return;
+
+      const details = { guid, offset: this.offsets.assets + assetIndex * parsed.header.pakAssetSize };
+      const list = isOpt ? parsed.optStreamingFiles : parsed.streamingFiles;
+      const label = isOpt ? 'Optional starpak' : 'Starpak';
+      const { index, offset } = decodeStarpakOffset(value);
+
+      if (index >= list.length) {
+        this.add('error', 'starpak', `${label} index ${index} out of range (${list.length} starpaks)`, details);
+        return;
+      }
+
+      const fileName = list[index].split(/[/\\]/).pop() || list[index];
+      const starpakPath = `${directory}${separator}${fileName}`;
+
+      if (!fileSizes.has(starpakPath)) {
+        const stat = await window.electron.stat(starpakPath);
+        fileSizes.set(starpakPath, stat.success && stat.data ? stat.data.size : null);
+      }
+      const fileSize = fileSizes.get(starpakPath);
+      if (fileSize === null || fileSize === undefined) {
+        this.add('warning', 'starpak', `${label} ${fileName} not found, offset ${toHex(offset)} not checked`, details);
+        return;
+      }
+
+      if (offset >= BigInt(fileSize)) {
+        this.add('error', 'starpak', `${label} offset ${toHex(offset)} is beyond ${fileName} (${toHex(fileSize)} bytes)`, details);
+        return;
+      }
+
+      if (!starpaks.has(starpakPath)) {
+        starpaks.set(starpakPath, await parseStarpakEntries(starpakPath));
+      }
+      const size = starpaks.get(starpakPath)?.entries.get(offset);
+      if (size === undefined) {
+        this.add('warning', 'starpak', `${label} offset ${toHex(offset)} has no entry in ${fileName}`, details);
+      } else if (offset + size > BigInt(fileSize)) {
+        this.add('error', 'starpak', `${label} data at ${toHex(offset)} (${toHex(size)} bytes) runs past the end of ${fileName}`, details);
+      }
+    };
+
+    const assets = this.parser.getAssets();
+    for (let i = 0; i < assets.length; i++) {
+      await check(assets[i].starpakOffset, false, i, assets[i].guid);
+      await check(assets[i].optStarpakOffset, true, i, assets[i].guid);
+    }
+  }
+}
+
+/**
+ * Check the file header before parsing, so malformed files are reported
+ * rather than thrown
+ */
+function validateFileHeader(data: Uint8Array, issues: ValidationIssue[]): boolean {
+  if (data.length < 8) {
+    issues.push({ severity: 'error', section: 'header', message: `File is too small to be an RPak (${data.length} bytes)`, offset: 0 });
+    return false;
+  }
+
+  const reader = new BinaryReader(data);
+  const magic = reader.readUint32();
+  if (magic !== RPAK_MAGIC) {
+    issues.push({ severity: 'error', section: 'header', message: `Invalid magic ${toHex(magic)}, expected ${toHex(RPAK_MAGIC)}`, offset: 0 });
+    return false;
+  }
+
+  const version = reader.readUint16();
+  if (version < 6 || version > 8) {
+    issues.push({ severity: 'warning', section: 'header', message: `Unknown pak version ${version}`, offset: 4 });
+  }
+
+  const headerSize = version >= 8 ? HEADER_SIZES.V8 : HEADER_SIZES.V7;
+  if (data.length < headerSize) {
+    issues.push({ severity: 'error', section: 'header', message: `File is truncated inside the header (${data.length} of ${headerSize} bytes)`, offset: 0 });
+    return false;
+  }
+
+  const header = RpakParser.readHeader(data);
+  const isCompressed = (header.flags & PAK_HEADER_FLAGS_COMPRESSED) !== 0;
+  const expectedSize = isCompressed ? header.cmpSize : header.dcmpSize;
+  if (BigInt(data.length) < expectedSize) {
+    issues.push({ severity: 'error', section: 'header', message: `File is truncated: header declares ${toHex(expectedSize)} bytes, file has ${toHex(data.length)}`, offset: 0 });
+  } else if (BigInt(data.length) > expectedSize) {
+    issues.push({ severity: 'warning', section: 'header', message: `File is larger than the header declares (${toHex(data.length)} > ${toHex(expectedSize)})`, offset: 0 });
+  }
+
+  return true;
+}
+
+function createReport(filePath: string, fileSize: number, issues: ValidationIssue[], version?: number, assetCount = 0): ValidationReport {
+  return {
+    filePath,
+    fileSize,
+    version,
+    assetCount,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+    validatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Validate a pak file on disk
+ */
+export async function validatePak(filePath: string): Promise<ValidationReport> {
+  const issues: ValidationIssue[] = [];
+
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await (await openFileSource(filePath)).readAll();
+  } catch (error) {
+    issues.push({ severity: 'error', section: 'header', message: `Failed to read file: ${(error as Error).message}` });
+    return createReport(filePath, 0, issues);
+  }
+
+  const data = new Uint8Array(buffer);
+  if (!validateFileHeader(data, issues)) {
+    return createReport(filePath, data.length, issues);
+  }
+
+  let parsed: ParsedRPak;
+  let parser: RpakParser;
+  try {
+    ({ parsed, parser } = await parseRPak(data, filePath));
+  } catch (error) {
+    issues.push({ severity: 'error', section: 'header', message: `Failed to parse: ${(error as Error).message}` });
+    return createReport(filePath, data.length, issues);
+  }
+
+  const validator = new PakValidator(parser);
+  validator.validateStructure();
+  await validator.validateStarpaks(parsed, filePath);
+  issues.push(...validator.issues);
+
+  console.log(`[PakValidator] ${parsed.fileName}: ${issues.length} issues`);
+  return createReport(filePath, data.length, issues, parsed.header.version, parsed.assets.length);
+}
+
+/**
+ * Serialize validation reports for export
+ */
+export function validationReportsToJson(reports: ValidationReport[]): string {
+  return JSON.stringify(reports, null, 2);
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { mergePatchChain, PatchChainMember } from './patchChain';
+import { parseRPak } from './rpakParser';
+import { PATCH_COMMANDS } from './rpakTypes';
+import { buildTestPak, concat, encodePatchEditStream, fill, TestPak } from './rpakTestUtils';
+
+async function loadMember(fileName: string, patchNumber: number, data: Uint8Array): Promise<PatchChainMember> {
+  const { parsed, parser } = await parseRPak(data.slice(), `paks/${fileName}`);
+  return { filePath: `paks/${fileName}`, fileName, patchNumber, parsed, parser };
+}
+
+// Base pak: page 0 holds the header of asset A, page 1 its data
+const BASE_PAGE_0 = concat([fill(8, 0), fill(8, 0xA1)]);
+const BASE_PAGE_1 = concat([fill(8, 0xD0), fill(8, 0xD1), fill(16, 0xD2)]);
+
+const BASE: TestPak = {
+  pages: [16, 32],
+  pageData: [BASE_PAGE_0, BASE_PAGE_1],
+  assets: [{ guid: 0xAn, head: [0, 0], data: [1, 0], headerSize: 16 }],
+};
+const BASE_FILE = buildTestPak(BASE);
+
+// Patch 01 keeps page 0, edits and grows page 1 and stores a new page 2 with
+// the header of asset B. Asset C's header is new but its data is in page 1.
+const PATCHED_PAGE_1 = concat([fill(8, 0xD0), fill(8, 0xEE), fill(16, 0xD2), fill(8, 0xEF)]);
+const PATCH_PAGE_2 = concat([fill(8, 0), fill(8, 0xB1), fill(8, 0), fill(8, 0xC1)]);
+
+// The edit stream reads the whole decompressed base file: it skips the
+// header and descriptors, then edits the pages
+const PATCH_01: TestPak = {
+  pages: [16, 40, 32],
+  pageData: [PATCH_PAGE_2],
+  assets: [
+    { guid: 0xAn, head: [0, 0], data: [1, 0], headerSize: 16 },
+    { guid: 0xBn, head: [2, 0], data: [2, 8], headerSize: 16 },
+    { guid: 0xCn, head: [2, 16], data: [1, 8], headerSize: 16 },
+  ],
+  patch: {
+    pageCount: 2,
+    patchIndices: [0],
+    sourceSizes: [BASE_FILE.length],
+    stream: encodePatchEditStream([
+      [PATCH_COMMANDS.SKIP, BASE_FILE.length - 48],
+      [PATCH_COMMANDS.COPY, 24],
+      [PATCH_COMMANDS.REPLACE, 8],
+      [PATCH_COMMANDS.REPLACE_2_COPY_6],
+      [PATCH_COMMANDS.REPLACE_1_COPY_7],
+      [PATCH_COMMANDS.INSERT, 8],
+    ]),
+    insertData: concat([fill(8, 0xEE), fill(3, 0xD2), fill(8, 0xEF)]),
+  },
+};
+
+describe('mergePatchChain', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('applies a numbered patch to its base pak', async () => {
+    const base = await loadMember('test.rpak', 0, BASE_FILE);
+    const patch = await loadMember('test(01).rpak', 1, buildTestPak(PATCH_01));
+
+    const merged = mergePatchChain([base, patch]);
+    expect(merged.parser).toBe(patch.parser);
+    expect(merged.unresolvedCount).toBe(0);
+    expect(merged.missingPatchNumbers).toEqual([]);
+
+    const byGuid = new Map(merged.assets.map(entry => [entry.asset.guid, entry]));
+
+    // Head page rebuilt from the base pak
+    const assetA = byGuid.get('000000000000000A')!;
+    expect(assetA.source).toBe(base);
+    expect(Array.from(assetA.asset.headerData!)).toEqual(Array.from(BASE_PAGE_0));
+
+    // Head page stored in the patch, data page rebuilt by the patch stream
+    const assetC = byGuid.get('000000000000000C')!;
+    expect(assetC.source).toBe(patch);
+    const dataPage = merged.parser.getPageData(assetC.asset.dataPagePtr.index)!;
+    expect(Array.from(dataPage.subarray(assetC.asset.dataPagePtr.offset, assetC.asset.dataPagePtr.offset + 8))).toEqual(Array.from(fill(8, 0xEE)));
+
+    expect(byGuid.get('000000000000000B')!.source).toBe(patch);
+    expect(Array.from(merged.parser.getPageData(1)!)).toEqual(Array.from(PATCHED_PAGE_1));
+
+    // The stored page follows the insert data
+    expect(patch.parser.getRawData().patchInsertData.length).toBe(19);
+    expect(Array.from(merged.parser.getPageData(2)!)).toEqual(Array.from(PATCH_PAGE_2));
+  });
+
+  it('marks assets in patched pages unresolved when the base pak is missing', async () => {
+    const patch = await loadMember('test(01).rpak', 1, buildTestPak(PATCH_01));
+
+    const merged = mergePatchChain([patch]);
+    expect(merged.missingPatchNumbers).toEqual([0]);
+    expect(merged.unresolvedCount).toBe(1);
+    expect(merged.assets.find(entry => entry.asset.guid === '000000000000000A')!.unresolved).toBe(true);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * RPak patch chain resolution
+ *
+ * Live game updates ship a pak as a base file plus numbered patches
+ * (common.rpak, common(01).rpak, common(02).rpak ...). Each patch carries the
+ * full asset table for the patched pak, but the first patchPageCount pages are
+ * rebuilt by the game from the older files' data through the patch stream.
+ * This module finds every file in a chain, applies the patch streams in order
+ * and merges the files into a single asset view, recording which file
+ * supplied each asset.
+ */
+
+import { ParsedRPak, ParsedAsset, RpakParser } from './rpakParser';
+import { RPakWriter } from './rpakWriter';
+import { applyPatchEdits, decodePatchEditStream } from './patchStream';
+
+export interface PatchFileName {
+  baseName: string;
+  patchNumber: number;
+}
+
+export interface PatchChainMember {
+  filePath: string;
+  fileName: string;
+  patchNumber: number;
+  parsed: ParsedRPak;
+  parser: RpakParser;
+}
+
+export interface MergedPatchAsset {
+  asset: ParsedAsset;
+  // The chain member that stored this asset's head page, before later patch
+  // streams carried it over
+  source: PatchChainMember;
+  // True when the asset's head page is rebuilt by a patch stream that could not be applied
+  unresolved: boolean;
+}
+
+export interface MergedPatchChain {
+  assets: MergedPatchAsset[];
+  // Parser of the newest chain member, which holds every page of the merged pak
+  parser: RpakParser;
+  unresolvedCount: number;
+  // Patch numbers referenced by patch headers that are not part of the chain
+  missingPatchNumbers: number[];
+}
+
+// name(01).rpak - the naming used by Apex Legends
+const PAREN_PATCH_REGEX = /^(.+)\((\d{2})\)\.rpak$/i;
+// name_01.rpak
+const UNDERSCORE_PATCH_REGEX = /^(.+)_(\d{2})\.rpak$/i;
+
+/**
+ * Split an rpak file name into its base name and patch number (0 for base paks)
+ */
+export function parsePatchFileName(fileName: string): PatchFileName {
+  const parenMatch = fileName.match(PAREN_PATCH_REGEX);
+  if (parenMatch) {
+    return { baseName: parenMatch[1], patchNumber: parseInt(parenMatch[2], 10) };
+  }
+
+  const underscoreMatch = fileName.match(UNDERSCORE_PATCH_REGEX);
+  if (underscoreMatch) {
+    return { baseName: underscoreMatch[1], patchNumber: parseInt(underscoreMatch[2], 10) };
+  }
+
+  return { baseName: fileName.replace(/\.rpak$/i, ''), patchNumber: 0 };
+}
+
+/**
+ * Find the base pak and every numbered patch for an rpak file.
+ * Returns the file paths ordered by patch number (base first).
+ */
+export async function findPatchChain(filePath: string): Promise<string[]> {
+  const separatorIndex = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  if (separatorIndex < 0) {
+    return [filePath];
+  }
+
+  const dirPath = filePath.substring(0, separatorIndex);
+  const fileName = filePath.substring(separatorIndex + 1);
+
+  const result = await window.electron.readDir(dirPath);
+  if (!result.success || !result.data) {
+    return [filePath];
+  }
+
+  const target = fileName.toLowerCase();
+  for (const chain of groupPatchChains(result.data)) {
+    if (chain.some(path => path.split(/[/\\]/).pop()!.toLowerCase() === target)) {
+      return chain;
+    }
+  }
+
+  return [filePath];
+}
+
+/**
+ * Group the rpak files of a directory listing into patch chains.
+ * Each chain is ordered by patch number (base first).
+ */
+export function groupPatchChains(entries: { name: string; path: string; isDirectory: boolean }[]): string[][] {
+  const rpakEntries = entries.filter(entry => !entry.isDirectory && entry.name.toLowerCase().endsWith('.rpak'));
+  const rpakNames = new Set(rpakEntries.map(entry => entry.name.toLowerCase()));
+
+  // Resolve a name to its chain, treating name_NN.rpak as a patch only when a
+  // base pak with the stripped name exists (plenty of base paks end in _NN)
+  const resolveName = (name: string): PatchFileName => {
+    const info = parsePatchFileName(name);
+    if (info.patchNumber > 0 && !PAREN_PATCH_REGEX.test(name) && !rpakNames.has(`${info.baseName.toLowerCase()}.rpak`)) {
+      return { baseName: name.replace(/\.rpak$/i, ''), patchNumber: 0 };
+    }
+    return info;
+  };
+
+  const chains = new Map<string, { path: string; patchNumber: number }[]>();
+  for (const entry of rpakEntries) {
+    const info = resolveName(entry.name);
+    const key = info.baseName.toLowerCase();
+    let chain = chains.get(key);
+    if (!chain) {
+      chain = [];
+      chains.set(key, chain);
+    }
+    chain.push({ path: entry.path, patchNumber: info.patchNumber });
+  }
+
+  return Array.from(chains.values()).map(chain => {
+    chain.sort((a, b) => a.patchNumber - b.patchNumber);
+    return chain.map(member => member.path);
+  });
+}
+
+/**
+ * Rebuild the patched pages of a chain member from its source files, which
+ * the edit stream reads decompressed as the game does
+ */
+function rebuildPatchPages(member: PatchChainMember, sources: PatchChainMember[]): Uint8Array[] {
+  const { pages, patchData } = member.parser.getLayout();
+  const raw = member.parser.getRawData();
+  const pageSizes = pages.slice(0, patchData!.dataHeader.patchPageCount).map(page => page.size);
+
+  const edits = decodePatchEditStream(raw.patchStream, pageSizes.reduce((sum, size) => sum + size, 0));
+  const sourceFiles = sources.map(source => new RPakWriter(source.parser).build());
+  return applyPatchEdits(sourceFiles, edits, raw.patchInsertData, pageSizes);
+}
+
+/**
+ * Merge a patch chain (ordered base first) into a single asset view.
+ *
+ * Patches are applied in order like the game does: each file's edit stream
+ * rebuilds its patched pages from the files listed by its patch numbers, and
+ * its asset table replaces the previous one. Afterwards the newest file holds
+ * every page of the merged pak.
+ */
+export function mergePatchChain(members: PatchChainMember[]): MergedPatchChain {
+  let merged = new Map<string, MergedPatchAsset>();
+  const membersByNumber = new Map<number, PatchChainMember>();
+  const missingPatchNumbers = new Set<number>();
+
+  for (const member of members) {
+    const patchData = member.parsed.patchData;
+    let complete = !patchData;
+
+    if (patchData) {
+      // Every source file the edit stream reads must be part of the chain
+      const sources: PatchChainMember[] = [];
+      for (const patchNumber of patchData.patchIndices) {
+        const source = membersByNumber.get(patchNumber);
+        if (source) {
+          sources.push(source);
+        } else {
+          missingPatchNumbers.add(patchNumber);
+        }
+      }
+
+      if (sources.length === patchData.patchIndices.length) {
+        try {
+          member.parser.setPatchPages(rebuildPatchPages(member, sources));
+          complete = true;
+        } catch (error) {
+          console.error(`[PatchChain] Failed to apply the patch stream of ${member.fileName}:`, error);
+        }
+      }
+    }
+
+    const next = new Map<string, MergedPatchAsset>();
+
+    for (const asset of member.parsed.assets) {
+      if (!member.parser.isPatchPage(asset.headPagePtr.index)) {
+        next.set(asset.guid, { asset, source: member, unresolved: false });
+        continue;
+      }
+
+      const earlier = merged.get(asset.guid);
+      next.set(asset.guid, {
+        asset,
+        source: complete && earlier ? earlier.source : member,
+        unresolved: !complete,
+      });
+    }
+
+    merged = next;
+    membersByNumber.set(member.patchNumber, member);
+  }
+
+  const assets = Array.from(merged.values());
+
+  return {
+    assets,
+    parser: members[members.length - 1].parser,
+    unresolvedCount: assets.filter(a => a.unresolved).length,
+    missingPatchNumbers: Array.from(missingPatchNumbers).sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { applyPatchEdits, decodePatchEditStream, getPatchInsertSize } from './patchStream';
+import { PATCH_COMMANDS } from './rpakTypes';
+import { bytes, encodePatchEditStream } from './rpakTestUtils';
+
+const { COPY, SKIP, INSERT, REPLACE, REPLACE_1_COPY_3, REPLACE_1_COPY_7, REPLACE_2_COPY_6 } = PATCH_COMMANDS;
+
+describe('decodePatchEditStream', () => {
+  it('reads the tables and commands least significant bit first', () => {
+    // Command table: 1 symbol (copy) with a 1-bit code. Size table: 3
+    // symbols, only exponent 2 used. Then copy, exponent 2, extra bits 01.
+    expect(decodePatchEditStream(bytes(0x20, 0x02, 0x20, 0x08), 5)).toEqual([{ command: COPY, size: 5 }]);
+  });
+
+  it('decodes every command and splits the fixed-size ones', () => {
+    const stream = encodePatchEditStream([
+      [COPY, 5], [SKIP, 300], [INSERT, 2], [REPLACE, 1],
+      [REPLACE_1_COPY_3], [REPLACE_1_COPY_7], [REPLACE_2_COPY_6],
+    ]);
+
+    const edits = decodePatchEditStream(stream, 5 + 2 + 1 + 4 + 8 + 8);
+    expect(edits).toEqual([
+      { command: COPY, size: 5 },
+      { command: SKIP, size: 300 },
+      { command: INSERT, size: 2 },
+      { command: REPLACE, size: 1 },
+      { command: REPLACE, size: 1 }, { command: COPY, size: 3 },
+      { command: REPLACE, size: 1 }, { command: COPY, size: 7 },
+      { command: REPLACE, size: 2 }, { command: COPY, size: 6 },
+    ]);
+    expect(getPatchInsertSize(edits)).toBe(2 + 1 + 1 + 1 + 2);
+  });
+
+  it('rejects unknown commands and streams that end early or write too much', () => {
+    expect(() => decodePatchEditStream(encodePatchEditStream([[7]]), 4)).toThrow(/Unknown patch command/);
+    expect(() => decodePatchEditStream(encodePatchEditStream([[COPY, 2]]), 4)).toThrow(/ended early/);
+    expect(() => decodePatchEditStream(encodePatchEditStream([[COPY, 4]]), 2)).toThrow(/past the end/);
+  });
+});
+
+describe('applyPatchEdits', () => {
+  it('reads the source files as one stream and fills the pages in order', () => {
+    const edits = [
+      { command: COPY, size: 2 },
+      { command: SKIP, size: 2 },
+      { command: REPLACE, size: 1 },
+      { command: COPY, size: 1 },
+      { command: INSERT, size: 1 },
+    ];
+    const pages = applyPatchEdits([bytes(1, 2, 3), bytes(4, 5, 6)], edits, bytes(0xAA, 0xBB), [3, 2]);
+    expect(pages.map(page => Array.from(page))).toEqual([[1, 2, 0xAA], [6, 0xBB]]);
+  });
+
+  it('rejects edits that read past the source or the insert data', () => {
+    expect(() => applyPatchEdits([bytes(1, 2)], [{ command: COPY, size: 4 }], bytes(), [4])).toThrow(/source files/);
+    expect(() => applyPatchEdits([bytes(1, 2)], [{ command: INSERT, size: 2 }], bytes(1), [2])).toThrow(/insert data/);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * RPak patch edit stream
+ *
+ * A patched pak rebuilds its first patchPageCount pages from the files it
+ * patches, the way the game's pak patch functions do. The pak stores:
+ * - the edit stream (patchDataStreamSize bytes), a bit-packed command stream
+ * - the insert data, the bytes written by insert and replace commands,
+ *   directly after the edit stream and before the pages stored in the file
+ *
+ * The edit stream is read least significant bit first. It starts with two
+ * prefix code tables, one for the commands (6-bit lookup, up to 16 symbols)
+ * and one for the size exponents (8-bit lookup, up to 32 symbols), each
+ * stored as a 5-bit symbol count minus one followed by the code length of
+ * every symbol (3 bits for the command table, 4 for the size table; 0 for
+ * unused symbols). Codes are assigned canonically by length, then symbol.
+ *
+ * Each command is a command code. Copy, skip, insert and replace are followed
+ * by a size exponent code `e` and `e` extra bits, for a byte count of
+ * `(1 << e) + bits`. The other commands have fixed sizes.
+ *
+ * The source is the decompressed data of the files listed by the patch
+ * numbers, one after the other, read from the start of each file.
+ */
+
+import { PATCH_COMMANDS } from './rpakTypes';
+
+// Edit of the output: copy, skip, insert or replace a number of bytes
+export interface PatchEdit {
+  command: number;
+  size: number;
+}
+
+// Bytes replaced, then copied, by the fixed-size commands
+const FIXED_SIZE_EDITS: Record<number, [number, number]> = {
+  [PATCH_COMMANDS.REPLACE_1_COPY_3]: [1, 3],
+  [PATCH_COMMANDS.REPLACE_1_COPY_7]: [1, 7],
+  [PATCH_COMMANDS.REPLACE_2_COPY_6]: [2, 6],
+};
+
+const COMMAND_TABLE_BITS = 6;
+const COMMAND_SYMBOL_COUNT = 16;
+const SIZE_TABLE_BITS = 8;
+const SIZE_SYMBOL_COUNT = 32;
+
+/**
+ * Reads bits least significant first, like the game's bit buffer
+ */
+class PatchBitReader {
+  private bitPosition = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  /**
+   * Look at the next bits (up to 32) without consuming them; bits past the
+   * end of the stream read as zero
+   */
+  peek(count: number): number {
+    const byteIndex = this.bitPosition >>> 3;
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < 5; i++) {
+      value += (this.data[byteIndex + i] ?? 0) * scale;
+      scale *= 256;
+    }
+    return Math.floor(value / 2 ** (this.bitPosition & 7)) % 2 ** count;
+  }
+
+  skip(count: number): void {
+    this.bitPosition += count;
+    if (this.bitPosition > this.data.length * 8) {
+      throw new Error('Patch edit stream ended early');
+    }
+  }
+
+  read(count: number): number {
+    const value = this.peek(count);
+    this.skip(count);
+    return value;
+  }
+}
+
+/**
+ * Lookup table of a prefix code: the symbol and code length of every
+ * `bits`-bit value (length 0 where no code matches)
+ */
+interface PrefixTable {
+  bits: number;
+  symbols: Uint8Array;
+  lengths: Uint8Array;
+}
+
+function reverseBits(value: number, count: number): number {
+  let result = 0;
+  for (let i = 0; i < count; i++) {
+    result = (result << 1) | ((value >> i) & 1);
+  }
+  return result;
+}
+
+function readPrefixTable(reader: PatchBitReader, bits: number, maxSymbols: number): PrefixTable {
+  const symbolCount = reader.read(5) + 1;
+  if (symbolCount > maxSymbols) {
+    throw new Error(`Patch edit stream table has ${symbolCount} symbols, at most ${maxSymbols} are allowed`);
+  }
+
+  const lengthBits = bits < 8 ? 3 : 4;
+  const codeLengths: number[] = [];
+  for (let i = 0; i < symbolCount; i++) {
+    const length = reader.read(lengthBits);
+    if (length > bits) {
+      throw new Error(`Patch edit stream code length ${length} is longer than the ${bits}-bit table`);
+    }
+    codeLengths.push(length);
+  }
+
+  const table: PrefixTable = { bits, symbols: new Uint8Array(1 << bits), lengths: new Uint8Array(1 << bits) };
+
+  // Canonical codes, stored bit reversed since the stream is read LSB first
+  let code = 0;
+  for (let length = 1; length <= bits; length++) {
+    for (let symbol = 0; symbol < symbolCount; symbol++) {
+      if (codeLengths[symbol] !== length) continue;
+      if (code >= 1 << length) {
+        throw new Error('Patch edit stream table is over-subscribed');
+      }
+
+      for (let index = reverseBits(code, length); index < table.symbols.length; index += 1 << length) {
+        table.symbols[index] = symbol;
+        table.lengths[index] = length;
+      }
+      code++;
+    }
+    code <<= 1;
+  }
+
+  return table;
+}
+
+function readSymbol(reader: PatchBitReader, table: PrefixTable): number {
+  const index = reader.peek(table.bits);
+  const length = table.lengths[index];
+  if (length === 0) {
+    throw new Error('Invalid code in patch edit stream');
+  }
+  reader.skip(length);
+  return table.symbols[index];
+}
+
+/**
+ * Decode the edits of an edit stream until they write `outputSize` bytes.
+ * Fixed-size commands are returned as their replace and copy edits.
+ */
+export function decodePatchEditStream(editStream: Uint8Array, outputSize: number): PatchEdit[] {
+  const reader = new PatchBitReader(editStream);
+  const commandTable = readPrefixTable(reader, COMMAND_TABLE_BITS, COMMAND_SYMBOL_COUNT);
+  const sizeTable = readPrefixTable(reader, SIZE_TABLE_BITS, SIZE_SYMBOL_COUNT);
+
+  const edits: PatchEdit[] = [];
+  let written = 0;
+
+  while (written < outputSize) {
+    const command = readSymbol(reader, commandTable);
+
+    if (command <= PATCH_COMMANDS.REPLACE) {
+      const exponent = readSymbol(reader, sizeTable);
+      const size = 2 ** exponent + reader.read(exponent);
+      edits.push({ command, size });
+      if (command !== PATCH_COMMANDS.SKIP) {
+        written += size;
+      }
+    } else if (FIXED_SIZE_EDITS[command]) {
+      const [replaced, copied] = FIXED_SIZE_EDITS[command];
+      edits.push({ command: PATCH_COMMANDS.REPLACE, size: replaced }, { command: PATCH_COMMANDS.COPY, size: copied });
+      written += replaced + copied;
+    } else {
+      throw new Error(`Unknown patch command ${command}`);
+    }
+  }
+
+  if (written > outputSize) {
+    throw new Error('Patch edit stream writes past the end of the patched pages');
+  }
+
+  return edits;
+}
+
+/**
+ * Number of insert data bytes the edits read
+ */
+export function getPatchInsertSize(edits: PatchEdit[]): number {
+  return edits.reduce((sum, edit) => (
+    edit.command === PATCH_COMMANDS.INSERT || edit.command === PATCH_COMMANDS.REPLACE ? sum + edit.size : sum
+  ), 0);
+}
+
+/**
+ * Reads the source files of a patch in order, as one continuous stream
+ */
+class PatchSourceReader {
+  private fileIndex = 0;
+  private offset = 0;
+
+  constructor(private files: Uint8Array[]) {}
+
+  /**
+   * Take the next bytes of the source, or skip them when `target` is null
+   */
+  read(size: number, target: Uint8Array | null, targetOffset: number): void {
+    while (size > 0) {
+      if (this.fileIndex >= this.files.length) {
+        throw new Error('Patch edits read past the end of the source files');
+      }
+
+      const file = this.files[this.fileIndex];
+      const count = Math.min(size, file.length - this.offset);
+      if (target) {
+        target.set(file.subarray(this.offset, this.offset + count), targetOffset);
+        targetOffset += count;
+      }
+
+      size -= count;
+      this.offset += count;
+      if (this.offset >= file.length) {
+        this.fileIndex++;
+        this.offset = 0;
+      }
+    }
+  }
+}
+
+/**
+ * Rebuild the patched pages of a pak.
+ *
+ * @param sourceFiles Decompressed data of the files listed by the patch numbers, in order
+ * @param edits The decoded edit stream
+ * @param insertData The bytes written by insert and replace edits
+ * @param pageSizes Sizes of the pages rebuilt by the edits (the first patchPageCount pages)
+ */
+export function applyPatchEdits(sourceFiles: Uint8Array[], edits: PatchEdit[], insertData: Uint8Array, pageSizes: number[]): Uint8Array[] {
+  const pages = pageSizes.map(size => new Uint8Array(size));
+  const source = new PatchSourceReader(sourceFiles);
+
+  let insertPos = 0;
+  let pageIndex = 0;
+  let pageOffset = 0;
+
+  for (const edit of edits) {
+    if (edit.command === PATCH_COMMANDS.SKIP) {
+      source.read(edit.size, null, 0);
+      continue;
+    }
+
+    if (edit.command !== PATCH_COMMANDS.COPY) {
+      if (insertPos + edit.size > insertData.length) {
+        throw new Error('Patch edits read past the end of the insert data');
+      }
+      if (edit.command === PATCH_COMMANDS.REPLACE) {
+        source.read(edit.size, null, 0);
+      }
+    }
+
+    // Edits can span several output pages
+    let size = edit.size;
+    while (size > 0) {
+      while (pageIndex < pages.length && pageOffset >= pages[pageIndex].length) {
+        pageIndex++;
+        pageOffset = 0;
+      }
+      if (pageIndex >= pages.length) {
+        throw new Error('Patch edits write past the end of the patched pages');
+      }
+
+      const page = pages[pageIndex];
+      const count = Math.min(size, page.length - pageOffset);
+      if (edit.command === PATCH_COMMANDS.COPY) {
+        source.read(count, page, pageOffset);
+      } else {
+        page.set(insertData.subarray(insertPos, insertPos + count), pageOffset);
+        insertPos += count;
+      }
+
+      size -= count;
+      pageOffset += count;
+    }
+  }
+
+  return pages;
+}
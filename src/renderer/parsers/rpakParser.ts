@@ -10,6 +10,8 @@ import {
   PakSegmentHeader,
   PakPageHeader,
   PagePtr,
+  PakPatchDataHeader,
+  PakPatchFileHeader,
   RPAK_MAGIC,
   HEADER_SIZES,
   ASSET_SIZES,
@@ -22,6 +24,7 @@ import { fourCCToString, getAssetTypeName } from './assetTypes';
 import { decompress as zstdDecompress } from 'fzstd';
 import { decompressRTech } from '../utils/rtechDecompress';
 import { decompressOodle } from '../utils/oodleDecompress';
+import { decodePatchEditStream, getPatchInsertSize } from './patchStream';
 
 // Compression type enum
 export enum CompressionType {
@@ -41,10 +44,22 @@ export interface ParsedRPak {
   isCompressed: boolean;
   compressionType: CompressionType;
   isPatched: boolean;
+  patchData?: ParsedPatchData;
   streamingFiles: string[];
   optStreamingFiles: string[];
 }
 
+/**
+ * Patch section of a patched RPak: the data header, then a file header and a
+ * patch number for each source pak the edit stream reads from
+ * (0 = base pak, N = name(NN).rpak)
+ */
+export interface ParsedPatchData {
+  dataHeader: PakPatchDataHeader;
+  fileHeaders: PakPatchFileHeader[];
+  patchIndices: number[];
+}
+
 export interface ParsedAsset {
   guid: string;
   type: number;
@@ -67,6 +82,63 @@ export interface ParsedAsset {
   dataBuffer?: Uint8Array;
 }
 
+/**
+ * Raw sections of a (decompressed) RPak, kept so the pak can be written back
+ * out byte for byte by RPakWriter
+ */
+export interface RPakRawData {
+  headerBytes: Uint8Array;
+  streamingFilesBuf: Uint8Array;
+  optStreamingFilesBuf: Uint8Array;
+  pointers: PagePtr[];
+  assetEntries: Uint8Array[];
+  guidRefs: PagePtr[];
+  dependencies: number[];
+  externalAssetRefOffsets: number[];
+  externalAssetRefsData: Uint8Array;
+  unkData74: Uint8Array;
+  unkData78: Uint8Array;
+  patchStream: Uint8Array;
+  // Bytes written by the insert and replace edits of the patch stream
+  patchInsertData: Uint8Array;
+  // Bytes following the last page (normally empty)
+  trailingData: Uint8Array;
+}
+
+/**
+ * Parser state after parsing, used to hand a pak parsed in a worker to the
+ * renderer thread. Page buffers can be transferred rather than copied.
+ */
+export interface RPakParserState {
+  header: PakHeader;
+  segments: PakSegmentHeader[];
+  pages: PakPageHeader[];
+  pageBuffers: Uint8Array[];
+  assets: ParsedAsset[];
+  streamingFiles: string[];
+  optStreamingFiles: string[];
+  filePath: string;
+  compressionType: CompressionType;
+  patchDataStreamSize: number;
+  patchPageCount: number;
+  patchFileHeaders: PakPatchFileHeader[];
+  patchIndices: number[];
+  rawData: RPakRawData;
+}
+
+/**
+ * An uncompressed rpak read in ranges, so no buffer holds the whole file
+ */
+export interface RPakFileRanges {
+  // File bytes up to the first page stored in the file: header, descriptor
+  // tables and, for patched paks, the patch stream and its insert data
+  head: Uint8Array;
+  // Pages stored in the file, starting after the pages rebuilt from the patch stream
+  pages: Uint8Array[];
+  // Bytes after the last page (normally empty)
+  trailing: Uint8Array;
+}
+
 interface RPakVirtualSegment {
   type: number;
   dataSize: number;
@@ -97,16 +169,58 @@ export class RPakParser {
   private fileName: string;
   private filePath: string;
   private fileBuffer: Uint8Array;
+  // Stored pages and trailing bytes when the pak was read in ranges
+  private fileRanges: RPakFileRanges | null = null;
   private patchDataStreamSize: number = 0;
   private patchPageCount: number = 0;
-
-  constructor(buffer: ArrayBuffer | Uint8Array, filePath: string) {
-    this.fileBuffer = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer;
+  private patchFileHeaders: PakPatchFileHeader[] = [];
+  private patchIndices: number[] = [];
+  private rawData!: RPakRawData;
+  private compressionType: CompressionType = CompressionType.NONE;
+
+  constructor(buffer: ArrayBuffer | Uint8Array | RPakFileRanges, filePath: string) {
+    if (buffer instanceof ArrayBuffer || buffer instanceof Uint8Array) {
+      this.fileBuffer = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer;
+    } else {
+      this.fileBuffer = buffer.head;
+      this.fileRanges = buffer;
+    }
     this.reader = new BinaryReader(this.fileBuffer);
     this.filePath = filePath;
     this.fileName = filePath.split(/[/\\]/).pop() || 'unknown';
   }
 
+  /**
+   * Parse only the file header from the start of an RPak
+   */
+  static readHeader(buffer: Uint8Array): PakHeader {
+    const parser = new RPakParser(buffer, '');
+    parser.parseHeader();
+    return parser.header;
+  }
+
+  /**
+   * Rebuild a parser from the state of one that has already parsed a pak
+   */
+  static fromState(state: RPakParserState): RPakParser {
+    const parser = new RPakParser(new Uint8Array(0), state.filePath);
+    parser.header = state.header;
+    parser.segments = state.segments;
+    parser.pages = state.pages;
+    parser.pageBuffers = state.pageBuffers;
+    parser.assets = state.assets;
+    parser.guidRefs = state.rawData.guidRefs.map(ref => ({ pageIndex: ref.index, pageOffset: ref.offset }));
+    parser.streamingFiles = state.streamingFiles;
+    parser.optStreamingFiles = state.optStreamingFiles;
+    parser.compressionType = state.compressionType;
+    parser.patchDataStreamSize = state.patchDataStreamSize;
+    parser.patchPageCount = state.patchPageCount;
+    parser.patchFileHeaders = state.patchFileHeaders;
+    parser.patchIndices = state.patchIndices;
+    parser.rawData = state.rawData;
+    return parser;
+  }
+
   /**
    * Parse the RPak file
    */
@@ -125,7 +239,12 @@ export class RPakParser {
 
     // Detect compression type
     const compressionType = this.getCompressionType();
-    const isCompressed = compressionType !== CompressionType.NONE;
+    this.compressionType = compressionType;
+
+    // Compressed streams can't be split into pages before decompression
+    if (this.fileRanges && compressionType !== CompressionType.NONE) {
+      throw new Error('Compressed paks must be parsed from the whole file');
+    }
     
     // Handle ZSTD decompression
     if (compressionType === CompressionType.ZSTD) {
@@ -134,7 +253,7 @@ export class RPakParser {
       // RTech PAKFILE decompression
       await this.decompressRTech();
     } else if (compressionType === CompressionType.OODLE) {
-      // Oodle decompression via native DLL
+      // Oodle decompression (native DLL when available, built-in decoder otherwise)
       await this.decompressOodle();
     }
 
@@ -165,6 +284,13 @@ export class RPakParser {
     this.parseAssets();
     console.log(`[RPakParser] Parsed ${this.assets.length} assets`);
 
+    return this.getParsedRPak();
+  }
+
+  /**
+   * Get the result of parsing
+   */
+  getParsedRPak(): ParsedRPak {
     return {
       header: this.header,
       segments: this.segments,
@@ -172,14 +298,37 @@ export class RPakParser {
       assets: this.assets,
       fileName: this.fileName,
       filePath: this.filePath,
-      isCompressed,
-      compressionType,
+      isCompressed: this.compressionType !== CompressionType.NONE,
+      compressionType: this.compressionType,
       isPatched: this.header.patchCount > 0,
+      patchData: this.getLayout().patchData,
       streamingFiles: this.streamingFiles,
       optStreamingFiles: this.optStreamingFiles,
     };
   }
 
+  /**
+   * Get the parser state for rebuilding the parser with fromState
+   */
+  getState(): RPakParserState {
+    return {
+      header: this.header,
+      segments: this.segments,
+      pages: this.pages,
+      pageBuffers: this.pageBuffers,
+      assets: this.assets,
+      streamingFiles: this.streamingFiles,
+      optStreamingFiles: this.optStreamingFiles,
+      filePath: this.filePath,
+      compressionType: this.compressionType,
+      patchDataStreamSize: this.patchDataStreamSize,
+      patchPageCount: this.patchPageCount,
+      patchFileHeaders: this.patchFileHeaders,
+      patchIndices: this.patchIndices,
+      rawData: this.rawData,
+    };
+  }
+
   /**
    * Detect the compression type from header flags
    */
@@ -260,7 +409,7 @@ export class RPakParser {
   }
 
   /**
-   * Decompress the RPak file using Oodle via native DLL
+   * Decompress the RPak file using Oodle
    */
   private async decompressOodle(): Promise<void> {
     // Get the compressed data after the header
@@ -271,11 +420,13 @@ export class RPakParser {
     console.log(`[RPakParser] Attempting Oodle decompression: ${compressedData.length} -> ${decompressedSize} bytes`);
     
     try {
-      // Decompress using Oodle decompressor (via IPC to main process)
-      const decompressed = await decompressOodle(compressedData, decompressedSize);
+      // Decompress using Oodle decompressor (DLL via IPC, or the built-in decoder).
+      // dcmpSize includes the header: the DLL treats it as an upper bound, while
+      // the built-in decoder needs the exact size of the data after the header.
+      const decompressed = await decompressOodle(compressedData, decompressedSize, decompressedSize - headerSize);
       
       if (!decompressed) {
-        throw new Error('Oodle decompression returned null - DLL may not be available');
+        throw new Error('Oodle decompression returned null');
       }
       
       // Create new buffer with header + decompressed data
@@ -391,11 +542,10 @@ export class RPakParser {
     this.reader.skip(8); // pad_0020
     const dcmpSize = this.reader.readUint64();
     this.reader.skip(8); // pad_0030
-    const streamingFilesBufSize = this.reader.readUint32();
+    const streamingFilesBufSize = this.reader.readUint16(); // short, not int
     const numSegments = this.reader.readUint16();
     const numPages = this.reader.readUint16();
     const patchCount = this.reader.readUint16();
-    this.reader.skip(2); // padding
     const numPointers = this.reader.readUint32();
     const numAssets = this.reader.readUint32();
     const numGuidRefs = this.reader.readUint32();
@@ -486,16 +636,35 @@ export class RPakParser {
    * Parse streaming file paths (reads from current position)
    */
   private parseStreamingFiles(): void {
+    this.rawData = {
+      headerBytes: this.fileBuffer.slice(0, this.header.pakHdrSize),
+      streamingFilesBuf: new Uint8Array(0),
+      optStreamingFilesBuf: new Uint8Array(0),
+      pointers: [],
+      assetEntries: [],
+      guidRefs: [],
+      dependencies: [],
+      externalAssetRefOffsets: [],
+      externalAssetRefsData: new Uint8Array(0),
+      unkData74: new Uint8Array(0),
+      unkData78: new Uint8Array(0),
+      patchStream: new Uint8Array(0),
+      patchInsertData: new Uint8Array(0),
+      trailingData: new Uint8Array(0),
+    };
+
     // Read regular streaming files
     if (this.header.streamingFilesBufSize > 0) {
       const streamingBuf = this.reader.readBytes(this.header.streamingFilesBufSize);
       this.streamingFiles = this.parseNullTerminatedStrings(streamingBuf);
+      this.rawData.streamingFilesBuf = streamingBuf;
     }
 
     // Read optional streaming files (v8+)
     if (this.header.optStreamingFilesBufSize > 0) {
       const optStreamingBuf = this.reader.readBytes(this.header.optStreamingFilesBufSize);
       this.optStreamingFiles = this.parseNullTerminatedStrings(optStreamingBuf);
+      this.rawData.optStreamingFilesBuf = optStreamingBuf;
     }
   }
 
@@ -538,11 +707,42 @@ export class RPakParser {
 
     console.log(`[RPakParser] Patch data: streamSize=${this.patchDataStreamSize}, pageCount=${this.patchPageCount}`);
 
-    // Skip patch file header - PakPatchFileHdr_t = 16 bytes (int64 cmpSize + int64 dcmpSize)
-    this.reader.skip(16);
-    
-    // Skip additional patch count related data (short * patchCount)
-    this.reader.skip(this.header.patchCount * 2);
+    // Patch file headers - PakPatchFileHdr_t = 16 bytes (int64 cmpSize + int64 dcmpSize) per source file
+    for (let i = 0; i < this.header.patchCount; i++) {
+      const cmpSize = this.reader.readUint64();
+      const dcmpSize = this.reader.readUint64();
+      this.patchFileHeaders.push({ cmpSize, dcmpSize });
+    }
+
+    // Patch numbers of the source files (short * patchCount)
+    for (let i = 0; i < this.header.patchCount; i++) {
+      this.patchIndices.push(this.reader.readUint16());
+    }
+
+    console.log(`[RPakParser] Patch sources: ${this.patchIndices.join(', ')}`);
+  }
+
+  /**
+   * Read the insert data following the patch edit stream. Its size is the
+   * number of bytes the edits insert or replace, so the stream is decoded.
+   */
+  private readPatchInsertData(): void {
+    const outputSize = this.pages.slice(0, this.patchPageCount).reduce((sum, page) => sum + page.size, 0);
+
+    let insertSize: number;
+    try {
+      insertSize = getPatchInsertSize(decodePatchEditStream(this.rawData.patchStream, outputSize));
+    } catch (error) {
+      console.error(`[RPakParser] Failed to decode the patch edit stream of ${this.fileName}:`, error);
+      return;
+    }
+
+    if (insertSize > this.reader.remaining) {
+      console.error(`[RPakParser] Patch insert data runs past the end of ${this.fileName}: need ${insertSize}, have ${this.reader.remaining}`);
+      return;
+    }
+    console.log(`[RPakParser] Reading ${insertSize} bytes for patch insert data`);
+    this.rawData.patchInsertData = this.reader.readBytes(insertSize);
   }
 
   /**
@@ -583,25 +783,30 @@ export class RPakParser {
     // 5. External asset ref offsets (4 bytes each - int) if numExternalAssetRefs > 0
     // 6. External asset refs data
     // 7. Unknown data sections (v8+)
-    // 8. Patch stream data (if patched)
+    // 8. Patch edit stream and insert data (if patched)
     // 9. Page data
 
     console.log(`[RPakParser] Building page buffers at position ${this.reader.position}`);
     console.log(`[RPakParser] numPointers=${this.header.numPointers}, numAssets=${this.header.numAssets}, numGuidRefs=${this.header.numGuidRefs}, numDependencies=${this.header.numDependencies}`);
     
-    // Skip over pointer headers section (8 bytes per pointer - PagePtr_t)
-    const pointersSize = this.header.numPointers * 8;
-    console.log(`[RPakParser] Skipping ${pointersSize} bytes for pointers`);
-    this.reader.skip(pointersSize);
+    // Read pointer headers section (8 bytes per pointer - PagePtr_t)
+    console.log(`[RPakParser] Reading ${this.header.numPointers} pointers`);
+    for (let i = 0; i < this.header.numPointers; i++) {
+      const index = this.reader.readUint32();
+      const offset = this.reader.readUint32();
+      this.rawData.pointers.push({ index, offset });
+    }
 
     // Now we're at the asset entries
     const assetStartPos = this.reader.position;
     console.log(`[RPakParser] Asset entries start at ${assetStartPos}`);
 
-    // Skip asset entries
+    // Keep the raw asset entries, they are parsed after the page buffers are built
     const assetsSize = this.header.numAssets * this.header.pakAssetSize;
-    console.log(`[RPakParser] Skipping ${assetsSize} bytes for assets (${this.header.numAssets} * ${this.header.pakAssetSize})`);
-    this.reader.skip(assetsSize);
+    console.log(`[RPakParser] Reading ${assetsSize} bytes for assets (${this.header.numAssets} * ${this.header.pakAssetSize})`);
+    for (let i = 0; i < this.header.numAssets; i++) {
+      this.rawData.assetEntries.push(this.reader.readBytes(this.header.pakAssetSize));
+    }
 
     // Read GUID refs section (8 bytes per ref - PagePtr_t: pageIndex u32, pageOffset u32)
     const guidRefsCount = this.header.numGuidRefs;
@@ -611,39 +816,43 @@ export class RPakParser {
       const pageIndex = this.reader.readUint32();
       const pageOffset = this.reader.readUint32();
       this.guidRefs.push({ pageIndex, pageOffset });
+      this.rawData.guidRefs.push({ index: pageIndex, offset: pageOffset });
     }
 
-    // Skip over dependencies section (4 bytes per dependency - int)
-    const dependenciesSize = this.header.numDependencies * 4;
-    console.log(`[RPakParser] Skipping ${dependenciesSize} bytes for dependencies`);
-    this.reader.skip(dependenciesSize);
+    // Read dependencies section (4 bytes per dependency - int)
+    console.log(`[RPakParser] Reading ${this.header.numDependencies} dependencies`);
+    for (let i = 0; i < this.header.numDependencies; i++) {
+      this.rawData.dependencies.push(this.reader.readUint32());
+    }
 
-    // Skip external asset refs (if present)
+    // Read external asset refs (if present)
     if (this.header.numExternalAssetRefs > 0) {
       // First the offsets (4 bytes each)
-      const extRefOffsetsSize = this.header.numExternalAssetRefs * 4;
-      console.log(`[RPakParser] Skipping ${extRefOffsetsSize} bytes for external ref offsets`);
-      this.reader.skip(extRefOffsetsSize);
+      console.log(`[RPakParser] Reading ${this.header.numExternalAssetRefs} external ref offsets`);
+      for (let i = 0; i < this.header.numExternalAssetRefs; i++) {
+        this.rawData.externalAssetRefOffsets.push(this.reader.readUint32());
+      }
       
       // Then the actual refs data
-      console.log(`[RPakParser] Skipping ${this.header.externalAssetRefsSize} bytes for external refs data`);
-      this.reader.skip(this.header.externalAssetRefsSize);
+      console.log(`[RPakParser] Reading ${this.header.externalAssetRefsSize} bytes for external refs data`);
+      this.rawData.externalAssetRefsData = this.reader.readBytes(this.header.externalAssetRefsSize);
     }
 
-    // Skip additional data sections (v8+)
+    // Additional data sections (v8+)
     if (this.header.unkDataSize_74 > 0) {
-      console.log(`[RPakParser] Skipping ${this.header.unkDataSize_74} bytes for unkDataSize_74`);
-      this.reader.skip(this.header.unkDataSize_74);
+      console.log(`[RPakParser] Reading ${this.header.unkDataSize_74} bytes for unkDataSize_74`);
+      this.rawData.unkData74 = this.reader.readBytes(this.header.unkDataSize_74);
     }
     if (this.header.unkDataSize_78 > 0) {
-      console.log(`[RPakParser] Skipping ${this.header.unkDataSize_78} bytes for unkDataSize_78`);
-      this.reader.skip(this.header.unkDataSize_78);
+      console.log(`[RPakParser] Reading ${this.header.unkDataSize_78} bytes for unkDataSize_78`);
+      this.rawData.unkData78 = this.reader.readBytes(this.header.unkDataSize_78);
     }
 
-    // Skip patch data stream (if patched)
+    // Patch data stream (if patched)
     if (this.header.patchCount > 0 && this.patchDataStreamSize > 0) {
-      console.log(`[RPakParser] Skipping ${this.patchDataStreamSize} bytes for patch data stream`);
-      this.reader.skip(this.patchDataStreamSize);
+      console.log(`[RPakParser] Reading ${this.patchDataStreamSize} bytes for patch data stream`);
+      this.rawData.patchStream = this.reader.readBytes(this.patchDataStreamSize);
+      this.readPatchInsertData();
     }
 
     console.log(`[RPakParser] Page data starts at position ${this.reader.position}`);
@@ -661,6 +870,18 @@ export class RPakParser {
     // The C++ RSX reads all pages regardless of segment type
     for (let i = pageStart; i < this.header.numPages; i++) {
       const page = this.pages[i];
+
+      // Pages read in ranges were already split by page
+      if (this.fileRanges) {
+        const pageData = this.fileRanges.pages[i - pageStart];
+        if (!pageData || pageData.length < page.size) {
+          console.error(`[RPakParser] Not enough data for page ${i}: need ${page.size}, have ${pageData?.length ?? 0}`);
+          this.pageBuffers.push(new Uint8Array(0));
+        } else {
+          this.pageBuffers.push(pageData.length > page.size ? pageData.subarray(0, page.size) : pageData);
+        }
+        continue;
+      }
       
       if (page.size > 0) {
         if (this.reader.remaining < page.size) {
@@ -678,6 +899,12 @@ export class RPakParser {
 
     console.log(`[RPakParser] Built ${this.pageBuffers.length} page buffers, final position ${this.reader.position}`);
 
+    if (this.fileRanges) {
+      this.rawData.trailingData = this.fileRanges.trailing;
+    } else if (this.reader.remaining > 0) {
+      this.rawData.trailingData = this.reader.readBytes(this.reader.remaining);
+    }
+
     // Go back to asset entries
     this.reader.seek(assetStartPos);
   }
@@ -754,13 +981,7 @@ export class RPakParser {
     }
 
     // Get header data
-    let headerData: Uint8Array | undefined;
-    if (headPageIndex < this.pageBuffers.length) {
-      const pageBuf = this.pageBuffers[headPageIndex];
-      if (pageBuf.length > 0 && headPageOffset + headerSize <= pageBuf.length) {
-        headerData = pageBuf.slice(headPageOffset, headPageOffset + headerSize);
-      }
-    }
+    const headerData = this.readAssetHeaderData({ index: headPageIndex, offset: headPageOffset }, headerSize);
 
     return {
       guid: guid.toString(16).padStart(16, '0').toUpperCase(),
@@ -783,6 +1004,19 @@ export class RPakParser {
     };
   }
 
+  /**
+   * Read an asset's header struct from its head page
+   */
+  private readAssetHeaderData(headPagePtr: PagePtr, headerSize: number): Uint8Array | undefined {
+    if (headPagePtr.index < this.pageBuffers.length) {
+      const pageBuf = this.pageBuffers[headPagePtr.index];
+      if (pageBuf.length > 0 && headPagePtr.offset + headerSize <= pageBuf.length) {
+        return pageBuf.slice(headPagePtr.offset, headPagePtr.offset + headerSize);
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Resolve asset name from header data
    */
@@ -971,6 +1205,106 @@ export class RPakParser {
     return dependencies;
   }
 
+  /**
+   * Get the assets in this pak that depend on an asset, from the pak's dependents table
+   */
+  getAssetDependents(asset: ParsedAsset): ParsedAsset[] {
+    const dependents: ParsedAsset[] = [];
+
+    for (let i = 0; i < asset.dependentsCount; i++) {
+      const tableIndex = asset.dependentsIndex + i;
+
+      if (tableIndex >= this.rawData.dependencies.length) {
+        console.warn(`[RPakParser] Dependent index ${tableIndex} out of bounds (max ${this.rawData.dependencies.length})`);
+        break;
+      }
+
+      // Each entry is the index of the dependent asset in the asset table
+      const dependent = this.assets[this.rawData.dependencies[tableIndex]];
+      if (dependent) {
+        dependents.push(dependent);
+      }
+    }
+
+    return dependents;
+  }
+
+  /**
+   * Get the raw sections of the pak for writing it back out
+   */
+  getRawData(): RPakRawData {
+    return this.rawData;
+  }
+
+  /**
+   * Approximate number of bytes held by the parser (page data and raw sections).
+   * Buffers already in `counted` are skipped; the ones counted are added to it.
+   */
+  getMemoryUsage(counted: Set<ArrayBufferLike> = new Set()): number {
+    let bytes = 0;
+    const add = (data: Uint8Array) => {
+      if (counted.has(data.buffer)) return;
+      counted.add(data.buffer);
+      bytes += data.buffer.byteLength;
+    };
+
+    this.pageBuffers.forEach(add);
+    this.rawData.assetEntries.forEach(add);
+    add(this.rawData.patchStream);
+    add(this.rawData.patchInsertData);
+    add(this.rawData.externalAssetRefsData);
+    add(this.rawData.trailingData);
+    return bytes;
+  }
+
+  /**
+   * Get the header, segment and page tables as parsed
+   */
+  getLayout(): { header: PakHeader; segments: PakSegmentHeader[]; pages: PakPageHeader[]; patchData?: ParsedPatchData } {
+    return {
+      header: this.header,
+      segments: this.segments,
+      pages: this.pages,
+      patchData: this.header.patchCount > 0 ? {
+        dataHeader: {
+          patchDataStreamSize: this.patchDataStreamSize,
+          patchPageCount: this.patchPageCount,
+        },
+        fileHeaders: this.patchFileHeaders,
+        patchIndices: this.patchIndices,
+      } : undefined,
+    };
+  }
+
+  /**
+   * Check whether a page is rebuilt from older paks by the patch stream
+   * (its data is not stored in this file)
+   */
+  isPatchPage(pageIndex: number): boolean {
+    return pageIndex < this.patchPageCount;
+  }
+
+  /**
+   * Install the pages rebuilt from the patch stream and read the headers of
+   * the assets stored in them
+   */
+  setPatchPages(pages: Uint8Array[]): void {
+    if (pages.length !== this.patchPageCount) {
+      throw new Error(`Expected ${this.patchPageCount} patched pages, got ${pages.length}`);
+    }
+
+    for (let i = 0; i < pages.length; i++) {
+      this.pageBuffers[i] = pages[i];
+    }
+
+    for (const asset of this.assets) {
+      if (this.isPatchPage(asset.headPagePtr.index)) {
+        asset.headerData = this.readAssetHeaderData(asset.headPagePtr, asset.headerSize);
+        this.resolveAssetName(asset);
+      }
+    }
+  }
+
   /**
    * Find an asset by GUID
    */
@@ -988,10 +1322,10 @@ export class RPakParser {
 }
 
 /**
- * Parse an RPak file from a buffer
+ * Parse an RPak file from a buffer, or from the ranges of an uncompressed pak
  * Returns both the parsed result and the parser instance for data access
  */
-export async function parseRPak(buffer: ArrayBuffer | Uint8Array, filePath: string): Promise<{ parsed: ParsedRPak; parser: RPakParser }> {
+export async function parseRPak(buffer: ArrayBuffer | Uint8Array | RPakFileRanges, filePath: string): Promise<{ parsed: ParsedRPak; parser: RPakParser }> {
   const parser = new RPakParser(buffer, filePath);
   const parsed = await parser.parse();
   return { parsed, parser };
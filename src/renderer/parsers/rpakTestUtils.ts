@@ -0,0 +1,239 @@
+/**
+ * Builders for small synthetic rpaks used by the parser and writer tests
+ */
+
+export interface TestAsset {
+  guid: bigint;
+  head: [number, number];
+  data: [number, number];
+  headerSize: number;
+  // Index and count of the asset's GUID refs
+  dependencies?: [number, number];
+}
+
+export interface TestPak {
+  pages: number[];
+  // Data of the pages stored in the file (the ones after the patched pages)
+  pageData: Uint8Array[];
+  assets: TestAsset[];
+  patch?: TestPatch;
+  streamingFiles?: string[];
+  // Pointer and GUID ref slots as [page, offset]
+  pointers?: [number, number][];
+  guidRefs?: [number, number][];
+  // Pak version, 8 by default; patches need v7 or later
+  version?: 6 | 7 | 8;
+}
+
+export interface TestPatch {
+  pageCount: number;
+  patchIndices: number[];
+  // Edit stream (see encodePatchEditStream) and the bytes its edits insert
+  stream: Uint8Array;
+  insertData?: Uint8Array;
+  // Decompressed sizes of the source files, one per patch number
+  sourceSizes?: number[];
+}
+
+// Edit stream command with its byte count; fixed-size commands have none
+export type TestPatchEdit = [command: number, size?: number];
+
+export function bytes(...values: number[]): Uint8Array {
+  return Uint8Array.from(values);
+}
+
+export function fill(size: number, value: number): Uint8Array {
+  return new Uint8Array(size).fill(value);
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function pagePtrs(ptrs: [number, number][] = []): Uint8Array {
+  const view = new DataView(new ArrayBuffer(ptrs.length * 8));
+  ptrs.forEach(([index, offset], i) => {
+    view.setUint32(i * 8, index, true);
+    view.setUint32(i * 8 + 4, offset, true);
+  });
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * Build an uncompressed rpak with one segment
+ */
+export function buildTestPak(pak: TestPak): Uint8Array {
+  const version = pak.version ?? 8;
+  const isV8 = version >= 8;
+  const patchCount = pak.patch ? pak.patch.patchIndices.length : 0;
+  if (pak.patch && version < 7) {
+    throw new Error('v6 paks cannot be patched');
+  }
+  const sections: Uint8Array[] = [];
+
+  if (pak.patch) {
+    const patchHeader = new DataView(new ArrayBuffer(8 + patchCount * 18));
+    patchHeader.setUint32(0, pak.patch.stream.length, true);
+    patchHeader.setUint32(4, pak.patch.pageCount, true);
+    pak.patch.patchIndices.forEach((index, i) => {
+      const sourceSize = BigInt(pak.patch!.sourceSizes?.[i] ?? 0);
+      patchHeader.setBigUint64(8 + i * 16, sourceSize, true);
+      patchHeader.setBigUint64(16 + i * 16, sourceSize, true);
+      patchHeader.setUint16(8 + patchCount * 16 + i * 2, index, true);
+    });
+    sections.push(new Uint8Array(patchHeader.buffer));
+  }
+
+  const streamingFiles = new TextEncoder().encode((pak.streamingFiles || []).map(file => `${file}\0`).join(''));
+  sections.push(streamingFiles);
+
+  const segment = new DataView(new ArrayBuffer(16));
+  segment.setUint32(4, 8, true);
+  segment.setBigUint64(8, BigInt(pak.pages.reduce((sum, size) => sum + size, 0)), true);
+  sections.push(new Uint8Array(segment.buffer));
+
+  const pages = new DataView(new ArrayBuffer(pak.pages.length * 12));
+  pak.pages.forEach((size, i) => {
+    pages.setUint32(i * 12 + 4, 8, true);
+    pages.setUint32(i * 12 + 8, size, true);
+  });
+  sections.push(new Uint8Array(pages.buffer));
+  sections.push(pagePtrs(pak.pointers));
+
+  for (const asset of pak.assets) {
+    const [dependenciesIndex, dependenciesCount] = asset.dependencies ?? [0, 0];
+    const entry = new DataView(new ArrayBuffer(isV8 ? 0x50 : 0x48));
+    entry.setBigUint64(0, asset.guid, true);
+    entry.setUint32(0x10, asset.head[0], true);
+    entry.setUint32(0x14, asset.head[1], true);
+    entry.setUint32(0x18, asset.data[0], true);
+    entry.setUint32(0x1C, asset.data[1], true);
+    if (isV8) {
+      entry.setUint32(0x38, dependenciesIndex, true);
+      entry.setUint16(0x40, dependenciesCount, true);
+      entry.setUint32(0x44, asset.headerSize, true);
+      entry.setUint8(0x48, 1);
+      entry.setUint32(0x4C, 0x6C627464, true); // 'dtbl'
+    } else {
+      entry.setUint32(0x30, dependenciesIndex, true);
+      entry.setUint32(0x38, dependenciesCount, true);
+      entry.setUint32(0x3C, asset.headerSize, true);
+      entry.setUint32(0x40, 1, true);
+      entry.setUint32(0x44, 0x6C627464, true); // 'dtbl'
+    }
+    sections.push(new Uint8Array(entry.buffer));
+  }
+
+  sections.push(pagePtrs(pak.guidRefs));
+
+  if (pak.patch) {
+    sections.push(pak.patch.stream, pak.patch.insertData || new Uint8Array(0));
+  }
+  sections.push(...pak.pageData);
+
+  const body = concat(sections);
+  const headerSize = isV8 ? 0x80 : 0x58;
+  const size = BigInt(headerSize + body.length);
+  const header = new DataView(new ArrayBuffer(headerSize));
+  header.setUint32(0, 0x6B615052, true);
+  header.setUint16(4, version, true);
+
+  // Counts from the streaming files size to the GUID refs, in header order
+  let counts: [offset: number, bytes: 2 | 4, value: number][];
+  if (version === 6) {
+    header.setBigUint64(0x18, size, true);
+    counts = [[0x30, 4, streamingFiles.length], [0x34, 2, 1], [0x36, 2, pak.pages.length], [0x38, 4, pak.pointers?.length ?? 0],
+      [0x3C, 4, pak.assets.length], [0x40, 4, pak.guidRefs?.length ?? 0]];
+  } else if (version === 7) {
+    header.setBigUint64(0x18, size, true);
+    header.setBigUint64(0x28, size, true);
+    counts = [[0x38, 2, streamingFiles.length], [0x3A, 2, 1], [0x3C, 2, pak.pages.length], [0x3E, 2, patchCount],
+      [0x40, 4, pak.pointers?.length ?? 0], [0x44, 4, pak.assets.length], [0x48, 4, pak.guidRefs?.length ?? 0]];
+  } else {
+    header.setBigUint64(0x18, size, true);
+    header.setBigUint64(0x30, size, true);
+    counts = [[0x48, 2, streamingFiles.length], [0x4C, 2, 1], [0x4E, 2, pak.pages.length], [0x50, 2, patchCount],
+      [0x54, 4, pak.pointers?.length ?? 0], [0x58, 4, pak.assets.length], [0x5C, 4, pak.guidRefs?.length ?? 0]];
+  }
+  for (const [offset, bytes, value] of counts) {
+    if (bytes === 2) {
+      header.setUint16(offset, value, true);
+    } else {
+      header.setUint32(offset, value, true);
+    }
+  }
+
+  return concat([new Uint8Array(header.buffer), body]);
+}
+
+/**
+ * Writes bits least significant first
+ */
+class BitWriter {
+  private output: number[] = [];
+  private bitCount = 0;
+
+  write(value: number, count: number): void {
+    for (let i = 0; i < count; i++) {
+      if (this.bitCount % 8 === 0) {
+        this.output.push(0);
+      }
+      this.output[this.output.length - 1] |= (Math.floor(value / 2 ** i) & 1) << (this.bitCount % 8);
+      this.bitCount++;
+    }
+  }
+
+  getBytes(): Uint8Array {
+    return Uint8Array.from(this.output);
+  }
+}
+
+/**
+ * Fixed-length prefix code for the used symbols, written as a patch edit
+ * stream table. Returns the code of every used symbol.
+ */
+function writePrefixTable(writer: BitWriter, used: number[], lengthBits: number): Map<number, [number, number]> {
+  const symbols = Array.from(new Set(used.length > 0 ? used : [0])).sort((a, b) => a - b);
+  const length = Math.max(1, Math.ceil(Math.log2(symbols.length)));
+  const symbolCount = symbols[symbols.length - 1] + 1;
+
+  writer.write(symbolCount - 1, 5);
+  for (let symbol = 0; symbol < symbolCount; symbol++) {
+    writer.write(symbols.includes(symbol) ? length : 0, lengthBits);
+  }
+
+  // Canonical codes are read most significant bit first
+  return new Map(symbols.map((symbol, code) => [symbol, [code, length]]));
+}
+
+function writeCode(writer: BitWriter, [code, length]: [number, number]): void {
+  for (let i = length - 1; i >= 0; i--) {
+    writer.write((code >> i) & 1, 1);
+  }
+}
+
+/**
+ * Encode edits as a patch edit stream (see patchStream.ts)
+ */
+export function encodePatchEditStream(edits: TestPatchEdit[]): Uint8Array {
+  const exponent = (size: number) => Math.floor(Math.log2(size));
+  const writer = new BitWriter();
+  const commandCodes = writePrefixTable(writer, edits.map(([command]) => command), 3);
+  const sizeCodes = writePrefixTable(writer, edits.filter(([, size]) => size !== undefined).map(([, size]) => exponent(size!)), 4);
+
+  for (const [command, size] of edits) {
+    writeCode(writer, commandCodes.get(command)!);
+    if (size !== undefined) {
+      writeCode(writer, sizeCodes.get(exponent(size))!);
+      writer.write(size - 2 ** exponent(size), exponent(size));
+    }
+  }
+
+  return writer.getBytes();
+}
@@ -48,16 +48,28 @@ export interface PagePtr {
 
 // Patch data header
 export interface PakPatchDataHeader {
-  patchDataStreamSize: number;
+  patchDataStreamSize: number; // size of the edit stream
   patchPageCount: number;
 }
 
-// Patch file header
+// Patch file header, one per patch number: sizes of the source file
 export interface PakPatchFileHeader {
   cmpSize: bigint;
   dcmpSize: bigint;
 }
 
+// Patch edit stream commands, in the order of the game's patch functions.
+// The first four carry a byte count (see patchStream.ts).
+export const PATCH_COMMANDS = {
+  COPY: 0,             // copy bytes from the source files
+  SKIP: 1,             // skip bytes of the source files
+  INSERT: 2,           // write bytes from the insert data
+  REPLACE: 3,          // write bytes from the insert data over the same number of source bytes
+  REPLACE_1_COPY_3: 4, // replace 1 byte, then copy 3
+  REPLACE_1_COPY_7: 5, // replace 1 byte, then copy 7
+  REPLACE_2_COPY_6: 6, // replace 2 bytes, then copy 6
+} as const;
+
 // Asset entry for version 6/7
 export interface PakAssetV6 {
   guid: bigint;
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { RPakWriter } from './rpakWriter';
+import { parseRPak } from './rpakParser';
+import { PAK_HEADER_FLAGS, PATCH_COMMANDS } from './rpakTypes';
+import { buildTestPak, concat, encodePatchEditStream, fill, TestPak } from './rpakTestUtils';
+
+const PAK: TestPak = {
+  pages: [32, 256],
+  pageData: [concat([fill(16, 0xA1), fill(16, 0xB1)]), concat([fill(128, 0xD0), fill(128, 0xD1)])],
+  assets: [
+    { guid: 0x1111n, head: [0, 0], data: [1, 0], headerSize: 16 },
+    { guid: 0x2222n, head: [0, 16], data: [1, 128], headerSize: 16 },
+  ],
+  streamingFiles: ['paks/Win64/test.starpak'],
+};
+
+// Pages 0 and 1 come from the base pak, page 2 is stored in the file
+const PATCHED_PAK: TestPak = {
+  pages: [32, 256, 16],
+  pageData: [fill(16, 0xC1)],
+  assets: [
+    { guid: 0x1111n, head: [0, 0], data: [1, 0], headerSize: 16 },
+    { guid: 0x3333n, head: [2, 0], data: [1, 128], headerSize: 16 },
+  ],
+  // Copy all 288 bytes of the base pages
+  patch: { pageCount: 2, patchIndices: [0], stream: encodePatchEditStream([[PATCH_COMMANDS.COPY, 288]]) },
+};
+
+// Asset 0x1111's data (page 1, 0-127) holds a pointer slot and a GUID ref
+// slot, and its header holds a pointer to the data
+const RELOCATED_PAK: TestPak = {
+  ...PAK,
+  assets: [
+    { ...PAK.assets[0], dependencies: [0, 1] },
+    PAK.assets[1],
+  ],
+  pointers: [[0, 0], [1, 8]],
+  guidRefs: [[1, 16]],
+};
+
+function buildRelocatedPak(): Uint8Array {
+  const data = buildTestPak(RELOCATED_PAK);
+  const pagesStart = data.length - 32 - 256;
+  new DataView(data.buffer).setBigUint64(pagesStart, 1n, true); // page 0 offset 0 -> page 1 offset 0
+  return data;
+}
+
+async function parse(data: Uint8Array) {
+  return parseRPak(data, 'paks/test.rpak');
+}
+
+describe('RPakWriter', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('writes an unmodified pak back byte for byte', async () => {
+    const original = buildTestPak(PAK);
+    const { parser } = await parse(original.slice());
+    expect(Array.from(new RPakWriter(parser).build())).toEqual(Array.from(original));
+  });
+
+  it('writes an unmodified patched pak back byte for byte', async () => {
+    const original = buildTestPak(PATCHED_PAK);
+    const { parser } = await parse(original.slice());
+    expect(Array.from(new RPakWriter(parser).build())).toEqual(Array.from(original));
+  });
+
+  it.each([6, 7] as const)('writes an unmodified v%i pak back byte for byte', async version => {
+    const original = buildTestPak({ ...RELOCATED_PAK, version });
+    const { parsed, parser } = await parse(original.slice());
+    expect(parsed.header.version).toBe(version);
+    expect(parsed.assets.map(a => a.dependenciesCount)).toEqual([1, 0]);
+    expect(Array.from(new RPakWriter(parser).build())).toEqual(Array.from(original));
+  });
+
+  it('replaces an asset header and grows its data', async () => {
+    const { parser } = await parse(buildTestPak(PAK));
+    const writer = new RPakWriter(parser);
+    writer.replaceAssetHeader(0x2222n, fill(16, 0xEE));
+    writer.replaceAssetData('0x2222', fill(200, 0xEF));
+
+    const { parsed, parser: rewritten } = await parse(writer.build());
+    const asset = parsed.assets.find(a => a.guid === '0000000000002222')!;
+    expect(Array.from(asset.headerData!)).toEqual(Array.from(fill(16, 0xEE)));
+    expect(parsed.pages[1].size).toBe(128 + 200);
+    expect(parsed.segments[0].size).toBe(BigInt(32 + 128 + 200));
+    expect(Array.from(rewritten.getPageData(1)!.subarray(128))).toEqual(Array.from(fill(200, 0xEF)));
+
+    // The other asset is untouched
+    const other = parsed.assets.find(a => a.guid === '0000000000001111')!;
+    expect(Array.from(other.headerData!)).toEqual(Array.from(fill(16, 0xA1)));
+  });
+
+  it('overwrites smaller data in place and swaps its relocation slots', async () => {
+    const { parser } = await parse(buildRelocatedPak());
+    const writer = new RPakWriter(parser);
+    const data = fill(64, 0xEF);
+    new DataView(data.buffer).setBigUint64(32, 40n << 32n, true);
+    writer.replaceAssetData(0x1111n, data, { pointerOffsets: [32], guidRefOffsets: [48] });
+
+    const { parsed, parser: rewritten } = await parse(writer.build());
+    const page = rewritten.getPageData(1)!;
+    expect(parsed.pages[1].size).toBe(256);
+    expect(Array.from(page.subarray(64, 128))).toEqual(Array.from(fill(64, 0)));
+    expect(Array.from(page.subarray(128))).toEqual(Array.from(fill(128, 0xD1)));
+    expect(new DataView(page.buffer, page.byteOffset).getBigUint64(32, true)).toBe((40n << 32n) | 1n);
+
+    const raw = rewritten.getRawData();
+    expect(raw.pointers).toEqual([{ index: 0, offset: 0 }, { index: 1, offset: 32 }]);
+    expect(raw.guidRefs).toEqual([{ index: 1, offset: 48 }]);
+    expect(parsed.assets.map(a => [a.dependenciesIndex, a.dependenciesCount])).toEqual([[0, 1], [0, 0]]);
+  });
+
+  it('moves larger data to a new page when other data follows it', async () => {
+    const { parser } = await parse(buildRelocatedPak());
+    const writer = new RPakWriter(parser);
+    writer.replaceAssetData(0x1111n, fill(200, 0xEF));
+
+    const { parsed, parser: rewritten } = await parse(writer.build());
+    const asset = parsed.assets.find(a => a.guid === '0000000000001111')!;
+    expect(asset.dataPagePtr).toEqual({ index: 2, offset: 0 });
+    expect(asset.pageEnd).toBe(3);
+    expect(asset.dependenciesCount).toBe(0);
+    expect(parsed.pages.map(p => p.size)).toEqual([32, 256, 200]);
+    expect(Array.from(rewritten.getPageData(2)!)).toEqual(Array.from(fill(200, 0xEF)));
+
+    // The header's pointer follows the data; the slots in the old data are gone
+    expect(rewritten.getRawData().pointers).toEqual([{ index: 0, offset: 0 }]);
+    expect(rewritten.getRawData().guidRefs).toEqual([]);
+    expect(new DataView(rewritten.getPageData(0)!.buffer, rewritten.getPageData(0)!.byteOffset).getBigUint64(0, true)).toBe(2n);
+  });
+
+  it('refuses to change pages rebuilt from the patch stream', async () => {
+    const { parser } = await parse(buildTestPak(PATCHED_PAK));
+    expect(() => new RPakWriter(parser).replaceAssetHeader(0x1111n, fill(16, 0))).toThrow(/patch stream/);
+  });
+
+  it('writes ZSTD-compressed paks that parse to the same content', async () => {
+    const original = buildTestPak(PAK);
+    const { parser } = await parse(original.slice());
+    const compressed = new RPakWriter(parser).build({ compress: true });
+
+    expect(compressed.length).toBeLessThan(original.length);
+    expect(new DataView(compressed.buffer).getUint16(6, true) & PAK_HEADER_FLAGS.ZSTD_ENCODED).toBeTruthy();
+
+    const { parsed, parser: reparsed } = await parse(compressed);
+    expect(parsed.streamingFiles).toEqual(PAK.streamingFiles);
+    expect(parsed.assets.map(a => a.guid)).toEqual(['0000000000001111', '0000000000002222']);
+    expect(Array.from(reparsed.getPageData(1)!)).toEqual(Array.from(PAK.pageData[1]));
+
+    // Decompressed and written again, the pak matches the original
+    expect(Array.from(new RPakWriter(reparsed).build())).toEqual(Array.from(original));
+  });
+});
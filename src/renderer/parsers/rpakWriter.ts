@@ -0,0 +1,689 @@
+/**
+ * RPak file writer
+ * Rebuilds a .rpak from a parsed pak, optionally with replaced or added assets.
+ * An unmodified uncompressed pak is written back byte for byte; compressed
+ * paks are written decompressed, or re-encoded as ZSTD.
+ */
+
+import { BinaryWriter } from '../utils/binaryUtils';
+import { compressZstd } from '../utils/zstdCompress';
+import { stringToFourCC } from '../types/asset';
+import {
+  PakHeader,
+  PakSegmentHeader,
+  PakPageHeader,
+  PagePtr,
+  PAK_HEADER_FLAGS,
+  PAK_HEADER_FLAGS_COMPRESSED,
+  SEGMENT_FLAGS,
+  SF_TYPE_MASK,
+} from './rpakTypes';
+import { RpakParser, ParsedPatchData } from './rpakParser';
+
+export interface RPakWriteOptions {
+  // Re-encode the pak body as ZSTD
+  compress?: boolean;
+}
+
+export interface RPakAssetDefinition {
+  guid: bigint;
+  type: string; // FourCC, e.g. 'txtr'
+  version: number;
+  headerData: Uint8Array;
+  data?: Uint8Array;
+  // Offsets in headerData that hold a pointer to the start of data
+  dataPointerOffsets?: number[];
+  starpakOffset?: bigint;
+  optStarpakOffset?: bigint;
+}
+
+// Relocations in new asset data, as offsets from the start of the data
+export interface RPakDataRelocations {
+  // Page pointers into the data itself. Their offset field holds the offset
+  // from the start of the data; both fields are rewritten to the data's
+  // final page and offset.
+  pointerOffsets?: number[];
+  // GUID references to other assets
+  guidRefOffsets?: number[];
+}
+
+// Asset entry field offsets (see PakAssetV6 / PakAssetV8 in rpakTypes.ts).
+// dependenciesCount is a uint32 in v6/v7 entries and a uint16 in v8 entries.
+const ASSET_ENTRY_OFFSETS = {
+  V6: { headPagePtr: 16, dataPagePtr: 24, pageEnd: 40, dependenciesIndex: 48, dependenciesCount: 56, headerSize: 60 },
+  V8: { headPagePtr: 16, dataPagePtr: 24, pageEnd: 48, dependenciesIndex: 56, dependenciesCount: 64, headerSize: 68 },
+} as const;
+
+// Page alignment used for pages created by the writer
+const NEW_PAGE_ALIGN = 16;
+
+function normalizeGuid(guid: bigint | string): bigint {
+  return typeof guid === 'bigint' ? guid : BigInt('0x' + guid.replace(/^0x/i, ''));
+}
+
+function alignUp(value: number, align: number): number {
+  return align > 1 ? Math.ceil(value / align) * align : value;
+}
+
+export class RPakWriter {
+  private header: PakHeader;
+  private headerBytes: Uint8Array;
+  private segments: PakSegmentHeader[];
+  private pages: PakPageHeader[];
+  private pageBuffers: Uint8Array[];
+  // Pages whose buffers are no longer shared with the parser
+  private ownedPages = new Set<number>();
+  private patchData?: ParsedPatchData;
+  private streamingFilesBuf: Uint8Array;
+  private optStreamingFilesBuf: Uint8Array;
+  private pointers: PagePtr[];
+  private assetEntries: Uint8Array[];
+  private guidRefs: PagePtr[];
+  private dependencies: number[];
+  private externalAssetRefOffsets: number[];
+  private externalAssetRefsData: Uint8Array;
+  private unkData74: Uint8Array;
+  private unkData78: Uint8Array;
+  private patchStream: Uint8Array;
+  private patchInsertData: Uint8Array;
+  private trailingData: Uint8Array;
+
+  constructor(parser: RpakParser) {
+    const layout = parser.getLayout();
+    const raw = parser.getRawData();
+
+    this.header = { ...layout.header };
+    this.headerBytes = raw.headerBytes.slice();
+    this.segments = layout.segments.map(s => ({ ...s }));
+    this.pages = layout.pages.map(p => ({ ...p }));
+    this.patchData = layout.patchData;
+    this.streamingFilesBuf = raw.streamingFilesBuf;
+    this.optStreamingFilesBuf = raw.optStreamingFilesBuf;
+    this.pointers = raw.pointers.map(p => ({ ...p }));
+    this.assetEntries = raw.assetEntries.map(e => e.slice());
+    this.guidRefs = raw.guidRefs.map(p => ({ ...p }));
+    this.dependencies = [...raw.dependencies];
+    this.externalAssetRefOffsets = [...raw.externalAssetRefOffsets];
+    this.externalAssetRefsData = raw.externalAssetRefsData;
+    this.unkData74 = raw.unkData74;
+    this.unkData78 = raw.unkData78;
+    this.patchStream = raw.patchStream;
+    this.patchInsertData = raw.patchInsertData;
+    this.trailingData = raw.trailingData;
+
+    // Page buffers are shared with the parser until they are modified
+    this.pageBuffers = [];
+    for (let i = 0; i < this.pages.length; i++) {
+      this.pageBuffers.push(parser.getPageData(i) || new Uint8Array(0));
+    }
+  }
+
+  private get isV8(): boolean {
+    return this.header.version >= 8;
+  }
+
+  private get patchPageCount(): number {
+    return this.patchData?.dataHeader.patchPageCount || 0;
+  }
+
+  /**
+   * Get the asset entry index for a GUID, or -1 if the pak doesn't contain it
+   */
+  private indexOfAsset(guid: bigint): number {
+    for (let i = 0; i < this.assetEntries.length; i++) {
+      const view = new DataView(this.assetEntries[i].buffer, this.assetEntries[i].byteOffset);
+      if (view.getBigUint64(0, true) === guid) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Find the asset entry index for a GUID
+   */
+  private findAssetEntry(guid: bigint | string): number {
+    const target = normalizeGuid(guid);
+    const index = this.indexOfAsset(target);
+
+    if (index < 0) {
+      throw new Error(`Asset 0x${target.toString(16).toUpperCase()} not found in pak`);
+    }
+    return index;
+  }
+
+  private readEntryPtr(entry: Uint8Array, offset: number): PagePtr {
+    const view = new DataView(entry.buffer, entry.byteOffset);
+    return { index: view.getUint32(offset, true), offset: view.getUint32(offset + 4, true) };
+  }
+
+  private getEntryOffsets() {
+    return this.isV8 ? ASSET_ENTRY_OFFSETS.V8 : ASSET_ENTRY_OFFSETS.V6;
+  }
+
+  /**
+   * Get a page buffer that can be modified without touching the parser's copy
+   */
+  private getWritablePage(pageIndex: number): Uint8Array {
+    if (pageIndex >= this.pages.length) {
+      throw new Error(`Page ${pageIndex} out of range (${this.pages.length} pages)`);
+    }
+    if (pageIndex < this.patchPageCount) {
+      throw new Error(`Page ${pageIndex} is rebuilt from the patch stream and cannot be modified`);
+    }
+
+    if (!this.ownedPages.has(pageIndex)) {
+      this.pageBuffers[pageIndex] = this.pageBuffers[pageIndex].slice();
+      this.ownedPages.add(pageIndex);
+    }
+    return this.pageBuffers[pageIndex];
+  }
+
+  /**
+   * Check that nothing but the given asset references a page at or past an offset,
+   * so the page tail can be resized freely
+   */
+  private isPageTailExclusive(pageIndex: number, offset: number, entryIndex: number): boolean {
+    const entryOffsets = this.getEntryOffsets();
+
+    for (let i = 0; i < this.assetEntries.length; i++) {
+      if (i === entryIndex) continue;
+      for (const ptrOffset of [entryOffsets.headPagePtr, entryOffsets.dataPagePtr]) {
+        const ptr = this.readEntryPtr(this.assetEntries[i], ptrOffset);
+        if (ptr.index === pageIndex && ptr.offset >= offset) {
+          return false;
+        }
+      }
+    }
+
+    // Pointers stored elsewhere that point into the tail
+    for (const slot of this.pointers) {
+      if (slot.index === pageIndex && slot.offset >= offset) continue;
+
+      const page = this.pageBuffers[slot.index];
+      if (!page || slot.offset + 8 > page.length) continue;
+
+      const view = new DataView(page.buffer, page.byteOffset);
+      if (view.getUint32(slot.offset, true) === pageIndex && view.getUint32(slot.offset + 4, true) > offset) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Resize a page, keeping the owning segment's size in step
+   */
+  private setPageSize(pageIndex: number, size: number): void {
+    const page = this.pages[pageIndex];
+    const segment = this.segments[page.segment];
+    if (segment) {
+      segment.size += BigInt(size - page.size);
+    }
+    page.size = size;
+  }
+
+  /**
+   * Replace the streaming file tables
+   */
+  setStreamingFiles(streamingFiles: string[], optStreamingFiles: string[] = []): void {
+    const encode = (files: string[]): Uint8Array => {
+      const writer = new BinaryWriter();
+      for (const file of files) {
+        writer.writeNullTerminatedString(file);
+      }
+      return new Uint8Array(writer.getBuffer());
+    };
+
+    if (!this.isV8 && optStreamingFiles.length > 0) {
+      throw new Error('Optional streaming files are only supported by v8 paks');
+    }
+
+    this.streamingFilesBuf = encode(streamingFiles);
+    this.optStreamingFilesBuf = encode(optStreamingFiles);
+  }
+
+  /**
+   * Replace the whole data of a page
+   */
+  replacePageData(pageIndex: number, data: Uint8Array): void {
+    this.getWritablePage(pageIndex);
+    this.pageBuffers[pageIndex] = data.slice();
+    this.setPageSize(pageIndex, data.length);
+  }
+
+  /**
+   * Replace an asset's header struct in place. The size must match the asset's headerSize.
+   */
+  replaceAssetHeader(guid: bigint | string, headerData: Uint8Array): void {
+    const entry = this.assetEntries[this.findAssetEntry(guid)];
+    const entryOffsets = this.getEntryOffsets();
+    const headPtr = this.readEntryPtr(entry, entryOffsets.headPagePtr);
+    const headerSize = new DataView(entry.buffer, entry.byteOffset).getUint32(entryOffsets.headerSize, true);
+
+    if (headerData.length !== headerSize) {
+      throw new Error(`Header size mismatch: expected ${headerSize} bytes, got ${headerData.length}`);
+    }
+
+    const page = this.getWritablePage(headPtr.index);
+    if (headPtr.offset + headerSize > page.length) {
+      throw new Error(`Asset header at page ${headPtr.index} offset ${headPtr.offset} is out of bounds`);
+    }
+
+    page.set(headerData, headPtr.offset);
+  }
+
+  /**
+   * Size of the data at a page pointer: up to the next asset header or data
+   * in the same page, or the end of the page
+   */
+  private getAssetDataSize(dataPtr: PagePtr, entryIndex: number): number {
+    const entryOffsets = this.getEntryOffsets();
+    let end = this.pageBuffers[dataPtr.index].length;
+
+    for (let i = 0; i < this.assetEntries.length; i++) {
+      for (const ptrOffset of [entryOffsets.headPagePtr, entryOffsets.dataPagePtr]) {
+        if (i === entryIndex && ptrOffset === entryOffsets.dataPagePtr) continue;
+
+        const ptr = this.readEntryPtr(this.assetEntries[i], ptrOffset);
+        if (ptr.index === dataPtr.index && ptr.offset > dataPtr.offset && ptr.offset < end) {
+          end = ptr.offset;
+        }
+      }
+    }
+
+    return end - dataPtr.offset;
+  }
+
+  private getEntryDependencies(entry: Uint8Array): { index: number; count: number } {
+    const entryOffsets = this.getEntryOffsets();
+    const view = new DataView(entry.buffer, entry.byteOffset);
+    return {
+      index: view.getUint32(entryOffsets.dependenciesIndex, true),
+      count: this.isV8
+        ? view.getUint16(entryOffsets.dependenciesCount, true)
+        : view.getUint32(entryOffsets.dependenciesCount, true),
+    };
+  }
+
+  private setEntryDependencies(entry: Uint8Array, index: number, count: number): void {
+    const entryOffsets = this.getEntryOffsets();
+    const view = new DataView(entry.buffer, entry.byteOffset);
+    view.setUint32(entryOffsets.dependenciesIndex, index, true);
+    if (this.isV8) {
+      view.setUint16(entryOffsets.dependenciesCount, count, true);
+    } else {
+      view.setUint32(entryOffsets.dependenciesCount, count, true);
+    }
+  }
+
+  /**
+   * Remove the GUID refs at the given indices, keeping every asset's
+   * dependency range in step
+   */
+  private removeGuidRefs(indices: number[]): void {
+    for (const removed of [...indices].sort((a, b) => b - a)) {
+      this.guidRefs.splice(removed, 1);
+
+      for (const entry of this.assetEntries) {
+        const { index, count } = this.getEntryDependencies(entry);
+        if (removed >= index && removed < index + count) {
+          this.setEntryDependencies(entry, index, count - 1);
+        } else if (index > removed) {
+          this.setEntryDependencies(entry, index - 1, count);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add GUID refs at the end of an asset's dependency range
+   */
+  private addGuidRefs(entryIndex: number, refs: PagePtr[]): void {
+    if (refs.length === 0) return;
+
+    const { index, count } = this.getEntryDependencies(this.assetEntries[entryIndex]);
+    const insertAt = count > 0 ? index + count : this.guidRefs.length;
+    this.guidRefs.splice(insertAt, 0, ...refs);
+
+    for (let i = 0; i < this.assetEntries.length; i++) {
+      if (i === entryIndex) continue;
+      const other = this.getEntryDependencies(this.assetEntries[i]);
+      if (other.count > 0 && other.index >= insertAt) {
+        this.setEntryDependencies(this.assetEntries[i], other.index + refs.length, other.count);
+      }
+    }
+
+    this.setEntryDependencies(this.assetEntries[entryIndex], count > 0 ? index : insertAt, count + refs.length);
+  }
+
+  /**
+   * Point the pointers that target one range of a page at another location
+   */
+  private retargetPointers(from: PagePtr, size: number, to: PagePtr): void {
+    for (const slot of this.pointers) {
+      const page = this.pageBuffers[slot.index];
+      if (!page || slot.offset + 8 > page.length) continue;
+
+      const view = new DataView(page.buffer, page.byteOffset);
+      const targetIndex = view.getUint32(slot.offset, true);
+      const targetOffset = view.getUint32(slot.offset + 4, true);
+      if (targetIndex !== from.index || targetOffset < from.offset || targetOffset >= from.offset + size) continue;
+
+      const writable = new DataView(this.getWritablePage(slot.index).buffer);
+      writable.setUint32(slot.offset, to.index, true);
+      writable.setUint32(slot.offset + 4, to.offset + targetOffset - from.offset, true);
+    }
+  }
+
+  /**
+   * Replace the data an asset's data pointer refers to.
+   * The old data runs up to the next asset header or data in its page; the
+   * pointer and GUID ref slots inside it are dropped and `relocations` gives
+   * the slots of the new data. Data that fits is written in place. Larger
+   * data grows the page when nothing else lives after the asset's data in it,
+   * and otherwise moves to a new page, with the pointers to the old data
+   * pointed at the new location.
+   */
+  replaceAssetData(guid: bigint | string, data: Uint8Array, relocations: RPakDataRelocations = {}): void {
+    const entryIndex = this.findAssetEntry(guid);
+    const entry = this.assetEntries[entryIndex];
+    const entryOffsets = this.getEntryOffsets();
+    const dataPtr = this.readEntryPtr(entry, entryOffsets.dataPagePtr);
+    let page = this.getWritablePage(dataPtr.index);
+
+    if (dataPtr.offset > page.length) {
+      throw new Error(`Asset data at page ${dataPtr.index} offset ${dataPtr.offset} is out of bounds`);
+    }
+    for (const offset of [...(relocations.pointerOffsets || []), ...(relocations.guidRefOffsets || [])]) {
+      if (offset < 0 || offset + 8 > data.length) {
+        throw new Error(`Relocation at offset ${offset} is outside the ${data.length} bytes of data`);
+      }
+    }
+
+    const oldSize = this.getAssetDataSize(dataPtr, entryIndex);
+    const inOldData = (slot: PagePtr) => (
+      slot.index === dataPtr.index && slot.offset >= dataPtr.offset && slot.offset < dataPtr.offset + oldSize
+    );
+
+    this.pointers = this.pointers.filter(slot => !inOldData(slot));
+    this.removeGuidRefs(this.guidRefs.flatMap((slot, i) => (inOldData(slot) ? [i] : [])));
+
+    let target: PagePtr = dataPtr;
+
+    if (data.length <= oldSize) {
+      page.fill(0, dataPtr.offset + data.length, dataPtr.offset + oldSize);
+    } else if (this.isPageTailExclusive(dataPtr.index, dataPtr.offset, entryIndex)) {
+      const grown = new Uint8Array(dataPtr.offset + data.length);
+      grown.set(page.subarray(0, dataPtr.offset));
+      this.pageBuffers[dataPtr.index] = grown;
+      this.setPageSize(dataPtr.index, grown.length);
+      page = grown;
+    } else {
+      const segment = this.segments[this.pages[dataPtr.index].segment];
+      const pageIndex = this.addPage(segment ? segment.flags & SF_TYPE_MASK : SEGMENT_FLAGS.SF_CPU, new Uint8Array(data.length));
+      target = { index: pageIndex, offset: 0 };
+      page = this.pageBuffers[pageIndex];
+
+      this.retargetPointers(dataPtr, oldSize, target);
+
+      const view = new DataView(entry.buffer, entry.byteOffset);
+      view.setUint32(entryOffsets.dataPagePtr, target.index, true);
+      view.setUint32(entryOffsets.dataPagePtr + 4, target.offset, true);
+      view.setUint16(entryOffsets.pageEnd, Math.max(view.getUint16(entryOffsets.pageEnd, true), pageIndex + 1), true);
+    }
+
+    page.set(data, target.offset);
+
+    const view = new DataView(page.buffer, page.byteOffset);
+    for (const offset of relocations.pointerOffsets || []) {
+      view.setUint32(target.offset + offset, target.index, true);
+      view.setUint32(target.offset + offset + 4, target.offset + view.getUint32(target.offset + offset + 4, true), true);
+      this.pointers.push({ index: target.index, offset: target.offset + offset });
+    }
+
+    this.addGuidRefs(entryIndex, (relocations.guidRefOffsets || []).map(offset => ({ index: target.index, offset: target.offset + offset })));
+  }
+
+  /**
+   * Find or create a segment for new pages of the given type
+   */
+  private getSegmentForType(typeFlags: number): number {
+    const existing = this.segments.findIndex(s => (s.flags & SF_TYPE_MASK) === typeFlags);
+    if (existing >= 0) {
+      return existing;
+    }
+
+    this.segments.push({ flags: typeFlags, align: NEW_PAGE_ALIGN, size: 0n });
+    return this.segments.length - 1;
+  }
+
+  /**
+   * Append a new page and return its index
+   */
+  private addPage(typeFlags: number, data: Uint8Array): number {
+    const segmentIndex = this.getSegmentForType(typeFlags);
+    const segment = this.segments[segmentIndex];
+
+    segment.size = BigInt(alignUp(Number(segment.size), NEW_PAGE_ALIGN)) + BigInt(data.length);
+    this.pages.push({ segment: segmentIndex, align: NEW_PAGE_ALIGN, size: data.length });
+    this.pageBuffers.push(data);
+    this.ownedPages.add(this.pages.length - 1);
+    return this.pages.length - 1;
+  }
+
+  /**
+   * Add a new asset with its header in a new head page and optional data in a new cpu page
+   */
+  addAsset(asset: RPakAssetDefinition): void {
+    const guid = normalizeGuid(asset.guid);
+
+    if (this.indexOfAsset(guid) >= 0) {
+      throw new Error(`Asset 0x${guid.toString(16).toUpperCase()} already exists in pak`);
+    }
+
+    const headerData = asset.headerData.slice();
+    const headPageIndex = this.addPage(0, headerData);
+    let dataPagePtr: PagePtr = { index: 0, offset: 0 };
+
+    if (asset.data) {
+      const dataPageIndex = this.addPage(SEGMENT_FLAGS.SF_CPU, asset.data.slice());
+      dataPagePtr = { index: dataPageIndex, offset: 0 };
+
+      // Point the header at the data and register the pointers for relocation
+      const view = new DataView(headerData.buffer);
+      for (const offset of asset.dataPointerOffsets || []) {
+        view.setUint32(offset, dataPageIndex, true);
+        view.setUint32(offset + 4, 0, true);
+        this.pointers.push({ index: headPageIndex, offset });
+      }
+    }
+
+    const writer = new BinaryWriter(this.header.pakAssetSize);
+    writer.writeUInt64(guid);
+    writer.writePadding(8); // unk0
+    writer.writeUInt32(headPageIndex);
+    writer.writeUInt32(0);
+    writer.writeUInt32(dataPagePtr.index);
+    writer.writeUInt32(dataPagePtr.offset);
+    writer.writeUInt64(asset.starpakOffset ?? 0n);
+    if (this.isV8) {
+      writer.writeUInt64(asset.optStarpakOffset ?? 0n);
+    }
+    writer.writeUInt16(Math.max(headPageIndex, dataPagePtr.index) + 1); // pageEnd
+    writer.writeUInt16(1); // remainingDependencyCount (the asset itself)
+    writer.writeUInt32(this.dependencies.length); // dependentsIndex
+    writer.writeUInt32(this.guidRefs.length); // dependenciesIndex
+    writer.writeUInt32(0); // dependentsCount
+    if (this.isV8) {
+      writer.writeUInt16(0); // dependenciesCount
+      writer.writeUInt16(0); // unk2
+      writer.writeUInt32(headerData.length);
+      writer.writeUInt8(asset.version);
+      writer.writePadding(3);
+    } else {
+      writer.writeUInt32(0); // dependenciesCount
+      writer.writeUInt32(headerData.length);
+      writer.writeUInt32(asset.version);
+    }
+    writer.writeUInt32(stringToFourCC(asset.type) >>> 0);
+
+    this.assetEntries.push(new Uint8Array(writer.getBuffer()));
+  }
+
+  /**
+   * Write the pak body (everything after the file header)
+   */
+  private writeBody(writer: BinaryWriter): void {
+    if (this.header.patchCount > 0 && this.patchData) {
+      writer.writeUInt32(this.patchData.dataHeader.patchDataStreamSize);
+      writer.writeUInt32(this.patchData.dataHeader.patchPageCount);
+      for (const fileHeader of this.patchData.fileHeaders) {
+        writer.writeUInt64(fileHeader.cmpSize);
+        writer.writeUInt64(fileHeader.dcmpSize);
+      }
+      for (const patchIndex of this.patchData.patchIndices) {
+        writer.writeUInt16(patchIndex);
+      }
+    }
+
+    writer.writeBytes(this.streamingFilesBuf);
+    writer.writeBytes(this.optStreamingFilesBuf);
+
+    for (const segment of this.segments) {
+      writer.writeUInt32(segment.flags);
+      writer.writeUInt32(segment.align);
+      writer.writeUInt64(segment.size);
+    }
+
+    for (const page of this.pages) {
+      writer.writeUInt32(page.segment);
+      writer.writeUInt32(page.align);
+      writer.writeUInt32(page.size);
+    }
+
+    for (const ptr of this.pointers) {
+      writer.writeUInt32(ptr.index);
+      writer.writeUInt32(ptr.offset);
+    }
+
+    for (const entry of this.assetEntries) {
+      writer.writeBytes(entry);
+    }
+
+    for (const ref of this.guidRefs) {
+      writer.writeUInt32(ref.index);
+      writer.writeUInt32(ref.offset);
+    }
+
+    for (const dependency of this.dependencies) {
+      writer.writeUInt32(dependency);
+    }
+
+    if (this.externalAssetRefOffsets.length > 0) {
+      for (const offset of this.externalAssetRefOffsets) {
+        writer.writeUInt32(offset);
+      }
+      writer.writeBytes(this.externalAssetRefsData);
+    }
+
+    writer.writeBytes(this.unkData74);
+    writer.writeBytes(this.unkData78);
+    writer.writeBytes(this.patchStream);
+    writer.writeBytes(this.patchInsertData);
+
+    // Pages rebuilt by the patch stream are not stored in the file
+    for (let i = this.patchPageCount; i < this.pages.length; i++) {
+      writer.writeBytes(this.pageBuffers[i]);
+    }
+
+    writer.writeBytes(this.trailingData);
+  }
+
+  /**
+   * Update the counts, sizes and flags in the raw header bytes
+   */
+  private buildHeader(flags: number, cmpSize: number, dcmpSize: number): Uint8Array {
+    const headerBytes = this.headerBytes.slice();
+    const view = new DataView(headerBytes.buffer);
+
+    view.setUint16(6, flags, true);
+
+    if (this.header.version <= 6) {
+      view.setBigUint64(0x18, BigInt(dcmpSize), true);
+      view.setUint32(0x30, this.streamingFilesBuf.length, true);
+      view.setUint16(0x34, this.segments.length, true);
+      view.setUint16(0x36, this.pages.length, true);
+      view.setUint32(0x38, this.pointers.length, true);
+      view.setUint32(0x3C, this.assetEntries.length, true);
+      view.setUint32(0x40, this.guidRefs.length, true);
+      view.setUint32(0x44, this.dependencies.length, true);
+      view.setUint32(0x48, this.externalAssetRefOffsets.length, true);
+      view.setUint32(0x4C, this.externalAssetRefsData.length, true);
+    } else if (this.header.version === 7) {
+      view.setBigUint64(0x18, BigInt(cmpSize), true);
+      view.setBigUint64(0x28, BigInt(dcmpSize), true);
+      view.setUint16(0x38, this.streamingFilesBuf.length, true);
+      view.setUint16(0x3A, this.segments.length, true);
+      view.setUint16(0x3C, this.pages.length, true);
+      view.setUint16(0x3E, this.header.patchCount, true);
+      view.setUint32(0x40, this.pointers.length, true);
+      view.setUint32(0x44, this.assetEntries.length, true);
+      view.setUint32(0x48, this.guidRefs.length, true);
+      view.setUint32(0x4C, this.dependencies.length, true);
+      view.setUint32(0x50, this.externalAssetRefOffsets.length, true);
+      view.setUint32(0x54, this.externalAssetRefsData.length, true);
+    } else {
+      view.setBigUint64(0x18, BigInt(cmpSize), true);
+      view.setBigUint64(0x30, BigInt(dcmpSize), true);
+      view.setUint16(0x48, this.streamingFilesBuf.length, true);
+      view.setUint16(0x4A, this.optStreamingFilesBuf.length, true);
+      view.setUint16(0x4C, this.segments.length, true);
+      view.setUint16(0x4E, this.pages.length, true);
+      view.setUint16(0x50, this.header.patchCount, true);
+      view.setUint32(0x54, this.pointers.length, true);
+      view.setUint32(0x58, this.assetEntries.length, true);
+      view.setUint32(0x5C, this.guidRefs.length, true);
+      view.setUint32(0x60, this.dependencies.length, true);
+      view.setUint32(0x64, this.externalAssetRefOffsets.length, true);
+      view.setUint32(0x68, this.externalAssetRefsData.length, true);
+      view.setUint32(0x74, this.unkData74.length, true);
+      view.setUint32(0x78, this.unkData78.length, true);
+    }
+
+    return headerBytes;
+  }
+
+  /**
+   * Build the .rpak file
+   */
+  build(options: RPakWriteOptions = {}): Uint8Array {
+    const headerSize = this.header.pakHdrSize;
+
+    const writer = new BinaryWriter(headerSize + 1024 * 1024);
+    writer.writePadding(headerSize);
+    this.writeBody(writer);
+
+    const file = new Uint8Array(writer.getBuffer());
+    const dcmpSize = file.length;
+    let flags = this.header.flags & ~PAK_HEADER_FLAGS_COMPRESSED;
+
+    if (options.compress) {
+      if (this.header.version < 8) {
+        throw new Error('ZSTD compression is only supported by v8 paks');
+      }
+
+      const compressed = compressZstd(file.subarray(headerSize));
+      flags |= PAK_HEADER_FLAGS.RTECH_ENCODED | PAK_HEADER_FLAGS.ZSTD_ENCODED;
+
+      const output = new Uint8Array(headerSize + compressed.length);
+      output.set(this.buildHeader(flags, output.length, dcmpSize), 0);
+      output.set(compressed, headerSize);
+      return output;
+    }
+
+    file.set(this.buildHeader(flags, dcmpSize, dcmpSize), 0);
+    return file;
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { StarpakManager } from './starpakLoader';
+
+describe('StarpakManager', () => {
+  it('keeps the starpak lists of paks in one folder apart', async () => {
+    const manager = new StarpakManager();
+    // Registered in the opposite order to the lookups, as parallel loads can finish
+    await manager.initialize('C:\\paks\\Win64\\mp_rr_canyonlands.rpak', ['paks\\Win64\\pc_all.starpak', 'paks\\Win64\\pc_canyon.starpak'], []);
+    await manager.initialize('C:\\paks\\Win64\\common.rpak', ['paks\\Win64\\pc_all.starpak'], ['paks\\Win64\\pc_all.opt.starpak']);
+
+    expect(manager.getStarpakPath(1, false, 'C:\\paks\\Win64\\mp_rr_canyonlands.rpak')).toBe('C:\\paks\\Win64\\pc_canyon.starpak');
+    expect(manager.getStarpakPath(1, false, 'C:\\paks\\Win64\\common.rpak')).toBeNull();
+    expect(manager.getStarpakPath(0, true, 'C:\\paks\\Win64\\common.rpak')).toBe('C:\\paks\\Win64\\pc_all.opt.starpak');
+    // Lookups without a pak use the last one registered
+    expect(manager.getStarpakPath(0, true)).toBe('C:\\paks\\Win64\\pc_all.opt.starpak');
+  });
+
+  it('forgets only the released pak', async () => {
+    const manager = new StarpakManager();
+    await manager.initialize('/games/apex/common.rpak', ['paks/Win64/pc_all.starpak'], []);
+    await manager.initialize('/games/apex/ui.rpak', ['paks/Win64/pc_ui.starpak'], []);
+
+    manager.release('/games/apex/ui.rpak');
+    expect(manager.getStarpakPaths('/games/apex/ui.rpak').starpaks).toEqual([]);
+    expect(manager.getStarpakPaths('/games/apex/common.rpak').starpaks).toEqual(['/games/apex/pc_all.starpak']);
+    expect(manager.getStarpakPath(0, false)).toBe('/games/apex/pc_all.starpak');
+  });
+});
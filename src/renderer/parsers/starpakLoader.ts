@@ -4,6 +4,7 @@
  */
 
 import { BinaryReader } from '../utils/binaryUtils';
+import { FileSource, openFileSource } from './fileSource';
 
 export interface StarpakEntry {
   offset: bigint;
@@ -12,6 +13,7 @@ export interface StarpakEntry {
 
 export interface StarpakFile {
   filePath: string;
+  source: FileSource;
   entries: Map<bigint, bigint>; // offset -> size
 }
 
@@ -21,32 +23,11 @@ export interface StarpakFile {
  */
 export async function parseStarpakEntries(filePath: string): Promise<StarpakFile | null> {
   try {
-    // First get the file size
-    const statResult = await window.electron.stat(filePath);
-    if (!statResult.success || !statResult.data) {
-      return null;
-    }
-    
-    const fileSize = statResult.data.size;
+    const source = await openFileSource(filePath);
+    const fileSize = source.size;
     
     // Read just the entry count (last 8 bytes)
-    const countResult = await window.electron.readFileRange(filePath, fileSize - 8, 8);
-    if (!countResult.success || !countResult.data) {
-      return null;
-    }
-    
-    // Convert to Uint8Array
-    let countArray: Uint8Array;
-    if (countResult.data instanceof Uint8Array) {
-      countArray = countResult.data;
-    } else if (typeof countResult.data === 'object' && 'data' in countResult.data) {
-      countArray = new Uint8Array((countResult.data as any).data);
-    } else {
-      const values = Object.values(countResult.data) as number[];
-      countArray = new Uint8Array(values);
-    }
-    
-    const countReader = new BinaryReader(countArray);
+    const countReader = new BinaryReader(await source.read(fileSize - 8, 8));
     const entryCount = countReader.readUint64();
     
     // Each entry is 16 bytes (offset: u64, size: u64)
@@ -54,23 +35,7 @@ export async function parseStarpakEntries(filePath: string): Promise<StarpakFile
     const entryTableStart = fileSize - 8 - entryTableSize;
     
     // Read the entry table
-    const tableResult = await window.electron.readFileRange(filePath, entryTableStart, entryTableSize);
-    if (!tableResult.success || !tableResult.data) {
-      return null;
-    }
-    
-    // Convert to Uint8Array
-    let tableArray: Uint8Array;
-    if (tableResult.data instanceof Uint8Array) {
-      tableArray = tableResult.data;
-    } else if (typeof tableResult.data === 'object' && 'data' in tableResult.data) {
-      tableArray = new Uint8Array((tableResult.data as any).data);
-    } else {
-      const values = Object.values(tableResult.data) as number[];
-      tableArray = new Uint8Array(values);
-    }
-    
-    const reader = new BinaryReader(tableArray);
+    const reader = new BinaryReader(await source.read(entryTableStart, entryTableSize));
     const entries = new Map<bigint, bigint>();
     
     for (let i = 0; i < Number(entryCount); i++) {
@@ -85,6 +50,7 @@ export async function parseStarpakEntries(filePath: string): Promise<StarpakFile
 
     return {
       filePath,
+      source,
       entries,
     };
   } catch (err) {
@@ -97,35 +63,13 @@ export async function parseStarpakEntries(filePath: string): Promise<StarpakFile
  * Read data from a starpak file at a specific offset
  */
 export async function readStarpakData(
-  filePath: string,
+  starpak: StarpakFile,
   offset: bigint,
   size: bigint
 ): Promise<Uint8Array | null> {
   try {
     // Read the specific range from the file
-    const result = await window.electron.readFileRange(filePath, Number(offset), Number(size));
-    if (!result.success || !result.data) {
-      return null;
-    }
-
-    // Convert to Uint8Array - data could be Uint8Array or serialized form
-    let uint8Array: Uint8Array;
-    const data = result.data as unknown;
-    if (data instanceof Uint8Array) {
-      uint8Array = data;
-    } else if (typeof data === 'object' && data !== null) {
-      // Handle serialized Uint8Array (from IPC) which comes as object with 'data' property or numbered keys
-      if ('data' in data && Array.isArray((data as Record<string, unknown>).data)) {
-        uint8Array = new Uint8Array((data as { data: number[] }).data);
-      } else {
-        const values = Object.values(data as Record<string, number>);
-        uint8Array = new Uint8Array(values);
-      }
-    } else {
-      return null;
-    }
-
-    return uint8Array;
+    return await starpak.source.read(Number(offset), Number(size));
   } catch (err) {
     console.error(`[StarpakLoader] Error reading starpak data:`, err);
     return null;
@@ -158,36 +102,36 @@ export function getStarpakEntrySize(
  */
 export class StarpakManager {
   private starpaks: Map<string, StarpakFile> = new Map();
-  // Store starpak lists per rpak base path
-  private starpakListsByPath: Map<string, string[]> = new Map();
-  private optStarpakListsByPath: Map<string, string[]> = new Map();
-  // Active/default base path
-  private activeBasePath: string = '';
+  // Store starpak lists per rpak file, since paks in one folder list different starpaks
+  private starpakListsByPak: Map<string, string[]> = new Map();
+  private optStarpakListsByPak: Map<string, string[]> = new Map();
+  // Active/default rpak path
+  private activeRpakPath: string = '';
 
   /**
    * Initialize with starpak paths from an RPak
-   * Now stores paths per-rpak so multiple rpaks can have their own starpaks
+   * Stores paths per rpak so paks loaded in parallel keep their own starpaks
    */
   async initialize(
-    basePath: string,
+    rpakPath: string,
     streamingFiles: string[],
     optStreamingFiles: string[]
   ): Promise<void> {
-    // Store for this specific rpak path
-    this.starpakListsByPath.set(basePath, streamingFiles);
-    this.optStarpakListsByPath.set(basePath, optStreamingFiles);
+    // Store for this specific rpak
+    this.starpakListsByPak.set(rpakPath, streamingFiles);
+    this.optStarpakListsByPak.set(rpakPath, optStreamingFiles);
     // Set as active path (most recently loaded)
-    this.activeBasePath = basePath;
+    this.activeRpakPath = rpakPath;
   }
 
   /**
-   * Get starpak lists for a specific rpak path, or active path if not specified
+   * Get starpak lists for a specific rpak, or the active rpak if not specified
    */
-  getStarpakListsForPath(basePath?: string): { starpakList: string[]; optStarpakList: string[] } {
-    const path = basePath || this.activeBasePath;
+  getStarpakListsForPath(rpakPath?: string): { starpakList: string[]; optStarpakList: string[] } {
+    const path = rpakPath || this.activeRpakPath;
     return {
-      starpakList: this.starpakListsByPath.get(path) || [],
-      optStarpakList: this.optStarpakListsByPath.get(path) || [],
+      starpakList: this.starpakListsByPak.get(path) || [],
+      optStarpakList: this.optStarpakListsByPak.get(path) || [],
     };
   }
 
@@ -195,10 +139,10 @@ export class StarpakManager {
    * Get the full path to a starpak file
    * @param index - The starpak index from the asset's encoded offset
    * @param isOpt - Whether to look in opt starpaks
-   * @param basePath - Optional base path to look up (uses active path if not specified)
+   * @param rpakPath - Optional path of the rpak to look up (uses active rpak if not specified)
    */
-  getStarpakPath(index: number, isOpt: boolean, basePath?: string): string | null {
-    const path = basePath || this.activeBasePath;
+  getStarpakPath(index: number, isOpt: boolean, rpakPath?: string): string | null {
+    const path = rpakPath || this.activeRpakPath;
     const lists = this.getStarpakListsForPath(path);
     const list = isOpt ? lists.optStarpakList : lists.starpakList;
     
@@ -212,7 +156,8 @@ export class StarpakManager {
     // Starpak is in the same directory as the rpak
     // Use backslash for Windows paths
     const separator = path.includes('\\') ? '\\' : '/';
-    return `${path}${separator}${fileName}`;
+    const basePath = path.substring(0, Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')));
+    return `${basePath}${separator}${fileName}`;
   }
 
   /**
@@ -234,12 +179,12 @@ export class StarpakManager {
    * Read streaming data for an asset
    * @param starpakOffset - The encoded starpak offset from the asset
    * @param isOpt - Whether to read from opt starpak
-   * @param basePath - Optional base path to look up starpaks for (uses active if not specified)
+   * @param rpakPath - Optional path of the rpak to look up starpaks for (uses active if not specified)
    */
   async readStreamingData(
     starpakOffset: bigint,
     isOpt: boolean = false,
-    basePath?: string
+    rpakPath?: string
   ): Promise<Uint8Array | null> {
     // Check for invalid offset (-1 or 0)
     if (starpakOffset === -1n || starpakOffset === 0n) {
@@ -250,7 +195,7 @@ export class StarpakManager {
     const { index, offset } = decodeStarpakOffset(starpakOffset);
 
     // Get the starpak path
-    const starpakPath = this.getStarpakPath(index, isOpt, basePath);
+    const starpakPath = this.getStarpakPath(index, isOpt, rpakPath);
     if (!starpakPath) {
       return null;
     }
@@ -268,14 +213,14 @@ export class StarpakManager {
     }
 
     // Read the actual data
-    return readStarpakData(starpakPath, offset, size);
+    return readStarpakData(starpak, offset, size);
   }
 
   /**
    * Check if a starpak file exists
    */
-  async checkStarpakExists(index: number, isOpt: boolean, basePath?: string): Promise<boolean> {
-    const starpakPath = this.getStarpakPath(index, isOpt, basePath);
+  async checkStarpakExists(index: number, isOpt: boolean, rpakPath?: string): Promise<boolean> {
+    const starpakPath = this.getStarpakPath(index, isOpt, rpakPath);
     if (!starpakPath) return false;
     
     try {
@@ -289,22 +234,45 @@ export class StarpakManager {
   /**
    * Get the starpak paths for checking availability
    */
-  getStarpakPaths(basePath?: string): { starpaks: string[]; optStarpaks: string[] } {
-    const lists = this.getStarpakListsForPath(basePath);
+  getStarpakPaths(rpakPath?: string): { starpaks: string[]; optStarpaks: string[] } {
+    const lists = this.getStarpakListsForPath(rpakPath);
     return {
-      starpaks: lists.starpakList.map((_, i) => this.getStarpakPath(i, false, basePath) || ''),
-      optStarpaks: lists.optStarpakList.map((_, i) => this.getStarpakPath(i, true, basePath) || ''),
+      starpaks: lists.starpakList.map((_, i) => this.getStarpakPath(i, false, rpakPath) || ''),
+      optStarpaks: lists.optStarpakList.map((_, i) => this.getStarpakPath(i, true, rpakPath) || ''),
     };
   }
 
+  /**
+   * Forget the starpaks registered for an rpak, along with the cached entry
+   * tables no other loaded rpak uses
+   */
+  release(rpakPath: string): void {
+    const { starpaks, optStarpaks } = this.getStarpakPaths(rpakPath);
+    this.starpakListsByPak.delete(rpakPath);
+    this.optStarpakListsByPak.delete(rpakPath);
+
+    const inUse = new Set<string>();
+    for (const otherPath of this.starpakListsByPak.keys()) {
+      const other = this.getStarpakPaths(otherPath);
+      [...other.starpaks, ...other.optStarpaks].forEach(path => inUse.add(path));
+    }
+    for (const starpakPath of [...starpaks, ...optStarpaks]) {
+      if (!inUse.has(starpakPath)) this.starpaks.delete(starpakPath);
+    }
+
+    if (this.activeRpakPath === rpakPath) {
+      this.activeRpakPath = this.starpakListsByPak.keys().next().value ?? '';
+    }
+  }
+
   /**
    * Clear cached starpak data
    */
   clear(): void {
     this.starpaks.clear();
-    this.starpakListsByPath.clear();
-    this.optStarpakListsByPath.clear();
-    this.activeBasePath = '';
+    this.starpakListsByPak.clear();
+    this.optStarpakListsByPak.clear();
+    this.activeRpakPath = '';
   }
 }
 
@@ -319,7 +287,7 @@ export const starpakManager = new StarpakManager();
  * @param mipIndex - The mip level to load (0 = highest res)
  * @param header - The texture header with mip count info
  * @param isOpt - Whether to load from opt.starpak
- * @param rpakBasePath - The base path of the rpak this texture comes from
+ * @param rpakPath - The path of the rpak this texture comes from
  */
 export async function loadTextureMipFromStarpak(
   starpakOffset: bigint,
@@ -333,9 +301,10 @@ export async function loadTextureMipFromStarpak(
     streamedMipCount: number;
     compTypePacked: number;
     compressedBytes: number[];
+    arraySize?: number;
   },
   isOpt: boolean,
-  rpakBasePath?: string
+  rpakPath?: string
 ): Promise<{ data: Uint8Array; compressed: boolean; compressionType: number } | null> {
   if (starpakOffset === 0n || starpakOffset === -1n) {
     return null;
@@ -343,8 +312,8 @@ export async function loadTextureMipFromStarpak(
 
   const { index, offset: baseOffset } = decodeStarpakOffset(starpakOffset);
   
-  // Get the starpak paths to find the correct file (use rpakBasePath if provided)
-  const starpakPath = starpakManager.getStarpakPath(index, isOpt, rpakBasePath);
+  // Get the starpak paths to find the correct file (use rpakPath if provided)
+  const starpakPath = starpakManager.getStarpakPath(index, isOpt, rpakPath);
   if (!starpakPath) {
     return null;
   }
@@ -386,7 +355,7 @@ export async function loadTextureMipFromStarpak(
       mipSize = compValue > 0 ? ((compValue + 1) << 12) : 0; // (value + 1) * 4096
     } else {
       // Uncompressed - calculate normally with alignment
-      mipSize = calculateMipSizeAligned(header.width, header.height, header.format, m);
+      mipSize = calculateMipSizeAligned(header.width, header.height, header.format, m, header.arraySize);
     }
     
     mipOffset += mipSize;
@@ -401,7 +370,7 @@ export async function loadTextureMipFromStarpak(
     const compValue = header.compressedBytes[compIdx];
     thisMipSize = compValue > 0 ? ((compValue + 1) << 12) : 0;
   } else {
-    thisMipSize = calculateMipSizeAligned(header.width, header.height, header.format, mipIndex);
+    thisMipSize = calculateMipSizeAligned(header.width, header.height, header.format, mipIndex, header.arraySize);
   }
 
   console.log(`[starpakLoader] Mip ${mipIndex} loading:`, {
@@ -424,7 +393,7 @@ export async function loadTextureMipFromStarpak(
   const finalOffset = baseOffset + BigInt(mipOffset);
 
   // Read the data
-  const data = await readStarpakData(starpakPath, finalOffset, BigInt(thisMipSize));
+  const data = await readStarpakData(starpak, finalOffset, BigInt(thisMipSize));
   if (!data) {
     return null;
   }
@@ -437,9 +406,10 @@ export async function loadTextureMipFromStarpak(
 }
 
 /**
- * Calculate mip size with 16-byte alignment (for streaming data)
+ * Calculate mip size with 16-byte alignment (for streaming data), covering
+ * every array slice
  */
-function calculateMipSizeAligned(width: number, height: number, format: number, mipLevel: number): number {
+function calculateMipSizeAligned(width: number, height: number, format: number, mipLevel: number, arraySize: number = 1): number {
   const w = Math.max(1, width >> mipLevel);
   const h = Math.max(1, height >> mipLevel);
   
@@ -451,11 +421,11 @@ function calculateMipSizeAligned(width: number, height: number, format: number,
     const blocksY = Math.max(1, Math.ceil(h / 4));
     const bytesPerBlock = [8, 8, 16, 16, 16, 16, 8, 8, 16, 16, 16, 16, 16, 16][format] || 16;
     const slicePitch = blocksX * blocksY * bytesPerBlock;
-    return Math.ceil(slicePitch / 16) * 16; // Align to 16
+    return Math.ceil(slicePitch / 16) * 16 * arraySize; // Align to 16
   } else {
     // Uncompressed - assume 4 bytes per pixel for common formats
     const bpp = 4; // This should be looked up properly
     const slicePitch = w * h * bpp;
-    return Math.ceil(slicePitch / 16) * 16;
+    return Math.ceil(slicePitch / 16) * 16 * arraySize;
   }
 }
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ParsedAsset } from './rpakParser';
+import { createDDSHeader, decodeTextureToFloat, isCubemap, parseTextureHeader, TextureFormat, TextureType } from './textureParser';
+
+/**
+ * Pack [value, bit count] fields into a 16-byte block, least significant bit first
+ */
+function packBlock(fields: [number, number][]): Uint8Array {
+  const block = new Uint8Array(16);
+  let position = 0;
+  for (const [value, bits] of fields) {
+    for (let i = 0; i < bits; i++) {
+      if ((value >> i) & 1) block[position >> 3] |= 1 << (position & 7);
+      position++;
+    }
+  }
+  expect(position).toBe(128);
+  return block;
+}
+
+// One-region index of every pixel: pixel i uses index i (the first drops its top bit)
+const ONE_REGION_INDICES: [number, number][] = Array.from({ length: 16 }, (_, i) => [i, i === 0 ? 3 : 4]);
+
+function decodeBC6H(block: Uint8Array, format: number) {
+  const rgba = decodeTextureToFloat(block, 4, 4, format);
+  return (pixel: number) => Array.from(rgba.subarray(pixel * 4, pixel * 4 + 4));
+}
+
+describe('decodeTextureToFloat BC6H', () => {
+  it('decodes an unsigned mode 11 block (10-bit endpoints)', () => {
+    // rw gw bw rx gx bx
+    const pixel = decodeBC6H(packBlock([
+      [0b00011, 5], [0, 10], [512, 10], [1023, 10], [1023, 10], [512, 10], [0, 10], ...ONE_REGION_INDICES,
+    ]), TextureFormat.BC6H_UF16);
+
+    expect(pixel(0)).toEqual([0, 1.5146484375, 65504, 1]);
+    expect(pixel(15)).toEqual([65504, 1.5146484375, 0, 1]);
+    // Index 7 has weight 30
+    expect(pixel(7)[0]).toBe(0.765625);
+  });
+
+  it('decodes a signed mode 11 block', () => {
+    const pixel = decodeBC6H(packBlock([
+      [0b00011, 5], [0x200, 10], [256, 10], [0, 10], [511, 10], [256, 10], [0x3FF, 10], ...ONE_REGION_INDICES,
+    ]), TextureFormat.BC6H_SF16);
+
+    expect(pixel(0)).toEqual([-65504, 1.5302734375, 0, 1]);
+    expect(pixel(15)).toEqual([65504, 1.5302734375, -93 * 2 ** -24, 1]);
+    expect(pixel(7)[0]).toBe(-1.9375 * 2 ** -14);
+  });
+
+  it('adds the deltas of transformed modes to the base endpoint', () => {
+    // Mode 12: 11-bit rw, 9-bit delta rx = -1
+    const pixel = decodeBC6H(packBlock([
+      [0b00111, 5], [0, 10], [0, 10], [0, 10], [0x1FF, 9], [1, 1], [0, 9], [0, 1], [0, 9], [0, 1], ...ONE_REGION_INDICES,
+    ]), TextureFormat.BC6H_UF16);
+
+    expect(pixel(0)[0]).toBe(1.5068359375);
+    expect(pixel(15)[0]).toBe(1.4921875);
+  });
+
+  it('decodes reserved modes to black', () => {
+    const pixel = decodeBC6H(packBlock([[0b10011, 5], [0, 123]]), TextureFormat.BC6H_UF16);
+    expect(pixel(0)).toEqual([0, 0, 0, 1]);
+  });
+});
+
+describe('createDDSHeader', () => {
+  it('writes the DX10 format of BC6H textures', () => {
+    for (const [format, dxgiFormat] of [[TextureFormat.BC6H_UF16, 95], [TextureFormat.BC6H_SF16, 96]]) {
+      const view = new DataView(createDDSHeader(64, 64, format, 1).buffer);
+      expect(view.getUint32(84, true)).toBe(0x30315844); // 'DX10'
+      expect(view.getUint32(128, true)).toBe(dxgiFormat);
+      expect(view.getUint32(20, true)).toBe(64 * 64); // Linear size of the top mip
+    }
+  });
+});
+
+describe('isCubemap', () => {
+  // V9/V10 header of a square texture with six slices
+  function textureHeader(version: number, type: number): ParsedAsset {
+    const headerData = new Uint8Array(56);
+    const view = new DataView(headerData.buffer);
+    view.setUint16(10, 256, true); // width
+    view.setUint16(12, 256, true); // height
+    headerData[16] = 6; // arraySize
+    headerData[version === 9 ? 27 : 29] = type;
+    return { headerData, version } as unknown as ParsedAsset;
+  }
+
+  it('uses the texture type of v9 and v10 headers', () => {
+    for (const version of [9, 10]) {
+      expect(isCubemap(parseTextureHeader(textureHeader(version, TextureType.Cubemap))!)).toBe(true);
+      expect(isCubemap(parseTextureHeader(textureHeader(version, TextureType.Texture2D))!)).toBe(false);
+    }
+  });
+
+  it('falls back to the slice count of headers without a type', () => {
+    expect(isCubemap({ width: 64, height: 64, arraySize: 12 })).toBe(true);
+    expect(isCubemap({ width: 64, height: 32, arraySize: 6 })).toBe(false);
+    expect(isCubemap({ width: 64, height: 64, arraySize: 4 })).toBe(false);
+  });
+});
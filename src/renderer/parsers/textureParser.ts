@@ -101,6 +101,11 @@ export const TextureFormatNames: Record<number, string> = {
   [TextureFormat.R16G16_UNORM]: 'RG16',
   [TextureFormat.R10G10B10A2_UNORM]: 'RGB10A2',
   [TextureFormat.R11G11B10_FLOAT]: 'R11G11B10F',
+  [TextureFormat.R32G32B32_FLOAT]: 'RGB32F',
+  [TextureFormat.R32G32_FLOAT]: 'RG32F',
+  [TextureFormat.R16G16_FLOAT]: 'RG16F',
+  [TextureFormat.R32_FLOAT]: 'R32F',
+  [TextureFormat.R16_FLOAT]: 'R16F',
 };
 
 // Bytes per pixel/block for each format
@@ -123,7 +128,9 @@ export const BytesPerPixel: Record<number, number> = {
   
   // Uncompressed - bytes per pixel
   [TextureFormat.R32G32B32A32_FLOAT]: 16,
+  [TextureFormat.R32G32B32_FLOAT]: 12,
   [TextureFormat.R16G16B16A16_FLOAT]: 8,
+  [TextureFormat.R32G32_FLOAT]: 8,
   [TextureFormat.R16G16B16A16_UNORM]: 8,
   [TextureFormat.R8G8B8A8_UNORM]: 4,
   [TextureFormat.R8G8B8A8_UNORM_SRGB]: 4,
@@ -134,8 +141,81 @@ export const BytesPerPixel: Record<number, number> = {
   [TextureFormat.R16G16_UNORM]: 4,
   [TextureFormat.R10G10B10A2_UNORM]: 4,
   [TextureFormat.R11G11B10_FLOAT]: 4,
+  [TextureFormat.R16G16_FLOAT]: 4,
+  [TextureFormat.R32_FLOAT]: 4,
+  [TextureFormat.R16_FLOAT]: 2,
 };
 
+// DXGI formats for the DDS DX10 header
+const DXGIFormats: Record<number, number> = {
+  [TextureFormat.BC1_UNORM]: 71,
+  [TextureFormat.BC1_UNORM_SRGB]: 72,
+  [TextureFormat.BC2_UNORM]: 74,
+  [TextureFormat.BC2_UNORM_SRGB]: 75,
+  [TextureFormat.BC3_UNORM]: 77,
+  [TextureFormat.BC3_UNORM_SRGB]: 78,
+  [TextureFormat.BC4_UNORM]: 80,
+  [TextureFormat.BC4_SNORM]: 81,
+  [TextureFormat.BC5_UNORM]: 83,
+  [TextureFormat.BC5_SNORM]: 84,
+  [TextureFormat.BC6H_UF16]: 95,
+  [TextureFormat.BC6H_SF16]: 96,
+  [TextureFormat.BC7_UNORM]: 98,
+  [TextureFormat.BC7_UNORM_SRGB]: 99,
+  [TextureFormat.R32G32B32A32_FLOAT]: 2,
+  [TextureFormat.R32G32B32_FLOAT]: 6,
+  [TextureFormat.R16G16B16A16_FLOAT]: 10,
+  [TextureFormat.R16G16B16A16_UNORM]: 11,
+  [TextureFormat.R32G32_FLOAT]: 16,
+  [TextureFormat.R10G10B10A2_UNORM]: 24,
+  [TextureFormat.R11G11B10_FLOAT]: 26,
+  [TextureFormat.R8G8B8A8_UNORM]: 28,
+  [TextureFormat.R8G8B8A8_UNORM_SRGB]: 29,
+  [TextureFormat.R16G16_FLOAT]: 34,
+  [TextureFormat.R16G16_UNORM]: 35,
+  [TextureFormat.R32_FLOAT]: 41,
+  [TextureFormat.R8G8_UNORM]: 49,
+  [TextureFormat.R16_FLOAT]: 54,
+  [TextureFormat.R16_UNORM]: 56,
+  [TextureFormat.R8_UNORM]: 61,
+  [TextureFormat.A8_UNORM]: 65,
+};
+
+// Cubemap face names in storage order
+export const CubemapFaceNames = ['+X', '-X', '+Y', '-Y', '+Z', '-Z'];
+
+// Texture type stored in v9/v10 headers
+export enum TextureType {
+  Texture2D = 0,
+  Cubemap = 1,
+}
+
+type CubemapHeader = { width: number; height: number; arraySize?: number; textureType?: number };
+
+/**
+ * Is the texture a cubemap (or cubemap array)?
+ * V9/V10 headers store the texture type. V8 headers have no type, so square
+ * textures whose slice count is a multiple of six are treated as cubemaps.
+ */
+export function isCubemap(header: CubemapHeader): boolean {
+  if (header.textureType !== undefined) {
+    return header.textureType === TextureType.Cubemap;
+  }
+  const arraySize = header.arraySize || 1;
+  return arraySize >= 6 && arraySize % 6 === 0 && header.width === header.height;
+}
+
+/**
+ * Display name of an array slice, e.g. "+X" or "Cube 1 -Z" for cubemaps
+ */
+export function getSliceName(header: CubemapHeader, slice: number): string {
+  if (!isCubemap(header)) {
+    return `Slice ${slice}`;
+  }
+  const face = CubemapFaceNames[slice % 6];
+  return (header.arraySize || 1) > 6 ? `Cube ${Math.floor(slice / 6)} ${face}` : face;
+}
+
 // Is format block-compressed?
 export function isBlockCompressed(format: number): boolean {
   // BC1-BC7 formats (0-13)
@@ -173,6 +253,7 @@ export interface TextureAssetHeader {
   optStreamedMipCount: number; // Mips in opt.starpak
   unk: number;
   totalSize: bigint;
+  textureType?: TextureType;  // V9/V10 only
   
   // V9/V10 streaming data
   compTypePacked: number;     // Packed compression types (2 bits per mip)
@@ -214,6 +295,7 @@ export function parseTextureHeader(asset: ParsedAsset): TextureAssetHeader | nul
   let permanentMipLevels: number, streamedMipCount: number, optStreamedMipCount: number;
   let nameIndex: number, nameOffset: number;
   let unk: number = 0;
+  let textureType: TextureType | undefined;
   let compTypePacked: number = 0;
   let compressedBytes: number[] = [0, 0, 0, 0, 0, 0, 0];
 
@@ -280,11 +362,10 @@ export function parseTextureHeader(asset: ParsedAsset): TextureAssetHeader | nul
     
     // V9: 1 byte type, then compTypePacked
     // V10: 3 more bytes (unk_1B, unkMipLevels, type), then compTypePacked
-    if (assetVersion === 9) {
-      reader.skip(1); // type
-    } else {
-      reader.skip(3); // unk_1B, unkMipLevels, type
+    if (assetVersion !== 9) {
+      reader.skip(2); // unk_1B, unkMipLevels
     }
+    textureType = reader.readUint8();
     
     // compTypePacked: packed eCompressionType (2 bits per enum)
     compTypePacked = reader.readUint16();
@@ -313,6 +394,7 @@ export function parseTextureHeader(asset: ParsedAsset): TextureAssetHeader | nul
     optStreamedMipCount,
     unk,
     totalSize: BigInt(dataSize),
+    textureType,
     compTypePacked,
     compressedBytes,
   };
@@ -375,9 +457,10 @@ export function getCompressedMipSize(header: TextureAssetHeader, streamMipIndex:
 
 /**
  * Calculate texture mip level size (aligned for storage)
- * PC textures align slice pitch to 16 bytes
+ * PC textures align slice pitch to 16 bytes. Array slices (and cubemap faces)
+ * of a mip level are stored one after another.
  */
-export function calculateMipSize(width: number, height: number, format: number, mipLevel: number): number {
+export function calculateMipSize(width: number, height: number, format: number, mipLevel: number, arraySize: number = 1): number {
   const w = Math.max(1, width >> mipLevel);
   const h = Math.max(1, height >> mipLevel);
   
@@ -387,11 +470,11 @@ export function calculateMipSize(width: number, height: number, format: number,
     const blocksY = Math.max(1, Math.ceil(h / 4));
     const slicePitch = blocksX * blocksY * (BytesPerPixel[format] || 16);
     // Align to 16 bytes (PC alignment)
-    return alignTo(slicePitch, 16);
+    return alignTo(slicePitch, 16) * arraySize;
   } else {
     // Uncompressed format
     const slicePitch = w * h * (BytesPerPixel[format] || 4);
-    return alignTo(slicePitch, 16);
+    return alignTo(slicePitch, 16) * arraySize;
   }
 }
 
@@ -414,7 +497,9 @@ export function createDDSHeader(
   height: number,
   format: number,
   mipCount: number,
-  depth: number = 1
+  depth: number = 1,
+  arraySize: number = 1,
+  cubemap: boolean = false
 ): Uint8Array {
   const DDS_MAGIC = 0x20534444; // 'DDS '
   const DDS_HEADER_SIZE = 124;
@@ -439,6 +524,11 @@ export function createDDSHeader(
   const DDSCAPS_COMPLEX = 0x8;
   const DDSCAPS_TEXTURE = 0x1000;
   const DDSCAPS_MIPMAP = 0x400000;
+  const DDSCAPS2_CUBEMAP_ALLFACES = 0x200 | 0xFC00;
+
+  // DX10 resource flags
+  const D3D10_RESOURCE_DIMENSION_TEXTURE2D = 3;
+  const D3D10_RESOURCE_MISC_TEXTURECUBE = 0x4;
 
   // Determine format info
   const isBC = isBlockCompressed(format);
@@ -464,12 +554,14 @@ export function createDDSHeader(
       fourCC = 0x32495441; // 'ATI2'
       break;
     case TextureFormat.BC6H_UF16:
+    case TextureFormat.BC6H_SF16:
     case TextureFormat.BC7_UNORM:
     case TextureFormat.BC7_UNORM_SRGB:
       // These need DX10 header
       fourCC = 0x30315844; // 'DX10'
       needsDX10Header = true;
       if (format === TextureFormat.BC6H_UF16) dx10Format = 95; // DXGI_FORMAT_BC6H_UF16
+      else if (format === TextureFormat.BC6H_SF16) dx10Format = 96; // DXGI_FORMAT_BC6H_SF16
       else if (format === TextureFormat.BC7_UNORM) dx10Format = 98; // DXGI_FORMAT_BC7_UNORM
       else dx10Format = 99; // DXGI_FORMAT_BC7_UNORM_SRGB
       break;
@@ -490,6 +582,13 @@ export function createDDSHeader(
       aMask = 0xFF000000;
   }
 
+  // Arrays and cubemaps are only described by the DX10 header
+  if (arraySize > 1 || cubemap) {
+    fourCC = 0x30315844; // 'DX10'
+    needsDX10Header = true;
+    dx10Format = dx10Format || DXGIFormats[format] || DXGIFormats[TextureFormat.R8G8B8A8_UNORM];
+  }
+
   // Calculate buffer size
   const totalSize = needsDX10Header ? 4 + DDS_HEADER_SIZE + 20 : 4 + DDS_HEADER_SIZE;
   const buffer = new ArrayBuffer(totalSize);
@@ -558,10 +657,11 @@ export function createDDSHeader(
   // Caps
   let caps = DDSCAPS_TEXTURE;
   if (mipCount > 1) caps |= DDSCAPS_COMPLEX | DDSCAPS_MIPMAP;
+  if (cubemap || arraySize > 1) caps |= DDSCAPS_COMPLEX;
   view.setUint32(offset, caps, true); offset += 4;
 
   // Caps2, Caps3, Caps4, Reserved2
-  view.setUint32(offset, 0, true); offset += 4;
+  view.setUint32(offset, cubemap ? DDSCAPS2_CUBEMAP_ALLFACES : 0, true); offset += 4;
   view.setUint32(offset, 0, true); offset += 4;
   view.setUint32(offset, 0, true); offset += 4;
   view.setUint32(offset, 0, true); offset += 4;
@@ -569,9 +669,9 @@ export function createDDSHeader(
   // DX10 header if needed
   if (needsDX10Header) {
     view.setUint32(offset, dx10Format, true); offset += 4;
-    view.setUint32(offset, 3, true); offset += 4; // D3D10_RESOURCE_DIMENSION_TEXTURE2D
-    view.setUint32(offset, 0, true); offset += 4; // miscFlag
-    view.setUint32(offset, 1, true); offset += 4; // arraySize
+    view.setUint32(offset, D3D10_RESOURCE_DIMENSION_TEXTURE2D, true); offset += 4;
+    view.setUint32(offset, cubemap ? D3D10_RESOURCE_MISC_TEXTURECUBE : 0, true); offset += 4; // miscFlag
+    view.setUint32(offset, cubemap ? arraySize / 6 : arraySize, true); offset += 4; // arraySize (cubes for cubemaps)
     view.setUint32(offset, 0, true); offset += 4; // miscFlags2
   }
 
@@ -1049,6 +1149,219 @@ function decodeBC7Block(block: Uint8Array): Uint8Array {
   return output;
 }
 
+// BC6H partition sets for two-region modes (the first 32 BC7 two-subset shapes)
+const BC6H_PARTITIONS: number[][] = [
+  [0,0,1,1,0,0,1,1,0,0,1,1,0,0,1,1],
+  [0,0,0,1,0,0,0,1,0,0,0,1,0,0,0,1],
+  [0,1,1,1,0,1,1,1,0,1,1,1,0,1,1,1],
+  [0,0,0,1,0,0,1,1,0,0,1,1,0,1,1,1],
+  [0,0,0,0,0,0,0,1,0,0,0,1,0,0,1,1],
+  [0,0,1,1,0,1,1,1,0,1,1,1,1,1,1,1],
+  [0,0,0,1,0,0,1,1,0,1,1,1,1,1,1,1],
+  [0,0,0,0,0,0,0,1,0,0,1,1,0,1,1,1],
+  [0,0,0,0,0,0,0,0,0,0,0,1,0,0,1,1],
+  [0,0,1,1,0,1,1,1,1,1,1,1,1,1,1,1],
+  [0,0,0,0,0,0,0,1,0,1,1,1,1,1,1,1],
+  [0,0,0,0,0,0,0,0,0,0,0,1,0,1,1,1],
+  [0,0,0,1,0,1,1,1,1,1,1,1,1,1,1,1],
+  [0,0,0,0,0,0,0,0,1,1,1,1,1,1,1,1],
+  [0,0,0,0,1,1,1,1,1,1,1,1,1,1,1,1],
+  [0,0,0,0,0,0,0,0,0,0,0,0,1,1,1,1],
+  [0,0,0,0,1,0,0,0,1,1,1,0,1,1,1,1],
+  [0,1,1,1,0,0,0,1,0,0,0,0,0,0,0,0],
+  [0,0,0,0,0,0,0,0,1,0,0,0,1,1,1,0],
+  [0,1,1,1,0,0,1,1,0,0,0,1,0,0,0,0],
+  [0,0,1,1,0,0,0,1,0,0,0,0,0,0,0,0],
+  [0,0,0,0,1,0,0,0,1,1,0,0,1,1,1,0],
+  [0,0,0,0,0,0,0,0,1,0,0,0,1,1,0,0],
+  [0,1,1,1,0,0,1,1,0,0,1,1,0,0,0,1],
+  [0,0,1,1,0,0,0,1,0,0,0,1,0,0,0,0],
+  [0,0,0,0,1,0,0,0,1,0,0,0,1,1,0,0],
+  [0,1,1,0,0,1,1,0,0,1,1,0,0,1,1,0],
+  [0,0,1,1,0,1,1,0,0,1,1,0,1,1,0,0],
+  [0,0,0,1,0,1,1,1,1,1,1,0,1,0,0,0],
+  [0,0,0,0,1,1,1,1,1,1,1,1,0,0,0,0],
+  [0,1,1,1,0,0,0,1,1,0,0,0,1,1,1,0],
+  [0,0,1,1,1,0,0,1,1,0,0,1,1,1,0,0],
+];
+
+// Pixel holding the second region's one-bit-shorter index, per partition set
+const BC6H_ANCHORS = [
+  15,15,15,15,15,15,15,15, 15,15,15,15,15,15,15,15,
+  15, 2, 8, 2, 2, 8, 8,15,  2, 8, 2, 2, 8, 8, 2, 2,
+];
+
+/**
+ * BC6H modes, keyed by their mode bits. Layouts use the notation of the
+ * D3D11 BC6H format description: r/g/b + w/x/y/z is an endpoint component,
+ * d is the partition set, and a:b lists bits a down to b, read from b.
+ */
+const BC6H_MODES: Record<number, { layout: string; endpointBits: number; deltaBits: [number, number, number]; transformed: boolean; regions: number }> = {
+  0b00: { endpointBits: 10, deltaBits: [5, 5, 5], transformed: true, regions: 2,
+    layout: 'gy4 by4 bz4 rw9:0 gw9:0 bw9:0 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0' },
+  0b01: { endpointBits: 7, deltaBits: [6, 6, 6], transformed: true, regions: 2,
+    layout: 'gy5 gz4 gz5 rw6:0 bz0 bz1 by4 gw6:0 by5 bz2 gy4 bw6:0 bz3 bz5 bz4 rx5:0 gy3:0 gx5:0 gz3:0 bx5:0 by3:0 ry5:0 rz5:0 d4:0' },
+  0b00010: { endpointBits: 11, deltaBits: [5, 4, 4], transformed: true, regions: 2,
+    layout: 'rw9:0 gw9:0 bw9:0 rx4:0 rw10 gy3:0 gx3:0 gw10 bz0 gz3:0 bx3:0 bw10 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0' },
+  0b00110: { endpointBits: 11, deltaBits: [4, 5, 4], transformed: true, regions: 2,
+    layout: 'rw9:0 gw9:0 bw9:0 rx3:0 rw10 gz4 gy3:0 gx4:0 gw10 gz3:0 bx3:0 bw10 bz1 by3:0 ry3:0 bz0 bz2 rz3:0 gy4 bz3 d4:0' },
+  0b01010: { endpointBits: 11, deltaBits: [4, 4, 5], transformed: true, regions: 2,
+    layout: 'rw9:0 gw9:0 bw9:0 rx3:0 rw10 by4 gy3:0 gx3:0 gw10 bz0 gz3:0 bx4:0 bw10 by3:0 ry3:0 bz1 bz2 rz3:0 bz4 bz3 d4:0' },
+  0b01110: { endpointBits: 9, deltaBits: [5, 5, 5], transformed: true, regions: 2,
+    layout: 'rw8:0 by4 gw8:0 gy4 bw8:0 bz4 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0' },
+  0b10010: { endpointBits: 8, deltaBits: [6, 5, 5], transformed: true, regions: 2,
+    layout: 'rw7:0 gz4 by4 gw7:0 bz2 gy4 bw7:0 bz3 bz4 rx5:0 gy3:0 gx4:0 bz0 gz3:0 bx4:0 bz1 by3:0 ry5:0 rz5:0 d4:0' },
+  0b10110: { endpointBits: 8, deltaBits: [5, 6, 5], transformed: true, regions: 2,
+    layout: 'rw7:0 bz0 by4 gw7:0 gy5 gy4 bw7:0 gz5 bz4 rx4:0 gz4 gy3:0 gx5:0 gz3:0 bx4:0 bz1 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0' },
+  0b11010: { endpointBits: 8, deltaBits: [5, 5, 6], transformed: true, regions: 2,
+    layout: 'rw7:0 bz1 by4 gw7:0 by5 gy4 bw7:0 bz5 bz4 rx4:0 gz4 gy3:0 gx4:0 bz0 gz3:0 bx5:0 by3:0 ry4:0 bz2 rz4:0 bz3 d4:0' },
+  0b11110: { endpointBits: 6, deltaBits: [6, 6, 6], transformed: false, regions: 2,
+    layout: 'rw5:0 gz4 bz0 bz1 by4 gw5:0 gy5 by5 bz2 gy4 bw5:0 gz5 bz3 bz5 bz4 rx5:0 gy3:0 gx5:0 gz3:0 bx5:0 by3:0 ry5:0 rz5:0 d4:0' },
+  0b00011: { endpointBits: 10, deltaBits: [10, 10, 10], transformed: false, regions: 1,
+    layout: 'rw9:0 gw9:0 bw9:0 rx9:0 gx9:0 bx9:0' },
+  0b00111: { endpointBits: 11, deltaBits: [9, 9, 9], transformed: true, regions: 1,
+    layout: 'rw9:0 gw9:0 bw9:0 rx8:0 rw10 gx8:0 gw10 bx8:0 bw10' },
+  0b01011: { endpointBits: 12, deltaBits: [8, 8, 8], transformed: true, regions: 1,
+    layout: 'rw9:0 gw9:0 bw9:0 rx7:0 rw10:11 gx7:0 gw10:11 bx7:0 bw10:11' },
+  0b01111: { endpointBits: 16, deltaBits: [4, 4, 4], transformed: true, regions: 1,
+    layout: 'rw9:0 gw9:0 bw9:0 rx3:0 rw10:15 gx3:0 gw10:15 bx3:0 bw10:15' },
+};
+
+// Parsed layouts: [component (0-2, or 3 for the partition), endpoint, bit] per bit, in read order
+const bc6hLayoutCache = new Map<number, [number, number, number][]>();
+
+function getBC6HLayout(modeBits: number): [number, number, number][] {
+  let fields = bc6hLayoutCache.get(modeBits);
+  if (fields) return fields;
+
+  fields = [];
+  for (const token of BC6H_MODES[modeBits].layout.split(' ')) {
+    const match = /^([rgbd])([wxyz]?)(\d+)(?::(\d+))?$/.exec(token)!;
+    const component = 'rgbd'.indexOf(match[1]);
+    const endpoint = match[2] ? 'wxyz'.indexOf(match[2]) : 0;
+    const first = parseInt(match[3]);
+    const last = match[4] !== undefined ? parseInt(match[4]) : first;
+    // Bits are read from the right-hand bit towards the left-hand one
+    const step = first >= last ? 1 : -1;
+    for (let bit = last; bit !== first + step; bit += step) {
+      fields.push([component, endpoint, bit]);
+    }
+  }
+  bc6hLayoutCache.set(modeBits, fields);
+  return fields;
+}
+
+function signExtend(value: number, bits: number): number {
+  const shift = 32 - bits;
+  return (value << shift) >> shift;
+}
+
+function unquantizeBC6H(value: number, bits: number, signed: boolean): number {
+  if (!signed) {
+    if (bits >= 15) return value;
+    if (value === 0) return 0;
+    if (value === (1 << bits) - 1) return 0xFFFF;
+    return ((value << 16) + 0x8000) >> bits;
+  }
+
+  if (bits >= 16) return value;
+  const negative = value < 0;
+  const magnitude = Math.abs(value);
+  let result: number;
+  if (magnitude === 0) result = 0;
+  else if (magnitude >= (1 << (bits - 1)) - 1) result = 0x7FFF;
+  else result = ((magnitude << 15) + 0x4000) >> (bits - 1);
+  return negative ? -result : result;
+}
+
+/**
+ * Scale an interpolated value to half float bits
+ */
+function finishUnquantizeBC6H(value: number, signed: boolean): number {
+  if (!signed) {
+    return (value * 31) >> 6;
+  }
+  const scaled = value < 0 ? -((-value * 31) >> 5) : (value * 31) >> 5;
+  return scaled < 0 ? 0x8000 | -scaled : scaled;
+}
+
+/**
+ * Decode BC6H compressed block to float RGBA
+ */
+function decodeBC6HBlock(block: Uint8Array, signed: boolean): Float32Array {
+  const output = new Float32Array(64);
+  const reader = new BitReader(block);
+
+  let modeBits = reader.readBits(2);
+  if (modeBits > 1) {
+    modeBits |= reader.readBits(3) << 2;
+  }
+
+  const mode = BC6H_MODES[modeBits];
+  if (!mode) {
+    // Reserved modes decode to black
+    for (let i = 0; i < 16; i++) output[i * 4 + 3] = 1;
+    return output;
+  }
+
+  // endpoints[component][w, x, y, z]
+  const endpoints = [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]];
+  let partition = 0;
+  for (const [component, endpoint, bit] of getBC6HLayout(modeBits)) {
+    const value = reader.readBits(1);
+    if (component === 3) {
+      partition |= value << bit;
+    } else {
+      endpoints[component][endpoint] |= value << bit;
+    }
+  }
+
+  const endpointCount = mode.regions * 2;
+  for (let c = 0; c < 3; c++) {
+    const values = endpoints[c];
+    if (signed) {
+      values[0] = signExtend(values[0], mode.endpointBits);
+    }
+    for (let e = 1; e < endpointCount; e++) {
+      // Deltas are signed regardless of the format
+      if (mode.transformed || signed) {
+        values[e] = signExtend(values[e], mode.deltaBits[c]);
+      }
+      if (mode.transformed) {
+        values[e] = (values[e] + values[0]) & ((1 << mode.endpointBits) - 1);
+        if (signed) {
+          values[e] = signExtend(values[e], mode.endpointBits);
+        }
+      }
+    }
+    for (let e = 0; e < endpointCount; e++) {
+      values[e] = unquantizeBC6H(values[e], mode.endpointBits, signed);
+    }
+  }
+
+  const indexBits = mode.regions === 2 ? 3 : 4;
+  const weights = indexBits === 3 ? [0, 9, 18, 27, 37, 46, 55, 64] : [0, 4, 9, 13, 17, 21, 26, 30, 34, 38, 43, 47, 51, 55, 60, 64];
+  const shape = mode.regions === 2 ? BC6H_PARTITIONS[partition] : null;
+  const anchor = mode.regions === 2 ? BC6H_ANCHORS[partition] : -1;
+
+  for (let i = 0; i < 16; i++) {
+    // Anchor indices drop their most significant bit
+    const bits = i === 0 || i === anchor ? indexBits - 1 : indexBits;
+    const weight = weights[reader.readBits(bits)];
+    const region = shape ? shape[i] : 0;
+
+    for (let c = 0; c < 3; c++) {
+      const e0 = endpoints[c][region * 2];
+      const e1 = endpoints[c][region * 2 + 1];
+      const interpolated = (e0 * (64 - weight) + e1 * weight + 32) >> 6;
+      output[i * 4 + c] = halfToFloat(finishUnquantizeBC6H(interpolated, signed));
+    }
+    output[i * 4 + 3] = 1;
+  }
+
+  return output;
+}
+
 /**
  * Decode block-compressed texture to RGBA
  */
@@ -1058,6 +1371,11 @@ export function decodeTextureToRGBA(
   height: number,
   format: number
 ): Uint8Array {
+  // HDR formats are decoded to float and tone mapped
+  if (isHDRFormat(format)) {
+    return floatToRGBA(decodeTextureToFloat(data, width, height, format));
+  }
+
   const output = new Uint8Array(width * height * 4);
   
   // Handle uncompressed RGBA8 formats
@@ -1152,11 +1470,6 @@ export function decodeTextureToRGBA(
     case TextureFormat.BC7_UNORM_SRGB:
       decoder = decodeBC7Block;
       break;
-    case TextureFormat.BC6H_UF16:
-    case TextureFormat.BC6H_SF16:
-      // BC6H is HDR format - use simplified BC7 decoder as approximation
-      decoder = decodeBC7Block;
-      break;
     default:
       // Use BC1 decoder as fallback for unknown formats
       decoder = decodeBC1Block;
@@ -1195,6 +1508,181 @@ export function decodeTextureToRGBA(
   return output;
 }
 
+/**
+ * Formats that store values outside 0-1
+ */
+export function isHDRFormat(format: number): boolean {
+  switch (format) {
+    case TextureFormat.BC6H_UF16:
+    case TextureFormat.BC6H_SF16:
+    case TextureFormat.R32G32B32A32_FLOAT:
+    case TextureFormat.R32G32B32_FLOAT:
+    case TextureFormat.R16G16B16A16_FLOAT:
+    case TextureFormat.R32G32_FLOAT:
+    case TextureFormat.R11G11B10_FLOAT:
+    case TextureFormat.R16G16_FLOAT:
+    case TextureFormat.R32_FLOAT:
+    case TextureFormat.R16_FLOAT:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert IEEE half float bits to a number
+ */
+export function halfToFloat(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1F;
+  const mantissa = half & 0x3FF;
+
+  if (exponent === 0) {
+    return sign * mantissa * Math.pow(2, -24);
+  }
+  if (exponent === 0x1F) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * (1 + mantissa / 1024) * Math.pow(2, exponent - 15);
+}
+
+/**
+ * Convert an unsigned small float (R11G11B10 channels) to a number
+ */
+function unsignedSmallFloat(value: number, mantissaBits: number): number {
+  const exponent = value >> mantissaBits;
+  const mantissa = value & ((1 << mantissaBits) - 1);
+  const scale = 1 << mantissaBits;
+
+  if (exponent === 0) {
+    return (mantissa / scale) * Math.pow(2, -14);
+  }
+  if (exponent === 0x1F) {
+    return mantissa ? NaN : Infinity;
+  }
+  return (1 + mantissa / scale) * Math.pow(2, exponent - 15);
+}
+
+/**
+ * Decode a texture to float RGBA, keeping the range of HDR formats.
+ * Other formats are decoded to 8-bit and scaled to 0-1.
+ */
+export function decodeTextureToFloat(
+  data: Uint8Array,
+  width: number,
+  height: number,
+  format: number
+): Float32Array {
+  const pixelCount = width * height;
+  const output = new Float32Array(pixelCount * 4);
+
+  if (!isHDRFormat(format)) {
+    const rgba = decodeTextureToRGBA(data, width, height, format);
+    for (let i = 0; i < rgba.length; i++) {
+      output[i] = rgba[i] / 255;
+    }
+    return output;
+  }
+
+  if (format === TextureFormat.BC6H_UF16 || format === TextureFormat.BC6H_SF16) {
+    const signed = format === TextureFormat.BC6H_SF16;
+    const blocksX = Math.ceil(width / 4);
+    const blocksY = Math.ceil(height / 4);
+
+    for (let by = 0; by < blocksY; by++) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        const blockOffset = (by * blocksX + bx) * 16;
+        if (blockOffset + 16 > data.length) continue;
+
+        const decoded = decodeBC6HBlock(data.subarray(blockOffset, blockOffset + 16), signed);
+        for (let py = 0; py < 4; py++) {
+          for (let px = 0; px < 4; px++) {
+            const x = bx * 4 + px;
+            const y = by * 4 + py;
+            if (x >= width || y >= height) continue;
+            output.set(decoded.subarray((py * 4 + px) * 4, (py * 4 + px) * 4 + 4), (y * width + x) * 4);
+          }
+        }
+      }
+    }
+    return output;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const bytesPerPixel = BytesPerPixel[format];
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * bytesPerPixel;
+    if (offset + bytesPerPixel > data.length) break;
+
+    let r = 0, g = 0, b = 0, a = 1;
+    switch (format) {
+      case TextureFormat.R32G32B32A32_FLOAT:
+        a = view.getFloat32(offset + 12, true);
+        // falls through
+      case TextureFormat.R32G32B32_FLOAT:
+        b = view.getFloat32(offset + 8, true);
+        // falls through
+      case TextureFormat.R32G32_FLOAT:
+        g = view.getFloat32(offset + 4, true);
+        // falls through
+      case TextureFormat.R32_FLOAT:
+        r = view.getFloat32(offset, true);
+        break;
+      case TextureFormat.R16G16B16A16_FLOAT:
+        a = halfToFloat(view.getUint16(offset + 6, true));
+        b = halfToFloat(view.getUint16(offset + 4, true));
+        // falls through
+      case TextureFormat.R16G16_FLOAT:
+        g = halfToFloat(view.getUint16(offset + 2, true));
+        // falls through
+      case TextureFormat.R16_FLOAT:
+        r = halfToFloat(view.getUint16(offset, true));
+        break;
+      case TextureFormat.R11G11B10_FLOAT: {
+        const packed = view.getUint32(offset, true);
+        r = unsignedSmallFloat(packed & 0x7FF, 6);
+        g = unsignedSmallFloat((packed >>> 11) & 0x7FF, 6);
+        b = unsignedSmallFloat((packed >>> 22) & 0x3FF, 5);
+        break;
+      }
+    }
+
+    // Single channel formats are shown as greyscale
+    if (format === TextureFormat.R32_FLOAT || format === TextureFormat.R16_FLOAT) {
+      g = b = r;
+    }
+
+    output[i * 4] = r;
+    output[i * 4 + 1] = g;
+    output[i * 4 + 2] = b;
+    output[i * 4 + 3] = a;
+  }
+
+  return output;
+}
+
+/**
+ * Tone map float RGBA to displayable 8-bit RGBA
+ * @param exposure Exposure adjustment in stops
+ */
+export function floatToRGBA(data: Float32Array, exposure: number = 0): Uint8Array {
+  const output = new Uint8Array(data.length);
+  const scale = Math.pow(2, exposure);
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      // Linear to sRGB
+      const linear = Math.min(1, Math.max(0, data[i + c] * scale || 0));
+      const srgb = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+      output[i + c] = Math.round(srgb * 255);
+    }
+    output[i + 3] = Math.round(Math.min(1, Math.max(0, data[i + 3] || 0)) * 255);
+  }
+
+  return output;
+}
+
 /**
  * Convert RGBA data to a data URL for img element
  */
@@ -0,0 +1,193 @@
+/**
+ * Asset index cache
+ * Persists the converted asset table of each loaded rpak (names, metadata,
+ * dependency GUIDs) under the app's userData folder, so re-opening a pak can
+ * list its assets without decompressing it. Entries are keyed by the path,
+ * size and modification time of every file in the pak's patch chain and are
+ * ignored as soon as any of them changes. Page data isn't cached; the pak is
+ * parsed when a preview or export needs it.
+ */
+
+import { Asset } from '../types/asset';
+import { openFileSource } from '../parsers/fileSource';
+
+const CACHE_DIRECTORY = 'asset_index';
+
+// Bump when the cached asset format changes
+const CACHE_VERSION = 1;
+
+// Metadata holding page data, which is read from the pak on demand instead
+const UNCACHED_METADATA_KEYS = new Set(['dataPageData', 'vertexComponentData', 'pixelData']);
+
+export interface FileStamp {
+  path: string;
+  size: number;
+  mtime: number;
+}
+
+export interface CachedPakIndex {
+  // Stamps of the patch chain members, base first
+  members: FileStamp[];
+  streamingFiles: string[];
+  optStreamingFiles: string[];
+  warnings: string[];
+  assets: Asset[];
+}
+
+interface CacheFile extends CachedPakIndex {
+  version: number;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// JSON can't hold bigints or byte arrays, so they're tagged objects on disk
+function replacer(key: string, value: unknown): unknown {
+  if (UNCACHED_METADATA_KEYS.has(key) || value instanceof ArrayBuffer) {
+    return undefined;
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Uint8Array) {
+    return { $bytes: bytesToBase64(value) };
+  }
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    if ('$bigint' in value) {
+      return BigInt((value as { $bigint: string }).$bigint);
+    }
+    if ('$bytes' in value) {
+      return base64ToBytes((value as { $bytes: string }).$bytes);
+    }
+  }
+  return value;
+}
+
+/**
+ * Simple 32-bit FNV-1a hash, used to name cache files after pak paths
+ */
+function hashPath(path: string): string {
+  let hash = 0x811c9dc5;
+  const normalized = path.replace(/\\/g, '/').toLowerCase();
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+class AssetIndexCache {
+  private directory: string | null = null;
+
+  private async getDirectory(): Promise<string> {
+    if (!this.directory) {
+      const userDataPath = await window.electron.getPath('userData');
+      this.directory = `${userDataPath}/${CACHE_DIRECTORY}`;
+    }
+    return this.directory;
+  }
+
+  private async getEntryPath(filePath: string): Promise<string> {
+    const fileName = filePath.split(/[/\\]/).pop() || 'pak';
+    return `${await this.getDirectory()}/${fileName}.${hashPath(filePath)}.json`;
+  }
+
+  /**
+   * Get the current stamps of the patch chain members
+   */
+  async stampFiles(filePaths: string[]): Promise<FileStamp[] | null> {
+    const stamps: FileStamp[] = [];
+    for (const path of filePaths) {
+      const result = await window.electron.stat(path);
+      if (!result.success || !result.data) return null;
+      stamps.push({ path, size: result.data.size, mtime: new Date(result.data.modified).getTime() });
+    }
+    return stamps;
+  }
+
+  /**
+   * Find the cached index of a pak. Returns null when there is no entry or
+   * any file of the patch chain changed since it was written.
+   */
+  async lookup(filePath: string, chainPaths: string[]): Promise<CachedPakIndex | null> {
+    try {
+      const entryPath = await this.getEntryPath(filePath);
+      if (!(await window.electron.exists(entryPath))) {
+        return null;
+      }
+
+      const data = new Uint8Array(await (await openFileSource(entryPath)).readAll());
+      const entry = JSON.parse(new TextDecoder().decode(data), reviver) as CacheFile;
+      if (entry.version !== CACHE_VERSION) {
+        return null;
+      }
+
+      const stamps = await this.stampFiles(chainPaths);
+      const valid = stamps !== null
+        && stamps.length === entry.members.length
+        && stamps.every((stamp, i) => {
+          const cached = entry.members[i];
+          return stamp.path === cached.path && stamp.size === cached.size && stamp.mtime === cached.mtime;
+        });
+      if (!valid) {
+        console.log(`[AssetIndexCache] Stale entry for ${filePath}`);
+        return null;
+      }
+
+      return entry;
+    } catch (error) {
+      console.warn(`[AssetIndexCache] Failed to read entry for ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the index of a freshly parsed pak
+   */
+  async store(filePath: string, index: CachedPakIndex): Promise<void> {
+    try {
+      const directory = await this.getDirectory();
+      await window.electron.createDir(directory);
+
+      const entry: CacheFile = { version: CACHE_VERSION, ...index };
+      const text = JSON.stringify(entry, replacer);
+      const result = await window.electron.writeFile(await this.getEntryPath(filePath), new TextEncoder().encode(text));
+      if (!result.success) {
+        throw new Error(result.error || 'write failed');
+      }
+    } catch (error) {
+      console.warn(`[AssetIndexCache] Failed to write entry for ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Delete every cached index
+   */
+  async clear(): Promise<void> {
+    const result = await window.electron.clearAssetIndexCache();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to clear the asset index cache');
+    }
+  }
+}
+
+// Global singleton
+export const assetIndexCache = new AssetIndexCache();
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Asset } from '../types/asset';
+import { AssetQueryError, compileAssetQuery } from './assetQuery';
+
+function asset(guid: string, name: string, type: string, size: number, extra: Partial<Asset> = {}): Asset {
+  return {
+    guid,
+    name,
+    type,
+    size,
+    containerFile: 'common.rpak',
+    containerType: 'pak',
+    ...extra,
+  };
+}
+
+const ASSETS: Asset[] = [
+  asset('00000000000000B1', 'wraith_body', 'matl', 512, { version: 15, metadata: { dependencyGuids: ['00000000000000A1'] } }),
+  asset('00000000000000B2', 'wraith_icon', 'uimg', 3 * 1024 * 1024, { version: 10 }),
+  asset('00000000000000B3', 'bangalore_body', 'matl', 1536, { version: 16, containerFile: 'mp_rr_canyonlands.rpak', metadata: { dependencyGuids: ['0000000000000BAD'] } }),
+  asset('00000000000000A1', 'bangalore_table', 'dtbl', 2048, { version: 1 }),
+];
+
+function run(query: string): string[] {
+  const predicate = compileAssetQuery(query, ASSETS);
+  return predicate ? ASSETS.filter(predicate).map(entry => entry.name) : ASSETS.map(entry => entry.name);
+}
+
+function errorOf(query: string): { message: string; position: number } {
+  try {
+    compileAssetQuery(query, ASSETS);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AssetQueryError);
+    return { message: (error as AssetQueryError).message, position: (error as AssetQueryError).position };
+  }
+  throw new Error(`'${query}' compiled`);
+}
+
+describe('compileAssetQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(compileAssetQuery('   ', ASSETS)).toBeNull();
+  });
+
+  it('binds NOT tighter than AND, and AND tighter than OR', () => {
+    // (type:matl AND name:wraith*) OR type:dtbl
+    expect(run('type:matl name:wraith* OR type:dtbl')).toEqual(['wraith_body', 'bangalore_table']);
+    // type:uimg OR (type:matl AND NOT name:wraith*)
+    expect(run('type:uimg OR type:matl AND NOT name:wraith*')).toEqual(['wraith_icon', 'bangalore_body']);
+    expect(run('-wraith && !type:dtbl')).toEqual(['bangalore_body']);
+    expect(run('NOT type:matl OR type:matl')).toEqual(ASSETS.map(entry => entry.name));
+  });
+
+  it('groups terms with parentheses', () => {
+    expect(run('(type:uimg OR type:matl) AND NOT (name:bangalore* OR version<11)')).toEqual(['wraith_body']);
+    expect(run('type:matl (wraith OR table)')).toEqual(['wraith_body']);
+    expect(run('NOT (bangalore)')).toEqual(['wraith_body', 'wraith_icon']);
+  });
+
+  it('matches fields, wildcards and quoted words', () => {
+    expect(run('type:uimg,dtbl')).toEqual(['wraith_icon', 'bangalore_table']);
+    expect(run('name:*_body')).toEqual(['wraith_body', 'bangalore_body']);
+    expect(run('pak:canyon')).toEqual(['bangalore_body']);
+    expect(run('guid:0xa1')).toEqual(['bangalore_table']);
+    expect(run('dep:a1')).toEqual(['wraith_body']);
+    expect(run('dep:bangalore*')).toEqual(['wraith_body']);
+    expect(run('missing:true')).toEqual(['bangalore_body']);
+    expect(run('"type:matl"')).toEqual([]);
+  });
+
+  it('compares sizes with units', () => {
+    expect(run('size>1KB')).toEqual(['wraith_icon', 'bangalore_body', 'bangalore_table']);
+    expect(run('size>=1.5kb size<2KB')).toEqual(['bangalore_body']);
+    expect(run('size=2048b')).toEqual(['bangalore_table']);
+    expect(run('size>2MB')).toEqual(['wraith_icon']);
+    expect(run('size<0.001GB')).toEqual(['wraith_body', 'bangalore_body', 'bangalore_table']);
+    expect(run('version!=15 version<=10')).toEqual(['wraith_icon', 'bangalore_table']);
+  });
+
+  it('reports where a query is malformed', () => {
+    expect(errorOf('size>2XB')).toEqual({ message: "Invalid size '2XB'", position: 5 });
+    expect(errorOf('version:1kb')).toEqual({ message: "Invalid version '1kb'", position: 8 });
+    expect(errorOf('type:matl name:')).toEqual({ message: 'Missing value for name', position: 15 });
+    expect(errorOf('wraith colour:red')).toEqual({ message: "Unknown field 'colour'", position: 7 });
+    expect(errorOf('name>wraith')).toEqual({ message: "name can't be compared with >", position: 4 });
+    expect(errorOf('streamed:maybe')).toEqual({ message: "Expected true or false, got 'maybe'", position: 9 });
+    expect(errorOf('name:"wraith')).toEqual({ message: 'Unterminated quote', position: 5 });
+    expect(errorOf('(type:matl OR name:x')).toEqual({ message: 'Missing )', position: 0 });
+    expect(errorOf('type:matl) name:x')).toEqual({ message: 'Unmatched )', position: 9 });
+    expect(errorOf('type:matl OR')).toEqual({ message: 'Unexpected end of query', position: 12 });
+    expect(errorOf('type:matl AND OR name:x')).toEqual({ message: 'Expected a search term', position: 14 });
+  });
+});
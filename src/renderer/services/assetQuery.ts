@@ -0,0 +1,378 @@
+/**
+ * Asset list query language
+ * Compiles a search such as `type:txtr name:*wraith* size>2MB NOT streamed:true`
+ * into a predicate over Asset objects. Terms are combined with AND (or just
+ * whitespace), OR and NOT (or a leading `-`), and can be grouped with
+ * parentheses. Words without a field match the name, GUID or container file.
+ *
+ * Fields:
+ *   type:txtr[,matl]   asset type
+ *   name:*wraith*      asset name (`*` and `?` wildcards, substring otherwise)
+ *   guid:0x1234...     asset GUID
+ *   pak:common         container file
+ *   dep:0x1234...      depends on a GUID, or on an asset whose name matches
+ *   missing:true       has dependencies that aren't in any loaded file
+ *   streamed:true      has data in a starpak
+ *   size>2MB           data size (texture pixel data, otherwise the header size)
+ *   version:16         asset version
+ * Numeric fields also take =, !=, <, <=, > and >=.
+ */
+
+import { Asset } from '../types/asset';
+import { ParsedAsset } from '../parsers/rpakParser';
+import { parseTextureHeader } from '../parsers/textureParser';
+
+export type AssetPredicate = (asset: Asset) => boolean;
+
+/**
+ * Error for malformed queries, with the offset of the offending token
+ */
+export class AssetQueryError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'AssetQueryError';
+    this.position = position;
+  }
+}
+
+type Comparison = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Token =
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'word'; text: string; quoted: boolean; position: number };
+
+type TextField = 'type' | 'name' | 'guid' | 'pak' | 'dep';
+type FlagField = 'missing' | 'streamed';
+type NumberField = 'size' | 'version';
+
+const TEXT_FIELDS: TextField[] = ['type', 'name', 'guid', 'pak', 'dep'];
+const FLAG_FIELDS: FlagField[] = ['missing', 'streamed'];
+const NUMBER_FIELDS: NumberField[] = ['size', 'version'];
+
+const TERM_PATTERN = /^([a-z]+)(:|!=|<=|>=|=|<|>)(.*)$/i;
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+// Starpak offsets that mean the asset has no streamed data
+const NO_STARPAK_OFFSETS = new Set([0n, -1n, 0xFFFFFFFFFFFFFFFFn]);
+
+// Texture data sizes, parsed from the header once per asset
+const textureSizes = new WeakMap<Asset, number>();
+
+function normalizeGuid(guid: string): string {
+  return guid.replace(/^0x/i, '').padStart(16, '0').toUpperCase();
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: i });
+      i++;
+      continue;
+    }
+
+    // Words run to whitespace or a parenthesis; quoted parts may contain both
+    const start = i;
+    let text = '';
+    let quoted = false;
+    while (i < query.length && !/[\s()]/.test(query[i])) {
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end < 0) {
+          throw new AssetQueryError('Unterminated quote', i);
+        }
+        text += query.substring(i + 1, end);
+        quoted = true;
+        i = end + 1;
+      } else {
+        text += query[i++];
+      }
+    }
+
+    if (!quoted && (text === 'AND' || text === '&&')) {
+      tokens.push({ kind: 'and', position: start });
+    } else if (!quoted && (text === 'OR' || text === '||' || text === '|')) {
+      tokens.push({ kind: 'or', position: start });
+    } else if (!quoted && (text === 'NOT' || text === '!' || text === '-')) {
+      tokens.push({ kind: 'not', position: start });
+    } else if (!quoted && text.length > 1 && (text[0] === '-' || text[0] === '!')) {
+      tokens.push({ kind: 'not', position: start });
+      tokens.push({ kind: 'word', text: text.substring(1), quoted, position: start + 1 });
+    } else {
+      tokens.push({ kind: 'word', text, quoted, position: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Build a case-insensitive matcher: wildcards match the whole value,
+ * anything else is a substring match
+ */
+export function createTextMatcher(pattern: string): (value: string) => boolean {
+  const lower = pattern.toLowerCase();
+  if (!/[*?]/.test(lower)) {
+    return (value) => value.toLowerCase().includes(lower);
+  }
+
+  const source = lower
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  const regex = new RegExp(`^${source}$`, 'i');
+  return (value) => regex.test(value);
+}
+
+function parseFlag(value: string, position: number): boolean {
+  switch (value.toLowerCase()) {
+    case 'true': case 'yes': case '1': return true;
+    case 'false': case 'no': case '0': return false;
+  }
+  throw new AssetQueryError(`Expected true or false, got '${value}'`, position);
+}
+
+function parseNumber(field: NumberField, value: string, position: number): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(value);
+  const unit = match ? match[2].toLowerCase() : '';
+  const scale = field === 'size' ? SIZE_UNITS[unit] : (unit === '' ? 1 : undefined);
+  if (!match || scale === undefined) {
+    throw new AssetQueryError(`Invalid ${field} '${value}'`, position);
+  }
+  return parseFloat(match[1]) * scale;
+}
+
+function compare(left: number, comparison: Comparison, right: number): boolean {
+  switch (comparison) {
+    case ':': case '=': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+/**
+ * Size of the data an asset holds: texture pixel data, otherwise the header size
+ */
+export function getAssetDataSize(asset: Asset): number {
+  if (asset.type !== 'txtr' || !(asset.metadata?.headerData instanceof Uint8Array)) {
+    return asset.size || 0;
+  }
+
+  let size = textureSizes.get(asset);
+  if (size === undefined) {
+    const header = parseTextureHeader({ headerData: asset.metadata.headerData, version: asset.version } as ParsedAsset);
+    size = header ? Number(header.totalSize) : asset.size || 0;
+    textureSizes.set(asset, size);
+  }
+  return size;
+}
+
+function isStreamed(asset: Asset): boolean {
+  const metadata = asset.metadata;
+  if (!metadata) return false;
+
+  for (const offset of [metadata.starpakOffset, metadata.optStarpakOffset]) {
+    if (offset !== undefined && offset !== null && !NO_STARPAK_OFFSETS.has(BigInt(offset as bigint))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function getDependencyGuids(asset: Asset): string[] {
+  return (asset.metadata?.dependencyGuids as string[] | undefined) || [];
+}
+
+/**
+ * Lookups over the whole asset list, built the first time a term needs them
+ */
+class QueryContext {
+  private loadedGuids: Set<string> | null = null;
+  private namesByGuid: Map<string, string> | null = null;
+
+  constructor(private assets: Asset[]) {}
+
+  getLoadedGuids(): Set<string> {
+    if (!this.loadedGuids) {
+      this.loadedGuids = new Set(this.assets.map(asset => asset.guid));
+    }
+    return this.loadedGuids;
+  }
+
+  getName(guid: string): string | undefined {
+    if (!this.namesByGuid) {
+      this.namesByGuid = new Map(this.assets.map(asset => [asset.guid, asset.name]));
+    }
+    return this.namesByGuid.get(guid);
+  }
+}
+
+function compileTerm(token: Extract<Token, { kind: 'word' }>, context: QueryContext): AssetPredicate {
+  const match = token.quoted ? null : TERM_PATTERN.exec(token.text);
+  if (!match) {
+    const matches = createTextMatcher(token.text);
+    return (asset) => matches(asset.name) || matches(asset.guid) || matches(asset.containerFile);
+  }
+
+  const field = match[1].toLowerCase();
+  const comparison = match[2] as Comparison;
+  const value = match[3];
+  const valuePosition = token.position + match[1].length + match[2].length;
+  if (!value) {
+    throw new AssetQueryError(`Missing value for ${field}`, valuePosition);
+  }
+
+  if (NUMBER_FIELDS.includes(field as NumberField)) {
+    const target = parseNumber(field as NumberField, value, valuePosition);
+    return field === 'size'
+      ? (asset) => compare(getAssetDataSize(asset), comparison, target)
+      : (asset) => asset.version !== undefined && compare(asset.version, comparison, target);
+  }
+
+  if (comparison !== ':' && comparison !== '=') {
+    throw new AssetQueryError(`${field} can't be compared with ${comparison}`, token.position + match[1].length);
+  }
+
+  if (FLAG_FIELDS.includes(field as FlagField)) {
+    const expected = parseFlag(value, valuePosition);
+    if (field === 'streamed') {
+      return (asset) => isStreamed(asset) === expected;
+    }
+    return (asset) => {
+      const loadedGuids = context.getLoadedGuids();
+      return getDependencyGuids(asset).some(guid => !loadedGuids.has(guid)) === expected;
+    };
+  }
+
+  if (!TEXT_FIELDS.includes(field as TextField)) {
+    throw new AssetQueryError(`Unknown field '${field}'`, token.position);
+  }
+
+  switch (field as TextField) {
+    case 'type': {
+      const types = new Set(value.toLowerCase().split(',').filter(Boolean));
+      return (asset) => types.has(asset.type.toLowerCase());
+    }
+    case 'name': {
+      const matches = createTextMatcher(value);
+      return (asset) => matches(asset.name);
+    }
+    case 'pak': {
+      const matches = createTextMatcher(value);
+      return (asset) => matches(asset.containerFile);
+    }
+    case 'guid': {
+      if (/[*?]/.test(value)) {
+        const matches = createTextMatcher(value.replace(/^0x/i, ''));
+        return (asset) => matches(asset.guid);
+      }
+      const guid = normalizeGuid(value);
+      return (asset) => asset.guid === guid;
+    }
+    case 'dep': {
+      // A hex value is a GUID; anything else matches the dependency's name
+      if (/^(0x)?[0-9a-f]{1,16}$/i.test(value)) {
+        const guid = normalizeGuid(value);
+        return (asset) => getDependencyGuids(asset).includes(guid);
+      }
+      const matches = createTextMatcher(value);
+      return (asset) => getDependencyGuids(asset).some(guid => {
+        const name = context.getName(guid);
+        return name !== undefined && matches(name);
+      });
+    }
+  }
+}
+
+class QueryParser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private context: QueryContext, private length: number) {}
+
+  parse(): AssetPredicate {
+    const predicate = this.parseOr();
+    const token = this.tokens[this.index];
+    if (token) {
+      throw new AssetQueryError(token.kind === 'close' ? 'Unmatched )' : 'Unexpected token', token.position);
+    }
+    return predicate;
+  }
+
+  private parseOr(): AssetPredicate {
+    const terms = [this.parseAnd()];
+    while (this.tokens[this.index]?.kind === 'or') {
+      this.index++;
+      terms.push(this.parseAnd());
+    }
+    return terms.length === 1 ? terms[0] : (asset) => terms.some(term => term(asset));
+  }
+
+  private parseAnd(): AssetPredicate {
+    const terms = [this.parseUnary()];
+    for (;;) {
+      const token = this.tokens[this.index];
+      if (!token || token.kind === 'or' || token.kind === 'close') break;
+      if (token.kind === 'and') this.index++;
+      terms.push(this.parseUnary());
+    }
+    return terms.length === 1 ? terms[0] : (asset) => terms.every(term => term(asset));
+  }
+
+  private parseUnary(): AssetPredicate {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new AssetQueryError('Unexpected end of query', this.length);
+    }
+
+    switch (token.kind) {
+      case 'not': {
+        const term = this.parseUnary();
+        return (asset) => !term(asset);
+      }
+      case 'open': {
+        const inner = this.parseOr();
+        if (this.tokens[this.index]?.kind !== 'close') {
+          throw new AssetQueryError('Missing )', token.position);
+        }
+        this.index++;
+        return inner;
+      }
+      case 'word':
+        return compileTerm(token, this.context);
+      default:
+        throw new AssetQueryError('Expected a search term', token.position);
+    }
+  }
+}
+
+/**
+ * Compile a query into a predicate. Returns null for an empty query.
+ * @param assets The asset list the query runs against, used by dep: and missing:
+ * @throws AssetQueryError if the query is malformed
+ */
+export function compileAssetQuery(query: string, assets: Asset[]): AssetPredicate | null {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+  return new QueryParser(tokens, new QueryContext(assets), query.length).parse();
+}
@@ -0,0 +1,146 @@
+/**
+ * Asset references
+ * Lists the assets an asset references for the dependency graph: the pak's
+ * dependency table plus references stored in the asset content. Builds on the
+ * usage index's content references (material textures, model materials,
+ * datatable asset columns) with material shader sets, shader set shaders and
+ * settings layouts and asset fields.
+ */
+
+import { ParsedAsset, RpakParser } from '../parsers/rpakParser';
+import { parseMaterialAsset } from '../parsers/materialParser';
+import { parseShaderSetHeader } from '../parsers/shaderParser';
+import {
+  parseSettingsLayoutFull,
+  parseSettingsValuesFull,
+  SettingsFieldType,
+  SettingsValue,
+} from '../parsers/settingsParser';
+import { BinaryReader } from '../utils/binaryUtils';
+import { hashAssetPathToHex } from '../utils/rtechHash';
+import { dependencyResolver } from './dependencyResolver';
+import { usageIndex, UsageKind } from './usageIndex';
+
+// How an asset references another: the kinds the usage index knows, plus the
+// references only the dependency graph follows
+export type ReferenceKind = UsageKind | 'shaderSet' | 'shader' | 'layout' | 'settings';
+
+// Short labels for the UI
+export const REFERENCE_KIND_LABELS: Record<ReferenceKind, string> = {
+  dependency: 'dep',
+  texture: 'texture',
+  material: 'material',
+  shaderSet: 'shader set',
+  shader: 'shader',
+  layout: 'layout',
+  settings: 'settings',
+  datatable: 'datatable',
+};
+
+export interface AssetReference {
+  guid: string;
+  kind: ReferenceKind;
+}
+
+function guidToHex(guid: bigint): string {
+  return guid.toString(16).padStart(16, '0').toUpperCase();
+}
+
+/**
+ * Collect the GUIDs of asset paths stored in settings values, including array elements
+ */
+function collectSettingsAssetPaths(values: SettingsValue[], refs: AssetReference[]): void {
+  for (const value of values) {
+    if ((value.type === SettingsFieldType.Asset || value.type === SettingsFieldType.AssetNoPrecache)
+      && typeof value.value === 'string' && value.value.length > 0) {
+      refs.push({ guid: hashAssetPathToHex(value.value), kind: 'settings' });
+    }
+
+    for (const element of value.arrayElements || []) {
+      collectSettingsAssetPaths(element, refs);
+    }
+  }
+}
+
+/**
+ * Find the GUIDs an asset references in its content: the usage index's
+ * content references, plus material shader sets, shader set shaders and
+ * settings layouts and asset fields
+ */
+export function getContentReferences(parser: RpakParser, asset: ParsedAsset): AssetReference[] {
+  if (!asset.headerData) return [];
+
+  const refs: AssetReference[] = usageIndex.getContentReferences(parser, asset);
+  const getPageData = (pageIndex: number) => parser.getPageData(pageIndex);
+
+  switch (asset.typeFourCC) {
+    case 'matl': {
+      const material = parseMaterialAsset(asset, getPageData);
+      if (material?.header.shaderSetGuid) {
+        refs.push({ guid: guidToHex(material.header.shaderSetGuid), kind: 'shaderSet' });
+      }
+      break;
+    }
+
+    case 'shds': {
+      const shaderSet = parseShaderSetHeader(asset.headerData, asset.version, getPageData);
+      if (!shaderSet) break;
+
+      for (const guid of [shaderSet.header.vertexShaderGuid, shaderSet.header.pixelShaderGuid]) {
+        if (guid !== 0n) {
+          refs.push({ guid: guidToHex(guid), kind: 'shader' });
+        }
+      }
+      break;
+    }
+
+    case 'stgs': {
+      if (asset.headerData.length < 8) break;
+      const layoutGuid = guidToHex(new BinaryReader(asset.headerData).readUint64());
+      refs.push({ guid: layoutGuid, kind: 'layout' });
+
+      // Asset fields can only be read with the layout, which may live in another pak
+      const layout = dependencyResolver.findLoadedAsset(layoutGuid);
+      if (layout?.asset.headerData) {
+        const layoutResult = parseSettingsLayoutFull(
+          layout.asset.headerData,
+          undefined,
+          (index: number) => layout.parser.getPageData(index)
+        );
+        if (layoutResult && layoutResult.fields.length > 0) {
+          const values = parseSettingsValuesFull(asset.headerData, undefined, asset.version || 1, layoutResult.fields, getPageData);
+          collectSettingsAssetPaths(values, refs);
+        }
+      }
+      break;
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Get every asset an asset references, without duplicates.
+ * Content references take precedence over the dependency table since they say more.
+ */
+export function getAssetReferences(parser: RpakParser, asset: ParsedAsset): AssetReference[] {
+  const refs = new Map<string, AssetReference>();
+
+  try {
+    for (const ref of getContentReferences(parser, asset)) {
+      if (ref.guid !== asset.guid && !refs.has(ref.guid)) {
+        refs.set(ref.guid, ref);
+      }
+    }
+  } catch (error) {
+    console.warn(`[AssetReferences] Failed to read references of ${asset.guid}:`, error);
+  }
+
+  for (const dep of parser.getAssetDependencies(asset)) {
+    if (dep.guid !== asset.guid && !refs.has(dep.guid)) {
+      refs.set(dep.guid, { guid: dep.guid, kind: 'dependency' });
+    }
+  }
+
+  return Array.from(refs.values());
+}
@@ -0,0 +1,356 @@
+/**
+ * Content search index
+ * Indexes the decoded strings inside assets so a string can be traced back to
+ * the asset holding it: datatable cells, settings values, material and shader
+ * names, and the strings reachable from localisation, subtitle and RSON
+ * headers. The index is built in slices so the UI stays responsive, and is
+ * rebuilt when the set of loaded paks changes.
+ */
+
+import { Asset, AssetType, ContentLocation } from '../types/asset';
+import { ParsedAsset, RpakParser } from '../parsers/rpakParser';
+import { parseDatatable } from '../parsers/datatableParser';
+import { parseMaterialAsset, ParsedMaterialData } from '../parsers/materialParser';
+import { parseShaderHeader, parseShaderSetHeader, parseShaderData } from '../parsers/shaderParser';
+import { parseSettingsLayoutFull, parseSettingsValuesFull, SettingsValue } from '../parsers/settingsParser';
+import { BinaryReader } from '../utils/binaryUtils';
+import { getLoadedAssets, getLoadedParsers, hasIndexedPaks, loadIndexedPaks } from '../stores/assetStore';
+import { dependencyResolver } from './dependencyResolver';
+
+// Asset types with string content worth indexing
+const INDEXED_TYPES = new Set(['dtbl', 'stgs', 'locl', 'subt', 'rson', 'matl', 'shds', 'shdr']);
+
+// Time spent indexing before yielding to the UI
+const SLICE_BUDGET_MS = 12;
+
+// Limits for following pointers through headers with no parser (locl, subt, rson)
+const MAX_WALK_DEPTH = 3;
+const MAX_ARRAY_SLOTS = 4096;
+const MAX_INVALID_SLOTS = 4;
+const MAX_STRING_LENGTH = 4096;
+const MAX_STRINGS_PER_ASSET = 200000;
+
+export interface ContentEntry {
+  guid: string;
+  assetName: string;
+  assetType: AssetType;
+  // Where in the asset the string was found, for display
+  context: string;
+  text: string;
+  location: ContentLocation;
+}
+
+export interface ContentSearchResult {
+  matches: ContentEntry[];
+  // Total number of matches, which may exceed the returned list
+  total: number;
+}
+
+export type ContentIndexProgress = (indexed: number, total: number) => void;
+
+function guidToHex(guid: bigint): string {
+  return guid.toString(16).padStart(16, '0').toUpperCase();
+}
+
+const strictDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Read a NUL-terminated string, or null if the bytes don't look like text
+ */
+function readCString(page: Uint8Array, offset: number): string | null {
+  const limit = Math.min(page.length, offset + MAX_STRING_LENGTH);
+  let end = offset;
+  while (end < limit && page[end] !== 0) {
+    const byte = page[end];
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0D) return null;
+    end++;
+  }
+  if (end === limit || end - offset < 2) return null;
+
+  try {
+    return strictDecoder.decode(page.subarray(offset, end));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect the strings reachable from an asset header by following page
+ * pointers. Pointer targets that aren't strings are walked as arrays of
+ * 8-byte slots until several slots in a row aren't pointers.
+ */
+function collectHeaderStrings(parser: RpakParser, headerData: Uint8Array): string[] {
+  const pageCount = parser.getLayout().pages.length;
+  const visited = new Set<string>();
+  const strings: string[] = [];
+
+  const walk = (data: Uint8Array, start: number, end: number, depth: number) => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let invalidSlots = 0;
+
+    for (let pos = start; pos + 8 <= end && strings.length < MAX_STRINGS_PER_ASSET; pos += 8) {
+      const index = view.getUint32(pos, true);
+      const offset = view.getUint32(pos + 4, true);
+      const page = (index !== 0 || offset !== 0) && index < pageCount ? parser.getPageData(index) : null;
+      if (!page || offset >= page.length) {
+        if (depth > 0 && ++invalidSlots >= MAX_INVALID_SLOTS) break;
+        continue;
+      }
+      invalidSlots = 0;
+
+      const key = `${index}:${offset}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      const text = readCString(page, offset);
+      if (text !== null) {
+        strings.push(text);
+      } else if (depth < MAX_WALK_DEPTH) {
+        walk(page, offset, Math.min(page.length, offset + MAX_ARRAY_SLOTS * 8), depth + 1);
+      }
+    }
+  };
+
+  walk(headerData, 0, headerData.length, 0);
+  return strings;
+}
+
+/**
+ * Add the string settings values, descending into array elements
+ */
+function collectSettingsStrings(values: SettingsValue[], path: number[], prefix: string, add: (text: string, context: string, location: ContentLocation) => void): void {
+  values.forEach((value, index) => {
+    const valuePath = [...path, index];
+    const name = prefix ? `${prefix}.${value.name}` : value.name;
+
+    if (typeof value.value === 'string' && value.value.length > 0 && !value.arrayElements) {
+      add(value.value, name, { kind: 'field', path: valuePath });
+    }
+
+    value.arrayElements?.forEach((element, elementIndex) => {
+      collectSettingsStrings(element, [...valuePath, elementIndex], `${name}[${elementIndex}]`, add);
+    });
+  });
+}
+
+function collectMaterialStrings(material: ParsedMaterialData, add: (text: string, context: string) => void): void {
+  add(material.name, 'name');
+  add(material.surfaceName, 'surface');
+  add(material.surfaceName2, 'surface 2');
+  if (material.shaderSetName) {
+    add(material.shaderSetName, 'shader set');
+  }
+  for (const texture of material.textures) {
+    add(texture.resourceBindingName, `texture ${texture.index} binding`);
+    if (texture.name) {
+      add(texture.name, `texture ${texture.index}`);
+    }
+  }
+}
+
+class ContentSearchIndex {
+  private entries: ContentEntry[] = [];
+  private lowerTexts: string[] = [];
+  private indexedParsers: RpakParser[] = [];
+  private building: Promise<void> | null = null;
+
+  /**
+   * Whether the index matches the loaded paks
+   */
+  isCurrent(): boolean {
+    const current = Array.from(getLoadedParsers().values());
+    return !this.building && !hasIndexedPaks() && current.length === this.indexedParsers.length
+      && current.every((parser, i) => parser === this.indexedParsers[i]);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Build the index if the loaded paks changed since it was last built
+   * @param assets Loaded assets, used for names and already parsed materials
+   */
+  async sync(assets: Asset[], onProgress?: ContentIndexProgress): Promise<void> {
+    if (this.building) {
+      return this.building;
+    }
+    if (this.isCurrent()) {
+      return;
+    }
+
+    this.building = this.build(assets, onProgress).finally(() => {
+      this.building = null;
+    });
+    return this.building;
+  }
+
+  private async build(assets: Asset[], onProgress?: ContentIndexProgress): Promise<void> {
+    // Paks listed from the asset index cache have no parser until they are
+    // parsed, which replaces their assets in the store
+    if (await loadIndexedPaks()) {
+      assets = getLoadedAssets();
+    }
+
+    const parsers = Array.from(getLoadedParsers().entries());
+    const startTime = performance.now();
+    const assetsByGuid = new Map(assets.map(asset => [asset.guid, asset]));
+
+    // Patch chain members share asset tables; only index the copy the resolver picks
+    const work: { parser: RpakParser; asset: ParsedAsset }[] = [];
+    for (const [, parser] of parsers) {
+      for (const asset of parser.getAssets()) {
+        if (INDEXED_TYPES.has(asset.typeFourCC) && dependencyResolver.findLoadedAsset(asset.guid)?.parser === parser) {
+          work.push({ parser, asset });
+        }
+      }
+    }
+
+    const entries: ContentEntry[] = [];
+    let sliceStart = performance.now();
+    for (let i = 0; i < work.length; i++) {
+      const { parser, asset } = work[i];
+      try {
+        this.indexAsset(parser, asset, assetsByGuid.get(asset.guid), entries);
+      } catch (error) {
+        console.warn(`[ContentSearch] Failed to index ${asset.guid}:`, error);
+      }
+
+      if (performance.now() - sliceStart > SLICE_BUDGET_MS) {
+        onProgress?.(i + 1, work.length);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        sliceStart = performance.now();
+      }
+    }
+
+    this.entries = entries;
+    this.lowerTexts = entries.map(entry => entry.text.toLowerCase());
+    this.indexedParsers = parsers.map(([, parser]) => parser);
+    onProgress?.(work.length, work.length);
+
+    console.log(`[ContentSearch] Indexed ${entries.length} strings from ${work.length} assets in ${(performance.now() - startTime).toFixed(1)}ms`);
+  }
+
+  private indexAsset(parser: RpakParser, asset: ParsedAsset, loadedAsset: Asset | undefined, entries: ContentEntry[]): void {
+    if (!asset.headerData) return;
+
+    const assetName = loadedAsset?.name || asset.name;
+    let stringIndex = 0;
+    const add = (text: string, context: string, location?: ContentLocation) => {
+      if (!text) return;
+      entries.push({
+        guid: asset.guid,
+        assetName,
+        assetType: asset.typeFourCC as AssetType,
+        context,
+        text,
+        location: location || { kind: 'string', index: stringIndex },
+      });
+      stringIndex++;
+    };
+    const getPageData = (pageIndex: number) => parser.getPageData(pageIndex);
+
+    switch (asset.typeFourCC) {
+      case 'dtbl': {
+        const datatable = parseDatatable(asset.headerData, asset.version || 0, parser.getLayout().header.createdTime, getPageData);
+        if (!datatable) return;
+
+        datatable.rows.forEach((row, rowIndex) => {
+          row.values.forEach((value, columnIndex) => {
+            if (typeof value === 'string' && value.length > 0) {
+              const column = datatable.columns[columnIndex]?.name || `column ${columnIndex}`;
+              add(value, `row ${rowIndex}, ${column}`, { kind: 'row', row: rowIndex, column: columnIndex });
+            }
+          });
+        });
+        return;
+      }
+
+      case 'stgs': {
+        if (asset.headerData.length < 8) return;
+
+        // Values can only be read with the layout, which may live in another pak
+        const layout = dependencyResolver.findLoadedAsset(guidToHex(new BinaryReader(asset.headerData).readUint64()));
+        if (!layout?.asset.headerData) return;
+
+        const layoutResult = parseSettingsLayoutFull(
+          layout.asset.headerData,
+          layout.parser.getPageData(layout.asset.headPagePtr.index) || undefined,
+          (index: number) => layout.parser.getPageData(index)
+        );
+        if (!layoutResult || layoutResult.fields.length === 0) return;
+
+        const values = parseSettingsValuesFull(
+          asset.headerData,
+          getPageData(asset.headPagePtr.index) || undefined,
+          asset.version || 1,
+          layoutResult.fields,
+          getPageData
+        );
+        collectSettingsStrings(values, [], '', add);
+        return;
+      }
+
+      case 'matl': {
+        const material = (loadedAsset?.metadata?.parsedMaterial as ParsedMaterialData | null | undefined)
+          || parseMaterialAsset(asset, getPageData);
+        if (material) {
+          collectMaterialStrings(material, (text, context) => add(text, context));
+        }
+        return;
+      }
+
+      case 'shds': {
+        const shaderSet = parseShaderSetHeader(asset.headerData, asset.version, getPageData);
+        if (shaderSet?.name) {
+          add(shaderSet.name, 'name');
+        }
+        return;
+      }
+
+      case 'shdr': {
+        const header = parseShaderHeader(asset.headerData, asset.version);
+        const page = header ? parser.getPageData(header.dataPtr.index) : null;
+        if (!header || !page || header.dataPtr.offset >= page.length) return;
+
+        const bindings = parseShaderData(page.subarray(header.dataPtr.offset, header.dataPtr.offset + header.dataSize));
+        for (const [slot, name] of bindings) {
+          add(name, `texture binding ${slot}`);
+        }
+        return;
+      }
+
+      default: {
+        for (const text of collectHeaderStrings(parser, asset.headerData)) {
+          add(text, `string ${stringIndex}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Find the indexed strings containing the query (case-insensitive)
+   */
+  search(query: string, limit: number): ContentSearchResult {
+    const term = query.trim().toLowerCase();
+    if (!term) {
+      return { matches: [], total: 0 };
+    }
+
+    const matches: ContentEntry[] = [];
+    let total = 0;
+    for (let i = 0; i < this.lowerTexts.length; i++) {
+      if (this.lowerTexts[i].includes(term)) {
+        if (matches.length < limit) {
+          matches.push(this.entries[i]);
+        }
+        total++;
+      }
+    }
+    return { matches, total };
+  }
+
+}
+
+// Global singleton
+export const contentSearchIndex = new ContentSearchIndex();
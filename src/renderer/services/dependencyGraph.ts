@@ -0,0 +1,188 @@
+/**
+ * Dependency graph
+ * Builds an expandable graph of the assets an asset references, following
+ * references across every loaded pak. Graphs can be exported to DOT or JSON.
+ */
+
+import { AssetDependency } from '../types/asset';
+import { fourCC, getAssetTypeColorHex } from '../parsers/assetTypes';
+import { getAssetReferences, ReferenceKind } from './assetReferences';
+import { dependencyResolver } from './dependencyResolver';
+
+export interface GraphNode {
+  guid: string;
+  name: string;
+  type: string;
+  status: AssetDependency['status'];
+  pakFile?: string;
+  color: string;
+  // Distance from the root along the first path that reached the node
+  depth: number;
+  expanded: boolean;
+  // Number of references, known once the node has been expanded
+  referenceCount?: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: ReferenceKind;
+}
+
+export interface DependencyGraph {
+  rootGuid: string;
+  nodes: Map<string, GraphNode>;
+  edges: GraphEdge[];
+}
+
+function createNode(guid: string, depth: number): GraphNode {
+  const resolved = dependencyResolver.resolveGuid(guid);
+  const type = resolved.type || 'unkn';
+
+  return {
+    guid: resolved.guid,
+    name: resolved.name || `0x${resolved.guid}`,
+    type,
+    status: resolved.status,
+    pakFile: resolved.pakFile,
+    color: getAssetTypeColorHex(type.length === 4 ? fourCC(type) : 0),
+    depth,
+    expanded: false,
+  };
+}
+
+/**
+ * Create a graph holding only the root asset
+ */
+export function createDependencyGraph(rootGuid: string): DependencyGraph {
+  const root = createNode(rootGuid, 0);
+  return {
+    rootGuid: root.guid,
+    nodes: new Map([[root.guid, root]]),
+    edges: [],
+  };
+}
+
+/**
+ * Add the references of a node to the graph. Nodes whose asset isn't loaded
+ * can't be expanded.
+ */
+export function expandNode(graph: DependencyGraph, guid: string): DependencyGraph {
+  const node = graph.nodes.get(guid);
+  if (!node || node.expanded) return graph;
+
+  const location = dependencyResolver.findLoadedAsset(guid);
+  const refs = location ? getAssetReferences(location.parser, location.asset) : [];
+
+  const nodes = new Map(graph.nodes);
+  const edges = [...graph.edges];
+
+  for (const ref of refs) {
+    if (!nodes.has(ref.guid)) {
+      nodes.set(ref.guid, createNode(ref.guid, node.depth + 1));
+    }
+    if (!edges.some(edge => edge.from === guid && edge.to === ref.guid)) {
+      edges.push({ from: guid, to: ref.guid, kind: ref.kind });
+    }
+  }
+
+  nodes.set(guid, { ...node, expanded: true, referenceCount: refs.length });
+  return { ...graph, nodes, edges };
+}
+
+/**
+ * Expand every node up to a depth
+ */
+export function expandToDepth(graph: DependencyGraph, maxDepth: number): DependencyGraph {
+  let result = graph;
+  for (let depth = 0; depth < maxDepth; depth++) {
+    for (const node of Array.from(result.nodes.values())) {
+      if (node.depth === depth && !node.expanded) {
+        result = expandNode(result, node.guid);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove a node's outgoing edges, then drop nodes no longer reachable from the root
+ */
+export function collapseNode(graph: DependencyGraph, guid: string): DependencyGraph {
+  const node = graph.nodes.get(guid);
+  if (!node || !node.expanded) return graph;
+
+  const remainingEdges = graph.edges.filter(edge => edge.from !== guid);
+
+  // Walk from the root over the remaining edges
+  const reachable = new Set<string>([graph.rootGuid]);
+  const queue = [graph.rootGuid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of remainingEdges) {
+      if (edge.from === current && !reachable.has(edge.to)) {
+        reachable.add(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const nodes = new Map<string, GraphNode>();
+  for (const [nodeGuid, graphNode] of graph.nodes) {
+    if (reachable.has(nodeGuid)) {
+      nodes.set(nodeGuid, nodeGuid === guid ? { ...graphNode, expanded: false } : graphNode);
+    }
+  }
+
+  return {
+    ...graph,
+    nodes,
+    edges: remainingEdges.filter(edge => reachable.has(edge.from) && reachable.has(edge.to)),
+  };
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Export the graph in Graphviz DOT format
+ */
+export function graphToDot(graph: DependencyGraph): string {
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Segoe UI"];',
+  ];
+
+  for (const node of graph.nodes.values()) {
+    const style = node.status === 'loaded' ? 'rounded,filled' : 'rounded,filled,dashed';
+    const border = node.status === 'missing' ? ', color="#e53935", penwidth=2' : '';
+    lines.push(`  "${node.guid}" [label="${escapeDot(node.name)}\\n${escapeDot(node.type)}", fillcolor="${node.color}", style="${style}"${border}];`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  "${edge.from}" -> "${edge.to}" [label="${edge.kind}"];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Export the graph as JSON
+ */
+export function graphToJson(graph: DependencyGraph): string {
+  return JSON.stringify({
+    root: graph.rootGuid,
+    nodes: Array.from(graph.nodes.values()).map(node => ({
+      guid: node.guid,
+      name: node.name,
+      type: node.type,
+      status: node.status,
+      pakFile: node.pakFile,
+      expanded: node.expanded,
+    })),
+    edges: graph.edges,
+  }, null, 2);
+}
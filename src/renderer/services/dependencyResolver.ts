@@ -0,0 +1,224 @@
+/**
+ * Cross-pak dependency resolver
+ * Keeps a GUID index over every loaded rpak so dependencies can be resolved to
+ * the pak that owns them. Game folders can be scanned (asset tables only) to
+ * find which unloaded pak provides a missing asset.
+ */
+
+import { AssetDependency, AssetType } from '../types/asset';
+import { ParsedAsset, RpakParser } from '../parsers/rpakParser';
+import { scanPakAssets, ScannedPakAsset } from '../parsers/pakHeaderScanner';
+import { groupPatchChains, parsePatchFileName } from '../parsers/patchChain';
+import { getLoadedParsers } from '../stores/assetStore';
+import { nameDatabase } from './nameDatabase';
+
+export interface LoadedAssetLocation {
+  pakPath: string;
+  parser: RpakParser;
+  asset: ParsedAsset;
+}
+
+export interface PakAssetLocation {
+  // Pak to load (the base file of a patch chain)
+  pakPath: string;
+  typeFourCC: string;
+}
+
+interface ScannedPak {
+  size: number;
+  assets: ScannedPakAsset[];
+}
+
+function normalizeGuid(guid: string): string {
+  return guid.replace(/^0x/i, '').padStart(16, '0').toUpperCase();
+}
+
+/**
+ * Check whether a pak is a later patch of the same chain as another pak
+ */
+function isNewerPatch(pakPath: string, otherPath: string): boolean {
+  const pak = parsePatchFileName(pakPath.split(/[/\\]/).pop()!);
+  const other = parsePatchFileName(otherPath.split(/[/\\]/).pop()!);
+  return pak.baseName.toLowerCase() === other.baseName.toLowerCase() && pak.patchNumber > other.patchNumber;
+}
+
+function getDirectory(filePath: string): string {
+  const separatorIndex = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+  return separatorIndex >= 0 ? filePath.substring(0, separatorIndex) : filePath;
+}
+
+class DependencyResolver {
+  private loadedIndex: Map<string, LoadedAssetLocation> = new Map();
+  private indexedParsers: RpakParser[] = [];
+  private folderIndexes: Map<string, Map<string, PakAssetLocation>> = new Map();
+  private scannedPaks: Map<string, ScannedPak> = new Map();
+
+  /**
+   * Rebuild the loaded asset index if the set of loaded paks changed
+   */
+  private syncLoadedIndex(): void {
+    const parsers = getLoadedParsers();
+    const current = Array.from(parsers.values());
+    const unchanged = current.length === this.indexedParsers.length
+      && current.every((parser, i) => parser === this.indexedParsers[i]);
+    if (unchanged) return;
+
+    this.loadedIndex.clear();
+    this.indexedParsers = current;
+
+    for (const [pakPath, parser] of parsers) {
+      for (const asset of parser.getAssets()) {
+        const existing = this.loadedIndex.get(asset.guid);
+
+        // Patch chain members share asset tables; prefer the newest file, which
+        // holds every page once the patches are applied
+        if (existing && !isNewerPatch(pakPath, existing.pakPath)) {
+          continue;
+        }
+
+        this.loadedIndex.set(asset.guid, { pakPath, parser, asset });
+      }
+    }
+
+    console.log(`[DependencyResolver] Indexed ${this.loadedIndex.size} assets from ${parsers.size} paks`);
+  }
+
+  /**
+   * Find a loaded asset by GUID in any loaded pak
+   */
+  findLoadedAsset(guid: string): LoadedAssetLocation | undefined {
+    this.syncLoadedIndex();
+    return this.loadedIndex.get(normalizeGuid(guid));
+  }
+
+  /**
+   * Find the pak on disk that provides an asset, from previously scanned folders
+   */
+  findScannedPak(guid: string): PakAssetLocation | undefined {
+    const normalizedGuid = normalizeGuid(guid);
+    for (const folderIndex of this.folderIndexes.values()) {
+      const location = folderIndex.get(normalizedGuid);
+      if (location) return location;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve a GUID to its owning pak and status
+   */
+  resolveGuid(guid: string): AssetDependency {
+    const normalizedGuid = normalizeGuid(guid);
+
+    const loaded = this.findLoadedAsset(normalizedGuid);
+    if (loaded) {
+      return {
+        guid: normalizedGuid,
+        type: loaded.asset.typeFourCC as AssetType,
+        name: nameDatabase.lookup(normalizedGuid) || loaded.asset.name,
+        status: 'loaded',
+        pakFile: loaded.pakPath,
+      };
+    }
+
+    const scanned = this.findScannedPak(normalizedGuid);
+    return {
+      guid: normalizedGuid,
+      type: (scanned?.typeFourCC || 'unkn') as AssetType,
+      name: nameDatabase.lookup(normalizedGuid),
+      status: scanned ? 'external' : 'missing',
+      pakFile: scanned?.pakPath,
+    };
+  }
+
+  /**
+   * Resolve every dependency of an asset
+   */
+  resolveDependencies(parser: RpakParser, asset: ParsedAsset): AssetDependency[] {
+    return parser.getAssetDependencies(asset).map(dep => this.resolveGuid(dep.guid));
+  }
+
+  /**
+   * Index the asset tables of every rpak in a folder without loading the paks.
+   * Results are cached per file, so rescanning only reads paks that changed.
+   * Returns the number of assets indexed.
+   */
+  async scanFolder(folderPath: string, onProgress?: (done: number, total: number) => void): Promise<number> {
+    const result = await window.electron.readDir(folderPath);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to read ${folderPath}`);
+    }
+
+    const chains = groupPatchChains(result.data);
+    const folderIndex: Map<string, PakAssetLocation> = new Map();
+
+    for (let i = 0; i < chains.length; i++) {
+      const chain = chains[i];
+      onProgress?.(i, chains.length);
+
+      // The newest patch carries the complete asset table for the chain
+      const newestPath = chain[chain.length - 1];
+      try {
+        const assets = await this.scanPak(newestPath);
+        for (const asset of assets) {
+          if (!folderIndex.has(asset.guid)) {
+            folderIndex.set(asset.guid, { pakPath: chain[0], typeFourCC: asset.typeFourCC });
+          }
+        }
+      } catch (error) {
+        console.warn(`[DependencyResolver] Failed to scan ${newestPath}:`, error);
+      }
+    }
+
+    onProgress?.(chains.length, chains.length);
+    this.folderIndexes.set(folderPath, folderIndex);
+    console.log(`[DependencyResolver] Indexed ${folderIndex.size} assets from ${chains.length} paks in ${folderPath}`);
+    return folderIndex.size;
+  }
+
+  private async scanPak(pakPath: string): Promise<ScannedPakAsset[]> {
+    const statResult = await window.electron.stat(pakPath);
+    const size = statResult.success && statResult.data ? statResult.data.size : -1;
+
+    const cached = this.scannedPaks.get(pakPath);
+    if (cached && cached.size === size) {
+      return cached.assets;
+    }
+
+    const assets = await scanPakAssets(pakPath);
+    this.scannedPaks.set(pakPath, { size, assets });
+    return assets;
+  }
+
+  /**
+   * Find which pak needs to be loaded for a GUID. Scans the folder first if it
+   * hasn't been scanned yet. The folder defaults to the one holding the loaded paks.
+   */
+  async findPakForGuid(guid: string, folderPath?: string): Promise<string | null> {
+    const loaded = this.findLoadedAsset(guid);
+    if (loaded) return loaded.pakPath;
+
+    const folder = folderPath || this.getDefaultFolder();
+    if (!folder) return null;
+
+    if (!this.folderIndexes.has(folder)) {
+      await this.scanFolder(folder);
+    }
+
+    return this.folderIndexes.get(folder)?.get(normalizeGuid(guid))?.pakPath || null;
+  }
+
+  private getDefaultFolder(): string | null {
+    const firstPak = getLoadedParsers().keys().next();
+    return firstPak.done ? null : getDirectory(firstPak.value);
+  }
+
+  /**
+   * Forget scanned folders
+   */
+  clearScans(): void {
+    this.folderIndexes.clear();
+    this.scannedPaks.clear();
+  }
+}
+
+export const dependencyResolver = new DependencyResolver();
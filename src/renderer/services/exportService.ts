@@ -11,13 +11,22 @@ import {
   isBlockCompressed, 
   BytesPerPixel,
   createDDSHeader,
+  isCubemap,
   decodeTextureToRGBA,
+  decodeTextureToFloat,
+  isHDRFormat,
   calculateMipSize,
   parseTextureHeader,
   TextureAssetHeader
 } from '../parsers/textureParser';
 import { exportModelToOBJ, exportModelToGLTF, parseStudioHeader, ParsedModel } from '../parsers/modelParser';
-import { parseMaterialHeader, ParsedMaterial, ParsedMaterialData, MaterialTextureEntry } from '../parsers/materialParser';
+import { parseMaterialHeader, ParsedMaterial, ParsedMaterialData, MaterialTextureEntry, TextureBindingNames } from '../parsers/materialParser';
+import { encodePNG } from '../utils/pngEncoder';
+import { encodeTGA } from '../utils/tgaEncoder';
+import { encodeEXR } from '../utils/exrEncoder';
+import { encodeHDR } from '../utils/hdrEncoder';
+import { isNormalMapFormat, isNormalMapName, recalculateNormalMap } from '../utils/normalMap';
+import { nameDatabase } from './nameDatabase';
 
 // Export format definitions matching C++ RSX
 export interface ExportFormat {
@@ -34,6 +43,10 @@ export const TEXTURE_EXPORT_FORMATS: ExportFormat[] = [
   { id: 'dds_highest', name: 'DDS (Highest Mip)', extension: '.dds', description: 'Export highest resolution mip as DDS' },
   { id: 'dds_all', name: 'DDS (All Mips)', extension: '.dds', description: 'Export all mip levels as separate DDS files' },
   { id: 'dds_mipmapped', name: 'DDS (Mip Mapped)', extension: '.dds', description: 'Export as single DDS with all mip levels' },
+  { id: 'tga_highest', name: 'TGA (Highest Mip)', extension: '.tga', description: 'Export highest resolution mip as TGA' },
+  { id: 'tga_all', name: 'TGA (All Mips)', extension: '.tga', description: 'Export all mip levels as separate TGAs' },
+  { id: 'exr', name: 'OpenEXR', extension: '.exr', description: 'Export highest resolution mip as floating point EXR' },
+  { id: 'hdr', name: 'Radiance HDR', extension: '.hdr', description: 'Export highest resolution mip as Radiance RGBE' },
   { id: 'json_meta', name: 'JSON (Meta Data)', extension: '.json', description: 'Export texture metadata as JSON' },
 ];
 
@@ -153,11 +166,22 @@ export interface ExportResult {
   outputPath?: string;
   error?: string;
   filesExported?: number;
+  // Changes the user should know about, such as a different output format
+  warnings?: string[];
 }
 
 // Export progress callback
 export type ExportProgressCallback = (current: number, total: number, message: string) => void;
 
+// Material binding a texture is exported for
+export interface TextureBinding {
+  materialName: string;
+  bindingName: string;
+}
+
+// Output paths (lowercased, without extension) of the textures exported in one run, by GUID
+export type TextureNameRegistry = Map<string, string>;
+
 // Texture data loader function type
 export type TextureDataLoader = (asset: Asset) => Promise<{
   header: TextureAssetHeader;
@@ -175,7 +199,8 @@ export async function exportAsset(
   settings: Settings,
   onProgress?: ExportProgressCallback,
   allAssets?: Asset[],  // Optional: all loaded assets for dependency resolution
-  getTextureData?: TextureDataLoader  // Optional: function to load texture data
+  getTextureData?: TextureDataLoader,  // Optional: function to load texture data
+  textureNames: TextureNameRegistry = new Map()  // Optional: texture names taken earlier in the same export run
 ): Promise<ExportResult> {
   try {
     // Determine the output path
@@ -205,18 +230,34 @@ export async function exportAsset(
     // Route to appropriate exporter based on asset type
     let result: ExportResult;
     switch (asset.type) {
-      case 'txtr':
-        result = await exportTexture(asset, format, outputPath, assetName, settings, onProgress, getTextureData);
+      case 'txtr': {
+        const binding = getMaterialBinding(asset, allAssets);
+        const textureName = await getTextureFileName(asset, settings, outputPath, textureNames, binding);
+        result = await exportTexture(asset, format, outputPath, textureName, settings, onProgress, getTextureData, binding);
         break;
+      }
       case 'mdl_':
       case 'rmdl':
         result = await exportModel(asset, format, fullOutputPath, settings, onProgress);
+        // Export the textures of the model's materials if enabled
+        if (result.success && settings.exportAssetDeps && allAssets && getTextureData) {
+          const warnings: string[] = [];
+          for (const material of getModelMaterials(asset, allAssets)) {
+            warnings.push(...await exportMaterialDependencies(material, outputDir, settings, allAssets, textureNames, onProgress, getTextureData));
+          }
+          if (warnings.length > 0) {
+            result = { ...result, warnings: [...(result.warnings || []), ...warnings] };
+          }
+        }
         break;
       case 'matl':
         result = await exportMaterial(asset, format, fullOutputPath, settings, onProgress);
         // Export texture dependencies if enabled
         if (result.success && settings.exportAssetDeps && allAssets && getTextureData) {
-          await exportMaterialDependencies(asset, outputDir, settings, allAssets, onProgress, getTextureData);
+          const warnings = await exportMaterialDependencies(asset, outputDir, settings, allAssets, textureNames, onProgress, getTextureData);
+          if (warnings.length > 0) {
+            result = { ...result, warnings: [...(result.warnings || []), ...warnings] };
+          }
         }
         break;
       case 'aseq':
@@ -257,12 +298,14 @@ export async function exportAssets(
   settings: Settings,
   onProgress?: ExportProgressCallback,
   allAssets?: Asset[],  // Optional: all loaded assets for dependency resolution
-  getTextureData?: TextureDataLoader  // Optional: function to load texture data
+  getTextureData?: TextureDataLoader,  // Optional: function to load texture data
+  preferredFormat?: string  // Optional: format id or extension to use where the asset type has it
 ): Promise<ExportResult[]> {
   const results: ExportResult[] = [];
   
   // Use allAssets for dependency resolution, or fall back to the assets being exported
   const assetsForDeps = allAssets || assets;
+  const textureNames: TextureNameRegistry = new Map();
   
   for (let i = 0; i < assets.length; i++) {
     const asset = assets[i];
@@ -273,31 +316,121 @@ export async function exportAssets(
       continue;
     }
 
-    // Use the default/first format
-    const format = formats[0];
+    // Use the preferred format if the type has it, otherwise the type's default format
+    const format = (preferredFormat && findExportFormat(asset.type, preferredFormat)) || getDefaultExportFormat(asset.type, settings)!;
     
     onProgress?.(i, assets.length, `Exporting ${getAssetFileName(asset)}...`);
     
-    const result = await exportAsset(asset, format, outputDir, settings, onProgress, assetsForDeps, getTextureData);
+    const result = await exportAsset(asset, format, outputDir, settings, onProgress, assetsForDeps, getTextureData, textureNames);
     results.push(result);
   }
 
   return results;
 }
 
+/**
+ * Find an export format of an asset type by id (e.g. 'dds_mipmapped') or by
+ * extension (e.g. 'png'), taking the first format with that extension
+ */
+export function findExportFormat(assetType: AssetType, format: string): ExportFormat | null {
+  const formats = getExportFormats(assetType);
+  const key = format.toLowerCase();
+  return formats.find(f => f.id === key)
+    || formats.find(f => f.extension === `.${key.replace(/^\./, '')}`)
+    || null;
+}
+
+/**
+ * Default export format of an asset type: the texture format from the
+ * settings for textures, otherwise the type's first format
+ */
+export function getDefaultExportFormat(assetType: AssetType, settings: Settings): ExportFormat | null {
+  const formats = getExportFormats(assetType);
+  if (assetType === 'txtr') {
+    return formats.find(f => f.id === settings.textureExportFormat) || formats[0] || null;
+  }
+  return formats[0] || null;
+}
+
 // Helper to get asset filename
 function getAssetFileName(asset: Asset): string {
   if (asset.name) {
-    const parts = asset.name.replace(/\\/g, '/').split('/');
-    let name = parts[parts.length - 1];
-    // Remove common extensions
-    if (name.endsWith('.rpak')) name = name.slice(0, -5);
-    // Remove leading path separators
-    return name.replace(/^[/\\]+/, '');
+    return getPathFileName(asset.name);
   }
   return asset.guid;
 }
 
+// Last part of an asset path, without the .rpak extension
+function getPathFileName(assetPath: string): string {
+  const parts = assetPath.replace(/\\/g, '/').split('/');
+  let name = parts[parts.length - 1];
+  // Remove common extensions
+  if (name.endsWith('.rpak')) name = name.slice(0, -5);
+  // Remove leading path separators
+  return name.replace(/^[/\\]+/, '');
+}
+
+// Full asset path flattened into one file name, e.g. texture/models/r97/r97_col.rpak -> models_r97_r97_col
+function getFlatPathFileName(assetPath: string): string {
+  return assetPath
+    .replace(/\\/g, '/')
+    .replace(/\.rpak$/, '')
+    .replace(/^\/*texture\//, '')
+    .split('/')
+    .filter(Boolean)
+    .join('_');
+}
+
+/**
+ * Name an exported texture per the texture naming setting:
+ * - guid: the hex GUID
+ * - real: the last part of the asset's name
+ * - text: the name database's full path for the GUID, flattened so the
+ *   folders stay part of the file name
+ * - semantic: <material>_<binding> for the material the texture is used by
+ * Names that can't be resolved fall back to the asset's name. A name already
+ * taken in the output folder by another texture of the same run gets the
+ * GUID appended.
+ */
+async function getTextureFileName(
+  texture: Asset,
+  settings: Settings,
+  outputDir: string,
+  textureNames: TextureNameRegistry,
+  binding?: TextureBinding
+): Promise<string> {
+  const guid = texture.guid.toUpperCase().replace(/^0X/, '');
+  let name = getAssetFileName(texture);
+
+  switch (settings.exportTextureNameMode) {
+    case 'guid':
+      name = `0x${guid}`;
+      break;
+    case 'text': {
+      await nameDatabase.load();
+      const knownName = nameDatabase.lookup(guid) || texture.name;
+      if (knownName) {
+        name = getFlatPathFileName(knownName);
+      }
+      break;
+    }
+    case 'semantic':
+      if (binding) {
+        name = `${binding.materialName}_${binding.bindingName}`.replace(/[<>:"/\\|?*\s]+/g, '_');
+      }
+      break;
+  }
+
+  const key = `${outputDir}/${name}`.toLowerCase();
+  const owner = textureNames.get(key);
+  if (owner && owner !== guid) {
+    name = `${name}_${guid}`;
+  } else {
+    textureNames.set(key, guid);
+  }
+  return name;
+}
+
 // Helper to write a file
 async function writeFile(path: string, data: Uint8Array): Promise<ExportResult> {
   const result = await window.electron.writeFile(path, data);
@@ -335,7 +468,8 @@ async function exportTexture(
   assetName: string,
   settings: Settings,
   onProgress?: ExportProgressCallback,
-  getTextureData?: TextureDataLoader
+  getTextureData?: TextureDataLoader,
+  binding?: TextureBinding  // Optional: material binding the texture is exported for
 ): Promise<ExportResult> {
   const texMeta = asset.metadata as TextureMetadata | undefined;
   
@@ -428,40 +562,329 @@ async function exportTexture(
   const texFormat = texHeader?.format || TextureFormat.BC1_UNORM;
   const mipCountVal = texHeader?.mipCount || 1;
 
-  // DDS export
+  const surfaces = getTextureSurfaces(texHeader);
+
+  // Normal maps get Z rebuilt (and green flipped for OpenGL) when enabled
+  const normalRecalc = settings.exportNormalRecalc !== 'none' && isNormalMapTexture(asset, texFormat, binding?.bindingName)
+    ? settings.exportNormalRecalc
+    : null;
+  if (normalRecalc) {
+    console.log(`[ExportService] Recalculating normal map ${assetName} (${normalRecalc})`);
+  }
+
+  // DDS export - slices are stored one after another, each with its mips
   if (format.id.startsWith('dds')) {
-    const ddsHeader = createDDSHeader(width, height, texFormat, mipCountVal, texHeader?.depth || 1);
-    const ddsData = new Uint8Array(ddsHeader.length + pixelData.length);
-    ddsData.set(ddsHeader, 0);
-    ddsData.set(pixelData, ddsHeader.length);
-    
+    const arraySize = texHeader?.arraySize || 1;
+    const cubemap = isCubemap({ width, height, arraySize, textureType: texHeader?.textureType });
+
+    // Recalculated normals can't be block compressed again, so they are written as RGBA8
+    const warnings: string[] = [];
+    if (normalRecalc && texFormat !== TextureFormat.R8G8B8A8_UNORM) {
+      const sourceFormat = TextureFormatNames[texFormat] || `format ${texFormat}`;
+      warnings.push(`${assetName}: recalculated normal map saved as uncompressed RGBA8 DDS instead of ${sourceFormat}`);
+      console.warn(`[ExportService] ${warnings[0]}`);
+    }
+
+    const buildDDS = (mips: number[]): Uint8Array | null => {
+      const parts: Uint8Array[] = [];
+      for (const { slice } of surfaces) {
+        for (const mip of mips) {
+          const mipData = getMipPixelData(pixelData!, texHeader, mip, slice);
+          if (!mipData) return null;
+          if (normalRecalc) {
+            const mipWidth = Math.max(1, width >> mip);
+            const mipHeight = Math.max(1, height >> mip);
+            parts.push(recalculateNormalMap(decodeTextureToRGBA(mipData, mipWidth, mipHeight, texFormat), normalRecalc));
+          } else {
+            parts.push(mipData);
+          }
+        }
+      }
+      const ddsHeader = createDDSHeader(
+        Math.max(1, width >> mips[0]),
+        Math.max(1, height >> mips[0]),
+        normalRecalc ? TextureFormat.R8G8B8A8_UNORM : texFormat,
+        mips.length,
+        texHeader?.depth || 1,
+        arraySize,
+        cubemap
+      );
+      const ddsData = new Uint8Array(parts.reduce((size, part) => size + part.length, ddsHeader.length));
+      ddsData.set(ddsHeader, 0);
+      let offset = ddsHeader.length;
+      for (const part of parts) {
+        ddsData.set(part, offset);
+        offset += part.length;
+      }
+      return ddsData;
+    };
+
+    // All mips as separate files
+    if (format.id === 'dds_all') {
+      let exported = 0;
+      for (let mip = 0; mip < mipCountVal; mip++) {
+        const ddsData = buildDDS([mip]);
+        if (!ddsData) {
+          if (mip === 0) {
+            return { success: false, error: 'Insufficient pixel data' };
+          }
+          console.warn(`[ExportService] Skipping mip ${mip} of ${assetName}: insufficient pixel data`);
+          continue;
+        }
+        const result = await writeFile(`${outputDir}/${assetName}_mip${mip}.dds`, ddsData);
+        if (!result.success) {
+          return result;
+        }
+        exported++;
+      }
+      return { success: true, outputPath: `${outputDir}/${assetName}_mip0.dds`, filesExported: exported, warnings };
+    }
+
+    // Mip mapped files keep every mip that has data
+    let mips = format.id === 'dds_mipmapped' ? Array.from({ length: mipCountVal }, (_, mip) => mip) : [0];
+    let ddsData = buildDDS(mips);
+    while (!ddsData && mips.length > 1) {
+      mips = mips.slice(0, -1);
+      ddsData = buildDDS(mips);
+    }
+    if (!ddsData) {
+      return { success: false, error: 'Insufficient pixel data' };
+    }
+
     const ddsPath = `${outputDir}/${assetName}.dds`;
-    return writeFile(ddsPath, ddsData);
+    const result = await writeFile(ddsPath, ddsData);
+    return result.success && warnings.length > 0 ? { ...result, warnings } : result;
   }
 
-  // PNG export - decode to RGBA first
+  // PNG export - decode to RGBA first, one file per cubemap face or array slice
   if (format.id.startsWith('png')) {
-    try {
-      const rgbaData = decodeTextureToRGBA(pixelData, width, height, texFormat);
-      
-      // Create PNG using canvas
-      const pngData = await createPNG(rgbaData, width, height);
-      if (!pngData) {
-        return { success: false, error: 'Failed to create PNG' };
+    let exported = 0;
+    let firstPath: string | undefined;
+
+    for (const { slice, suffix } of surfaces) {
+      const mipData = getMipPixelData(pixelData, texHeader, 0, slice);
+      if (!mipData) {
+        return { success: false, error: 'Insufficient pixel data' };
+      }
+
+      try {
+        let rgbaData = decodeTextureToRGBA(mipData, width, height, texFormat);
+        if (normalRecalc) {
+          rgbaData = recalculateNormalMap(rgbaData, normalRecalc);
+        }
+        
+        // Create PNG using canvas
+        const pngData = await createPNG(rgbaData, width, height);
+        if (!pngData) {
+          return { success: false, error: 'Failed to create PNG' };
+        }
+        
+        const pngPath = `${outputDir}/${assetName}${suffix}.png`;
+        const result = await writeFile(pngPath, pngData);
+        if (!result.success) {
+          return result;
+        }
+        firstPath ??= pngPath;
+        exported++;
+      } catch (err) {
+        return { success: false, error: `PNG encoding failed: ${err}` };
+      }
+    }
+
+    return { success: true, outputPath: firstPath, filesExported: exported };
+  }
+
+  // TGA export - decode each mip to RGBA first
+  if (format.id.startsWith('tga')) {
+    const mipLevels = format.id === 'tga_all' ? mipCountVal : 1;
+    let exported = 0;
+    let firstPath: string | undefined;
+
+    for (const { slice, suffix } of surfaces) {
+      for (let mip = 0; mip < mipLevels; mip++) {
+        const mipData = getMipPixelData(pixelData, texHeader, mip, slice);
+        if (!mipData) {
+          if (mip === 0) {
+            return { success: false, error: 'Insufficient pixel data' };
+          }
+          console.warn(`[ExportService] Skipping mip ${mip} of ${assetName}${suffix}: insufficient pixel data`);
+          continue;
+        }
+
+        const mipWidth = Math.max(1, width >> mip);
+        const mipHeight = Math.max(1, height >> mip);
+        try {
+          let rgbaData = decodeTextureToRGBA(mipData, mipWidth, mipHeight, texFormat);
+          if (normalRecalc) {
+            rgbaData = recalculateNormalMap(rgbaData, normalRecalc);
+          }
+          const tgaData = encodeTGA(rgbaData, mipWidth, mipHeight, { rle: settings.exportTgaRle });
+
+          const tgaPath = mipLevels > 1 ? `${outputDir}/${assetName}${suffix}_mip${mip}.tga` : `${outputDir}/${assetName}${suffix}.tga`;
+          const result = await writeFile(tgaPath, tgaData);
+          if (!result.success) {
+            return result;
+          }
+          firstPath ??= tgaPath;
+          exported++;
+        } catch (err) {
+          return { success: false, error: `TGA encoding failed: ${err}` };
+        }
       }
-      
-      const pngPath = `${outputDir}/${assetName}.png`;
-      return writeFile(pngPath, pngData);
-    } catch (err) {
-      return { success: false, error: `PNG encoding failed: ${err}` };
     }
+
+    return { success: true, outputPath: firstPath, filesExported: exported };
+  }
+
+  // EXR/HDR export - decode to float to keep the range of HDR formats
+  if (format.id === 'exr' || format.id === 'hdr') {
+    let exported = 0;
+    let firstPath: string | undefined;
+
+    for (const { slice, suffix } of surfaces) {
+      const mipData = getMipPixelData(pixelData, texHeader, 0, slice);
+      if (!mipData) {
+        return { success: false, error: 'Insufficient pixel data' };
+      }
+
+      try {
+        const floatData = decodeTextureToFloat(mipData, width, height, texFormat);
+        const outputPath = `${outputDir}/${assetName}${suffix}${format.extension}`;
+        const fileData = format.id === 'exr'
+          ? await encodeEXR(floatData, width, height, {
+            pixelType: settings.exportExrPixelType,
+            compression: settings.exportExrCompression,
+          })
+          : encodeHDR(floatData, width, height);
+
+        const result = await writeFile(outputPath, fileData);
+        if (!result.success) {
+          return result;
+        }
+        firstPath ??= outputPath;
+        exported++;
+      } catch (err) {
+        return { success: false, error: `${format.name} encoding failed: ${err}` };
+      }
+    }
+
+    return { success: true, outputPath: firstPath, filesExported: exported };
   }
 
   return { success: false, error: `Unsupported texture export format: ${format.id}` };
 }
 
+/**
+ * Check if a texture is a normal map, from its name, the material binding it
+ * is exported for or its format. HDR textures never are.
+ */
+function isNormalMapTexture(asset: Asset, format: TextureFormat, bindingName?: string): boolean {
+  if (isHDRFormat(format)) {
+    return false;
+  }
+  return isNormalMapFormat(format) || isNormalMapName(asset.name || '') || /normal/i.test(bindingName || '');
+}
+
+// Bindings of the textures used by loaded materials, by normalized GUID
+const materialBindingCache = new WeakMap<Asset[], Map<string, TextureBinding>>();
+
+/**
+ * Find the first loaded material that uses a texture, and its binding name
+ */
+function getMaterialBinding(texture: Asset, allAssets?: Asset[]): TextureBinding | undefined {
+  if (!allAssets) return undefined;
+
+  let bindings = materialBindingCache.get(allAssets);
+  if (!bindings) {
+    bindings = new Map();
+    for (const asset of allAssets) {
+      if (asset.type !== 'matl') continue;
+      const textures = (asset.metadata as MaterialMetadata | undefined)?.parsedMaterial?.textures || [];
+      for (const entry of textures) {
+        const guid = entry.guidHex.toUpperCase().replace(/^0X/, '');
+        if (!bindings.has(guid)) {
+          bindings.set(guid, getTextureBinding(asset, entry));
+        }
+      }
+    }
+    materialBindingCache.set(allAssets, bindings);
+  }
+
+  return bindings.get(texture.guid.toUpperCase().replace(/^0X/, ''));
+}
+
+function getTextureBinding(material: Asset, entry: MaterialTextureEntry): TextureBinding {
+  return {
+    materialName: getAssetFileName(material),
+    bindingName: entry.resourceBindingName || TextureBindingNames[entry.index] || `slot${entry.index}`,
+  };
+}
+
+// Cubemap face file name suffixes, in storage order
+const CUBEMAP_FACE_SUFFIXES = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
+
+/**
+ * The 2D surfaces of a texture with the file name suffix of each; cubemap
+ * faces are named by axis and array slices by index
+ */
+function getTextureSurfaces(header: Partial<TextureAssetHeader> | null): { slice: number; suffix: string }[] {
+  const arraySize = header?.arraySize || 1;
+  if (arraySize <= 1) {
+    return [{ slice: 0, suffix: '' }];
+  }
+
+  const cubemap = isCubemap({ width: header?.width || 0, height: header?.height || 0, arraySize, textureType: header?.textureType });
+  return Array.from({ length: arraySize }, (_, slice) => {
+    if (!cubemap) {
+      return { slice, suffix: `_slice${slice}` };
+    }
+    const face = CUBEMAP_FACE_SUFFIXES[slice % 6];
+    return { slice, suffix: arraySize > 6 ? `_cube${Math.floor(slice / 6)}_${face}` : `_${face}` };
+  });
+}
+
+/**
+ * Get the pixel data of one mip level of an array slice. Streamed mips come
+ * first, largest first, followed by the permanent mips stored smallest
+ * first. Each mip level holds every slice in turn.
+ */
+function getMipPixelData(pixelData: Uint8Array, header: Partial<TextureAssetHeader> | null, mip: number, slice: number = 0): Uint8Array | null {
+  const width = header?.width || 256;
+  const height = header?.height || 256;
+  const format = header?.format || TextureFormat.BC1_UNORM;
+  const mipCount = header?.mipCount || 1;
+  const arraySize = header?.arraySize || 1;
+  const streamedMips = (header?.streamedMipCount || 0) + (header?.optStreamedMipCount || 0);
+
+  let offset = 0;
+  if (mip < streamedMips) {
+    for (let i = 0; i < mip; i++) {
+      offset += calculateMipSize(width, height, format, i, arraySize);
+    }
+  } else {
+    for (let i = 0; i < streamedMips; i++) {
+      offset += calculateMipSize(width, height, format, i, arraySize);
+    }
+    for (let i = mipCount - 1; i > mip; i--) {
+      offset += calculateMipSize(width, height, format, i, arraySize);
+    }
+  }
+
+  const size = calculateMipSize(width, height, format, mip);
+  offset += slice * size;
+  if (offset + size > pixelData.length) {
+    return null;
+  }
+  return pixelData.subarray(offset, offset + size);
+}
+
 // Helper to create PNG from RGBA data
 async function createPNG(rgba: Uint8Array, width: number, height: number): Promise<Uint8Array | null> {
+  // No canvas outside the renderer (command-line exports)
+  if (typeof document === 'undefined') {
+    return encodePNG(rgba, width, height);
+  }
+
   return new Promise((resolve) => {
     try {
       const canvas = document.createElement('canvas');
@@ -495,6 +918,23 @@ async function createPNG(rgba: Uint8Array, width: number, height: number): Promi
 // MODEL EXPORT
 // ==========================================
 
+// Parsed studio header of a model, from its metadata or raw data
+function getParsedModel(asset: Asset): ParsedModel | null {
+  const modelMeta = asset.metadata as ModelMetadata | undefined;
+  if (modelMeta?.parsedModel) return modelMeta.parsedModel;
+  return asset.rawData ? parseStudioHeader(new Uint8Array(asset.rawData), asset.version || 9) : null;
+}
+
+/**
+ * Find the loaded materials a model uses
+ */
+function getModelMaterials(asset: Asset, allAssets: Asset[]): Asset[] {
+  const materialGuids = new Set(
+    (getParsedModel(asset)?.materialGUIDs || []).map(guid => guid.toString(16).padStart(16, '0').toUpperCase())
+  );
+  return allAssets.filter(a => a.type === 'matl' && materialGuids.has(a.guid.toUpperCase().replace(/^0X/, '').padStart(16, '0')));
+}
+
 async function exportModel(
   asset: Asset,
   format: ExportFormat,
@@ -502,14 +942,7 @@ async function exportModel(
   settings: Settings,
   onProgress?: ExportProgressCallback
 ): Promise<ExportResult> {
-  const modelMeta = asset.metadata as ModelMetadata | undefined;
-  
-  // Parse model if we have raw data
-  let model: ParsedModel | null = modelMeta?.parsedModel || null;
-  
-  if (!model && asset.rawData) {
-    model = parseStudioHeader(new Uint8Array(asset.rawData), asset.version || 9);
-  }
+  const model = getParsedModel(asset);
 
   // JSON metadata export
   if (format.id === 'json_meta' || format.id === 'json') {
@@ -825,21 +1258,24 @@ async function exportMaterial(
 
 /**
  * Export material texture dependencies
+ * @returns Warnings of the texture exports
  */
 async function exportMaterialDependencies(
   materialAsset: Asset,
   outputDir: string,
   settings: Settings,
   allAssets: Asset[],
+  textureNames: TextureNameRegistry,
   onProgress?: ExportProgressCallback,
   getTextureData?: TextureDataLoader
-): Promise<void> {
+): Promise<string[]> {
   const matMeta = materialAsset.metadata as MaterialMetadata | undefined;
   const parsedMaterial = matMeta?.parsedMaterial;
+  const warnings: string[] = [];
   
   if (!parsedMaterial?.textures || parsedMaterial.textures.length === 0) {
     console.log('[ExportService] No texture dependencies to export for material:', materialAsset.name);
-    return;
+    return warnings;
   }
   
   // Build a map of loaded textures by GUID (normalized to uppercase without 0x)
@@ -854,9 +1290,7 @@ async function exportMaterialDependencies(
   
   console.log(`[ExportService] Exporting ${parsedMaterial.textures.length} texture dependencies for material: ${materialAsset.name}`);
   
-  // Get the default texture export format - prefer DDS for full quality
-  const textureFormats = TEXTURE_EXPORT_FORMATS;
-  const defaultFormat = textureFormats.find(f => f.id === 'dds_mipmapped') || textureFormats[0];
+  const defaultFormat = getDefaultExportFormat('txtr', settings)!;
   
   for (const texEntry of parsedMaterial.textures) {
     // Normalize the texture GUID for lookup (remove 0x prefix and uppercase)
@@ -881,17 +1315,21 @@ async function exportMaterialDependencies(
     // Ensure output directory exists
     await window.electron.createDir(texOutputPath);
     
-    const texAssetName = getAssetFileName(textureAsset);
+    const binding = getTextureBinding(materialAsset, texEntry);
+    const texAssetName = await getTextureFileName(textureAsset, settings, texOutputPath, textureNames, binding);
     onProgress?.(0, 1, `Exporting texture: ${texAssetName}...`);
     
     // Export the texture - pass getTextureData to load pixel data from starpak
-    const result = await exportTexture(textureAsset, defaultFormat, texOutputPath, texAssetName, settings, onProgress, getTextureData);
+    const result = await exportTexture(textureAsset, defaultFormat, texOutputPath, texAssetName, settings, onProgress, getTextureData, binding);
     if (!result.success) {
       console.warn(`[ExportService] Failed to export texture dependency ${texAssetName}: ${result.error}`);
     } else {
       console.log(`[ExportService] Exported texture dependency: ${texAssetName}`);
+      warnings.push(...(result.warnings || []));
     }
   }
+
+  return warnings;
 }
 
 // ==========================================
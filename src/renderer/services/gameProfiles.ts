@@ -0,0 +1,260 @@
+/**
+ * Game install profiles
+ * A profile points at a game's install root. Discovery finds the folders the
+ * game keeps its paks, audio banks and maps in, classifies the paks and orders
+ * them the way the game loads them. Profiles are persisted under the app's
+ * userData folder.
+ */
+
+import { parsePatchFileName } from '../parsers/patchChain';
+import { UserDataStore } from './userDataStore';
+
+const PROFILES_FILE = 'game_profiles.json';
+
+export type GameId = 'apex' | 'titanfall2' | 'titanfall';
+
+export type InstallDirectoryKind = 'paks' | 'vpk' | 'audio' | 'maps';
+
+export type PakCategory = 'common' | 'ui' | 'map' | 'patch' | 'other';
+
+export interface GameDefinition {
+  id: GameId;
+  name: string;
+  // Folders relative to the install root; the first one that exists is used
+  directories: Record<InstallDirectoryKind, string[]>;
+  // A file or folder that only exists in this game's install root
+  marker: string;
+}
+
+export const GAME_DEFINITIONS: GameDefinition[] = [
+  {
+    id: 'apex',
+    name: 'Apex Legends',
+    directories: {
+      paks: ['paks/Win64'],
+      vpk: ['vpk'],
+      audio: ['audio/ship'],
+      maps: ['maps'],
+    },
+    marker: 'r5apex.exe',
+  },
+  {
+    id: 'titanfall2',
+    name: 'Titanfall 2',
+    directories: {
+      paks: ['r2/paks/Win64', 'r2/paks'],
+      vpk: ['vpk'],
+      audio: ['r2/sound', 'audio/ship'],
+      maps: ['r2/maps', 'maps'],
+    },
+    marker: 'Titanfall2.exe',
+  },
+  {
+    id: 'titanfall',
+    name: 'Titanfall',
+    directories: {
+      paks: ['r1/paks/Win64', 'r1/paks'],
+      vpk: ['vpk'],
+      audio: ['r1/sound', 'audio/ship'],
+      maps: ['r1/maps', 'maps'],
+    },
+    marker: 'Titanfall.exe',
+  },
+];
+
+// Extensions loaded from each folder kind; VPKs are found but can't be loaded yet
+const LOADABLE_EXTENSIONS: Record<InstallDirectoryKind, string[]> = {
+  paks: ['rpak'],
+  vpk: [],
+  audio: ['mbnk'],
+  maps: ['bsp'],
+};
+
+// Categories in the order the game loads them
+const CATEGORY_ORDER: PakCategory[] = ['common', 'ui', 'other', 'map', 'patch'];
+
+export interface GameProfile {
+  id: string;
+  name: string;
+  game: GameId;
+  installPath: string;
+}
+
+export interface DiscoveredDirectory {
+  kind: InstallDirectoryKind;
+  path: string;
+  fileCount: number;
+}
+
+export interface DiscoveredFile {
+  path: string;
+  name: string;
+  kind: InstallDirectoryKind;
+  category: PakCategory;
+}
+
+export interface DiscoveredInstall {
+  game: GameId;
+  directories: DiscoveredDirectory[];
+  // Loadable files in load order
+  files: DiscoveredFile[];
+}
+
+function joinPath(base: string, relative: string): string {
+  const separator = base.includes('\\') ? '\\' : '/';
+  return `${base.replace(/[/\\]+$/, '')}${separator}${relative.split('/').join(separator)}`;
+}
+
+function getExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function getGameDefinition(game: GameId): GameDefinition {
+  return GAME_DEFINITIONS.find(definition => definition.id === game) || GAME_DEFINITIONS[0];
+}
+
+/**
+ * Classify a pak by its file name
+ */
+export function classifyPak(fileName: string): PakCategory {
+  const { baseName, patchNumber } = parsePatchFileName(fileName);
+  if (patchNumber > 0) return 'patch';
+
+  const name = baseName.toLowerCase();
+  if (getExtension(fileName) === 'bsp' || /^(mp|sp)_/.test(name)) return 'map';
+  if (name.startsWith('common')) return 'common';
+  if (name === 'ui' || name.startsWith('ui_')) return 'ui';
+  return 'other';
+}
+
+/**
+ * Sort key within a category, so common_early loads before common and common
+ * before its variants
+ */
+function getCategoryRank(file: DiscoveredFile): number {
+  const name = parsePatchFileName(file.name).baseName.toLowerCase();
+  if (file.category === 'common') {
+    if (name === 'common_early') return 0;
+    if (name === 'common') return 1;
+    return 2;
+  }
+  if (file.category === 'ui') {
+    return name === 'ui' ? 0 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Order files the way the game loads them
+ */
+export function sortByLoadOrder(files: DiscoveredFile[]): DiscoveredFile[] {
+  return [...files].sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category)
+    || getCategoryRank(a) - getCategoryRank(b)
+    || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Guess which game an install root belongs to
+ */
+export async function detectGame(installPath: string): Promise<GameId | null> {
+  for (const definition of GAME_DEFINITIONS) {
+    if (await window.electron.exists(joinPath(installPath, definition.marker))) {
+      return definition.id;
+    }
+  }
+
+  // No executable (e.g. a copied pak tree): fall back to the pak folder layout
+  for (const definition of GAME_DEFINITIONS) {
+    for (const relative of definition.directories.paks) {
+      if (await window.electron.exists(joinPath(installPath, relative))) {
+        return definition.id;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the folders and loadable files of an install
+ */
+export async function discoverInstall(installPath: string, game: GameId): Promise<DiscoveredInstall> {
+  const definition = getGameDefinition(game);
+  const directories: DiscoveredDirectory[] = [];
+  const files: DiscoveredFile[] = [];
+
+  for (const kind of Object.keys(definition.directories) as InstallDirectoryKind[]) {
+    for (const relative of definition.directories[kind]) {
+      const directoryPath = joinPath(installPath, relative);
+      const result = await window.electron.readDir(directoryPath);
+      if (!result.success || !result.data) continue;
+
+      const entries = result.data.filter(entry => !entry.isDirectory);
+      directories.push({ kind, path: directoryPath, fileCount: entries.length });
+
+      for (const entry of entries) {
+        if (LOADABLE_EXTENSIONS[kind].includes(getExtension(entry.name))) {
+          files.push({ path: entry.path, name: entry.name, kind, category: classifyPak(entry.name) });
+        }
+      }
+      break;
+    }
+  }
+
+  return { game, directories, files: sortByLoadOrder(files) };
+}
+
+interface GameProfilesFile {
+  profiles: GameProfile[];
+  activeProfileId: string | null;
+}
+
+class GameProfileStore extends UserDataStore<GameProfilesFile> {
+  private profiles: GameProfile[] = [];
+  private activeProfileId: string | null = null;
+
+  constructor() {
+    super(PROFILES_FILE, 'game profiles', 'GameProfiles');
+  }
+
+  protected applyData(data: Partial<GameProfilesFile>): void {
+    this.profiles = Array.isArray(data.profiles) ? data.profiles : [];
+    this.activeProfileId = data.activeProfileId ?? null;
+  }
+
+  protected getData(): GameProfilesFile {
+    return { profiles: this.profiles, activeProfileId: this.activeProfileId };
+  }
+
+  getProfiles(): GameProfile[] {
+    return this.profiles;
+  }
+
+  getActiveProfile(): GameProfile | null {
+    return this.profiles.find(profile => profile.id === this.activeProfileId) || null;
+  }
+
+  async addProfile(name: string, game: GameId, installPath: string): Promise<GameProfile> {
+    const profile: GameProfile = { id: `${game}-${Date.now().toString(36)}`, name, game, installPath };
+    this.profiles = [...this.profiles, profile];
+    await this.save();
+    return profile;
+  }
+
+  async removeProfile(id: string): Promise<void> {
+    this.profiles = this.profiles.filter(profile => profile.id !== id);
+    if (this.activeProfileId === id) {
+      this.activeProfileId = null;
+    }
+    await this.save();
+  }
+
+  async setActiveProfile(id: string | null): Promise<void> {
+    this.activeProfileId = id;
+    await this.save();
+  }
+}
+
+// Global singleton
+export const gameProfiles = new GameProfileStore();
@@ -0,0 +1,203 @@
+/**
+ * Asset name database
+ * Maps asset GUIDs to names by hashing candidate asset paths with the RTech
+ * GUID algorithm. Name lists (plain text paths or CSV) can be imported and are
+ * persisted under the app's userData folder.
+ */
+
+import { Asset } from '../types/asset';
+import { hashAssetPathToHex } from '../utils/rtechHash';
+
+const DATABASE_FILE = 'asset_names.csv';
+
+// Names the parser gives assets without an embedded name
+const HEX_NAME_REGEX = /^0x[0-9a-f]{16}$/i;
+
+// A GUID column in an imported CSV: 0x-prefixed hex, or exactly 16 hex digits
+const GUID_COLUMN_REGEX = /^(0x[0-9a-f]{1,16}|[0-9a-f]{16})$/i;
+
+function normalizeGuid(guid: string): string {
+  return guid.replace(/^0x/i, '').padStart(16, '0').toUpperCase();
+}
+
+function decodeText(data: unknown): string {
+  if (data instanceof Uint8Array) {
+    return new TextDecoder().decode(data);
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  // Handle serialized buffer object from IPC
+  const values = Object.values(data as Record<string, number>);
+  return new TextDecoder().decode(new Uint8Array(values));
+}
+
+class NameDatabase {
+  private names: Map<string, string> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private dirty = false;
+
+  /**
+   * Number of known names
+   */
+  get size(): number {
+    return this.names.size;
+  }
+
+  private async getDatabasePath(): Promise<string> {
+    const userDataPath = await window.electron.getPath('userData');
+    return `${userDataPath}/${DATABASE_FILE}`;
+  }
+
+  /**
+   * Load the persisted database (only once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const databasePath = await this.getDatabasePath();
+      if (!(await window.electron.exists(databasePath))) {
+        return;
+      }
+
+      const result = await window.electron.readFile(databasePath);
+      if (!result.success || !result.data) {
+        console.warn(`[NameDatabase] Failed to read ${databasePath}: ${result.error}`);
+        return;
+      }
+
+      this.importText(decodeText(result.data));
+      this.dirty = false;
+      console.log(`[NameDatabase] Loaded ${this.names.size} names`);
+    } catch (error) {
+      console.error('[NameDatabase] Failed to load name database:', error);
+    }
+  }
+
+  /**
+   * Write the database to disk if it changed
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const lines: string[] = [];
+    for (const [guid, name] of this.names) {
+      lines.push(`0x${guid},${name}`);
+    }
+
+    const databasePath = await this.getDatabasePath();
+    const result = await window.electron.writeFile(databasePath, new TextEncoder().encode(lines.join('\n')));
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to write name database');
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Hash a path and add it. Returns the GUID it maps to.
+   */
+  addPath(path: string): string {
+    const guid = hashAssetPathToHex(path);
+    this.setName(guid, path);
+    return guid;
+  }
+
+  private setName(guid: string, name: string): void {
+    if (this.names.get(guid) !== name) {
+      this.names.set(guid, name);
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Import a name list. Each line is either an asset path, or a CSV/TSV row with
+   * a GUID column and a name column. Returns the number of names read.
+   */
+  importText(text: string): number {
+    let count = 0;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#') || line.startsWith('//')) continue;
+
+      const columns = line.split(/[,\t;]/).map(c => c.trim().replace(/^"(.*)"$/, '$1')).filter(c => c.length > 0);
+      if (columns.length === 0) continue;
+
+      const guidIndex = columns.length > 1 ? columns.findIndex(c => GUID_COLUMN_REGEX.test(c)) : -1;
+      if (guidIndex >= 0) {
+        const name = columns.find((_, i) => i !== guidIndex);
+        if (name) {
+          this.setName(normalizeGuid(columns[guidIndex]), name);
+          count++;
+        }
+      } else {
+        this.addPath(columns[0]);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Import a name list file and persist the database
+   */
+  async importFile(filePath: string): Promise<number> {
+    await this.load();
+
+    const result = await window.electron.readFile(filePath);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to read ${filePath}`);
+    }
+
+    const count = this.importText(decodeText(result.data));
+    await this.save();
+    console.log(`[NameDatabase] Imported ${count} names from ${filePath}`);
+    return count;
+  }
+
+  /**
+   * Look up the name for a GUID (with or without 0x prefix)
+   */
+  lookup(guid: string): string | undefined {
+    return this.names.get(normalizeGuid(guid));
+  }
+
+  /**
+   * Name assets that only have their hex GUID as a name.
+   * Returns the number of assets that were named.
+   */
+  applyToAssets(assets: Asset[]): number {
+    let count = 0;
+
+    for (const asset of assets) {
+      if (!HEX_NAME_REGEX.test(asset.name)) continue;
+
+      const name = this.names.get(normalizeGuid(asset.guid));
+      if (name) {
+        asset.name = name;
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Remove all names, including the persisted copy
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.names.clear();
+    this.dirty = true;
+    await this.save();
+  }
+}
+
+export const nameDatabase = new NameDatabase();
@@ -0,0 +1,318 @@
+/**
+ * Pak version diff
+ * Compares two builds of an rpak (or two game folders) and reports the assets
+ * that were added, removed or changed. Assets are compared by hashing their
+ * header and page data. Pointer fields are masked out before hashing since they
+ * move whenever anything else in the pak changes. Streamed (starpak) data is
+ * not compared.
+ */
+
+import { ParsedAsset, RpakParser } from '../parsers/rpakParser';
+import { scanPakAssets, readPakForParse } from '../parsers/pakHeaderScanner';
+import { openFileSource } from '../parsers/fileSource';
+import { getLoadedParsers, loadIndexedPaks } from '../stores/assetStore';
+import { parseWorkerPool } from './parseWorkerPool';
+
+export type AssetChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface AssetDiffEntry {
+  guid: string;
+  name: string;
+  type: string;
+  change: AssetChangeType;
+  // Header + page data size; unknown (0) for paks that were only scanned
+  oldSize: number;
+  newSize: number;
+  oldPak?: string;
+  newPak?: string;
+}
+
+export interface TypeDiffSummary {
+  type: string;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  sizeDelta: number;
+}
+
+export interface PakDiffResult {
+  entries: AssetDiffEntry[];
+  byType: TypeDiffSummary[];
+  totalSizeDelta: number;
+  // Paks that exist on only one side (folder diffs)
+  addedPaks: string[];
+  removedPaks: string[];
+}
+
+export type PakDiffProgressCallback = (current: number, total: number, message: string) => void;
+
+interface AssetFingerprint {
+  asset: ParsedAsset;
+  size: number;
+  hash: string;
+}
+
+/**
+ * Per-page sorted offsets, used to find where an asset's data ends and which
+ * bytes are pointers
+ */
+interface PageOffsets {
+  assetStarts: Map<number, number[]>;
+  pointers: Map<number, number[]>;
+}
+
+function addOffset(map: Map<number, number[]>, pageIndex: number, offset: number): void {
+  let list = map.get(pageIndex);
+  if (!list) {
+    list = [];
+    map.set(pageIndex, list);
+  }
+  list.push(offset);
+}
+
+function buildPageOffsets(parser: RpakParser): PageOffsets {
+  const assetStarts = new Map<number, number[]>();
+  const pointers = new Map<number, number[]>();
+
+  for (const asset of parser.getAssets()) {
+    addOffset(assetStarts, asset.headPagePtr.index, asset.headPagePtr.offset);
+    addOffset(assetStarts, asset.dataPagePtr.index, asset.dataPagePtr.offset);
+  }
+  for (const pointer of parser.getRawData().pointers) {
+    addOffset(pointers, pointer.index, pointer.offset);
+  }
+
+  for (const list of assetStarts.values()) list.sort((a, b) => a - b);
+  for (const list of pointers.values()) list.sort((a, b) => a - b);
+
+  return { assetStarts, pointers };
+}
+
+/**
+ * Copy a page range with the pointer fields inside it zeroed
+ */
+function readMasked(page: Uint8Array, pageIndex: number, start: number, end: number, offsets: PageOffsets): Uint8Array {
+  const bytes = page.slice(start, end);
+  for (const pointerOffset of offsets.pointers.get(pageIndex) || []) {
+    if (pointerOffset + 8 <= start) continue;
+    if (pointerOffset >= end) break;
+    const from = Math.max(pointerOffset, start) - start;
+    const to = Math.min(pointerOffset + 8, end) - start;
+    bytes.fill(0, from, to);
+  }
+  return bytes;
+}
+
+async function hashBytes(parts: Uint8Array[]): Promise<string> {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const combined = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    combined.set(part, pos);
+    pos += part.length;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-1', combined);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function fingerprintAsset(parser: RpakParser, asset: ParsedAsset, offsets: PageOffsets): Promise<AssetFingerprint> {
+  const parts: Uint8Array[] = [];
+
+  const headPage = parser.getPageData(asset.headPagePtr.index);
+  if (headPage && headPage.length > 0) {
+    const start = asset.headPagePtr.offset;
+    parts.push(readMasked(headPage, asset.headPagePtr.index, start, Math.min(start + asset.headerSize, headPage.length), offsets));
+  }
+
+  // Page data runs from the data pointer to the next asset's data in the same page
+  const data = parser.getAssetData(asset);
+  if (data && data.length > 0) {
+    const { index, offset } = asset.dataPagePtr;
+    const starts = offsets.assetStarts.get(index) || [];
+    const next = starts.find(start => start > offset);
+    const end = next !== undefined ? Math.min(next, offset + data.length) : offset + data.length;
+    parts.push(readMasked(parser.getPageData(index)!, index, offset, end, offsets));
+  }
+
+  return {
+    asset,
+    size: parts.reduce((sum, part) => sum + part.length, 0),
+    hash: await hashBytes(parts),
+  };
+}
+
+async function fingerprintPak(parser: RpakParser): Promise<Map<string, AssetFingerprint>> {
+  const offsets = buildPageOffsets(parser);
+  const fingerprints = new Map<string, AssetFingerprint>();
+  for (const asset of parser.getAssets()) {
+    fingerprints.set(asset.guid, await fingerprintAsset(parser, asset, offsets));
+  }
+  return fingerprints;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+function summarize(entries: AssetDiffEntry[], addedPaks: string[], removedPaks: string[]): PakDiffResult {
+  const byType = new Map<string, TypeDiffSummary>();
+
+  for (const entry of entries) {
+    let summary = byType.get(entry.type);
+    if (!summary) {
+      summary = { type: entry.type, added: 0, removed: 0, changed: 0, unchanged: 0, sizeDelta: 0 };
+      byType.set(entry.type, summary);
+    }
+    summary[entry.change]++;
+    summary.sizeDelta += entry.newSize - entry.oldSize;
+  }
+
+  const summaries = Array.from(byType.values()).sort((a, b) => a.type.localeCompare(b.type));
+  return {
+    entries,
+    byType: summaries,
+    totalSizeDelta: summaries.reduce((sum, summary) => sum + summary.sizeDelta, 0),
+    addedPaks,
+    removedPaks,
+  };
+}
+
+/**
+ * Compare two parsed builds of a pak
+ */
+export async function diffPakParsers(
+  oldParser: RpakParser,
+  newParser: RpakParser,
+  oldPak: string,
+  newPak: string
+): Promise<AssetDiffEntry[]> {
+  const oldAssets = await fingerprintPak(oldParser);
+  const newAssets = await fingerprintPak(newParser);
+  const entries: AssetDiffEntry[] = [];
+
+  for (const [guid, current] of newAssets) {
+    const previous = oldAssets.get(guid);
+    entries.push({
+      guid,
+      name: current.asset.name,
+      type: current.asset.typeFourCC,
+      change: !previous ? 'added' : previous.hash === current.hash ? 'unchanged' : 'changed',
+      oldSize: previous?.size || 0,
+      newSize: current.size,
+      oldPak: previous ? oldPak : undefined,
+      newPak,
+    });
+  }
+
+  for (const [guid, previous] of oldAssets) {
+    if (newAssets.has(guid)) continue;
+    entries.push({
+      guid,
+      name: previous.asset.name,
+      type: previous.asset.typeFourCC,
+      change: 'removed',
+      oldSize: previous.size,
+      newSize: 0,
+      oldPak,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a pak, reusing the loaded parser when the file is already open
+ */
+async function getParserForFile(filePath: string): Promise<RpakParser> {
+  // Paks listed from the asset index cache are parsed into the store first
+  await loadIndexedPaks([filePath]);
+  const loaded = getLoadedParsers().get(filePath);
+  if (loaded) return loaded;
+
+  const data = await readPakForParse(await openFileSource(filePath));
+  const { parser } = await parseWorkerPool.parse(data, filePath);
+  return parser;
+}
+
+/**
+ * Compare two pak files
+ */
+export async function diffPakFiles(oldPath: string, newPath: string, onProgress?: PakDiffProgressCallback): Promise<PakDiffResult> {
+  onProgress?.(0, 2, `Reading ${getFileName(oldPath)}...`);
+  const oldParser = await getParserForFile(oldPath);
+  onProgress?.(1, 2, `Reading ${getFileName(newPath)}...`);
+  const newParser = await getParserForFile(newPath);
+
+  const entries = await diffPakParsers(oldParser, newParser, oldPath, newPath);
+  onProgress?.(2, 2, 'Done');
+  return summarize(entries, [], []);
+}
+
+/**
+ * List the rpak files of a folder, keyed by lower case file name
+ */
+async function listPaks(folderPath: string): Promise<Map<string, string>> {
+  const result = await window.electron.readDir(folderPath);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `Failed to read ${folderPath}`);
+  }
+
+  const paks = new Map<string, string>();
+  for (const entry of result.data) {
+    if (!entry.isDirectory && entry.name.toLowerCase().endsWith('.rpak')) {
+      paks.set(entry.name.toLowerCase(), entry.path);
+    }
+  }
+  return paks;
+}
+
+/**
+ * Compare two game folders. Paks with the same file name are compared asset by
+ * asset; paks that exist on only one side are scanned for their asset list.
+ */
+export async function diffFolders(oldFolder: string, newFolder: string, onProgress?: PakDiffProgressCallback): Promise<PakDiffResult> {
+  const oldPaks = await listPaks(oldFolder);
+  const newPaks = await listPaks(newFolder);
+  const names = Array.from(new Set([...oldPaks.keys(), ...newPaks.keys()])).sort();
+
+  const entries: AssetDiffEntry[] = [];
+  const addedPaks: string[] = [];
+  const removedPaks: string[] = [];
+
+  for (let i = 0; i < names.length; i++) {
+    const oldPath = oldPaks.get(names[i]);
+    const newPath = newPaks.get(names[i]);
+    onProgress?.(i, names.length, `Comparing ${getFileName((newPath || oldPath)!)}...`);
+
+    try {
+      if (oldPath && newPath) {
+        const oldParser = await getParserForFile(oldPath);
+        const newParser = await getParserForFile(newPath);
+        entries.push(...await diffPakParsers(oldParser, newParser, oldPath, newPath));
+      } else {
+        const pakPath = (newPath || oldPath)!;
+        (newPath ? addedPaks : removedPaks).push(pakPath);
+
+        for (const asset of await scanPakAssets(pakPath)) {
+          entries.push({
+            guid: asset.guid,
+            name: `0x${asset.guid}`,
+            type: asset.typeFourCC,
+            change: newPath ? 'added' : 'removed',
+            oldSize: 0,
+            newSize: 0,
+            oldPak: oldPath,
+            newPak: newPath,
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`[PakDiff] Failed to compare ${names[i]}:`, error);
+    }
+  }
+
+  onProgress?.(names.length, names.length, 'Done');
+  return summarize(entries, addedPaks, removedPaks);
+}
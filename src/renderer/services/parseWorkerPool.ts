@@ -0,0 +1,195 @@
+/**
+ * Parse worker pool
+ * Runs rpak decompression and parsing in web workers so loading large folders
+ * doesn't block the UI. The pool grows on demand up to the parseThreadCount
+ * setting. Falls back to parsing on the renderer thread when workers can't be
+ * created. Workers have no IPC access, so the pool forwards their Oodle
+ * decompression to the DLL in the main process.
+ */
+
+import { parseRPak, ParsedRPak, RpakParser, RPakFileRanges } from '../parsers/rpakParser';
+import { getSettings } from '../stores/settingsStore';
+import { decompressOodleDll } from '../utils/oodleDecompress';
+import type { OodleDecompressRequest, ParseWorkerRequest, ParseWorkerResponse } from '../workers/rpakParse.worker';
+
+/**
+ * Error a parse is rejected with when the load is cancelled
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Load cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+interface ParseTask {
+  id: number;
+  data: ArrayBuffer | RPakFileRanges;
+  filePath: string;
+  signal?: AbortSignal;
+  resolve: (result: { parsed: ParsedRPak; parser: RpakParser }) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Buffers of the pak data to move to the worker
+ */
+function getTransferables(data: ArrayBuffer | RPakFileRanges): ArrayBuffer[] {
+  if (data instanceof ArrayBuffer) {
+    return [data];
+  }
+
+  const buffers = new Set<ArrayBuffer>();
+  for (const range of [data.head, ...data.pages, data.trailing]) {
+    if (range.buffer instanceof ArrayBuffer) {
+      buffers.add(range.buffer);
+    }
+  }
+  return Array.from(buffers);
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: ParseTask | null;
+}
+
+class ParseWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: ParseTask[] = [];
+  private nextTaskId = 1;
+  private workersUnavailable = false;
+
+  /**
+   * Number of workers allowed by the settings
+   */
+  get size(): number {
+    return Math.max(1, Math.floor(getSettings().parseThreadCount) || 1);
+  }
+
+  /**
+   * Parse a pak in a worker. The buffers are transferred to the worker and
+   * can't be used by the caller afterwards. Aborting the signal rejects the parse
+   * with a ParseCancelledError without affecting other parses.
+   */
+  parse(data: ArrayBuffer | RPakFileRanges, filePath: string, signal?: AbortSignal): Promise<{ parsed: ParsedRPak; parser: RpakParser }> {
+    if (signal?.aborted) {
+      return Promise.reject(new ParseCancelledError());
+    }
+    if (this.workersUnavailable || typeof Worker === 'undefined') {
+      return parseRPak(data, filePath);
+    }
+
+    return new Promise((resolve, reject) => {
+      const task: ParseTask = { id: this.nextTaskId++, data, filePath, signal, resolve, reject };
+      signal?.addEventListener('abort', () => this.cancel(task), { once: true });
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Reject a parse, stopping its worker if it is already running
+   */
+  private cancel(task: ParseTask): void {
+    const queueIndex = this.queue.indexOf(task);
+    if (queueIndex >= 0) {
+      this.queue.splice(queueIndex, 1);
+      task.reject(new ParseCancelledError());
+      return;
+    }
+
+    // A running parse can only be stopped by terminating its worker
+    const poolWorker = this.workers.find(w => w.task === task);
+    if (poolWorker) {
+      poolWorker.worker.terminate();
+      this.workers = this.workers.filter(w => w !== poolWorker);
+      task.reject(new ParseCancelledError());
+      this.dispatch();
+    }
+  }
+
+  private createWorker(): PoolWorker | null {
+    if (this.workersUnavailable) return null;
+
+    try {
+      const worker = new Worker(new URL('../workers/rpakParse.worker.ts', import.meta.url), { type: 'module' });
+      const poolWorker: PoolWorker = { worker, task: null };
+
+      worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => this.handleResponse(poolWorker, event.data);
+      worker.onerror = (event: ErrorEvent) => {
+        console.error('[ParseWorkerPool] Worker error:', event.message);
+        poolWorker.task?.reject(new Error(event.message || 'Parse worker failed'));
+        worker.terminate();
+        this.workers = this.workers.filter(w => w !== poolWorker);
+        this.dispatch();
+      };
+
+      this.workers.push(poolWorker);
+      return poolWorker;
+    } catch (error) {
+      console.warn('[ParseWorkerPool] Workers unavailable, parsing on the renderer thread:', error);
+      this.workersUnavailable = true;
+      return null;
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker = this.workers.find(w => !w.task);
+      if (!poolWorker) {
+        if (this.workers.length >= this.size) return;
+        poolWorker = this.createWorker() ?? undefined;
+      }
+
+      const task = this.queue.shift()!;
+      if (!poolWorker) {
+        parseRPak(task.data, task.filePath).then(task.resolve, task.reject);
+        continue;
+      }
+
+      poolWorker.task = task;
+      const request: ParseWorkerRequest = { type: 'parse', id: task.id, data: task.data, filePath: task.filePath };
+      poolWorker.worker.postMessage(request, getTransferables(task.data));
+    }
+  }
+
+  /**
+   * Decompress Oodle data for a worker with the DLL; the worker falls back to
+   * the built-in decoder when the reply has no data
+   */
+  private async handleOodleRequest(poolWorker: PoolWorker, request: OodleDecompressRequest): Promise<void> {
+    const data = await decompressOodleDll(request.data, request.decompressedSize);
+    const reply: ParseWorkerRequest = { type: 'oodle', requestId: request.requestId, data };
+    poolWorker.worker.postMessage(reply, data ? [data.buffer as ArrayBuffer] : []);
+  }
+
+  private handleResponse(poolWorker: PoolWorker, response: ParseWorkerResponse): void {
+    if (response.type === 'oodle') {
+      this.handleOodleRequest(poolWorker, response);
+      return;
+    }
+
+    const task = poolWorker.task;
+    poolWorker.task = null;
+
+    if (task && task.id === response.id) {
+      if (response.success) {
+        const parser = RpakParser.fromState(response.state);
+        task.resolve({ parsed: parser.getParsedRPak(), parser });
+      } else {
+        task.reject(new Error(response.error));
+      }
+    }
+
+    // Shrink the pool if the thread count setting was lowered
+    if (this.workers.length > this.size) {
+      poolWorker.worker.terminate();
+      this.workers = this.workers.filter(w => w !== poolWorker);
+    }
+
+    this.dispatch();
+  }
+}
+
+// Global singleton
+export const parseWorkerPool = new ParseWorkerPool();
@@ -0,0 +1,46 @@
+/**
+ * Saved asset list queries
+ * Persisted under the app's userData folder and listed in the sidebar.
+ */
+
+import { UserDataStore } from './userDataStore';
+
+const QUERIES_FILE = 'saved_queries.json';
+
+interface SavedQueriesFile {
+  queries: string[];
+}
+
+class SavedQueryStore extends UserDataStore<SavedQueriesFile> {
+  private queries: string[] = [];
+
+  constructor() {
+    super(QUERIES_FILE, 'saved queries', 'SavedQueries');
+  }
+
+  protected applyData(data: Partial<SavedQueriesFile>): void {
+    this.queries = Array.isArray(data.queries) ? data.queries : [];
+  }
+
+  protected getData(): SavedQueriesFile {
+    return { queries: this.queries };
+  }
+
+  getQueries(): string[] {
+    return this.queries;
+  }
+
+  async addQuery(query: string): Promise<void> {
+    if (this.queries.includes(query)) return;
+    this.queries = [...this.queries, query];
+    await this.save();
+  }
+
+  async removeQuery(query: string): Promise<void> {
+    this.queries = this.queries.filter(saved => saved !== query);
+    await this.save();
+  }
+}
+
+// Global singleton
+export const savedQueries = new SavedQueryStore();
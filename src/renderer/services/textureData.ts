@@ -0,0 +1,199 @@
+/**
+ * Texture data reader
+ * Parses a texture asset's header and assembles the pixel data of all its
+ * mips: streamed mips from the starpaks, then permanent mips from the pak's
+ * data pages.
+ */
+
+import { Asset } from '../types/asset';
+import { RpakParser } from '../parsers/rpakParser';
+import { parseTextureHeader, TextureAssetHeader, calculateMipSize } from '../parsers/textureParser';
+import { loadTextureMipFromStarpak } from '../parsers/starpakLoader';
+
+export interface TextureData {
+  header: TextureAssetHeader;
+  pixelData: Uint8Array;
+  starpakOffset: bigint;
+  optStarpakOffset: bigint;
+  rpakPath: string;
+}
+
+/**
+ * Read a texture's header and pixel data
+ * @param rpakPath Path of the pak holding the texture, used for starpak lookups
+ * @param parser Parser of that pak; without it only the header is returned
+ */
+export async function readTextureData(asset: Asset, rpakPath: string | null, parser: RpakParser | null): Promise<TextureData | null> {
+  if (asset.type !== 'txtr') return null;
+  
+  const metadata = asset.metadata || {};
+  let headerData = metadata.headerData;
+  
+  // Convert headerData to Uint8Array if needed (it may be serialized as an object)
+  if (headerData && !(headerData instanceof Uint8Array)) {
+    if (Array.isArray(headerData)) {
+      headerData = new Uint8Array(headerData);
+    } else if (typeof headerData === 'object') {
+      const values = Object.values(headerData as Record<string, number>);
+      headerData = new Uint8Array(values);
+    }
+  }
+  
+  if (!headerData || !(headerData instanceof Uint8Array)) {
+    return null;
+  }
+  
+  // Get starpak offsets from metadata
+  let starpakOffset = 0n;
+  let optStarpakOffset = 0n;
+  
+  if (metadata.starpakOffset !== undefined && metadata.starpakOffset !== null) {
+    try {
+      starpakOffset = BigInt(metadata.starpakOffset as string | number | bigint);
+    } catch {
+      starpakOffset = 0n;
+    }
+  }
+  if (metadata.optStarpakOffset !== undefined && metadata.optStarpakOffset !== null) {
+    try {
+      optStarpakOffset = BigInt(metadata.optStarpakOffset as string | number | bigint);
+    } catch {
+      optStarpakOffset = 0n;
+    }
+  }
+  
+  // Parse the texture header - pass the asset version for correct header parsing
+  const assetVersion = metadata.version as number || asset.version || 8;
+  
+  const header = parseTextureHeader({
+    headerData: headerData as Uint8Array,
+    guid: asset.guid,
+    type: 0,
+    typeFourCC: 'txtr',
+    typeName: 'Texture',
+    version: assetVersion,
+    name: asset.name,
+    headerSize: headerData.length,
+    headPagePtr: metadata.headPagePtr as { index: number; offset: number } || { index: 0, offset: 0 },
+    dataPagePtr: metadata.dataPagePtr as { index: number; offset: number } || { index: 0, offset: 0 },
+    starpakOffset: starpakOffset,
+    optStarpakOffset: optStarpakOffset,
+    pageEnd: 0,
+    dependentsCount: 0,
+    dependenciesCount: 0,
+  });
+  
+  if (!header) {
+    return null;
+  }
+  
+  // Pixel data comes from the parser of the pak holding the texture
+  if (!rpakPath) return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath: '' };
+  if (!parser) {
+    return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath };
+  }
+  
+  // Get the data page pointer from metadata
+  const dataPtr = metadata.dataPagePtr as { index: number; offset: number };
+  
+  if (!dataPtr) return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath };
+  
+  // Calculate mip layout
+  const totalStreamedMips = header.streamedMipCount + header.optStreamedMipCount;
+  const totalMips = header.mipCount;
+  const permanentMips = header.permanentMipCount;
+  
+  // Collect all mip data (streaming + permanent)
+  const mipDataArray: Uint8Array[] = [];
+  
+  // First, try to load streaming mips from starpaks (mips 0 to totalStreamedMips-1)
+  // These are in order: opt starpak mips first, then regular starpak mips
+  for (let mip = 0; mip < totalStreamedMips; mip++) {
+    // Determine if this mip is in opt starpak or regular starpak
+    const isOptMip = mip < header.optStreamedMipCount;
+    const mipOffset = isOptMip ? optStarpakOffset : starpakOffset;
+    
+    if (mipOffset === 0n || mipOffset === -1n) {
+      // No streaming data for this mip, add empty placeholder or skip
+      const mipSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
+      mipDataArray.push(new Uint8Array(mipSize)); // Empty placeholder
+      continue;
+    }
+    
+    // Build header info for starpak loader
+    const starpakHeader = {
+      width: header.width,
+      height: header.height,
+      format: header.format,
+      mipCount: header.mipCount,
+      optStreamedMipCount: header.optStreamedMipCount,
+      streamedMipCount: header.streamedMipCount,
+      compTypePacked: 0, // Assume uncompressed for now
+      compressedBytes: [0, 0, 0, 0, 0, 0, 0],
+      arraySize: header.arraySize,
+    };
+    
+    try {
+      const mipResult = await loadTextureMipFromStarpak(
+        mipOffset,
+        mip,
+        starpakHeader,
+        isOptMip,
+        rpakPath
+      );
+      
+      if (mipResult && mipResult.data.length > 0) {
+        mipDataArray.push(mipResult.data);
+      } else {
+        // Failed to load, add empty placeholder
+        const mipSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
+        mipDataArray.push(new Uint8Array(mipSize));
+      }
+    } catch (err) {
+      console.warn(`[TextureData] Failed to load streaming mip ${mip}:`, err);
+      const mipSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
+      mipDataArray.push(new Uint8Array(mipSize));
+    }
+  }
+  
+  // Then load permanent mips from rpak pages
+  if (permanentMips > 0) {
+    // Calculate total size for all non-streamed (permanent) mips
+    let pixelDataSize = 0;
+    for (let mip = totalStreamedMips; mip < totalMips; mip++) {
+      const mipSize = calculateMipSize(header.width, header.height, header.format, mip, header.arraySize);
+      pixelDataSize += mipSize;
+    }
+    
+    if (pixelDataSize > 0) {
+      // Read pixel data from the data page
+      const pageData = parser.getPageData(dataPtr.index);
+      
+      if (pageData) {
+        const offset = dataPtr.offset;
+        let actualSize = pixelDataSize;
+        
+        if (offset + pixelDataSize > pageData.length) {
+          // Data extends beyond page, just get what we can
+          actualSize = Math.min(pixelDataSize, pageData.length - offset);
+        }
+        
+        if (actualSize > 0) {
+          const permanentData = pageData.slice(offset, offset + actualSize);
+          mipDataArray.push(permanentData);
+        }
+      }
+    }
+  }
+  
+  // Combine all mip data into a single buffer
+  const totalSize = mipDataArray.reduce((sum, arr) => sum + arr.length, 0);
+  const pixelData = new Uint8Array(totalSize);
+  let writeOffset = 0;
+  for (const mipData of mipDataArray) {
+    pixelData.set(mipData, writeOffset);
+    writeOffset += mipData.length;
+  }
+  
+  return { header, pixelData, starpakOffset, optStarpakOffset, rpakPath };
+}
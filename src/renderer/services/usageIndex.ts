@@ -0,0 +1,210 @@
+/**
+ * Reverse dependency ("used by") index
+ * Maps each asset GUID to the assets that use it, across every loaded rpak.
+ * Built from the paks' dependency and dependents tables, plus references found
+ * in asset content: material textures, model materials and datatable asset columns.
+ */
+
+import { ParsedAsset, RpakParser } from '../parsers/rpakParser';
+import { parseMaterialAsset } from '../parsers/materialParser';
+import { parseStudioHeader } from '../parsers/modelParser';
+import { parseDatatable, DatatableColumnType } from '../parsers/datatableParser';
+import { getLoadedParsers } from '../stores/assetStore';
+import { BinaryReader } from '../utils/binaryUtils';
+import { hashAssetPathToHex } from '../utils/rtechHash';
+
+// How the user references the asset
+export type UsageKind = 'dependency' | 'texture' | 'material' | 'datatable';
+
+export interface AssetUsage {
+  // GUID of the asset that uses the indexed asset
+  guid: string;
+  kind: UsageKind;
+}
+
+function normalizeGuid(guid: string): string {
+  return guid.replace(/^0x/i, '').padStart(16, '0').toUpperCase();
+}
+
+function guidToHex(guid: bigint): string {
+  return guid.toString(16).padStart(16, '0').toUpperCase();
+}
+
+// Time to spend indexing before yielding to the UI
+const SLICE_BUDGET_MS = 12;
+
+// Users of each asset GUID, from one pak
+type PakUsers = Map<string, AssetUsage[]>;
+
+class UsageIndex {
+  private pakUsers: Map<RpakParser, PakUsers> = new Map();
+  private indexedParsers: RpakParser[] = [];
+  private building: Promise<void> | null = null;
+
+  /**
+   * Whether every loaded pak is indexed
+   */
+  isCurrent(): boolean {
+    const current = Array.from(getLoadedParsers().values());
+    return !this.building && current.length === this.indexedParsers.length
+      && current.every((parser, i) => parser === this.indexedParsers[i]);
+  }
+
+  /**
+   * Index the paks loaded since the last sync and drop the unloaded ones
+   */
+  async sync(): Promise<void> {
+    if (this.building) {
+      return this.building;
+    }
+    if (this.isCurrent()) {
+      return;
+    }
+
+    this.building = this.build().finally(() => {
+      this.building = null;
+    });
+    return this.building;
+  }
+
+  private async build(): Promise<void> {
+    // Paks loaded while this runs are picked up by the next sync
+    const current = Array.from(getLoadedParsers());
+    const currentParsers = current.map(([, parser]) => parser);
+    for (const parser of this.pakUsers.keys()) {
+      if (!currentParsers.includes(parser)) this.pakUsers.delete(parser);
+    }
+
+    for (const [filePath, parser] of current) {
+      if (!this.pakUsers.has(parser)) {
+        this.pakUsers.set(parser, await this.indexPak(parser, filePath));
+      }
+    }
+    this.indexedParsers = currentParsers;
+  }
+
+  private async indexPak(parser: RpakParser, filePath: string): Promise<PakUsers> {
+    const users: PakUsers = new Map();
+    const startTime = performance.now();
+    const seen = new Set<string>();
+
+    const addUsage = (usedGuid: string, userGuid: string, kind: UsageKind) => {
+      if (usedGuid === userGuid) return;
+
+      const key = `${usedGuid}:${userGuid}:${kind}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      let list = users.get(usedGuid);
+      if (!list) {
+        list = [];
+        users.set(usedGuid, list);
+      }
+      list.push({ guid: userGuid, kind });
+    };
+
+    let sliceStart = performance.now();
+    for (const asset of parser.getAssets()) {
+      for (const dep of parser.getAssetDependencies(asset)) {
+        addUsage(dep.guid, asset.guid, 'dependency');
+      }
+
+      for (const dependent of parser.getAssetDependents(asset)) {
+        addUsage(asset.guid, dependent.guid, 'dependency');
+      }
+
+      try {
+        for (const ref of this.getContentReferences(parser, asset)) {
+          addUsage(ref.guid, asset.guid, ref.kind);
+        }
+      } catch (error) {
+        console.warn(`[UsageIndex] Failed to read references of ${asset.guid}:`, error);
+      }
+
+      if (performance.now() - sliceStart > SLICE_BUDGET_MS) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        sliceStart = performance.now();
+      }
+    }
+
+    console.log(`[UsageIndex] Indexed users of ${users.size} assets in ${filePath.split(/[/\\]/).pop()} in ${(performance.now() - startTime).toFixed(0)}ms`);
+    return users;
+  }
+
+  /**
+   * Find the GUIDs an asset references in its content
+   */
+  getContentReferences(parser: RpakParser, asset: ParsedAsset): AssetUsage[] {
+    if (!asset.headerData) return [];
+
+    const getPageData = (pageIndex: number) => parser.getPageData(pageIndex);
+
+    switch (asset.typeFourCC) {
+      case 'matl': {
+        const material = parseMaterialAsset(asset, getPageData);
+        return (material?.textures || [])
+          .filter(texture => texture.guid !== 0n)
+          .map(texture => ({ guid: guidToHex(texture.guid), kind: 'texture' as const }));
+      }
+
+      case 'mdl_': {
+        // The first header pointer is the studiohdr
+        if (asset.headerData.length < 8) return [];
+        const headerReader = new BinaryReader(asset.headerData);
+        const pageIndex = headerReader.readUint32();
+        const pageOffset = headerReader.readUint32();
+
+        const pageData = parser.getPageData(pageIndex);
+        if (!pageData || pageOffset >= pageData.length) return [];
+
+        const model = parseStudioHeader(pageData.subarray(pageOffset), asset.version || 9);
+        return (model?.materialGUIDs || [])
+          .filter(guid => guid !== 0n)
+          .map(guid => ({ guid: guidToHex(guid), kind: 'material' as const }));
+      }
+
+      case 'dtbl': {
+        const datatable = parseDatatable(asset.headerData, asset.version || 0, parser.getLayout().header.createdTime, getPageData);
+        if (!datatable) return [];
+
+        // Asset columns hold asset paths, which hash to the GUID
+        const refs: AssetUsage[] = [];
+        datatable.columns.forEach((column, columnIndex) => {
+          if (column.type !== DatatableColumnType.Asset && column.type !== DatatableColumnType.AssetNoPrecache) return;
+
+          for (const row of datatable.rows) {
+            const value = row.values[columnIndex];
+            if (typeof value === 'string' && value.length > 0) {
+              refs.push({ guid: hashAssetPathToHex(value), kind: 'datatable' });
+            }
+          }
+        });
+        return refs;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Get the assets that use an asset, from the paks indexed by the last sync
+   */
+  getUsers(guid: string): AssetUsage[] {
+    const key = normalizeGuid(guid);
+    const result: AssetUsage[] = [];
+    const seen = new Set<string>();
+
+    for (const parser of getLoadedParsers().values()) {
+      for (const usage of this.pakUsers.get(parser)?.get(key) || []) {
+        const usageKey = `${usage.guid}:${usage.kind}`;
+        if (seen.has(usageKey)) continue;
+        seen.add(usageKey);
+        result.push(usage);
+      }
+    }
+    return result;
+  }
+}
+
+export const usageIndex = new UsageIndex();
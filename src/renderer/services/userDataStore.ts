@@ -0,0 +1,74 @@
+/**
+ * Base for stores persisted as one JSON file under the app's userData folder.
+ * The file is read once on the first load() and rewritten on every save().
+ */
+
+import { toUint8Array } from '../parsers/fileSource';
+
+export abstract class UserDataStore<T extends object> {
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * @param fileName File name under the userData folder
+   * @param description What the file holds, for log and error messages (e.g. 'game profiles')
+   * @param logPrefix Log prefix without brackets (e.g. 'GameProfiles')
+   */
+  constructor(private fileName: string, private description: string, private logPrefix: string) {}
+
+  /**
+   * Take the data read from the file; fields may be missing or malformed
+   */
+  protected abstract applyData(data: Partial<T>): void;
+
+  /**
+   * The data to write to the file
+   */
+  protected abstract getData(): T;
+
+  /**
+   * Called once the file has been read, or found missing or unreadable
+   */
+  protected async onLoaded(): Promise<void> {}
+
+  private async getFilePath(): Promise<string> {
+    const userDataPath = await window.electron.getPath('userData');
+    return `${userDataPath}/${this.fileName}`;
+  }
+
+  /**
+   * Load the persisted data (only once)
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk().then(() => this.onLoaded());
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const filePath = await this.getFilePath();
+      if (!(await window.electron.exists(filePath))) {
+        return;
+      }
+
+      const result = await window.electron.readFile(filePath);
+      if (!result.success || !result.data) {
+        console.warn(`[${this.logPrefix}] Failed to read ${filePath}: ${result.error}`);
+        return;
+      }
+
+      this.applyData(JSON.parse(new TextDecoder().decode(toUint8Array(result.data))));
+    } catch (error) {
+      console.error(`[${this.logPrefix}] Failed to load ${this.description}:`, error);
+    }
+  }
+
+  protected async save(): Promise<void> {
+    const text = JSON.stringify(this.getData(), null, 2);
+    const result = await window.electron.writeFile(await this.getFilePath(), new TextEncoder().encode(text));
+    if (!result.success) {
+      throw new Error(result.error || `Failed to write ${this.description}`);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Workspace sessions
+ * Named snapshots of the loaded files, selection, asset list filters, preview
+ * and export dialog choices, persisted under the app's userData folder. The
+ * workspace is also snapshotted as it changes so it can be restored on launch.
+ */
+
+import { UserDataStore } from './userDataStore';
+import { WorkspaceState, defaultWorkspace } from '../stores/workspaceStore';
+
+const SESSIONS_FILE = 'workspace_sessions.json';
+
+// Sessions listed under File > Recent Sessions
+const MAX_RECENT_SESSIONS = 10;
+
+export interface WorkspaceSession extends WorkspaceState {
+  name: string;
+  // ISO timestamp of when the session was last saved or opened
+  lastUsedAt: string;
+  loadedFiles: string[];
+  selectedGuid: string | null;
+}
+
+/**
+ * Fill in fields missing from sessions saved by older versions
+ */
+function normalizeSession(session: WorkspaceSession): WorkspaceSession {
+  return {
+    ...defaultWorkspace,
+    ...session,
+    loadedFiles: Array.isArray(session.loadedFiles) ? session.loadedFiles : [],
+    selectedGuid: session.selectedGuid || null,
+    lastUsedAt: session.lastUsedAt || '',
+    exportChoices: { ...defaultWorkspace.exportChoices, ...session.exportChoices },
+  };
+}
+
+interface WorkspaceSessionsFile {
+  lastSession: WorkspaceSession | null;
+  sessions: WorkspaceSession[];
+}
+
+class WorkspaceSessionStore extends UserDataStore<WorkspaceSessionsFile> {
+  private sessions: WorkspaceSession[] = [];
+  private lastSession: WorkspaceSession | null = null;
+
+  constructor() {
+    super(SESSIONS_FILE, 'workspace sessions', 'Sessions');
+  }
+
+  protected applyData(data: Partial<WorkspaceSessionsFile>): void {
+    this.sessions = Array.isArray(data.sessions) ? data.sessions.map(normalizeSession) : [];
+    this.lastSession = data.lastSession ? normalizeSession(data.lastSession) : null;
+  }
+
+  protected getData(): WorkspaceSessionsFile {
+    return { lastSession: this.lastSession, sessions: this.sessions };
+  }
+
+  protected onLoaded(): Promise<void> {
+    return this.updateRecentMenu();
+  }
+
+  private async updateRecentMenu(): Promise<void> {
+    const names = this.getSessions().slice(0, MAX_RECENT_SESSIONS).map(session => session.name);
+    await window.electron.setRecentSessions(names);
+  }
+
+  /**
+   * Named sessions, most recently used first
+   */
+  getSessions(): WorkspaceSession[] {
+    return [...this.sessions].sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  getSession(name: string): WorkspaceSession | null {
+    return this.sessions.find(session => session.name === name) || null;
+  }
+
+  /**
+   * The workspace as it was when the app was last used
+   */
+  getLastSession(): WorkspaceSession | null {
+    return this.lastSession;
+  }
+
+  /**
+   * Save a named session, replacing any session with the same name
+   */
+  async saveSession(session: WorkspaceSession): Promise<void> {
+    this.sessions = [...this.sessions.filter(saved => saved.name !== session.name), session];
+    await this.save();
+    await this.updateRecentMenu();
+  }
+
+  async removeSession(name: string): Promise<void> {
+    this.sessions = this.sessions.filter(session => session.name !== name);
+    await this.save();
+    await this.updateRecentMenu();
+  }
+
+  /**
+   * Mark a named session as used so it moves to the top of the recent list
+   */
+  async touchSession(name: string): Promise<void> {
+    const session = this.getSession(name);
+    if (session) {
+      await this.saveSession({ ...session, lastUsedAt: new Date().toISOString() });
+    }
+  }
+
+  async setLastSession(session: WorkspaceSession): Promise<void> {
+    this.lastSession = session;
+    await this.save();
+  }
+}
+
+// Global singleton
+export const workspaceSessions = new WorkspaceSessionStore();
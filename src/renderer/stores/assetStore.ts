@@ -1,13 +1,40 @@
 import { create } from 'zustand';
-import { Asset, AssetType } from '../types/asset';
-import { loadFile } from '../parsers/fileLoader';
+import { Asset, AssetType, ContentLocation } from '../types/asset';
+import { loadFile, LoadResult } from '../parsers/fileLoader';
+import { parsePatchFileName } from '../parsers/patchChain';
 import { ParsedRPak, RpakParser, ParsedAsset } from '../parsers/rpakParser';
-import { parseTextureHeader, TextureAssetHeader, calculateMipSize, BytesPerPixel, isBlockCompressed, MipType, getMipType } from '../parsers/textureParser';
-import { starpakManager, loadTextureMipFromStarpak } from '../parsers/starpakLoader';
+import { TextureAssetHeader } from '../parsers/textureParser';
+import { starpakManager } from '../parsers/starpakLoader';
+import { nameDatabase } from '../services/nameDatabase';
+import { parseWorkerPool } from '../services/parseWorkerPool';
+import { readTextureData, TextureData } from '../services/textureData';
 
 // Store parsed RPaks for data access
 const parsedRPakCache: Map<string, RpakParser> = new Map();
 
+/**
+ * Get the parsers of all loaded rpak files, keyed by file path
+ */
+export function getLoadedParsers(): ReadonlyMap<string, RpakParser> {
+  return parsedRPakCache;
+}
+
+interface ActiveLoad {
+  cancelled: boolean;
+  // Cancels the parses of this load only
+  abortController: AbortController;
+  // Settles once the load has merged its results and finished
+  finished: Promise<void>;
+}
+
+// The load cancelLoad stops
+let activeLoad: ActiveLoad | null = null;
+
+// Paks listed from the asset index cache and not parsed yet: every file of
+// the patch chain maps to the path the chain was loaded with
+const indexOnlyPaks: Map<string, string> = new Map();
+const pendingPakLoads: Map<string, Promise<boolean>> = new Map();
+
 interface AssetState {
   // Loaded files
   loadedFiles: string[];
@@ -18,6 +45,9 @@ interface AssetState {
   // Selection state
   selectedAsset: Asset | null;
   selectedAssets: Set<string>; // Set of GUIDs
+
+  // Part of the selected asset to scroll to, set by content search
+  revealedLocation: ContentLocation | null;
   
   // Statistics
   assetStats: Record<string, number>;
@@ -30,11 +60,16 @@ interface AssetState {
   // Actions
   loadFiles: (filePaths: string[]) => Promise<void>;
   loadFolder: (folderPath: string) => Promise<void>;
+  cancelLoad: () => void;
+  replaceWorkingSet: (filePaths: string[]) => Promise<void>;
+  unloadFile: (filePath: string) => void;
   selectAsset: (asset: Asset | null) => void;
+  revealAsset: (asset: Asset, location: ContentLocation) => void;
   toggleAssetSelection: (guid: string) => void;
   clearSelection: () => void;
   clearAll: () => void;
   setStatus: (status: string, progress?: number | null) => void;
+  applyNameDatabase: () => void;
   getTextureData: (asset: Asset) => Promise<{ 
     header: TextureAssetHeader; 
     pixelData: Uint8Array;
@@ -43,6 +78,7 @@ interface AssetState {
     rpakPath: string;
   } | null>;
   getParser: (containerFile: string) => RpakParser | null;
+  ensureAssetData: (assets: Asset[]) => Promise<Asset[]>;
 }
 
 // Create a simple reactive store (mimicking zustand without the dependency for now)
@@ -83,19 +119,26 @@ let globalState: AssetState = {
   assets: [],
   selectedAsset: null,
   selectedAssets: new Set(),
+  revealedLocation: null,
   assetStats: {},
   status: 'Ready',
   progress: null,
   isLoading: false,
   loadFiles: async () => {},
   loadFolder: async () => {},
+  cancelLoad: () => {},
+  replaceWorkingSet: async () => {},
+  unloadFile: () => {},
   selectAsset: () => {},
+  revealAsset: () => {},
   toggleAssetSelection: () => {},
   clearSelection: () => {},
   clearAll: () => {},
   setStatus: () => {},
+  applyNameDatabase: () => {},
   getTextureData: async () => null,
   getParser: () => null,
+  ensureAssetData: async (assets) => assets,
 };
 
 const listeners = new Set<() => void>();
@@ -104,6 +147,203 @@ function notifyListeners() {
   listeners.forEach((listener) => listener());
 }
 
+function getAssetKey(asset: Asset): string {
+  return `${asset.containerPath ?? asset.containerFile}:${asset.guid}`;
+}
+
+function getFileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+/**
+ * Key shared by every member of an rpak patch chain; other files are their own chain
+ */
+function getChainKey(filePath: string): string {
+  const fileName = getFileName(filePath);
+  if (!fileName.toLowerCase().endsWith('.rpak')) {
+    return filePath.toLowerCase();
+  }
+  const dir = filePath.substring(0, filePath.length - fileName.length);
+  return (dir + parsePatchFileName(fileName).baseName).toLowerCase();
+}
+
+/**
+ * Get the loaded assets outside of React components
+ */
+export function getLoadedAssets(): Asset[] {
+  return globalState.assets;
+}
+
+/**
+ * Approximate memory held by each loaded file: its parser's page data plus
+ * the header and page copies kept in its assets' metadata. Buffers shared
+ * between the two are only counted once.
+ */
+export function getFileMemoryUsage(): Map<string, number> {
+  const usage = new Map<string, number>();
+  const counted = new Set<ArrayBufferLike>();
+
+  for (const filePath of globalState.loadedFiles) {
+    const parser = parsedRPakCache.get(filePath);
+    usage.set(filePath, parser ? parser.getMemoryUsage(counted) : 0);
+  }
+
+  for (const asset of globalState.assets) {
+    const filePath = findAssetFile(asset);
+    if (!filePath || !asset.metadata) continue;
+
+    let bytes = 0;
+    for (const value of Object.values(asset.metadata)) {
+      if (value instanceof Uint8Array && !counted.has(value.buffer)) {
+        counted.add(value.buffer);
+        bytes += value.buffer.byteLength;
+      }
+    }
+    usage.set(filePath, (usage.get(filePath) || 0) + bytes);
+  }
+
+  return usage;
+}
+
+/**
+ * Record the loaded file each asset came from
+ * @param filePaths The loaded file and the other members of its patch chain
+ */
+function setContainerPaths(assets: Asset[], filePaths: string[]): void {
+  const pathsByName = new Map(filePaths.map(filePath => [getFileName(filePath), filePath]));
+  for (const asset of assets) {
+    asset.containerPath = pathsByName.get(asset.containerFile) ?? filePaths[0];
+  }
+}
+
+/**
+ * Find the loaded file path of an asset, by its container path when it has one
+ */
+export function findAssetFile(asset: Asset): string | undefined {
+  if (asset.containerPath && globalState.loadedFiles.includes(asset.containerPath)) {
+    return asset.containerPath;
+  }
+  return findLoadedFile(asset.containerFile);
+}
+
+/**
+ * Find the loaded file path of an asset's container
+ */
+function findLoadedFile(containerFile: string): string | undefined {
+  for (const filePath of globalState.loadedFiles) {
+    if (filePath.includes(containerFile) || filePath.endsWith(containerFile)) {
+      return filePath;
+    }
+  }
+
+  // Try to find by just the filename
+  return globalState.loadedFiles.find(f => f.split(/[/\\]/).pop() === containerFile);
+}
+
+/**
+ * Parse a pak that was listed from the asset index cache and swap its cached
+ * assets for fully loaded ones
+ */
+function loadIndexedPak(loadPath: string): Promise<boolean> {
+  let pending = pendingPakLoads.get(loadPath);
+  if (!pending) {
+    pending = parseIndexedPak(loadPath).finally(() => pendingPakLoads.delete(loadPath));
+    pendingPakLoads.set(loadPath, pending);
+  }
+  return pending;
+}
+
+/**
+ * Whether any loaded pak was listed from the asset index cache and not parsed yet
+ */
+export function hasIndexedPaks(): boolean {
+  return indexOnlyPaks.size > 0;
+}
+
+/**
+ * Parse paks listed from the asset index cache, for features that read the
+ * parsers of the loaded paks. Parses every such pak when no paths are given.
+ * @returns Whether any pak was parsed
+ */
+export async function loadIndexedPaks(filePaths?: string[]): Promise<boolean> {
+  const loadPaths = new Set<string>();
+  for (const filePath of filePaths || indexOnlyPaks.keys()) {
+    const loadPath = indexOnlyPaks.get(filePath);
+    if (loadPath) {
+      loadPaths.add(loadPath);
+    }
+  }
+
+  const results = await Promise.all(Array.from(loadPaths, loadPath => loadIndexedPak(loadPath)));
+  return results.some(Boolean);
+}
+
+/**
+ * Parse the paks listed from the asset index cache that hold any of the given assets
+ * @returns Whether any pak was parsed
+ */
+export async function loadIndexedPaksWithAssets(guids: string[]): Promise<boolean> {
+  if (indexOnlyPaks.size === 0) return false;
+
+  const wanted = new Set(guids);
+  const filePaths = new Set<string>();
+  for (const asset of globalState.assets) {
+    if (wanted.has(asset.guid)) {
+      const filePath = findAssetFile(asset);
+      if (filePath && indexOnlyPaks.has(filePath)) {
+        filePaths.add(filePath);
+      }
+    }
+  }
+  return filePaths.size > 0 ? loadIndexedPaks(Array.from(filePaths)) : false;
+}
+
+async function parseIndexedPak(loadPath: string): Promise<boolean> {
+  const fileName = loadPath.split(/[/\\]/).pop();
+  globalState = {
+    ...globalState,
+    status: `Loading data for ${fileName}...`,
+  };
+  notifyListeners();
+
+  const result = await loadFile(loadPath, { useIndexCache: false });
+  if (!result.success) {
+    globalState = {
+      ...globalState,
+      status: `Failed to load ${fileName}: ${result.error}`,
+    };
+    notifyListeners();
+    return false;
+  }
+
+  const chainPaths = result.patchChain || [loadPath];
+  for (const chainPath of chainPaths) {
+    indexOnlyPaks.delete(chainPath);
+    const chainParser = result.chainParsers?.get(chainPath);
+    if (chainParser) {
+      parsedRPakCache.set(chainPath, chainParser);
+    }
+  }
+  if (result.rpakParser) {
+    parsedRPakCache.set(loadPath, result.rpakParser);
+  }
+
+  // Keep the list order; only the asset objects are replaced
+  setContainerPaths(result.assets, [loadPath, ...chainPaths]);
+  const loadedAssets = new Map(result.assets.map(asset => [getAssetKey(asset), asset]));
+  const assets = globalState.assets.map(asset => loadedAssets.get(getAssetKey(asset)) || asset);
+
+  const selected = globalState.selectedAsset;
+  globalState = {
+    ...globalState,
+    assets,
+    selectedAsset: selected ? loadedAssets.get(getAssetKey(selected)) || selected : null,
+    status: `Loaded data for ${fileName}`,
+  };
+  notifyListeners();
+  return true;
+}
+
 export function useAssetStore(): AssetState {
   const [, forceUpdate] = useState({});
   
@@ -115,6 +355,14 @@ export function useAssetStore(): AssetState {
   });
 
   const loadFiles = useCallback(async (filePaths: string[]) => {
+    let finish!: () => void;
+    const load: ActiveLoad = {
+      cancelled: false,
+      abortController: new AbortController(),
+      finished: new Promise(resolve => { finish = resolve; }),
+    };
+    activeLoad = load;
+
     globalState = {
       ...globalState,
       isLoading: true,
@@ -128,41 +376,92 @@ export function useAssetStore(): AssetState {
       const newAssets = [...globalState.assets];
       const warnings: string[] = [];
 
-      for (let i = 0; i < filePaths.length; i++) {
-        const filePath = filePaths[i];
-        
-        if (!newFiles.includes(filePath)) {
-          newFiles.push(filePath);
-          
-          // Parse the file using the file loader
-          const result = await loadFile(filePath);
-          
-          if (result.success) {
-            // Use for loop instead of spread to avoid stack overflow with large arrays
-            for (const asset of result.assets) {
-              newAssets.push(asset);
+      // Loading any member of a patch chain brings in the whole chain, so
+      // only the first member of each chain is queued
+      const queued: string[] = [];
+      const queuedChains = new Set<string>();
+      for (const filePath of filePaths) {
+        if (newFiles.includes(filePath) || queued.includes(filePath)) continue;
+
+        const chainKey = getChainKey(filePath);
+        if (queuedChains.has(chainKey)) continue;
+        queuedChains.add(chainKey);
+        queued.push(filePath);
+      }
+
+      // Files are loaded in parallel, bounded by the parse thread count;
+      // results are merged in input order afterwards
+      const results: (LoadResult | undefined)[] = new Array(queued.length);
+      let nextIndex = 0;
+      let completed = 0;
+
+      const runNext = async (): Promise<void> => {
+        while (!load.cancelled && nextIndex < queued.length) {
+          const index = nextIndex++;
+          const filePath = queued[index];
+          const result = await loadFile(filePath, { signal: load.abortController.signal });
+          if (load.cancelled) return;
+
+          results[index] = result;
+          completed++;
+          globalState = {
+            ...globalState,
+            progress: (completed / queued.length) * 100,
+            status: `Loading ${filePath.split(/[/\\]/).pop()} (${completed}/${queued.length})...`,
+          };
+          notifyListeners();
+        }
+      };
+
+      const concurrency = Math.min(parseWorkerPool.size, queued.length);
+      await Promise.all(Array.from({ length: concurrency }, () => runNext()));
+
+      let indexedCount = 0;
+      for (let i = 0; i < queued.length; i++) {
+        const filePath = queued[i];
+        const result = results[i];
+        if (!result) continue;
+
+        newFiles.push(filePath);
+        if (result.success) {
+          setContainerPaths(result.assets, [filePath, ...(result.patchChain || [])]);
+          // Use for loop instead of spread to avoid stack overflow with large arrays
+          for (const asset of result.assets) {
+            newAssets.push(asset);
+          }
+          if (result.warnings) {
+            for (const warning of result.warnings) {
+              warnings.push(warning);
             }
-            if (result.warnings) {
-              for (const warning of result.warnings) {
-                warnings.push(warning);
-              }
+          }
+          // Cache the parser for texture data access
+          if (result.rpakParser) {
+            parsedRPakCache.set(filePath, result.rpakParser);
+          }
+          // Listed from the asset index cache; parsed when data is needed
+          if (result.fromIndexCache) {
+            indexedCount++;
+            for (const chainPath of result.patchChain || [filePath]) {
+              indexOnlyPaks.set(chainPath, filePath);
             }
-            // Cache the parser for texture data access
-            if (result.rpakParser) {
-              parsedRPakCache.set(filePath, result.rpakParser);
+          }
+          // Patch chains bring in the base pak and the other patches too;
+          // their assets are already merged into this result
+          if (result.patchChain && result.chainParsers) {
+            for (const chainPath of result.patchChain) {
+              const chainParser = result.chainParsers.get(chainPath);
+              if (chainParser) {
+                parsedRPakCache.set(chainPath, chainParser);
+              }
+              if (!newFiles.includes(chainPath)) {
+                newFiles.push(chainPath);
+              }
             }
-          } else {
-            console.error(`Failed to load ${filePath}: ${result.error}`);
-            warnings.push(`Failed to load ${filePath.split(/[/\\]/).pop()}: ${result.error}`);
           }
+        } else {
+          console.error(`Failed to load ${filePath}: ${result.error}`);
+          warnings.push(`Failed to load ${filePath.split(/[/\\]/).pop()}: ${result.error}`);
         }
-
-        globalState = {
-          ...globalState,
-          progress: ((i + 1) / filePaths.length) * 100,
-          status: `Loading ${filePath.split(/[/\\]/).pop()}...`,
-        };
-        notifyListeners();
       }
 
       // Calculate stats
@@ -171,7 +470,12 @@ export function useAssetStore(): AssetState {
         stats[asset.type] = (stats[asset.type] || 0) + 1;
       }
 
-      let statusMessage = `Loaded ${newAssets.length} assets from ${newFiles.length} files`;
+      let statusMessage = load.cancelled
+        ? `Load cancelled (${results.filter(Boolean).length} of ${queued.length} files loaded)`
+        : `Loaded ${newAssets.length} assets from ${newFiles.length} files`;
+      if (indexedCount > 0) {
+        statusMessage += ` (${indexedCount} from index cache)`;
+      }
       if (warnings.length > 0) {
         statusMessage += ` (${warnings.length} warnings)`;
         console.warn('Load warnings:', warnings);
@@ -196,9 +500,26 @@ export function useAssetStore(): AssetState {
         progress: null,
       };
       notifyListeners();
+    } finally {
+      if (activeLoad === load) {
+        activeLoad = null;
+      }
+      finish();
     }
   }, []);
 
+  const cancelLoad = useCallback(() => {
+    if (!activeLoad) return;
+
+    activeLoad.cancelled = true;
+    activeLoad.abortController.abort();
+    globalState = {
+      ...globalState,
+      status: 'Cancelling load...',
+    };
+    notifyListeners();
+  }, []);
+
   const loadFolder = useCallback(async (folderPath: string) => {
     globalState = {
       ...globalState,
@@ -244,11 +565,90 @@ export function useAssetStore(): AssetState {
     }
   }, [loadFiles]);
 
+  const replaceWorkingSet = useCallback(async (filePaths: string[]) => {
+    // A load still running would merge the old working set back in when it
+    // finishes, so it is stopped first
+    const previousLoad = activeLoad;
+    if (previousLoad) {
+      previousLoad.cancelled = true;
+      previousLoad.abortController.abort();
+      await previousLoad.finished;
+    }
+    await Promise.allSettled(pendingPakLoads.values());
+
+    // Drop everything from the previous working set, including the starpak
+    // folders registered for its paks
+    parsedRPakCache.clear();
+    indexOnlyPaks.clear();
+    starpakManager.clear();
+    globalState = {
+      ...globalState,
+      loadedFiles: [],
+      assets: [],
+      selectedAsset: null,
+      selectedAssets: new Set(),
+      assetStats: {},
+    };
+    notifyListeners();
+
+    await loadFiles(filePaths);
+  }, [loadFiles]);
+
+  const unloadFile = useCallback((filePath: string) => {
+    // Patch chain members share one merged set of assets, so the whole chain goes
+    const chainKey = getChainKey(filePath);
+    const removedFiles = globalState.loadedFiles.filter(path => getChainKey(path) === chainKey);
+    if (removedFiles.length === 0) return;
+
+    const isRemoved = (asset: Asset) => removedFiles.includes(findAssetFile(asset) || '');
+    for (const path of removedFiles) {
+      parsedRPakCache.delete(path);
+      indexOnlyPaks.delete(path);
+    }
+
+    const assets = globalState.assets.filter(asset => !isRemoved(asset));
+    const loadedFiles = globalState.loadedFiles.filter(path => !removedFiles.includes(path));
+    const removedCount = globalState.assets.length - assets.length;
+
+    for (const path of removedFiles) {
+      starpakManager.release(path);
+    }
+
+    const stats: Record<string, number> = {};
+    for (const asset of assets) {
+      stats[asset.type] = (stats[asset.type] || 0) + 1;
+    }
+
+    const remainingGuids = new Set(assets.map(asset => asset.guid));
+    const selected = globalState.selectedAsset;
+    globalState = {
+      ...globalState,
+      loadedFiles,
+      assets,
+      assetStats: stats,
+      selectedAsset: selected && isRemoved(selected) ? null : selected,
+      selectedAssets: new Set([...globalState.selectedAssets].filter(guid => remainingGuids.has(guid))),
+      status: `Unloaded ${getFileName(filePath)} (${removedCount} assets)`,
+    };
+    notifyListeners();
+  }, []);
+
   const selectAsset = useCallback((asset: Asset | null) => {
     globalState = {
       ...globalState,
       selectedAsset: asset,
       selectedAssets: asset ? new Set([asset.guid]) : new Set(),
+      revealedLocation: null,
+    };
+    notifyListeners();
+  }, []);
+
+  const revealAsset = useCallback((asset: Asset, location: ContentLocation) => {
+    globalState = {
+      ...globalState,
+      selectedAsset: asset,
+      selectedAssets: new Set([asset.guid]),
+      revealedLocation: location,
     };
     notifyListeners();
   }, []);
@@ -273,29 +673,39 @@ export function useAssetStore(): AssetState {
       ...globalState,
       selectedAsset: null,
       selectedAssets: new Set(),
+      revealedLocation: null,
     };
     notifyListeners();
   }, []);
 
   const clearAll = useCallback(() => {
+    parsedRPakCache.clear();
+    indexOnlyPaks.clear();
     globalState = {
       loadedFiles: [],
       assets: [],
       selectedAsset: null,
       selectedAssets: new Set(),
+      revealedLocation: null,
       assetStats: {},
       status: 'Ready',
       progress: null,
       isLoading: false,
       loadFiles: globalState.loadFiles,
       loadFolder: globalState.loadFolder,
+      cancelLoad: globalState.cancelLoad,
+      replaceWorkingSet: globalState.replaceWorkingSet,
+      unloadFile: globalState.unloadFile,
       selectAsset: globalState.selectAsset,
+      revealAsset: globalState.revealAsset,
       toggleAssetSelection: globalState.toggleAssetSelection,
       clearSelection: globalState.clearSelection,
       clearAll: globalState.clearAll,
       setStatus: globalState.setStatus,
+      applyNameDatabase: globalState.applyNameDatabase,
       getTextureData: globalState.getTextureData,
       getParser: globalState.getParser,
+      ensureAssetData: globalState.ensureAssetData,
     };
     notifyListeners();
   }, []);
@@ -309,237 +719,84 @@ export function useAssetStore(): AssetState {
     notifyListeners();
   }, []);
 
+  const applyNameDatabase = useCallback(() => {
+    const assets = globalState.assets.map((asset) => ({ ...asset }));
+    const named = nameDatabase.applyToAssets(assets);
+    if (named === 0) return;
+
+    const selectedGuid = globalState.selectedAsset?.guid;
+    globalState = {
+      ...globalState,
+      assets,
+      selectedAsset: selectedGuid ? assets.find((a) => a.guid === selectedGuid) || null : null,
+      status: `Named ${named} assets from the name database`,
+    };
+    notifyListeners();
+  }, []);
+
   const getParser = useCallback((containerFile: string): RpakParser | null => {
-    // Find the rpak file path in loaded files
-    let rpakPath: string | undefined;
-    for (const filePath of globalState.loadedFiles) {
-      if (filePath.includes(containerFile) || filePath.endsWith(containerFile)) {
-        rpakPath = filePath;
-        break;
-      }
-    }
-    
-    if (!rpakPath) {
-      // Try to find by just the filename
-      rpakPath = globalState.loadedFiles.find(f => f.split(/[/\\]/).pop() === containerFile);
-    }
-    
+    const rpakPath = findLoadedFile(containerFile);
     if (!rpakPath) return null;
-    
-    return parsedRPakCache.get(rpakPath) || null;
-  }, []);
 
-  const getTextureData = useCallback(async (asset: Asset): Promise<{ 
-    header: TextureAssetHeader; 
-    pixelData: Uint8Array;
-    starpakOffset: bigint;
-    optStarpakOffset: bigint;
-    rpakPath: string;
-  } | null> => {
-    if (asset.type !== 'txtr') return null;
-    
-    const metadata = asset.metadata || {};
-    let headerData = metadata.headerData;
-    
-    // Convert headerData to Uint8Array if needed (it may be serialized as an object)
-    if (headerData && !(headerData instanceof Uint8Array)) {
-      if (Array.isArray(headerData)) {
-        headerData = new Uint8Array(headerData);
-      } else if (typeof headerData === 'object') {
-        const values = Object.values(headerData as Record<string, number>);
-        headerData = new Uint8Array(values);
-      }
-    }
-    
-    if (!headerData || !(headerData instanceof Uint8Array)) {
-      return null;
-    }
-    
-    // Get starpak offsets from metadata
-    let starpakOffset = 0n;
-    let optStarpakOffset = 0n;
-    
-    if (metadata.starpakOffset !== undefined && metadata.starpakOffset !== null) {
-      try {
-        starpakOffset = BigInt(metadata.starpakOffset as string | number | bigint);
-      } catch {
-        starpakOffset = 0n;
-      }
-    }
-    if (metadata.optStarpakOffset !== undefined && metadata.optStarpakOffset !== null) {
-      try {
-        optStarpakOffset = BigInt(metadata.optStarpakOffset as string | number | bigint);
-      } catch {
-        optStarpakOffset = 0n;
-      }
-    }
-    
-    // Parse the texture header - pass the asset version for correct header parsing
-    const assetVersion = metadata.version as number || asset.version || 8;
-    
-    const header = parseTextureHeader({
-      headerData: headerData as Uint8Array,
-      guid: asset.guid,
-      type: 0,
-      typeFourCC: 'txtr',
-      typeName: 'Texture',
-      version: assetVersion,
-      name: asset.name,
-      headerSize: headerData.length,
-      headPagePtr: metadata.headPagePtr as { index: number; offset: number } || { index: 0, offset: 0 },
-      dataPagePtr: metadata.dataPagePtr as { index: number; offset: number } || { index: 0, offset: 0 },
-      starpakOffset: starpakOffset,
-      optStarpakOffset: optStarpakOffset,
-      pageEnd: 0,
-      dependentsCount: 0,
-      dependenciesCount: 0,
-    });
-    
-    if (!header) {
-      return null;
-    }
-    
-    // Try to get pixel data from the cached parser
-    const containerFile = asset.containerFile;
-    
-    // Find the rpak file path in loaded files
-    let rpakPath: string | undefined;
-    for (const filePath of globalState.loadedFiles) {
-      if (filePath.includes(containerFile) || filePath.endsWith(containerFile)) {
-        rpakPath = filePath;
-        break;
-      }
-    }
-    
-    if (!rpakPath) {
-      // Try to find by just the filename
-      rpakPath = globalState.loadedFiles.find(f => f.split(/[/\\]/).pop() === containerFile);
-    }
-    
-    if (!rpakPath) return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath: '' };
-    
     const parser = parsedRPakCache.get(rpakPath);
     if (!parser) {
-      return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath };
-    }
-    
-    // Get the data page pointer from metadata
-    const dataPtr = metadata.dataPagePtr as { index: number; offset: number };
-    
-    if (!dataPtr) return { header, pixelData: new Uint8Array(0), starpakOffset, optStarpakOffset, rpakPath };
-    
-    // Calculate mip layout
-    const totalStreamedMips = header.streamedMipCount + header.optStreamedMipCount;
-    const totalMips = header.mipCount;
-    const permanentMips = header.permanentMipCount;
-    
-    // Collect all mip data (streaming + permanent)
-    const mipDataArray: Uint8Array[] = [];
-    
-    // Get rpak base path for starpak lookups (directory containing the rpak)
-    const rpakBasePath = rpakPath.substring(0, rpakPath.lastIndexOf('\\')) || rpakPath.substring(0, rpakPath.lastIndexOf('/'));
-    
-    // First, try to load streaming mips from starpaks (mips 0 to totalStreamedMips-1)
-    // These are in order: opt starpak mips first, then regular starpak mips
-    for (let mip = 0; mip < totalStreamedMips; mip++) {
-      // Determine if this mip is in opt starpak or regular starpak
-      const isOptMip = mip < header.optStreamedMipCount;
-      const mipOffset = isOptMip ? optStarpakOffset : starpakOffset;
-      
-      if (mipOffset === 0n || mipOffset === -1n) {
-        // No streaming data for this mip, add empty placeholder or skip
-        const mipSize = calculateMipSize(header.width, header.height, header.format, mip);
-        mipDataArray.push(new Uint8Array(mipSize)); // Empty placeholder
-        continue;
-      }
-      
-      // Build header info for starpak loader
-      const starpakHeader = {
-        width: header.width,
-        height: header.height,
-        format: header.format,
-        mipCount: header.mipCount,
-        optStreamedMipCount: header.optStreamedMipCount,
-        streamedMipCount: header.streamedMipCount,
-        compTypePacked: 0, // Assume uncompressed for now
-        compressedBytes: [0, 0, 0, 0, 0, 0, 0],
-      };
-      
-      try {
-        const mipResult = await loadTextureMipFromStarpak(
-          mipOffset,
-          mip,
-          starpakHeader,
-          isOptMip,
-          rpakBasePath
-        );
-        
-        if (mipResult && mipResult.data.length > 0) {
-          mipDataArray.push(mipResult.data);
-        } else {
-          // Failed to load, add empty placeholder
-          const mipSize = calculateMipSize(header.width, header.height, header.format, mip);
-          mipDataArray.push(new Uint8Array(mipSize));
-        }
-      } catch (err) {
-        console.warn(`[AssetStore] Failed to load streaming mip ${mip}:`, err);
-        const mipSize = calculateMipSize(header.width, header.height, header.format, mip);
-        mipDataArray.push(new Uint8Array(mipSize));
+      // Paks listed from the index cache are parsed on first use; the
+      // selected asset is replaced once that finishes
+      const loadPath = indexOnlyPaks.get(rpakPath);
+      if (loadPath) {
+        loadIndexedPak(loadPath);
       }
     }
-    
-    // Then load permanent mips from rpak pages
-    if (permanentMips > 0) {
-      // Calculate total size for all non-streamed (permanent) mips
-      let pixelDataSize = 0;
-      for (let mip = totalStreamedMips; mip < totalMips; mip++) {
-        const mipSize = calculateMipSize(header.width, header.height, header.format, mip);
-        pixelDataSize += mipSize;
-      }
-      
-      if (pixelDataSize > 0) {
-        // Read pixel data from the data page
-        const pageData = parser.getPageData(dataPtr.index);
-        
-        if (pageData) {
-          const offset = dataPtr.offset;
-          let actualSize = pixelDataSize;
-          
-          if (offset + pixelDataSize > pageData.length) {
-            // Data extends beyond page, just get what we can
-            actualSize = Math.min(pixelDataSize, pageData.length - offset);
-          }
-          
-          if (actualSize > 0) {
-            const permanentData = pageData.slice(offset, offset + actualSize);
-            mipDataArray.push(permanentData);
-          }
-        }
+    return parser || null;
+  }, []);
+
+  const ensureAssetData = useCallback(async (assets: Asset[]): Promise<Asset[]> => {
+    const loadPaths = new Set<string>();
+    for (const asset of assets) {
+      const rpakPath = findAssetFile(asset);
+      const loadPath = rpakPath && indexOnlyPaks.get(rpakPath);
+      if (loadPath) {
+        loadPaths.add(loadPath);
       }
     }
-    
-    // Combine all mip data into a single buffer
-    const totalSize = mipDataArray.reduce((sum, arr) => sum + arr.length, 0);
-    const pixelData = new Uint8Array(totalSize);
-    let writeOffset = 0;
-    for (const mipData of mipDataArray) {
-      pixelData.set(mipData, writeOffset);
-      writeOffset += mipData.length;
+    if (loadPaths.size === 0) return assets;
+
+    for (const loadPath of loadPaths) {
+      await loadIndexedPak(loadPath);
     }
-    
-    return { header, pixelData, starpakOffset, optStarpakOffset, rpakPath };
+
+    const current = new Map(globalState.assets.map(asset => [getAssetKey(asset), asset]));
+    return assets.map(asset => current.get(getAssetKey(asset)) || asset);
+  }, []);
+
+  const getTextureData = useCallback(async (asset: Asset): Promise<TextureData | null> => {
+    if (asset.type !== 'txtr') return null;
+
+    // Pixel data needs the pak parsed when it was listed from the index cache
+    const rpakPath = findAssetFile(asset);
+    const loadPath = rpakPath ? indexOnlyPaks.get(rpakPath) : undefined;
+    if (loadPath) {
+      await loadIndexedPak(loadPath);
+    }
+    return readTextureData(asset, rpakPath || null, rpakPath ? parsedRPakCache.get(rpakPath) || null : null);
   }, []);
 
   return {
     ...globalState,
     loadFiles,
     loadFolder,
+    cancelLoad,
+    replaceWorkingSet,
+    unloadFile,
     selectAsset,
+    revealAsset,
     toggleAssetSelection,
     clearSelection,
     clearAll,
     setStatus,
+    applyNameDatabase,
     getParser,
     getTextureData,
+    ensureAssetData,
   };
 }
@@ -10,7 +10,11 @@ export type TextureNameMode = 'guid' | 'real' | 'text' | 'semantic';
 export type ModelExportFormat = 'cast' | 'rmax' | 'rmdl' | 'smd';
 
 // Texture export formats (matches C++ eTextureExportSetting)
-export type TextureExportFormat = 'png_highest' | 'png_all' | 'dds_highest' | 'dds_all' | 'dds_mipmapped' | 'json_meta';
+export type TextureExportFormat = 'png_highest' | 'png_all' | 'dds_highest' | 'dds_all' | 'dds_mipmapped' | 'tga_highest' | 'tga_all' | 'exr' | 'hdr' | 'json_meta';
+
+// OpenEXR export options
+export type ExrPixelType = 'half' | 'float';
+export type ExrCompression = 'none' | 'zip';
 
 export interface Settings {
   // General / Misc Settings
@@ -29,6 +33,9 @@ export interface Settings {
   exportNormalRecalc: NormalRecalcMode;     // Normal map recalculation mode
   exportTextureNameMode: TextureNameMode;   // How to name exported textures
   exportMaterialTextures: boolean;          // Export textures with materials
+  exportTgaRle: boolean;                    // Run-length encode exported TGAs
+  exportExrPixelType: ExrPixelType;         // Channel type of exported EXRs
+  exportExrCompression: ExrCompression;     // Compression of exported EXRs
   
   // Model settings
   modelExportFormat: ModelExportFormat;
@@ -80,6 +87,9 @@ const defaultSettings: Settings = {
   exportNormalRecalc: 'none',
   exportTextureNameMode: 'real',
   exportMaterialTextures: true,
+  exportTgaRle: false,
+  exportExrPixelType: 'half',
+  exportExrCompression: 'zip',
   
   // Export - Model
   modelExportFormat: 'cast',
@@ -124,6 +134,21 @@ function notifySettingsListeners() {
   settingsListeners.forEach((listener) => listener());
 }
 
+/**
+ * Get the current settings outside of React components
+ */
+export function getSettings(): Settings {
+  return globalSettings;
+}
+
+/**
+ * Update the settings outside of React components (e.g. from the command line)
+ */
+export function applySettings(newSettings: Partial<Settings>): void {
+  globalSettings = { ...globalSettings, ...newSettings };
+  notifySettingsListeners();
+}
+
 export function useSettingsStore() {
   const [, forceUpdate] = useState({});
   
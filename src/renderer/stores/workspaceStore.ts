@@ -0,0 +1,104 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AssetType } from '../types/asset';
+
+// Preview choices for the asset they were made on
+export interface PreviewState {
+  guid: string | null;
+  mip?: number;
+  channel?: string;
+  exposure?: number;
+  slice?: number;
+  view?: string;
+  skin?: number;
+}
+
+// Choices made in the export dialog
+export interface ExportChoices {
+  outputPath?: string;
+  // Export format id per asset type
+  formatByType: Record<string, string>;
+  exportWithDeps?: boolean;
+  useFullPaths?: boolean;
+}
+
+// UI state captured by workspace sessions
+export interface WorkspaceState {
+  query: string;
+  typeFilter: AssetType | 'all';
+  preview: PreviewState;
+  exportChoices: ExportChoices;
+}
+
+export const defaultWorkspace: WorkspaceState = {
+  query: '',
+  typeFilter: 'all',
+  preview: { guid: null },
+  exportChoices: { formatByType: {} },
+};
+
+// Global workspace state
+let globalWorkspace: WorkspaceState = { ...defaultWorkspace };
+const workspaceListeners = new Set<() => void>();
+
+function notifyWorkspaceListeners() {
+  workspaceListeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the current workspace state outside of React components
+ */
+export function getWorkspace(): WorkspaceState {
+  return globalWorkspace;
+}
+
+export function updateWorkspace(partial: Partial<WorkspaceState>): void {
+  globalWorkspace = { ...globalWorkspace, ...partial };
+  notifyWorkspaceListeners();
+}
+
+/**
+ * Record a preview choice; choices made on another asset are dropped
+ */
+export function updatePreviewState(guid: string, partial: Omit<PreviewState, 'guid'>): void {
+  const current = globalWorkspace.preview.guid === guid ? globalWorkspace.preview : { guid };
+  updateWorkspace({ preview: { ...current, ...partial } });
+}
+
+/**
+ * Get the preview choices recorded for an asset, if any
+ */
+export function getPreviewState(guid: string): PreviewState | null {
+  return globalWorkspace.preview.guid === guid ? globalWorkspace.preview : null;
+}
+
+export function useWorkspaceStore() {
+  const [, forceUpdate] = useState({});
+
+  // Subscribe to changes
+  useEffect(() => {
+    const listener = () => forceUpdate({});
+    workspaceListeners.add(listener);
+    return () => {
+      workspaceListeners.delete(listener);
+    };
+  }, []);
+
+  const setQuery = useCallback((query: string) => {
+    updateWorkspace({ query });
+  }, []);
+
+  const setTypeFilter = useCallback((typeFilter: AssetType | 'all') => {
+    updateWorkspace({ typeFilter });
+  }, []);
+
+  const updateExportChoices = useCallback((choices: Partial<ExportChoices>) => {
+    updateWorkspace({ exportChoices: { ...globalWorkspace.exportChoices, ...choices } });
+  }, []);
+
+  return {
+    workspace: globalWorkspace,
+    setQuery,
+    setTypeFilter,
+    updateExportChoices,
+  };
+}
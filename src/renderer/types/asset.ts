@@ -62,7 +62,10 @@ export interface AssetDependency {
   guid: string;
   type: AssetType;
   name?: string;
+  // loaded: in a loaded pak, external: in a scanned pak on disk that isn't loaded, missing: not found
   status: 'loaded' | 'missing' | 'external';
+  // Pak that owns the asset, when known
+  pakFile?: string;
 }
 
 // Extended metadata types for specific asset types
@@ -83,6 +86,7 @@ export interface TextureMetadata {
     mipCount: number;
     arraySize: number;
     streamedMipCount: number;
+    textureType?: number;
   };
 }
 
@@ -102,6 +106,9 @@ export interface Asset {
   type: AssetType;
   version?: number; // Asset version (8, 9, 10, etc.)
   containerFile: string;
+  // Full path of the loaded container file; set by the asset store, since
+  // paks of the same name can be loaded from different folders
+  containerPath?: string;
   containerType: 'pak' | 'audio' | 'mdl' | 'bp_pak' | 'bsp';
   offset?: number;
   size?: number;
@@ -114,6 +121,15 @@ export interface Asset {
   thumbnailUrl?: string;
 }
 
+// Where a content search match sits inside an asset
+export type ContentLocation =
+  // Datatable cell
+  | { kind: 'row'; row: number; column: number }
+  // Settings value: top-level value index, then element and field index pairs for arrays
+  | { kind: 'field'; path: number[] }
+  // Nth string found in the asset
+  | { kind: 'string'; index: number };
+
 export interface LoadedFile {
   path: string;
   name: string;
@@ -42,10 +42,17 @@ export interface ElectronAPI {
   openFolder: () => Promise<void>;
   saveFile: (defaultPath: string, filters: Electron.FileFilter[]) => Promise<string | null>;
   selectFolder: () => Promise<string | null>;
+  selectFiles: (filters: Electron.FileFilter[]) => Promise<string[] | null>;
 
   // File system operations
   readFile: (filePath: string) => Promise<FileResult<Buffer>>;
   readFileRange: (filePath: string, offset: number, size: number) => Promise<FileResult<Buffer>>;
+  streamFileRange: (
+    filePath: string,
+    offset: number,
+    size: number,
+    onChunk: (chunk: Uint8Array, chunkOffset: number) => void
+  ) => Promise<FileResult<number>>;
   writeFile: (filePath: string, data: Buffer | Uint8Array) => Promise<FileResult<void>>;
   readDir: (dirPath: string) => Promise<FileResult<FileEntry[]>>;
   exists: (filePath: string) => Promise<boolean>;
@@ -58,6 +65,8 @@ export interface ElectronAPI {
 
   // App operations
   getPath: (name: string) => Promise<string>;
+  setRecentSessions: (names: string[]) => Promise<void>;
+  clearAssetIndexCache: () => Promise<FileResult<void>>;
 
   // Window operations
   minimize: () => void;
@@ -71,6 +80,8 @@ export interface ElectronAPI {
   onMenuExportAll: (callback: () => void) => () => void;
   onMenuSettings: (callback: () => void) => () => void;
   onMenuAbout: (callback: () => void) => () => void;
+  onMenuSaveSession: (callback: () => void) => () => void;
+  onMenuOpenSession: (callback: (name: string) => void) => () => void;
 
   // Oodle decompression
   oodle: OodleAPI;
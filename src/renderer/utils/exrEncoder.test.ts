@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { encodeEXR, floatToHalf } from './exrEncoder';
+import { halfToFloat } from '../parsers/textureParser';
+
+interface DecodedEXR {
+  attributes: Map<string, Uint8Array>;
+  channels: string[];
+  values: Map<string, number[]>;
+}
+
+/**
+ * Read back a scanline EXR written by encodeEXR
+ */
+function readEXR(exr: Uint8Array, width: number, height: number): DecodedEXR {
+  const view = new DataView(exr.buffer, exr.byteOffset, exr.byteLength);
+  expect(view.getInt32(0, true)).toBe(20000630);
+  expect(view.getInt32(4, true)).toBe(2);
+
+  let offset = 8;
+  const readString = () => {
+    const end = exr.indexOf(0, offset);
+    const value = new TextDecoder().decode(exr.subarray(offset, end));
+    offset = end + 1;
+    return value;
+  };
+
+  const attributes = new Map<string, Uint8Array>();
+  for (let name = readString(); name; name = readString()) {
+    readString(); // Type
+    const size = view.getInt32(offset, true);
+    attributes.set(name, exr.subarray(offset + 4, offset + 4 + size));
+    offset += 4 + size;
+  }
+
+  // Channel list: name, pixel type and 12 bytes of flags and sampling each
+  const channels: string[] = [];
+  const pixelTypes: number[] = [];
+  const chlist = attributes.get('channels')!;
+  for (let i = 0; chlist[i] !== 0;) {
+    const end = chlist.indexOf(0, i);
+    channels.push(new TextDecoder().decode(chlist.subarray(i, end)));
+    pixelTypes.push(new DataView(chlist.buffer, chlist.byteOffset).getInt32(end + 1, true));
+    i = end + 17;
+  }
+
+  const zip = attributes.get('compression')![0] === 3;
+  const linesPerBlock = zip ? 16 : 1;
+  const values = new Map<string, number[]>(channels.map(name => [name, []]));
+
+  for (let block = 0; block < Math.ceil(height / linesPerBlock); block++) {
+    const blockOffset = Number(view.getBigUint64(offset + block * 8, true));
+    const y = view.getInt32(blockOffset, true);
+    const size = view.getInt32(blockOffset + 4, true);
+    const lines = Math.min(linesPerBlock, height - y);
+    const bytesPerLine = pixelTypes.reduce((sum, type) => sum + (type === 2 ? 4 : 2), 0) * width;
+
+    let data: Uint8Array = exr.subarray(blockOffset + 8, blockOffset + 8 + size);
+    if (zip && size < lines * bytesPerLine) {
+      // Undo the delta predictor, then the byte interleaving
+      const predicted = new Uint8Array(inflateSync(data));
+      for (let i = 1; i < predicted.length; i++) {
+        predicted[i] = (predicted[i - 1] + predicted[i] - 128) & 0xFF;
+      }
+      data = new Uint8Array(predicted.length);
+      const half = (predicted.length + 1) >> 1;
+      for (let i = 0; i < data.length; i++) {
+        data[i] = predicted[(i & 1 ? half : 0) + (i >> 1)];
+      }
+    }
+
+    const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let position = 0;
+    for (let line = 0; line < lines; line++) {
+      channels.forEach((name, c) => {
+        for (let x = 0; x < width; x++) {
+          if (pixelTypes[c] === 2) {
+            values.get(name)!.push(dataView.getFloat32(position, true));
+            position += 4;
+          } else {
+            values.get(name)!.push(halfToFloat(dataView.getUint16(position, true)));
+            position += 2;
+          }
+        }
+      });
+    }
+  }
+
+  return { attributes, channels, values };
+}
+
+// Pixels with a ramp in red, fixed green and blue and the given alpha
+function testPixels(width: number, height: number, alpha: number): Float32Array {
+  const rgba = new Float32Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    rgba.set([i / 4, 2.5, -1, alpha], i * 4);
+  }
+  return rgba;
+}
+
+describe('floatToHalf', () => {
+  it('converts normal values, rounding to nearest even', () => {
+    expect(floatToHalf(1)).toBe(0x3C00);
+    expect(floatToHalf(-2)).toBe(0xC000);
+    expect(floatToHalf(65504)).toBe(0x7BFF);
+    expect(floatToHalf(1 + 2 ** -11)).toBe(0x3C00);
+    expect(floatToHalf(1 + 3 * 2 ** -11)).toBe(0x3C02);
+    expect(floatToHalf(2 ** -14)).toBe(0x0400);
+  });
+
+  it('converts subnormals and underflows to signed zero', () => {
+    expect(floatToHalf(2 ** -24)).toBe(0x0001);
+    expect(floatToHalf(1023 * 2 ** -24)).toBe(0x03FF);
+    expect(floatToHalf(-3 * 2 ** -24)).toBe(0x8003);
+    // Halfway cases round to even
+    expect(floatToHalf(2 ** -25)).toBe(0x0000);
+    expect(floatToHalf(3 * 2 ** -25)).toBe(0x0002);
+    // Rounds up into the smallest normal
+    expect(floatToHalf(1023.75 * 2 ** -24)).toBe(0x0400);
+    expect(floatToHalf(1e-10)).toBe(0x0000);
+    expect(floatToHalf(-1e-10)).toBe(0x8000);
+    expect(floatToHalf(-0)).toBe(0x8000);
+  });
+
+  it('converts infinity, overflow and NaN', () => {
+    expect(floatToHalf(Infinity)).toBe(0x7C00);
+    expect(floatToHalf(-Infinity)).toBe(0xFC00);
+    expect(floatToHalf(65520)).toBe(0x7C00);
+    expect(floatToHalf(1e10)).toBe(0x7C00);
+    expect(floatToHalf(-1e10)).toBe(0xFC00);
+    expect(floatToHalf(NaN) & 0x7C00).toBe(0x7C00);
+    expect(floatToHalf(NaN) & 0x3FF).not.toBe(0);
+  });
+});
+
+describe('encodeEXR', () => {
+  it('writes the header and half channels in alphabetical order', async () => {
+    const exr = await encodeEXR(testPixels(3, 2, 1), 3, 2);
+    const { attributes, channels, values } = readEXR(exr, 3, 2);
+
+    // Alpha is left out when every pixel is opaque
+    expect(channels).toEqual(['B', 'G', 'R']);
+    expect(attributes.get('compression')![0]).toBe(0);
+    expect(Array.from(new Int32Array(attributes.get('dataWindow')!.slice().buffer))).toEqual([0, 0, 2, 1]);
+    expect(values.get('R')).toEqual([0, 0.25, 0.5, 0.75, 1, 1.25]);
+    expect(values.get('G')).toEqual(Array(6).fill(2.5));
+    expect(values.get('B')).toEqual(Array(6).fill(-1));
+  });
+
+  it('round trips ZIP-compressed float data with alpha', async () => {
+    const width = 7;
+    const height = 20;
+    const rgba = testPixels(width, height, 0.5);
+    const exr = await encodeEXR(rgba, width, height, { pixelType: 'float', compression: 'zip' });
+    const { channels, values } = readEXR(exr, width, height);
+
+    expect(channels).toEqual(['A', 'B', 'G', 'R']);
+    expect(values.get('R')).toEqual(Array.from({ length: width * height }, (_, i) => i / 4));
+    expect(values.get('A')).toEqual(Array(width * height).fill(0.5));
+  });
+});
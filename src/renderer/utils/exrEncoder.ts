@@ -0,0 +1,250 @@
+/**
+ * OpenEXR encoder
+ * Writes float RGBA pixels as a single-part scanline EXR with half or float
+ * channels, either uncompressed or ZIP compressed. The alpha channel is only
+ * written when some pixel is not fully opaque.
+ */
+
+import { deflate } from './pngEncoder';
+
+export interface EXROptions {
+  pixelType?: 'half' | 'float';
+  compression?: 'none' | 'zip';
+}
+
+const EXR_MAGIC = 20000630;
+const EXR_VERSION = 2;
+
+// Channel pixel types
+const PIXEL_HALF = 1;
+const PIXEL_FLOAT = 2;
+
+// Compression methods
+const COMPRESSION_NONE = 0;
+const COMPRESSION_ZIP = 3;
+
+// ZIP compresses blocks of 16 scanlines, no compression stores them one by one
+const ZIP_LINES_PER_BLOCK = 16;
+
+const floatView = new Float32Array(1);
+const intView = new Uint32Array(floatView.buffer);
+
+/**
+ * Convert a number to IEEE half float bits, rounding to nearest even
+ */
+export function floatToHalf(value: number): number {
+  floatView[0] = value;
+  const bits = intView[0];
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xFF;
+  let mantissa = bits & 0x7FFFFF;
+
+  // NaN and infinity
+  if (exponent === 0xFF) {
+    return sign | 0x7C00 | (mantissa ? 0x200 : 0);
+  }
+
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1F) {
+    return sign | 0x7C00;
+  }
+
+  if (halfExponent <= 0) {
+    // Too small even for a subnormal half
+    if (halfExponent < -10) {
+      return sign;
+    }
+    mantissa |= 0x800000;
+    const shift = 14 - halfExponent;
+    let half = mantissa >>> shift;
+    const remainder = mantissa & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    if (remainder > halfway || (remainder === halfway && (half & 1))) {
+      half++;
+    }
+    return sign | half;
+  }
+
+  let half = (halfExponent << 10) | (mantissa >>> 13);
+  const remainder = mantissa & 0x1FFF;
+  if (remainder > 0x1000 || (remainder === 0x1000 && (half & 1))) {
+    // May carry into the exponent, which rounds up to the next power of two or infinity
+    half++;
+  }
+  return sign | half;
+}
+
+/**
+ * Little-endian byte writer for the header
+ */
+class ByteWriter {
+  private bytes: number[] = [];
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  uint8(value: number): void {
+    this.bytes.push(value & 0xFF);
+  }
+
+  int32(value: number): void {
+    for (let i = 0; i < 4; i++) {
+      this.uint8(value >> (i * 8));
+    }
+  }
+
+  float32(value: number): void {
+    floatView[0] = value;
+    this.int32(intView[0]);
+  }
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.uint8(value.charCodeAt(i));
+    }
+    this.uint8(0);
+  }
+
+  attribute(name: string, type: string, size: number, write: () => void): void {
+    this.string(name);
+    this.string(type);
+    this.int32(size);
+    write();
+  }
+
+  toArray(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+/**
+ * Reorder bytes and delta encode them before deflating, as OpenEXR's ZIP
+ * compression expects
+ */
+function predictAndInterleave(raw: Uint8Array) {
+  const out = new Uint8Array(raw.length);
+  const half = (raw.length + 1) >> 1;
+  for (let i = 0; i < raw.length; i++) {
+    out[(i & 1 ? half : 0) + (i >> 1)] = raw[i];
+  }
+
+  let previous = out[0];
+  for (let i = 1; i < out.length; i++) {
+    const current = out[i];
+    out[i] = (current - previous + 128 + 256) & 0xFF;
+    previous = current;
+  }
+  return out;
+}
+
+function hasTranslucency(rgba: Float32Array): boolean {
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] !== 1) return true;
+  }
+  return false;
+}
+
+/**
+ * Encode float RGBA pixels as an OpenEXR file
+ */
+export async function encodeEXR(rgba: Float32Array, width: number, height: number, options: EXROptions = {}): Promise<Uint8Array> {
+  const pixelType = options.pixelType === 'float' ? PIXEL_FLOAT : PIXEL_HALF;
+  const bytesPerValue = pixelType === PIXEL_FLOAT ? 4 : 2;
+  const compression = options.compression === 'zip' ? COMPRESSION_ZIP : COMPRESSION_NONE;
+  const linesPerBlock = compression === COMPRESSION_ZIP ? ZIP_LINES_PER_BLOCK : 1;
+
+  // Channels are stored in alphabetical order
+  const channels: [string, number][] = hasTranslucency(rgba)
+    ? [['A', 3], ['B', 2], ['G', 1], ['R', 0]]
+    : [['B', 2], ['G', 1], ['R', 0]];
+
+  // Header
+  const header = new ByteWriter();
+  header.int32(EXR_MAGIC);
+  header.int32(EXR_VERSION);
+  header.attribute('channels', 'chlist', channels.length * 18 + 1, () => {
+    for (const [name] of channels) {
+      header.string(name);
+      header.int32(pixelType);
+      header.int32(0); // pLinear and reserved
+      header.int32(1); // x sampling
+      header.int32(1); // y sampling
+    }
+    header.uint8(0);
+  });
+  header.attribute('compression', 'compression', 1, () => header.uint8(compression));
+  for (const window of ['dataWindow', 'displayWindow']) {
+    header.attribute(window, 'box2i', 16, () => {
+      header.int32(0);
+      header.int32(0);
+      header.int32(width - 1);
+      header.int32(height - 1);
+    });
+  }
+  header.attribute('lineOrder', 'lineOrder', 1, () => header.uint8(0)); // Increasing Y
+  header.attribute('pixelAspectRatio', 'float', 4, () => header.float32(1));
+  header.attribute('screenWindowCenter', 'v2f', 8, () => {
+    header.float32(0);
+    header.float32(0);
+  });
+  header.attribute('screenWindowWidth', 'float', 4, () => header.float32(1));
+  header.uint8(0);
+
+  // Scanline blocks; each line holds every channel's values in turn
+  const lineSize = width * channels.length * bytesPerValue;
+  const blocks: Uint8Array[] = [];
+  for (let y = 0; y < height; y += linesPerBlock) {
+    const lines = Math.min(linesPerBlock, height - y);
+    const raw = new Uint8Array(lines * lineSize);
+    const view = new DataView(raw.buffer);
+
+    let offset = 0;
+    for (let line = y; line < y + lines; line++) {
+      for (const [, component] of channels) {
+        for (let x = 0; x < width; x++) {
+          const value = rgba[(line * width + x) * 4 + component];
+          if (pixelType === PIXEL_FLOAT) {
+            view.setFloat32(offset, value, true);
+          } else {
+            view.setUint16(offset, floatToHalf(value), true);
+          }
+          offset += bytesPerValue;
+        }
+      }
+    }
+
+    let data: Uint8Array = raw;
+    if (compression === COMPRESSION_ZIP) {
+      const compressed = await deflate(predictAndInterleave(raw));
+      // Blocks that don't shrink are stored uncompressed
+      if (compressed.length < raw.length) {
+        data = compressed;
+      }
+    }
+
+    const block = new Uint8Array(8 + data.length);
+    const blockView = new DataView(block.buffer);
+    blockView.setInt32(0, y, true);
+    blockView.setInt32(4, data.length, true);
+    block.set(data, 8);
+    blocks.push(block);
+  }
+
+  // Offset table, then the blocks
+  const headerBytes = header.toArray();
+  const tableSize = blocks.length * 8;
+  const totalSize = headerBytes.length + tableSize + blocks.reduce((size, block) => size + block.length, 0);
+  const exr = new Uint8Array(totalSize);
+  const exrView = new DataView(exr.buffer);
+  exr.set(headerBytes, 0);
+
+  let blockOffset = headerBytes.length + tableSize;
+  blocks.forEach((block, index) => {
+    exrView.setBigUint64(headerBytes.length + index * 8, BigInt(blockOffset), true);
+    exr.set(block, blockOffset);
+    blockOffset += block.length;
+  });
+
+  return exr;
+}
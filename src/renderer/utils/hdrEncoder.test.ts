@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { encodeHDR } from './hdrEncoder';
+
+/**
+ * Read back a Radiance file written by encodeHDR as RGBE bytes
+ */
+function readHDR(hdr: Uint8Array): { header: string[]; width: number; height: number; rgbe: Uint8Array } {
+  const text = new TextDecoder('latin1').decode(hdr);
+  const headerEnd = text.indexOf('\n\n');
+  const header = text.slice(0, headerEnd).split('\n');
+  const resolutionEnd = text.indexOf('\n', headerEnd + 2);
+  const [, height, , width] = text.slice(headerEnd + 2, resolutionEnd).split(' ');
+  const w = parseInt(width);
+  const h = parseInt(height);
+
+  const rgbe = new Uint8Array(w * h * 4);
+  let offset = resolutionEnd + 1;
+  for (let y = 0; y < h; y++) {
+    const line = rgbe.subarray(y * w * 4, (y + 1) * w * 4);
+    if (w < 8 || w > 0x7FFF) {
+      line.set(hdr.subarray(offset, offset + line.length));
+      offset += line.length;
+      continue;
+    }
+
+    expect(Array.from(hdr.subarray(offset, offset + 4))).toEqual([2, 2, w >> 8, w & 0xFF]);
+    offset += 4;
+    for (let c = 0; c < 4; c++) {
+      for (let x = 0; x < w;) {
+        const count = hdr[offset++];
+        if (count > 128) {
+          for (let i = 0; i < count - 128; i++) line[(x++) * 4 + c] = hdr[offset];
+          offset++;
+        } else {
+          expect(count).toBeGreaterThan(0);
+          for (let i = 0; i < count; i++) line[(x++) * 4 + c] = hdr[offset++];
+        }
+        expect(x).toBeLessThanOrEqual(w);
+      }
+    }
+  }
+  expect(offset).toBe(hdr.length);
+
+  return { header, width: w, height: h, rgbe };
+}
+
+function rgbeToFloat(rgbe: Uint8Array, pixel: number): number[] {
+  const exponent = rgbe[pixel * 4 + 3];
+  if (exponent === 0) return [0, 0, 0];
+  const scale = 2 ** (exponent - 136);
+  return [0, 1, 2].map(c => (rgbe[pixel * 4 + c] + 0.5) * scale);
+}
+
+describe('encodeHDR', () => {
+  it('round trips run-length encoded scanlines', () => {
+    const width = 300;
+    const height = 2;
+    const rgba = new Float32Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      // A long run, then a ramp that needs literal packets, then zeros
+      const x = i % width;
+      const value = x < 140 ? 1.5 : x < 280 ? (x - 139) * 0.37 : 0;
+      rgba.set([value, value / 2, 1000, 1], i * 4);
+    }
+
+    const { header, width: w, height: h, rgbe } = readHDR(encodeHDR(rgba, width, height));
+    expect(header).toEqual(['#?RADIANCE', 'FORMAT=32-bit_rle_rgbe']);
+    expect([w, h]).toEqual([width, height]);
+
+    for (let i = 0; i < width * height; i++) {
+      const decoded = rgbeToFloat(rgbe, i);
+      const max = Math.max(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+      for (let c = 0; c < 3; c++) {
+        // Shared exponent: every component is within one step of the largest
+        expect(Math.abs(decoded[c] - rgba[i * 4 + c])).toBeLessThanOrEqual(max / 128);
+      }
+    }
+  });
+
+  it('writes black and negative values as zero', () => {
+    const rgba = new Float32Array([0, 0, 0, 1, -1, 0.5, 0, 1]);
+    const { rgbe } = readHDR(encodeHDR(rgba, 2, 1));
+    expect(Array.from(rgbe)).toEqual([0, 0, 0, 0, 0, 128, 0, 128]);
+  });
+
+  it('writes flat scanlines for widths RLE does not support', () => {
+    const rgba = new Float32Array(4 * 3 * 4).fill(1);
+    const hdr = encodeHDR(rgba, 4, 3);
+    const { rgbe } = readHDR(hdr);
+    expect(Array.from(rgbe.subarray(0, 4))).toEqual([128, 128, 128, 129]);
+  });
+});
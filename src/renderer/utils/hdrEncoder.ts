@@ -0,0 +1,108 @@
+/**
+ * Radiance HDR encoder
+ * Writes float RGB pixels as RGBE with run-length encoded scanlines.
+ * Radiance files have no alpha channel.
+ */
+
+// Scanline RLE is only defined for these widths
+const MIN_RLE_WIDTH = 8;
+const MAX_RLE_WIDTH = 0x7FFF;
+
+// Longest run and literal packet lengths
+const MAX_RUN = 127;
+const MAX_LITERAL = 128;
+
+/**
+ * Pack a colour into shared-exponent RGBE
+ */
+function toRGBE(r: number, g: number, b: number, out: Uint8Array, offset: number): void {
+  const max = Math.max(r, g, b);
+  if (!(max > 1e-32)) {
+    out[offset] = out[offset + 1] = out[offset + 2] = out[offset + 3] = 0;
+    return;
+  }
+
+  // max = mantissa * 2^exponent with mantissa in [0.5, 1)
+  const exponent = Math.floor(Math.log2(max)) + 1;
+  const scale = 256 / Math.pow(2, exponent);
+  out[offset] = Math.min(255, Math.floor(Math.max(0, r) * scale));
+  out[offset + 1] = Math.min(255, Math.floor(Math.max(0, g) * scale));
+  out[offset + 2] = Math.min(255, Math.floor(Math.max(0, b) * scale));
+  out[offset + 3] = Math.min(255, exponent + 128);
+}
+
+/**
+ * Run-length encode one component of a scanline
+ * @returns Offset after the encoded bytes
+ */
+function encodeComponent(values: Uint8Array, out: Uint8Array, offset: number): number {
+  let x = 0;
+  while (x < values.length) {
+    let run = 1;
+    while (x + run < values.length && run < MAX_RUN && values[x + run] === values[x]) {
+      run++;
+    }
+
+    if (run > 2) {
+      out[offset++] = 128 + run;
+      out[offset++] = values[x];
+      x += run;
+      continue;
+    }
+
+    // Literal bytes up to the next run of three or more
+    let count = 1;
+    while (x + count < values.length && count < MAX_LITERAL) {
+      const next = x + count;
+      if (next + 2 < values.length && values[next] === values[next + 1] && values[next] === values[next + 2]) break;
+      count++;
+    }
+    out[offset++] = count;
+    out.set(values.subarray(x, x + count), offset);
+    offset += count;
+    x += count;
+  }
+  return offset;
+}
+
+/**
+ * Encode float RGBA pixels as a Radiance .hdr file
+ */
+export function encodeHDR(rgba: Float32Array, width: number, height: number): Uint8Array {
+  const header = new TextEncoder().encode(`#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`);
+  const useRLE = width >= MIN_RLE_WIDTH && width <= MAX_RLE_WIDTH;
+
+  // Room for the worst case, where every component is one long literal
+  const lineCapacity = useRLE ? 4 + 4 * (width + Math.ceil(width / MAX_LITERAL)) : width * 4;
+  const out = new Uint8Array(header.length + height * lineCapacity);
+  out.set(header, 0);
+  let offset = header.length;
+
+  const line = new Uint8Array(width * 4);
+  const component = new Uint8Array(width);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      toRGBE(rgba[i], rgba[i + 1], rgba[i + 2], line, x * 4);
+    }
+
+    if (!useRLE) {
+      out.set(line, offset);
+      offset += line.length;
+      continue;
+    }
+
+    // Scanline marker, then each component encoded separately
+    out.set([2, 2, (width >> 8) & 0xFF, width & 0xFF], offset);
+    offset += 4;
+    for (let c = 0; c < 4; c++) {
+      for (let x = 0; x < width; x++) {
+        component[x] = line[x * 4 + c];
+      }
+      offset = encodeComponent(component, out, offset);
+    }
+  }
+
+  return out.subarray(0, offset);
+}
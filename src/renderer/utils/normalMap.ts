@@ -0,0 +1,69 @@
+/**
+ * Normal map helpers
+ * Respawn stores tangent-space normals in DirectX convention, usually as BC5
+ * with only X and Y. Exports can rebuild Z into the blue channel and flip Y
+ * for tools that expect OpenGL convention.
+ */
+
+import { TextureFormat } from '../parsers/textureParser';
+
+export type NormalMapConvention = 'directx' | 'opengl';
+
+// Texture name suffixes used for normal maps
+const NORMAL_NAME_PATTERN = /[_\-.](nml|nrm|normal|normalmap)$/i;
+
+/**
+ * Check if texture format is a normal map format (BC5)
+ */
+export function isNormalMapFormat(format: number): boolean {
+  return format === TextureFormat.BC5_UNORM || format === TextureFormat.BC5_SNORM;
+}
+
+/**
+ * Check if a texture name or material binding name marks a normal map
+ */
+export function isNormalMapName(name: string): boolean {
+  // Strip folders and the extension, e.g. "texture/.../foo_nml.rpak"
+  const baseName = name.replace(/\\/g, '/').split('/').pop()!.replace(/\.[a-z0-9]+$/i, '');
+  return NORMAL_NAME_PATTERN.test(baseName);
+}
+
+/**
+ * Calculate normal Z from X and Y components
+ * Based on RSX's GetNormalZFromXY function from dx.cpp
+ */
+export function getNormalZFromXY(x: number, y: number): number {
+  const xm = (2.0 * x) - 1.0;
+  const ym = (2.0 * y) - 1.0;
+
+  const a = 1.0 - (xm * xm) - (ym * ym);
+
+  // Can't be valid if negative
+  if (a < 0.0) {
+    return 0.5;
+  }
+
+  const sq = Math.sqrt(a);
+  return (sq / 2.0) + 0.5;
+}
+
+/**
+ * Rebuild the Z (blue) channel of decoded RGBA normals from X and Y, flipping
+ * Y (green) for OpenGL convention. Alpha is made opaque.
+ */
+export function recalculateNormalMap(rgba: Uint8Array, convention: NormalMapConvention): Uint8Array {
+  const output = new Uint8Array(rgba.length);
+
+  for (let i = 0; i < rgba.length; i += 4) {
+    const r = rgba[i];
+    const g = rgba[i + 1];
+    const z = getNormalZFromXY(r / 255.0, g / 255.0);
+
+    output[i] = r;
+    output[i + 1] = convention === 'opengl' ? 255 - g : g;
+    output[i + 2] = Math.round(z * 255);
+    output[i + 3] = 255;
+  }
+
+  return output;
+}
@@ -1,15 +1,30 @@
 /**
  * Oodle Decompression - Renderer Side Wrapper
  * 
- * This module provides Oodle decompression functionality in the renderer process
- * by calling the main process via IPC. The main process handles the actual FFI
- * calls to the Oodle DLL.
+ * This module provides Oodle decompression functionality in the renderer process.
+ * When an Oodle DLL is present the main process decompresses via FFI over IPC;
+ * otherwise the built-in TypeScript decoder (oodleLzDecompress) is used.
+ * Parse workers have no IPC access and forward DLL decompression to the
+ * renderer through the decompressor they register.
  */
 
+import { decompressOodleLz } from './oodleLzDecompress';
+
 // Cache for Oodle availability check
 let oodleInitialized = false;
 let oodleAvailable: boolean | null = null;
 
+// DLL decompression forwarded by a parse worker to the renderer
+type WorkerOodleDecompressor = (compressedData: Uint8Array, decompressedSize: number) => Promise<Uint8Array | null>;
+let workerDecompressor: WorkerOodleDecompressor | null = null;
+
+/**
+ * Register how a parse worker reaches the Oodle DLL
+ */
+export function setWorkerOodleDecompressor(decompressor: WorkerOodleDecompressor): void {
+  workerDecompressor = decompressor;
+}
+
 /**
  * Initialize Oodle with an optional custom DLL path
  * @param customDllPath Optional path to a custom Oodle DLL
@@ -64,36 +79,68 @@ export async function getOodleDllPath(): Promise<string | null> {
 
 /**
  * Decompress data using Oodle
+ * Uses the native DLL when it is available and falls back to the built-in decoder
  * @param compressedData The compressed data as Uint8Array
- * @param decompressedSize The expected size of the decompressed data
+ * @param decompressedSize The expected size of the decompressed data (the DLL accepts an upper bound)
+ * @param exactSize Exact decompressed size for the built-in decoder, when decompressedSize is only an upper bound
  * @returns Decompressed data as Uint8Array, or null on failure
  */
-export async function decompressOodle(compressedData: Uint8Array, decompressedSize: number): Promise<Uint8Array | null> {
+export async function decompressOodle(compressedData: Uint8Array, decompressedSize: number, exactSize: number = decompressedSize): Promise<Uint8Array | null> {
+  let decompressed: Uint8Array | null = null;
+  try {
+    decompressed = typeof window === 'undefined'
+      ? await workerDecompressor?.(compressedData, decompressedSize) ?? null
+      : await decompressOodleDll(compressedData, decompressedSize);
+  } catch (error) {
+    console.warn('Oodle DLL decompression error, using built-in decoder:', error);
+  }
+
+  return decompressed ?? decompressOodleBuiltin(compressedData, exactSize);
+}
+
+/**
+ * Decompress data using the Oodle DLL in the main process
+ * @param compressedData The compressed data as Uint8Array
+ * @param decompressedSize The expected size of the decompressed data (an upper bound is accepted)
+ * @returns Decompressed data as Uint8Array, or null when the DLL is unavailable or fails
+ */
+export async function decompressOodleDll(compressedData: Uint8Array, decompressedSize: number): Promise<Uint8Array | null> {
   try {
     // Ensure Oodle is initialized
     if (!oodleInitialized) {
       await initOodle();
     }
     
-    if (!oodleAvailable) {
-      console.warn('Oodle not available for decompression');
-      return null;
-    }
-    
-    const result = await window.electron.oodle.decompress(compressedData, decompressedSize);
-    
-    if (result.success && result.data) {
-      // Convert to Uint8Array - data comes as ArrayBuffer-like from IPC
-      // Use ArrayBuffer check instead of Buffer (Buffer not available in renderer)
-      if (result.data instanceof Uint8Array) {
-        return result.data;
+    if (oodleAvailable) {
+      const result = await window.electron.oodle.decompress(compressedData, decompressedSize);
+      
+      if (result.success && result.data) {
+        // Convert to Uint8Array - data comes as ArrayBuffer-like from IPC
+        // Use ArrayBuffer check instead of Buffer (Buffer not available in renderer)
+        if (result.data instanceof Uint8Array) {
+          return result.data;
+        }
+        // Handle ArrayBuffer or array-like objects
+        return new Uint8Array(result.data as ArrayBuffer | ArrayLike<number>);
       }
-      // Handle ArrayBuffer or array-like objects
-      return new Uint8Array(result.data as ArrayBuffer | ArrayLike<number>);
-    } else {
-      console.error('Oodle decompression failed:', result.error);
-      return null;
+      console.warn('Oodle DLL decompression failed, using built-in decoder:', result.error);
     }
+  } catch (error) {
+    console.warn('Oodle DLL decompression error, using built-in decoder:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Decompress data using the built-in TypeScript Oodle decoder
+ * @param compressedData The compressed data as Uint8Array
+ * @param decompressedSize The expected size of the decompressed data
+ * @returns Decompressed data as Uint8Array, or null on failure
+ */
+export function decompressOodleBuiltin(compressedData: Uint8Array, decompressedSize: number): Uint8Array | null {
+  try {
+    return decompressOodleLz(compressedData, decompressedSize);
   } catch (error) {
     console.error('Oodle decompression error:', error);
     return null;
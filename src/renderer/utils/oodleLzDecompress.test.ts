@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { decompressOodleLz, OodleDecodeError } from './oodleLzDecompress';
+
+// Streams checked against the reference ooz decoder
+function hex(value: string): Uint8Array {
+  return Uint8Array.from(value.match(/../g)!.map(byte => parseInt(byte, 16)));
+}
+
+function text(data: Uint8Array): string {
+  return new TextDecoder('latin1').decode(data);
+}
+
+// Kraken chunk with raw literals, recent-offset matches and one coded offset
+const KRAKEN_RAW_LITERALS = hex(
+  '8c0600002088001e525358506c75732d0000066f6f7a656e6480033af9780000010280000080'
+);
+
+// The same chunk in delta literal mode
+const KRAKEN_DELTA_LITERALS = hex(
+  '8c0600002080001e525358506c75732d0000066f6f7a656e6480033af9780000010280000080'
+);
+
+// Mermaid chunk with Huffman coded literals, 16-bit offsets and recent-offset matches
+const DE_BRUIJN = 'AAACAAGAATACCACGACTAGCAGGAGTATCATGATTCCCGCCTCGGCGTCTGCTTGGGTGTTT';
+const MERMAID_TEXT = `RSXPlus-${DE_BRUIJN}${DE_BRUIJN.slice(10, 40)}GATTACAGATTACA`;
+const MERMAID = hex(
+  '8c0a000045880043525358506c75732d200114001c012208a18a38aa080600d8b66d6b7d09805afdaada0b13777600000000000c87878787878787877ff82125030036003d002900000000'
+);
+
+// Selkie output: a Mermaid stream whose literals and commands are stored uncoded
+const SELKIE_TEXT = 'RSXPlus-Selkie-RSXPlus-Selkie-Selkie-RSXPlus-RSXPlus-Selkie!-0123456789';
+const SELKIE = hex(
+  '8c0a00003c88003a525358506c75732d00001c53656c6b69652d525358506c75732d53212d30313233343536373839000005878739717003000f0016001e00000000'
+);
+
+// Leviathan chunks with coded offsets, recent offsets and long match lengths,
+// in raw and sub literal modes
+const LEVIATHAN_TEXT = 'RSXPlus-Leviathan-Leviathan-RSXPlus-RSXPlus-Leviathan-RSXPlus-RSXPlus-RSXPlus-RSXPlus-Lev!0123456789';
+const LEVIATHAN_RAW_LITERALS = hex(
+  '8c0c00003d88003b525358506c75732d00000502040c0202000005060a0709020000144c657669617468616e2130313233343536373839000005ffe6e7e7e701208088'
+);
+const LEVIATHAN_SUB_LITERALS = hex(
+  '8c0c00003d80003b525358506c75732d00000502040c0202000005060a070902000014fa121e19f5fff53422b8cfbdcad2c608e4e4e0e9000005ffe6e7e7e701208088'
+);
+
+describe('decompressOodleLz', () => {
+  it('decodes a Kraken chunk with raw literals', () => {
+    const output = decompressOodleLz(KRAKEN_RAW_LITERALS, 62);
+    expect(text(output)).toBe('RSXPlus-ooXPlus-ooXPlus-oozoXPlus-oozoXPlusozoXPlusozoXPlusend');
+  });
+
+  it('decodes a Kraken chunk with delta literals', () => {
+    const output = decompressOodleLz(KRAKEN_DELTA_LITERALS, 62);
+    expect(Array.from(output)).toEqual(Array.from(hex(
+      '525358506c75732dc1c258506c75732dc1c258506c75732dc1c2d2c258506c75732dc1c2d2c258506c7573c2d2c258506c7573c2d2c258506c7573274026'
+    )));
+  });
+
+  it('decodes a Mermaid chunk with Huffman coded literals', () => {
+    expect(text(decompressOodleLz(MERMAID, MERMAID_TEXT.length))).toBe(MERMAID_TEXT);
+  });
+
+  it('decodes a Selkie chunk', () => {
+    expect(text(decompressOodleLz(SELKIE, SELKIE_TEXT.length))).toBe(SELKIE_TEXT);
+  });
+
+  it('decodes Leviathan chunks with raw and sub literals', () => {
+    expect(text(decompressOodleLz(LEVIATHAN_RAW_LITERALS, LEVIATHAN_TEXT.length))).toBe(LEVIATHAN_TEXT);
+    expect(text(decompressOodleLz(LEVIATHAN_SUB_LITERALS, LEVIATHAN_TEXT.length))).toBe(LEVIATHAN_TEXT);
+  });
+
+  it('decodes memset and stored blocks', () => {
+    expect(text(decompressOodleLz(hex('8c0607ffff41'), 100))).toBe('A'.repeat(100));
+    expect(text(decompressOodleLz(hex('cc0673746f72656420626c6f636b21'), 13))).toBe('stored block!');
+  });
+
+  it('tells input that ends mid-block from corrupt data', () => {
+    const decodeError = (data: Uint8Array) => {
+      try {
+        decompressOodleLz(data, LEVIATHAN_TEXT.length);
+      } catch (error) {
+        return error as OodleDecodeError;
+      }
+      throw new Error('decoded');
+    };
+
+    expect(decodeError(LEVIATHAN_RAW_LITERALS.subarray(0, 1)).truncated).toBe(true);
+    expect(decodeError(LEVIATHAN_RAW_LITERALS.subarray(0, 50)).truncated).toBe(true);
+
+    // Chunk mode 6 doesn't exist
+    const corrupt = LEVIATHAN_RAW_LITERALS.slice();
+    corrupt[5] = 0xB0;
+    expect(decodeError(corrupt)).toMatchObject({ message: 'Unsupported Leviathan chunk mode 6', truncated: false });
+  });
+
+  it('rejects truncated and unsupported streams', () => {
+    expect(() => decompressOodleLz(KRAKEN_RAW_LITERALS.subarray(0, 20), 62)).toThrow(OodleDecodeError);
+    expect(() => decompressOodleLz(MERMAID.subarray(0, 40), MERMAID_TEXT.length)).toThrow(OodleDecodeError);
+    expect(() => decompressOodleLz(LEVIATHAN_RAW_LITERALS.subarray(0, 50), LEVIATHAN_TEXT.length)).toThrow(OodleDecodeError);
+    expect(() => decompressOodleLz(hex('8c0500002088'), 62)).toThrow('LZNA streams are not supported');
+  });
+});
@@ -0,0 +1,2232 @@
+/**
+ * Oodle LZ Decompression
+ * Pure TypeScript port of the open-source ooz decoder
+ *
+ * Handles the Kraken, Mermaid, Selkie and Leviathan codecs, which covers the
+ * Oodle streams found in Apex Legends rpaks and starpaks. LZNA and BitKnit
+ * streams are rejected since Respawn titles do not use them.
+ */
+
+// Decoder types stored in the 2-byte block header
+const DECODER_TYPE_LZNA = 5;
+const DECODER_TYPE_KRAKEN = 6;
+const DECODER_TYPE_MERMAID = 10; // Mermaid and Selkie share a decoder
+const DECODER_TYPE_BITKNIT = 11;
+const DECODER_TYPE_LEVIATHAN = 12;
+
+// Output is produced in 256KB blocks made of up to 128KB chunks
+const BLOCK_SIZE = 0x40000;
+const CHUNK_SIZE = 0x20000;
+
+/**
+ * Error thrown when the compressed stream is malformed or unsupported.
+ * `truncated` is set when the input ends before a block or quantum it
+ * declares, so a longer prefix of the same stream may decode.
+ */
+export class OodleDecodeError extends Error {
+  readonly truncated: boolean;
+
+  constructor(message: string, truncated = false) {
+    super(message);
+    this.name = 'OodleDecodeError';
+    this.truncated = truncated;
+  }
+}
+
+function fail(message: string): never {
+  throw new OodleDecodeError(message);
+}
+
+function failTruncated(message: string): never {
+  throw new OodleDecodeError(message, true);
+}
+
+/**
+ * Result of decoding one entropy coded block
+ */
+interface DecodedBytes {
+  /** Number of source bytes consumed, including the block header */
+  used: number;
+  /** Decoded bytes */
+  data: Uint8Array;
+}
+
+// ============================================================================
+// Bit readers
+// ============================================================================
+
+function read16LE(buf: Uint8Array, pos: number): number {
+  return buf[pos] | (buf[pos + 1] << 8);
+}
+
+function read24LE(buf: Uint8Array, pos: number): number {
+  return buf[pos] | (buf[pos + 1] << 8) | (buf[pos + 2] << 16);
+}
+
+function read32LE(buf: Uint8Array, pos: number): number {
+  return (buf[pos] | (buf[pos + 1] << 8) | (buf[pos + 2] << 16) | (buf[pos + 3] << 24)) >>> 0;
+}
+
+/** Index of the highest set bit */
+function bsr(value: number): number {
+  return 31 - Math.clz32(value);
+}
+
+/**
+ * MSB-first bit reader that keeps at least 24 bits buffered.
+ * `bitpos` is the position the next byte will be loaded at.
+ */
+class BitReader {
+  p: number;
+  pEnd: number;
+  bits: number = 0;
+  bitpos: number = 24;
+
+  constructor(private buf: Uint8Array, p: number, pEnd: number) {
+    this.p = p;
+    this.pEnd = pEnd;
+  }
+
+  refill(): void {
+    while (this.bitpos > 0) {
+      const byte = this.p < this.pEnd ? this.buf[this.p] : 0;
+      this.bits = (this.bits | (byte << this.bitpos)) >>> 0;
+      this.bitpos -= 8;
+      this.p++;
+    }
+  }
+
+  /** Refill reading bytes downwards; `pEnd` is the lower bound */
+  refillBackwards(): void {
+    while (this.bitpos > 0) {
+      this.p--;
+      const byte = this.p >= this.pEnd ? this.buf[this.p] : 0;
+      this.bits = (this.bits | (byte << this.bitpos)) >>> 0;
+      this.bitpos -= 8;
+    }
+  }
+
+  readBitNoRefill(): number {
+    const r = this.bits >>> 31;
+    this.bits = (this.bits << 1) >>> 0;
+    this.bitpos += 1;
+    return r;
+  }
+
+  readBit(): number {
+    this.refill();
+    return this.readBitNoRefill();
+  }
+
+  /** Read 1-24 bits */
+  readBitsNoRefill(n: number): number {
+    const r = this.bits >>> (32 - n);
+    this.bits = (this.bits << n) >>> 0;
+    this.bitpos += n;
+    return r;
+  }
+
+  /** Read 0-24 bits */
+  readBitsNoRefillZero(n: number): number {
+    const r = (this.bits >>> 1) >>> (31 - n);
+    this.bits = n >= 32 ? 0 : (this.bits << n) >>> 0;
+    this.bitpos += n;
+    return r;
+  }
+
+  readMoreThan24Bits(n: number, backwards: boolean): number {
+    let rv: number;
+    if (n <= 24) {
+      rv = this.readBitsNoRefillZero(n);
+    } else {
+      rv = this.readBitsNoRefill(24) * (1 << (n - 24));
+      if (backwards) this.refillBackwards(); else this.refill();
+      rv += this.readBitsNoRefill(n - 24);
+    }
+    if (backwards) this.refillBackwards(); else this.refill();
+    return rv;
+  }
+
+  /**
+   * Read an offset code parameterised by the packed offset byte `v`
+   */
+  readDistance(v: number, backwards: boolean): number {
+    let rv: number;
+    if (v < 0xF0) {
+      const n = (v >> 4) + 4;
+      const w = this.rotl(this.bits | 1, n);
+      this.bitpos += n;
+      const m = (2 << n) - 1;
+      this.bits = (w & ~m) >>> 0;
+      rv = ((w & m) << 4) + (v & 0xF) - 248;
+    } else {
+      const n = v - 0xF0 + 4;
+      const w = this.rotl(this.bits | 1, n);
+      this.bitpos += n;
+      const m = (2 << n) - 1;
+      this.bits = (w & ~m) >>> 0;
+      rv = 8322816 + (w & m) * 4096;
+      if (backwards) this.refillBackwards(); else this.refill();
+      rv += this.bits >>> 20;
+      this.bitpos += 12;
+      this.bits = (this.bits << 12) >>> 0;
+    }
+    if (backwards) this.refillBackwards(); else this.refill();
+    return rv;
+  }
+
+  /**
+   * Read a gamma coded length, returns -1 if the code is invalid
+   */
+  readLength(backwards: boolean): number {
+    let n = Math.clz32(this.bits);
+    if (n > 12) return -1;
+    this.bitpos += n;
+    this.bits = (this.bits << n) >>> 0;
+    if (backwards) this.refillBackwards(); else this.refill();
+    n += 7;
+    this.bitpos += n;
+    const rv = (this.bits >>> (32 - n)) - 64;
+    this.bits = (this.bits << n) >>> 0;
+    if (backwards) this.refillBackwards(); else this.refill();
+    return rv;
+  }
+
+  /**
+   * Read the "fluff" value used to size the symbol range table
+   */
+  readFluff(numSymbols: number): number {
+    if (numSymbols === 256) return 0;
+
+    let x = 257 - numSymbols;
+    if (x > numSymbols) x = numSymbols;
+    x *= 2;
+
+    const y = bsr(x - 1) + 1;
+    const v = this.bits >>> (32 - y);
+    const z = (1 << y) - x;
+
+    if ((v >> 1) >= z) {
+      this.bits = (this.bits << y) >>> 0;
+      this.bitpos += y;
+      return v - z;
+    }
+    this.bits = (this.bits << (y - 1)) >>> 0;
+    this.bitpos += y - 1;
+    return v >> 1;
+  }
+
+  /** Byte position of the first byte that has not been consumed */
+  get bytePosition(): number {
+    return this.p - ((24 - this.bitpos) >> 3);
+  }
+
+  private rotl(value: number, n: number): number {
+    return ((value << n) | (value >>> (32 - n))) >>> 0;
+  }
+}
+
+/**
+ * Byte oriented bit reader used for the Golomb-Rice coded tables
+ */
+interface ByteBitReader {
+  p: number;
+  pEnd: number;
+  bitpos: number;
+}
+
+/**
+ * Switch from a BitReader to a byte oriented reader at the same position
+ */
+function toByteBitReader(bits: BitReader): ByteBitReader {
+  return {
+    p: bits.p - ((24 - bits.bitpos + 7) >> 3),
+    pEnd: bits.pEnd,
+    bitpos: (bits.bitpos - 24) & 7,
+  };
+}
+
+/**
+ * Switch back from a byte oriented reader to a BitReader
+ */
+function fromByteBitReader(bits: BitReader, br: ByteBitReader): void {
+  bits.bitpos = 24;
+  bits.p = br.p;
+  bits.bits = 0;
+  bits.refill();
+  bits.bits = (bits.bits << br.bitpos) >>> 0;
+  bits.bitpos += br.bitpos;
+}
+
+/**
+ * Decode unary (Rice quotient) values; each value is the number of zero bits
+ * before the next set bit.
+ */
+function decodeGolombRiceLengths(src: Uint8Array, dst: Uint8Array, size: number, br: ByteBitReader): boolean {
+  let p = br.p;
+  let bitpos = br.bitpos;
+  let count = 0;
+  let i = 0;
+
+  if (p >= br.pEnd) return false;
+
+  while (i < size) {
+    if (p >= br.pEnd) return false;
+    const bit = (src[p] >> (7 - bitpos)) & 1;
+    if (++bitpos === 8) {
+      bitpos = 0;
+      p++;
+    }
+    if (bit) {
+      dst[i++] = count;
+      count = 0;
+    } else {
+      count++;
+    }
+  }
+
+  br.p = p;
+  br.bitpos = bitpos;
+  return true;
+}
+
+/**
+ * Append `bitcount` raw low bits (Rice remainder) to each value
+ */
+function decodeGolombRiceBits(src: Uint8Array, dst: Uint8Array, size: number, bitcount: number, br: ByteBitReader): boolean {
+  if (bitcount === 0) return true;
+
+  const bitsRequired = br.bitpos + bitcount * size;
+  if (((bitsRequired + 7) >> 3) > br.pEnd - br.p) return false;
+
+  let bitPos = br.p * 8 + br.bitpos;
+  for (let i = 0; i < size; i++) {
+    let v = 0;
+    for (let j = 0; j < bitcount; j++, bitPos++) {
+      v = (v << 1) | ((src[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    dst[i] = (dst[i] << bitcount) + v;
+  }
+
+  br.p += bitsRequired >> 3;
+  br.bitpos = bitsRequired & 7;
+  return true;
+}
+
+// ============================================================================
+// Huffman
+// ============================================================================
+
+const HUFF_CODE_PREFIX = [0x0, 0x0, 0x2, 0x6, 0xE, 0x1E, 0x3E, 0x7E, 0xFE, 0x1FE, 0x2FE, 0x3FE];
+
+interface HuffRange {
+  symbol: number;
+  num: number;
+}
+
+/**
+ * Convert the symbol range description into a list of runs of used symbols
+ */
+function huffConvertToRanges(
+  numSymbols: number,
+  fluff: number,
+  symlen: Uint8Array,
+  symlenPos: number,
+  bits: BitReader
+): HuffRange[] | null {
+  const numRanges = fluff >> 1;
+  const ranges: HuffRange[] = [];
+  let symIdx = 0;
+
+  // Start with space?
+  if (fluff & 1) {
+    bits.refill();
+    const v = symlen[symlenPos++];
+    if (v >= 8) return null;
+    symIdx = bits.readBitsNoRefill(v + 1) + (1 << (v + 1)) - 1;
+  }
+
+  let symsUsed = 0;
+  for (let i = 0; i < numRanges; i++) {
+    bits.refill();
+    let v = symlen[symlenPos];
+    if (v >= 9) return null;
+    const num = bits.readBitsNoRefillZero(v) + (1 << v);
+    v = symlen[symlenPos + 1];
+    if (v >= 8) return null;
+    const space = bits.readBitsNoRefill(v + 1) + (1 << (v + 1)) - 1;
+    ranges.push({ symbol: symIdx, num });
+    symsUsed += num;
+    symIdx += num + space;
+    symlenPos += 2;
+  }
+
+  if (symIdx >= 256 || symsUsed >= numSymbols || symIdx + numSymbols - symsUsed > 256) {
+    return null;
+  }
+
+  ranges.push({ symbol: symIdx, num: numSymbols - symsUsed });
+  return ranges;
+}
+
+/**
+ * Read code lengths in the older gamma coded format
+ */
+function huffReadCodeLengthsOld(bits: BitReader, syms: Uint8Array, codePrefix: number[]): number {
+  if (bits.readBitNoRefill()) {
+    let sym = 0;
+    let numSymbols = 0;
+    let avgBitsX4 = 32;
+    const forcedBits = bits.readBitsNoRefill(2);
+
+    const threshold = (1 << (31 - (20 >>> forcedBits))) >>> 0;
+    let skipInitialZeros = bits.readBit() !== 0;
+
+    for (;;) {
+      if (!skipInitialZeros) {
+        if (!(bits.bits & 0xFF000000)) return -1;
+        sym += bits.readBitsNoRefill(2 * (Math.clz32(bits.bits) + 1)) - 2 + 1;
+        if (sym >= 256) break;
+      }
+      skipInitialZeros = false;
+      bits.refill();
+
+      // Gamma coded number of symbols in this run
+      if (!(bits.bits & 0xFF000000)) return -1;
+      let n = bits.readBitsNoRefill(2 * (Math.clz32(bits.bits) + 1)) - 2 + 1;
+      if (sym + n > 256) return -1;
+      bits.refill();
+      numSymbols += n;
+
+      do {
+        if (bits.bits < threshold) return -1;
+
+        const lz = Math.clz32(bits.bits);
+        const v = bits.readBitsNoRefill(lz + forcedBits + 1) + ((lz - 1) << forcedBits);
+        const codelen = (-(v & 1) ^ (v >>> 1)) + ((avgBitsX4 + 2) >> 2);
+        if (codelen < 1 || codelen > 11) return -1;
+        avgBitsX4 = codelen + ((3 * avgBitsX4 + 2) >> 2);
+        bits.refill();
+        syms[codePrefix[codelen]++] = sym++;
+      } while (--n);
+    }
+
+    if (sym !== 256 || numSymbols < 2) return -1;
+    return numSymbols;
+  }
+
+  // Sparse symbol encoding
+  const numSymbols = bits.readBitsNoRefill(8);
+  if (numSymbols === 0) return -1;
+
+  if (numSymbols === 1) {
+    syms[0] = bits.readBitsNoRefill(8);
+  } else {
+    const codelenBits = bits.readBitsNoRefill(3);
+    if (codelenBits > 4) return -1;
+    for (let i = 0; i < numSymbols; i++) {
+      bits.refill();
+      const sym = bits.readBitsNoRefill(8);
+      const codelen = bits.readBitsNoRefillZero(codelenBits) + 1;
+      if (codelen > 11) return -1;
+      syms[codePrefix[codelen]++] = sym;
+    }
+  }
+  return numSymbols;
+}
+
+/**
+ * Read code lengths in the newer Golomb-Rice coded format
+ */
+function huffReadCodeLengthsNew(src: Uint8Array, bits: BitReader, syms: Uint8Array, codePrefix: number[]): number {
+  const forcedBits = bits.readBitsNoRefill(2);
+  const numSymbols = bits.readBitsNoRefill(8) + 1;
+  const fluff = bits.readFluff(numSymbols);
+
+  const codeLen = new Uint8Array(512 + 16);
+  const br = toByteBitReader(bits);
+
+  if (!decodeGolombRiceLengths(src, codeLen, numSymbols + fluff, br)) return -1;
+  if (!decodeGolombRiceBits(src, codeLen, numSymbols, forcedBits, br)) return -1;
+
+  fromByteBitReader(bits, br);
+
+  let runningSum = 0x1E;
+  for (let i = 0; i < numSymbols; i++) {
+    let v = codeLen[i];
+    v = -(v & 1) ^ (v >>> 1);
+    const len = v + (runningSum >> 2) + 1;
+    if (len < 1 || len > 11) return -1;
+    codeLen[i] = len;
+    runningSum += v;
+  }
+
+  const ranges = huffConvertToRanges(numSymbols, fluff, codeLen, numSymbols, bits);
+  if (!ranges) return -1;
+
+  let cp = 0;
+  for (const range of ranges) {
+    let sym = range.symbol;
+    for (let n = range.num; n > 0; n--) {
+      syms[codePrefix[codeLen[cp++]]++] = sym++;
+    }
+  }
+
+  return numSymbols;
+}
+
+/** Reverse the low 11 bits of a value */
+function reverseBits11(value: number): number {
+  let r = 0;
+  for (let i = 0; i < 11; i++) {
+    r = (r << 1) | ((value >> i) & 1);
+  }
+  return r;
+}
+
+const REVERSE_BITS_11 = (() => {
+  const table = new Uint16Array(2048);
+  for (let i = 0; i < 2048; i++) table[i] = reverseBits11(i);
+  return table;
+})();
+
+/**
+ * Build the 11-bit lookup tables (indexed LSB-first) from the sorted symbols
+ */
+function huffMakeLut(
+  codePrefix: number[],
+  syms: Uint8Array
+): { lenLut: Uint8Array; symLut: Uint8Array } | null {
+  const bits2len = new Uint8Array(2048);
+  const bits2sym = new Uint8Array(2048);
+  let currslot = 0;
+
+  for (let i = 1; i < 11; i++) {
+    const start = HUFF_CODE_PREFIX[i];
+    const count = codePrefix[i] - start;
+    if (count) {
+      const stepsize = 1 << (11 - i);
+      const numToSet = count << (11 - i);
+      if (currslot + numToSet > 2048) return null;
+      bits2len.fill(i, currslot, currslot + numToSet);
+      for (let j = 0; j < count; j++) {
+        const slot = currslot + j * stepsize;
+        bits2sym.fill(syms[start + j], slot, slot + stepsize);
+      }
+      currslot += numToSet;
+    }
+  }
+
+  const count11 = codePrefix[11] - HUFF_CODE_PREFIX[11];
+  if (count11) {
+    if (currslot + count11 > 2048) return null;
+    bits2len.fill(11, currslot, currslot + count11);
+    bits2sym.set(syms.subarray(HUFF_CODE_PREFIX[11], HUFF_CODE_PREFIX[11] + count11), currslot);
+    currslot += count11;
+  }
+
+  if (currslot !== 2048) return null;
+
+  const lenLut = new Uint8Array(2048);
+  const symLut = new Uint8Array(2048);
+  for (let i = 0; i < 2048; i++) {
+    lenLut[i] = bits2len[REVERSE_BITS_11[i]];
+    symLut[i] = bits2sym[REVERSE_BITS_11[i]];
+  }
+  return { lenLut, symLut };
+}
+
+/**
+ * Decode three interleaved Huffman streams: one forwards from `srcStart`,
+ * one backwards from `srcEnd` and one forwards from `srcMid`.
+ */
+function huffDecodeStreams(
+  src: Uint8Array,
+  srcStart: number,
+  srcMid: number,
+  srcEnd: number,
+  out: Uint8Array,
+  outPos: number,
+  outEnd: number,
+  lenLut: Uint8Array,
+  symLut: Uint8Array
+): boolean {
+  if (srcStart > srcMid) return false;
+
+  let bitsA = 0;
+  let bitsB = 0;
+  let bitsC = 0;
+
+  while (outPos < outEnd) {
+    let p = srcStart + (bitsA >> 3);
+    let k = ((src[p] | (src[p + 1] << 8) | (src[p + 2] << 16)) >>> (bitsA & 7)) & 0x7FF;
+    out[outPos++] = symLut[k];
+    bitsA += lenLut[k];
+
+    if (outPos < outEnd) {
+      p = srcEnd - 1 - (bitsB >> 3);
+      k = ((src[p] | (src[p - 1] << 8) | (src[p - 2] << 16)) >>> (bitsB & 7)) & 0x7FF;
+      out[outPos++] = symLut[k];
+      bitsB += lenLut[k];
+
+      if (outPos < outEnd) {
+        p = srcMid + (bitsC >> 3);
+        k = ((src[p] | (src[p + 1] << 8) | (src[p + 2] << 16)) >>> (bitsC & 7)) & 0x7FF;
+        out[outPos++] = symLut[k];
+        bitsC += lenLut[k];
+      }
+    }
+
+    const posA = srcStart + ((bitsA + 7) >> 3);
+    const posB = srcEnd - ((bitsB + 7) >> 3);
+    const posC = srcMid + ((bitsC + 7) >> 3);
+    if (posA > srcMid || posC > posB) return false;
+  }
+
+  const posA = srcStart + ((bitsA + 7) >> 3);
+  const posB = srcEnd - ((bitsB + 7) >> 3);
+  const posC = srcMid + ((bitsC + 7) >> 3);
+  return posA === srcMid && posC === posB;
+}
+
+/**
+ * Decode a Huffman block with 3 (type 1) or 6 (type 2) streams
+ */
+function decodeHuffman(src: Uint8Array, pos: number, srcSize: number, out: Uint8Array, type: number): number {
+  const srcEnd = pos + srcSize;
+  const bits = new BitReader(src, pos, srcEnd);
+  bits.refill();
+
+  const codePrefix = HUFF_CODE_PREFIX.slice();
+  const syms = new Uint8Array(1280);
+  let numSyms: number;
+
+  if (!bits.readBitNoRefill()) {
+    numSyms = huffReadCodeLengthsOld(bits, syms, codePrefix);
+  } else if (!bits.readBitNoRefill()) {
+    numSyms = huffReadCodeLengthsNew(src, bits, syms, codePrefix);
+  } else {
+    return -1;
+  }
+
+  if (numSyms < 1) return -1;
+  let p = bits.bytePosition;
+
+  if (numSyms === 1) {
+    out.fill(syms[0]);
+    return srcSize;
+  }
+
+  const lut = huffMakeLut(codePrefix, syms);
+  if (!lut) return -1;
+
+  if (type === 1) {
+    if (p + 3 > srcEnd) return -1;
+    const splitMid = read16LE(src, p);
+    p += 2;
+    if (!huffDecodeStreams(src, p, p + splitMid, srcEnd, out, 0, out.length, lut.lenLut, lut.symLut)) {
+      return -1;
+    }
+  } else {
+    if (p + 6 > srcEnd) return -1;
+
+    const halfOutputSize = (out.length + 1) >> 1;
+    const splitMid = read24LE(src, p);
+    p += 3;
+    if (splitMid > srcEnd - p) return -1;
+    const srcMid = p + splitMid;
+    const splitLeft = read16LE(src, p);
+    p += 2;
+    if (srcMid - p < splitLeft + 2 || srcEnd - srcMid < 3) return -1;
+    const splitRight = read16LE(src, srcMid);
+    if (srcEnd - (srcMid + 2) < splitRight + 2) return -1;
+
+    if (!huffDecodeStreams(src, p, p + splitLeft, srcMid, out, 0, halfOutputSize, lut.lenLut, lut.symLut)) {
+      return -1;
+    }
+    if (!huffDecodeStreams(src, srcMid + 2, srcMid + 2 + splitRight, srcEnd, out, halfOutputSize, out.length, lut.lenLut, lut.symLut)) {
+      return -1;
+    }
+  }
+
+  return srcSize;
+}
+
+// ============================================================================
+// tANS
+// ============================================================================
+
+interface TansData {
+  a: number[];
+  b: number[];
+}
+
+interface TansLut {
+  x: Uint32Array;
+  bitsX: Uint8Array;
+  symbol: Uint8Array;
+  w: Uint16Array;
+}
+
+function tansDecodeTable(src: Uint8Array, bits: BitReader, lBits: number): TansData | null {
+  const data: TansData = { a: [], b: [] };
+  bits.refill();
+
+  if (bits.readBitNoRefill()) {
+    const q = bits.readBitsNoRefill(3);
+    const numSymbols = bits.readBitsNoRefill(8) + 1;
+    if (numSymbols < 2) return null;
+
+    const fluff = bits.readFluff(numSymbols);
+    const totalRiceValues = fluff + numSymbols;
+    const rice = new Uint8Array(512 + 16);
+    const br = toByteBitReader(bits);
+
+    if (!decodeGolombRiceLengths(src, rice, totalRiceValues, br)) return null;
+
+    fromByteBitReader(bits, br);
+
+    const ranges = huffConvertToRanges(numSymbols, fluff, rice, numSymbols, bits);
+    if (!ranges) return null;
+
+    bits.refill();
+
+    const L = 1 << lBits;
+    let ricePos = 0;
+    let average = 6;
+    let somesum = 0;
+
+    for (const range of ranges) {
+      let symbol = range.symbol;
+      for (let num = range.num; num > 0; num--) {
+        bits.refill();
+
+        const nextra = q + rice[ricePos++];
+        if (nextra > 15) return null;
+        let v = bits.readBitsNoRefillZero(nextra) + (1 << nextra) - (1 << q);
+
+        const averageDiv4 = average >> 2;
+        let limit = 2 * averageDiv4;
+        if (v <= limit) {
+          v = averageDiv4 + (-(v & 1) ^ (v >>> 1));
+        }
+        if (limit > v) limit = v;
+        v += 1;
+        average += limit - averageDiv4;
+
+        if (v === 1) {
+          data.a.push(symbol);
+        } else {
+          data.b.push((symbol << 16) + v);
+        }
+        somesum += v;
+        symbol += 1;
+      }
+    }
+
+    if (somesum !== L) return null;
+    return data;
+  }
+
+  const seen = new Uint8Array(256);
+  const L = 1 << lBits;
+  let count = bits.readBitsNoRefill(3) + 1;
+  const bitsPerSym = bsr(lBits) + 1;
+  const maxDeltaBits = bits.readBitsNoRefill(bitsPerSym);
+
+  if (maxDeltaBits === 0 || maxDeltaBits > lBits) return null;
+
+  let weight = 0;
+  let totalWeights = 0;
+
+  do {
+    bits.refill();
+    const sym = bits.readBitsNoRefill(8);
+    if (seen[sym]) return null;
+
+    weight += bits.readBitsNoRefill(maxDeltaBits);
+    if (weight === 0) return null;
+
+    seen[sym] = 1;
+    if (weight === 1) {
+      data.a.push(sym);
+    } else {
+      data.b.push((sym << 16) + weight);
+    }
+    totalWeights += weight;
+  } while (--count);
+
+  bits.refill();
+  const sym = bits.readBitsNoRefill(8);
+  if (seen[sym]) return null;
+  if (L - totalWeights < weight || L - totalWeights <= 1) return null;
+
+  data.b.push((sym << 16) + (L - totalWeights));
+
+  data.a.sort((x, y) => x - y);
+  data.b.sort((x, y) => x - y);
+  return data;
+}
+
+function tansInitLut(data: TansData, lBits: number): TansLut {
+  const L = 1 << lBits;
+  const lut: TansLut = {
+    x: new Uint32Array(L),
+    bitsX: new Uint8Array(L),
+    symbol: new Uint8Array(L),
+    w: new Uint16Array(L),
+  };
+
+  const aUsed = data.a.length;
+  const slotsLeft = L - aUsed;
+  const sa = slotsLeft >> 2;
+  const pointers = [0, 0, 0, 0];
+  let sb = sa + ((slotsLeft & 3) > 0 ? 1 : 0);
+  pointers[1] = sb;
+  sb += sa + ((slotsLeft & 3) > 1 ? 1 : 0);
+  pointers[2] = sb;
+  sb += sa + ((slotsLeft & 3) > 2 ? 1 : 0);
+  pointers[3] = sb;
+
+  // Entries with weight 1 go at the end
+  for (let i = 0; i < aUsed; i++) {
+    const idx = slotsLeft + i;
+    lut.w[idx] = 0;
+    lut.bitsX[idx] = lBits;
+    lut.x[idx] = L - 1;
+    lut.symbol[idx] = data.a[i];
+  }
+
+  const set = (idx: number, symbol: number, bitsX: number, x: number, w: number) => {
+    lut.symbol[idx] = symbol;
+    lut.bitsX[idx] = bitsX;
+    lut.x[idx] = x;
+    lut.w[idx] = w;
+  };
+
+  // Entries with weight >= 2 are spread over the 4 quarters
+  let weightsSum = 0;
+  for (const entry of data.b) {
+    const weight = entry & 0xFFFF;
+    const symbol = entry >>> 16;
+
+    if (weight > 4) {
+      const symBits = bsr(weight);
+      let z = lBits - symBits;
+      let leBitsX = z;
+      let leX = (1 << z) - 1;
+      let leW = (L - 1) & (weight << z);
+      let whatToAdd = 1 << z;
+      let x = (1 << (symBits + 1)) - weight;
+
+      for (let j = 0; j < 4; j++) {
+        let dst = pointers[j];
+        const y = (weight + ((weightsSum - j - 1) & 3)) >> 2;
+        if (x >= y) {
+          for (let n = y; n > 0; n--) {
+            set(dst++, symbol, leBitsX, leX, leW);
+            leW += whatToAdd;
+          }
+          x -= y;
+        } else {
+          for (let n = x; n > 0; n--) {
+            set(dst++, symbol, leBitsX, leX, leW);
+            leW += whatToAdd;
+          }
+          z--;
+          whatToAdd >>= 1;
+          leBitsX = z;
+          leW = 0;
+          leX >>= 1;
+          for (let n = y - x; n > 0; n--) {
+            set(dst++, symbol, leBitsX, leX, leW);
+            leW += whatToAdd;
+          }
+          x = weight;
+        }
+        pointers[j] = dst;
+      }
+    } else {
+      let slotBits = ((1 << weight) - 1) << (weightsSum & 3);
+      slotBits |= slotBits >> 4;
+      let ww = weight;
+      for (let n = weight; n > 0; n--) {
+        const idx = 31 - Math.clz32(slotBits & -slotBits);
+        slotBits &= slotBits - 1;
+        const weightBits = bsr(ww);
+        set(pointers[idx]++, symbol, lBits - weightBits, (1 << (lBits - weightBits)) - 1, (L - 1) & (ww << (lBits - weightBits)));
+        ww++;
+      }
+    }
+    weightsSum += weight;
+  }
+
+  return lut;
+}
+
+// Order of operations in the interleaved tANS decode loop:
+// -1 refill forward, -2 refill backward, 0-4 forward state, 5-9 backward state
+const TANS_SCHEDULE = [-1, 0, 1, -1, 2, 3, -1, 4, -2, 5, 6, -2, 7, 8, -2, 9];
+
+/**
+ * Decode a tANS block with 5 interleaved states
+ */
+function decodeTans(src: Uint8Array, pos: number, srcSize: number, out: Uint8Array): number {
+  if (srcSize < 8 || out.length < 5) return -1;
+
+  let srcEnd = pos + srcSize;
+  const bits = new BitReader(src, pos, srcEnd);
+  bits.refill();
+
+  // Reserved bit
+  if (bits.readBitNoRefill()) return -1;
+
+  const lBits = bits.readBitsNoRefill(2) + 8;
+  const table = tansDecodeTable(src, bits, lBits);
+  if (!table) return -1;
+
+  let p = bits.bytePosition;
+  if (p >= srcEnd) return -1;
+
+  const lut = tansInitLut(table, lBits);
+  const lMask = (1 << lBits) - 1;
+  const states = [0, 0, 0, 0, 0];
+
+  // Read out the initial states
+  let bitsF = read32LE(src, p);
+  p += 4;
+  let bitsB = ((src[srcEnd - 1]) | (src[srcEnd - 2] << 8) | (src[srcEnd - 3] << 16) | (src[srcEnd - 4] << 24)) >>> 0;
+  srcEnd -= 4;
+  let bitposF = 32;
+  let bitposB = 32;
+
+  states[0] = bitsF & lMask;
+  states[1] = bitsB & lMask;
+  bitsF >>>= lBits; bitposF -= lBits;
+  bitsB >>>= lBits; bitposB -= lBits;
+
+  states[2] = bitsF & lMask;
+  states[3] = bitsB & lMask;
+  bitsF >>>= lBits; bitposF -= lBits;
+  bitsB >>>= lBits; bitposB -= lBits;
+
+  bitsF = (bitsF | (read32LE(src, p) << bitposF)) >>> 0;
+  p += (31 - bitposF) >> 3;
+  bitposF |= 24;
+
+  states[4] = bitsF & lMask;
+  bitsF >>>= lBits; bitposF -= lBits;
+
+  let ptrF = p - (bitposF >> 3);
+  bitposF &= 7;
+  let ptrB = srcEnd + (bitposB >> 3);
+  bitposB &= 7;
+
+  if (ptrF > ptrB) return -1;
+
+  const dstEnd = out.length - 5;
+  let dst = 0;
+  let step = 0;
+
+  while (dst < dstEnd) {
+    const op = TANS_SCHEDULE[step];
+    step = (step + 1) & 15;
+
+    if (op === -1) {
+      bitsF = (bitsF | (read32LE(src, ptrF) << bitposF)) >>> 0;
+      ptrF += (31 - bitposF) >> 3;
+      bitposF |= 24;
+    } else if (op === -2) {
+      const v = ((src[ptrB - 1]) | (src[ptrB - 2] << 8) | (src[ptrB - 3] << 16) | (src[ptrB - 4] << 24)) >>> 0;
+      bitsB = (bitsB | (v << bitposB)) >>> 0;
+      ptrB -= (31 - bitposB) >> 3;
+      bitposB |= 24;
+    } else if (op < 5) {
+      const e = states[op];
+      out[dst++] = lut.symbol[e];
+      const n = lut.bitsX[e];
+      bitposF -= n;
+      states[op] = (bitsF & lut.x[e]) + lut.w[e];
+      bitsF >>>= n;
+    } else {
+      const e = states[op - 5];
+      out[dst++] = lut.symbol[e];
+      const n = lut.bitsX[e];
+      bitposB -= n;
+      states[op - 5] = (bitsB & lut.x[e]) + lut.w[e];
+      bitsB >>>= n;
+    }
+  }
+
+  if (ptrB - ptrF + (bitposF >> 3) + (bitposB >> 3) !== 0) return -1;
+  if ((states[0] | states[1] | states[2] | states[3] | states[4]) & ~0xFF) return -1;
+
+  for (let i = 0; i < 5; i++) {
+    out[dstEnd + i] = states[i];
+  }
+  return srcSize;
+}
+
+// ============================================================================
+// RLE and recursive blocks
+// ============================================================================
+
+function decodeRle(src: Uint8Array, pos: number, srcSize: number, out: Uint8Array): number {
+  if (srcSize <= 1) {
+    if (srcSize !== 1) return -1;
+    out.fill(src[pos]);
+    return 1;
+  }
+
+  const dstEnd = out.length;
+  let dst = 0;
+  let cmdBuf = src;
+  let cmdPtr = pos + 1;
+  let cmdPtrEnd = pos + srcSize;
+
+  // The command buffer may itself be entropy coded
+  if (src[pos]) {
+    const decoded = decodeBytes(src, pos, pos + srcSize, CHUNK_SIZE * 2);
+    const rest = srcSize - decoded.used;
+    cmdBuf = new Uint8Array(decoded.data.length + rest);
+    cmdBuf.set(decoded.data, 0);
+    cmdBuf.set(src.subarray(pos + decoded.used, pos + srcSize), decoded.data.length);
+    cmdPtr = 0;
+    cmdPtrEnd = cmdBuf.length;
+  }
+
+  let rleByte = 0;
+
+  while (cmdPtr < cmdPtrEnd) {
+    const cmd = cmdBuf[cmdPtrEnd - 1];
+    if (cmd === 0 || cmd > 0x2F) {
+      cmdPtrEnd--;
+      const bytesToCopy = (-1 - cmd) & 0xF;
+      const bytesToRle = cmd >> 4;
+      if (dstEnd - dst < bytesToCopy + bytesToRle || cmdPtrEnd - cmdPtr < bytesToCopy) return -1;
+      out.set(cmdBuf.subarray(cmdPtr, cmdPtr + bytesToCopy), dst);
+      cmdPtr += bytesToCopy;
+      dst += bytesToCopy;
+      out.fill(rleByte, dst, dst + bytesToRle);
+      dst += bytesToRle;
+    } else if (cmd >= 0x10) {
+      const data = read16LE(cmdBuf, cmdPtrEnd - 2) - 4096;
+      cmdPtrEnd -= 2;
+      const bytesToCopy = data & 0x3F;
+      const bytesToRle = data >> 6;
+      if (dstEnd - dst < bytesToCopy + bytesToRle || cmdPtrEnd - cmdPtr < bytesToCopy) return -1;
+      out.set(cmdBuf.subarray(cmdPtr, cmdPtr + bytesToCopy), dst);
+      cmdPtr += bytesToCopy;
+      dst += bytesToCopy;
+      out.fill(rleByte, dst, dst + bytesToRle);
+      dst += bytesToRle;
+    } else if (cmd === 1) {
+      rleByte = cmdBuf[cmdPtr++];
+      cmdPtrEnd--;
+    } else if (cmd >= 9) {
+      const bytesToRle = (read16LE(cmdBuf, cmdPtrEnd - 2) - 0x8FF) * 128;
+      cmdPtrEnd -= 2;
+      if (dstEnd - dst < bytesToRle) return -1;
+      out.fill(rleByte, dst, dst + bytesToRle);
+      dst += bytesToRle;
+    } else {
+      const bytesToCopy = (read16LE(cmdBuf, cmdPtrEnd - 2) - 511) * 64;
+      cmdPtrEnd -= 2;
+      if (cmdPtrEnd - cmdPtr < bytesToCopy || dstEnd - dst < bytesToCopy) return -1;
+      out.set(cmdBuf.subarray(cmdPtr, cmdPtr + bytesToCopy), dst);
+      dst += bytesToCopy;
+      cmdPtr += bytesToCopy;
+    }
+  }
+
+  if (cmdPtrEnd !== cmdPtr || dst !== dstEnd) return -1;
+  return srcSize;
+}
+
+function decodeRecursive(src: Uint8Array, pos: number, srcSize: number, out: Uint8Array): number {
+  const srcEnd = pos + srcSize;
+  if (srcSize < 6) return -1;
+
+  let n = src[pos] & 0x7F;
+  if (n < 2) return -1;
+
+  if (!(src[pos] & 0x80)) {
+    let p = pos + 1;
+    let outPos = 0;
+    do {
+      const decoded = decodeBytes(src, p, srcEnd, out.length - outPos);
+      out.set(decoded.data, outPos);
+      outPos += decoded.data.length;
+      p += decoded.used;
+    } while (--n);
+    if (outPos !== out.length) return -1;
+    return p - pos;
+  }
+
+  const result = decodeMultiArray(src, pos, srcEnd, out.length, 1);
+  if (result.total !== out.length) return -1;
+  out.set(result.arrays[0], 0);
+  return result.used;
+}
+
+/**
+ * Read the decoded size of the next entropy block without decoding it
+ */
+function getBlockSize(src: Uint8Array, pos: number, end: number, capacity: number): number {
+  if (end - pos < 2) fail('Block header truncated');
+
+  const b0 = src[pos];
+  const chunkType = (b0 >> 4) & 7;
+
+  if (chunkType === 0) {
+    let size: number;
+    if (b0 >= 0x80) {
+      size = ((b0 << 8) | src[pos + 1]) & 0xFFF;
+      pos += 2;
+    } else {
+      if (end - pos < 3) fail('Block header truncated');
+      size = (b0 << 16) | (src[pos + 1] << 8) | src[pos + 2];
+      if (size & ~0x3FFFF) fail('Invalid stored block size');
+      pos += 3;
+    }
+    if (size > capacity || end - pos < size) fail('Stored block out of bounds');
+    return size;
+  }
+
+  if (chunkType >= 6) fail(`Unknown entropy block type ${chunkType}`);
+
+  let srcSize: number;
+  let dstSize: number;
+  if (b0 >= 0x80) {
+    if (end - pos < 3) fail('Block header truncated');
+    const bits = (b0 << 16) | (src[pos + 1] << 8) | src[pos + 2];
+    srcSize = bits & 0x3FF;
+    dstSize = srcSize + ((bits >> 10) & 0x3FF) + 1;
+    pos += 3;
+  } else {
+    if (end - pos < 5) fail('Block header truncated');
+    const bits = ((src[pos + 1] << 24) | (src[pos + 2] << 16) | (src[pos + 3] << 8) | src[pos + 4]) >>> 0;
+    srcSize = bits & 0x3FFFF;
+    dstSize = (((bits >>> 18) | (b0 << 14)) & 0x3FFFF) + 1;
+    if (srcSize >= dstSize) fail('Invalid entropy block size');
+    pos += 5;
+  }
+  if (end - pos < srcSize || dstSize > capacity) fail('Entropy block out of bounds');
+  return dstSize;
+}
+
+/**
+ * Decode one entropy coded block (memcopy, tANS, Huffman, RLE or recursive)
+ */
+function decodeBytes(src: Uint8Array, pos: number, end: number, capacity: number): DecodedBytes {
+  const start = pos;
+  if (end - pos < 2) fail('Block header truncated');
+
+  const b0 = src[pos];
+  const chunkType = (b0 >> 4) & 7;
+
+  if (chunkType === 0) {
+    const size = getBlockSize(src, pos, end, capacity);
+    pos += b0 >= 0x80 ? 2 : 3;
+    return { used: pos + size - start, data: src.subarray(pos, pos + size) };
+  }
+
+  const dstSize = getBlockSize(src, pos, end, capacity);
+  let srcSize: number;
+  if (b0 >= 0x80) {
+    srcSize = ((b0 << 16) | (src[pos + 1] << 8) | src[pos + 2]) & 0x3FF;
+    pos += 3;
+  } else {
+    srcSize = ((src[pos + 2] << 16) | (src[pos + 3] << 8) | src[pos + 4]) & 0x3FFFF;
+    pos += 5;
+  }
+
+  const out = new Uint8Array(dstSize);
+  let n: number;
+  switch (chunkType) {
+    case 1:
+      n = decodeTans(src, pos, srcSize, out);
+      break;
+    case 2:
+    case 4:
+      n = decodeHuffman(src, pos, srcSize, out, chunkType >> 1);
+      break;
+    case 3:
+      n = decodeRle(src, pos, srcSize, out);
+      break;
+    default:
+      n = decodeRecursive(src, pos, srcSize, out);
+      break;
+  }
+
+  if (n !== srcSize) fail(`Entropy block type ${chunkType} failed to decode`);
+  return { used: pos + srcSize - start, data: out };
+}
+
+/**
+ * Decode blocks that were split into several arrays and interleaved
+ */
+function decodeMultiArray(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  capacity: number,
+  arrayCount: number
+): { used: number; arrays: Uint8Array[]; total: number } {
+  const start = pos;
+  if (end - pos < 4) fail('Multi-array header truncated');
+
+  let numArraysInFile = src[pos++];
+  if (!(numArraysInFile & 0x80)) fail('Invalid multi-array header');
+  numArraysInFile &= 0x3F;
+
+  const arrays: Uint8Array[] = [];
+
+  if (numArraysInFile === 0) {
+    let total = 0;
+    for (let i = 0; i < arrayCount; i++) {
+      const decoded = decodeBytes(src, pos, end, capacity - total);
+      arrays.push(decoded.data);
+      pos += decoded.used;
+      total += decoded.data.length;
+    }
+    return { used: pos - start, arrays, total };
+  }
+
+  // Decode every entropy array first
+  const entropyData: Uint8Array[] = [];
+  const entropyPos: number[] = [];
+  let totalSize = 0;
+  for (let i = 0; i < numArraysInFile; i++) {
+    const decoded = decodeBytes(src, pos, end, CHUNK_SIZE * 2);
+    entropyData.push(decoded.data);
+    entropyPos.push(0);
+    totalSize += decoded.data.length;
+    pos += decoded.used;
+  }
+
+  if (end - pos < 3) fail('Multi-array header truncated');
+
+  const q = read16LE(src, pos);
+  pos += 2;
+
+  const numIndexes = getBlockSize(src, pos, end, totalSize);
+  let numLens = numIndexes - arrayCount;
+  if (numLens < 1) fail('Invalid multi-array interval count');
+
+  let intervalIndexes: Uint8Array;
+  let intervalLenLog2: Uint8Array;
+
+  if (q & 0x8000) {
+    const decoded = decodeBytes(src, pos, end, numIndexes);
+    if (decoded.data.length !== numIndexes) fail('Multi-array interval size mismatch');
+    pos += decoded.used;
+
+    intervalIndexes = new Uint8Array(numIndexes);
+    intervalLenLog2 = new Uint8Array(numIndexes);
+    for (let i = 0; i < numIndexes; i++) {
+      const t = decoded.data[i];
+      intervalLenLog2[i] = t >> 4;
+      intervalIndexes[i] = t & 0xF;
+    }
+    numLens = numIndexes;
+  } else {
+    const lenLog2ChunkSize = numIndexes - arrayCount;
+
+    const indexes = decodeBytes(src, pos, end, numIndexes);
+    if (indexes.data.length !== numIndexes) fail('Multi-array interval size mismatch');
+    pos += indexes.used;
+
+    const lens = decodeBytes(src, pos, end, lenLog2ChunkSize);
+    if (lens.data.length !== lenLog2ChunkSize) fail('Multi-array interval size mismatch');
+    pos += lens.used;
+
+    intervalIndexes = indexes.data;
+    intervalLenLog2 = lens.data;
+    for (let i = 0; i < lenLog2ChunkSize; i++) {
+      if (intervalLenLog2[i] > 16) fail('Invalid multi-array interval length');
+    }
+  }
+
+  // Interval lengths are stored as bit strings with an implicit leading one,
+  // alternating between a forward and a backward stream
+  const varbitsCompLen = q & 0x3FFF;
+  if (end - pos < varbitsCompLen) fail('Multi-array interval data truncated');
+
+  const srcEndActual = pos + varbitsCompLen;
+  const decodedIntervals = new Uint32Array(numLens);
+  let bitPosF = pos * 8;
+  let bitPosB = 0;
+
+  for (let i = 0; i < numLens; i++) {
+    const numBits = intervalLenLog2[i];
+    let value = 1;
+    for (let j = 0; j < numBits; j++) {
+      let bit: number;
+      if ((i & 1) === 0) {
+        bit = (src[bitPosF >> 3] >> (7 - (bitPosF & 7))) & 1;
+        bitPosF++;
+      } else {
+        bit = (src[srcEndActual - 1 - (bitPosB >> 3)] >> (7 - (bitPosB & 7))) & 1;
+        bitPosB++;
+      }
+      value = (value << 1) | bit;
+    }
+    decodedIntervals[i] = value >>> 0;
+  }
+
+  if (intervalIndexes[numIndexes - 1]) fail('Invalid multi-array interval terminator');
+
+  // Gather the intervals from the entropy arrays into the output arrays
+  const output = new Uint8Array(totalSize);
+  let dst = 0;
+  let indi = 0;
+  let leni = 0;
+  const incrementLeni = (q & 0x8000) !== 0 ? 1 : 0;
+
+  for (let arri = 0; arri < arrayCount; arri++) {
+    const arrayStart = dst;
+    if (indi >= numIndexes) fail('Multi-array interval overrun');
+
+    let source: number;
+    while ((source = intervalIndexes[indi++]) !== 0) {
+      if (source > numArraysInFile) fail('Invalid multi-array source');
+      if (leni >= numLens) fail('Multi-array interval overrun');
+      const curLen = decodedIntervals[leni++];
+      const entropy = entropyData[source - 1];
+      const bytesLeft = entropy.length - entropyPos[source - 1];
+      if (curLen > bytesLeft || curLen > capacity - dst) fail('Multi-array interval out of bounds');
+      output.set(entropy.subarray(entropyPos[source - 1], entropyPos[source - 1] + curLen), dst);
+      entropyPos[source - 1] += curLen;
+      dst += curLen;
+    }
+    leni += incrementLeni;
+    arrays.push(output.subarray(arrayStart, dst));
+  }
+
+  if (indi !== numIndexes || leni !== numLens) fail('Multi-array interval count mismatch');
+
+  for (let i = 0; i < numArraysInFile; i++) {
+    if (entropyPos[i] !== entropyData[i].length) fail('Multi-array data not fully consumed');
+  }
+
+  return { used: srcEndActual - start, arrays, total: totalSize };
+}
+
+// ============================================================================
+// Shared LZ helpers
+// ============================================================================
+
+/**
+ * Copy a match byte by byte so overlapping copies repeat the pattern
+ */
+function copyMatch(dst: Uint8Array, dstPos: number, from: number, length: number): void {
+  if (dstPos - from >= length) {
+    dst.copyWithin(dstPos, from, from + length);
+  } else {
+    for (let i = 0; i < length; i++) {
+      dst[dstPos + i] = dst[from + i];
+    }
+  }
+}
+
+/**
+ * Copy literals, optionally adding the byte at `lastOffset` (delta literals)
+ */
+function copyLiterals(
+  dst: Uint8Array,
+  dstPos: number,
+  lits: Uint8Array,
+  litPos: number,
+  length: number,
+  sub: boolean,
+  lastOffset: number
+): void {
+  if (sub) {
+    for (let i = 0; i < length; i++) {
+      dst[dstPos + i] = lits[litPos + i] + dst[dstPos + i + lastOffset];
+    }
+  } else {
+    dst.set(lits.subarray(litPos, litPos + length), dstPos);
+  }
+}
+
+/**
+ * Unpack the offset and length streams shared by Kraken and Leviathan
+ */
+function unpackOffsets(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  packedOffs: Uint8Array,
+  packedOffsExtra: Uint8Array | null,
+  multiDistScale: number,
+  packedLitLen: Uint8Array
+): { offsStream: Int32Array; lenStream: Int32Array } {
+  const bitsA = new BitReader(src, pos, end);
+  bitsA.refill();
+
+  const bitsB = new BitReader(src, end, pos);
+  bitsB.refillBackwards();
+
+  // Number of lengths that did not fit in a byte
+  if (bitsB.bits < 0x2000) fail('Invalid length stream header');
+  let n = Math.clz32(bitsB.bits);
+  bitsB.bitpos += n;
+  bitsB.bits = (bitsB.bits << n) >>> 0;
+  bitsB.refillBackwards();
+  n++;
+  const u32LenStreamSize = (bitsB.bits >>> (32 - n)) - 1;
+  bitsB.bitpos += n;
+  bitsB.bits = (bitsB.bits << n) >>> 0;
+  bitsB.refillBackwards();
+
+  const offsStream = new Int32Array(packedOffs.length);
+
+  if (multiDistScale === 0) {
+    // Traditional way of coding offsets
+    for (let i = 0; i < packedOffs.length; i++) {
+      offsStream[i] = (i & 1) === 0
+        ? -bitsA.readDistance(packedOffs[i], false)
+        : -bitsB.readDistance(packedOffs[i], true);
+    }
+  } else {
+    // Offsets are coded with a scale and a separate low bits table
+    for (let i = 0; i < packedOffs.length; i++) {
+      const cmd = packedOffs[i];
+      if ((cmd >> 3) > 26) fail('Invalid offset code');
+      const reader = (i & 1) === 0 ? bitsA : bitsB;
+      const offs = (8 + (cmd & 7)) * Math.pow(2, cmd >> 3) + reader.readMoreThan24Bits(cmd >> 3, (i & 1) !== 0);
+      offsStream[i] = 8 - offs;
+    }
+    if (multiDistScale !== 1 && packedOffsExtra) {
+      for (let i = 0; i < offsStream.length; i++) {
+        offsStream[i] = multiDistScale * offsStream[i] - packedOffsExtra[i];
+      }
+    }
+  }
+
+  // Max count is 128KB / 256
+  if (u32LenStreamSize > 512) fail('Length stream too large');
+
+  const u32LenStream = new Int32Array(u32LenStreamSize);
+  for (let i = 0; i < u32LenStreamSize; i++) {
+    const v = (i & 1) === 0 ? bitsA.readLength(false) : bitsB.readLength(true);
+    if (v < 0) fail('Invalid length code');
+    u32LenStream[i] = v;
+  }
+
+  bitsA.p -= (24 - bitsA.bitpos) >> 3;
+  bitsB.p += (24 - bitsB.bitpos) >> 3;
+  if (bitsA.p !== bitsB.p) fail('Offset streams do not meet');
+
+  const lenStream = new Int32Array(packedLitLen.length);
+  let u32Pos = 0;
+  for (let i = 0; i < packedLitLen.length; i++) {
+    let v = packedLitLen[i];
+    if (v === 255) {
+      if (u32Pos >= u32LenStreamSize) fail('Length stream overrun');
+      v = u32LenStream[u32Pos++] + 255;
+    }
+    lenStream[i] = v + 3;
+  }
+  if (u32Pos !== u32LenStreamSize) fail('Length stream not fully consumed');
+
+  return { offsStream, lenStream };
+}
+
+/**
+ * Decode the packed offset streams, with the optional scaled layout
+ */
+function readPackedOffsets(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  capacity: number
+): { used: number; packedOffs: Uint8Array; packedOffsExtra: Uint8Array | null; scaling: number } {
+  const start = pos;
+  let scaling = 0;
+  let packedOffsExtra: Uint8Array | null = null;
+
+  if (src[pos] & 0x80) {
+    // Distances are coded with 2 tables: offs * scaling - low bits
+    scaling = src[pos] - 127;
+    pos++;
+  }
+
+  const packed = decodeBytes(src, pos, end, capacity);
+  pos += packed.used;
+
+  if (scaling !== 0 && scaling !== 1) {
+    const extra = decodeBytes(src, pos, end, capacity);
+    if (extra.data.length !== packed.data.length) fail('Offset table size mismatch');
+    pos += extra.used;
+    packedOffsExtra = extra.data;
+  }
+
+  return { used: pos - start, packedOffs: packed.data, packedOffsExtra, scaling };
+}
+
+// ============================================================================
+// Kraken
+// ============================================================================
+
+function krakenDecodeChunk(
+  mode: number,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+): void {
+  if (mode > 1) fail(`Unsupported Kraken chunk mode ${mode}`);
+  if (end - pos < 13) fail('Kraken chunk truncated');
+
+  const offset = dstPos;
+  if (offset === 0) {
+    dst.set(src.subarray(pos, pos + 8), 0);
+    pos += 8;
+  }
+
+  if (src[pos] & 0x80) fail('Kraken excess bytes are not supported');
+
+  // Literal and command streams
+  const lits = decodeBytes(src, pos, end, dstSize);
+  pos += lits.used;
+  const cmds = decodeBytes(src, pos, end, dstSize);
+  pos += cmds.used;
+
+  if (end - pos < 3) fail('Kraken chunk truncated');
+
+  const offs = readPackedOffsets(src, pos, end, cmds.data.length);
+  pos += offs.used;
+
+  // Packed length stream, bounded by 1/4 of the chunk
+  const lens = decodeBytes(src, pos, end, dstSize >> 2);
+  pos += lens.used;
+
+  const { offsStream, lenStream } = unpackOffsets(
+    src, pos, end, offs.packedOffs, offs.packedOffsExtra, offs.scaling, lens.data
+  );
+
+  krakenProcessLzRuns(
+    mode === 0, dst, dstPos + (offset === 0 ? 8 : 0), dstPos + dstSize,
+    cmds.data, lits.data, offsStream, lenStream
+  );
+}
+
+function krakenProcessLzRuns(
+  sub: boolean,
+  dst: Uint8Array,
+  dstPos: number,
+  dstEnd: number,
+  cmds: Uint8Array,
+  lits: Uint8Array,
+  offsStream: Int32Array,
+  lenStream: Int32Array
+): void {
+  const recentOffs = [0, 0, 0, -8, -8, -8, 0];
+  let lastOffset = -8;
+  let litPos = 0;
+  let offsPos = 0;
+  let lenPos = 0;
+
+  for (let i = 0; i < cmds.length; i++) {
+    const f = cmds[i];
+    let litlen = f & 3;
+    const offsIndex = f >> 6;
+    let matchlen = (f >> 2) & 0xF;
+
+    if (litlen === 3) {
+      if (lenPos >= lenStream.length) fail('Kraken length stream overrun');
+      litlen = lenStream[lenPos++];
+    }
+    recentOffs[6] = offsStream[offsPos];
+
+    if (dstEnd - dstPos < litlen || lits.length - litPos < litlen) fail('Kraken literal out of bounds');
+    copyLiterals(dst, dstPos, lits, litPos, litlen, sub, lastOffset);
+    dstPos += litlen;
+    litPos += litlen;
+
+    const offset = recentOffs[offsIndex + 3];
+    recentOffs[offsIndex + 3] = recentOffs[offsIndex + 2];
+    recentOffs[offsIndex + 2] = recentOffs[offsIndex + 1];
+    recentOffs[offsIndex + 1] = recentOffs[offsIndex + 0];
+    recentOffs[3] = offset;
+    lastOffset = offset;
+
+    if (offsIndex === 3) offsPos++;
+
+    if (-offset > dstPos || offset >= 0) fail('Kraken match offset out of bounds');
+
+    if (matchlen !== 15) {
+      matchlen += 2;
+    } else {
+      if (lenPos >= lenStream.length) fail('Kraken length stream overrun');
+      matchlen = 14 + lenStream[lenPos++];
+    }
+    if (matchlen > dstEnd - dstPos) fail('Kraken match length out of bounds');
+    copyMatch(dst, dstPos, dstPos + offset, matchlen);
+    dstPos += matchlen;
+  }
+
+  if (offsPos !== offsStream.length || lenPos !== lenStream.length) {
+    fail('Kraken offset or length stream not fully consumed');
+  }
+
+  const finalLen = dstEnd - dstPos;
+  if (finalLen !== lits.length - litPos) fail('Kraken literal count mismatch');
+  copyLiterals(dst, dstPos, lits, litPos, finalLen, sub, lastOffset);
+}
+
+// ============================================================================
+// Mermaid / Selkie
+// ============================================================================
+
+interface MermaidLzTable {
+  lits: Uint8Array;
+  litPos: number;
+  cmds: Uint8Array;
+  cmdStream2Offs: number;
+  off16: Uint16Array;
+  off16Pos: number;
+  off32Stream1: Uint32Array;
+  off32Stream2: Uint32Array;
+  lengthPos: number;
+}
+
+function mermaidDecodeFarOffsets(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  count: number,
+  offset: number
+): { used: number; offsets: Uint32Array } {
+  const start = pos;
+  const offsets = new Uint32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    if (end - pos < 3) fail('Mermaid far offsets truncated');
+    let off = read24LE(src, pos);
+    pos += 3;
+    if (offset >= 0xC00000 - 1 && off >= 0xC00000) {
+      if (pos === end) fail('Mermaid far offsets truncated');
+      off += src[pos++] * (1 << 22);
+    }
+    if (off > offset) fail('Mermaid far offset out of bounds');
+    offsets[i] = off;
+  }
+
+  return { used: pos - start, offsets };
+}
+
+function mermaidReadLzTable(
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+): MermaidLzTable {
+  if (end - pos < 10) fail('Mermaid chunk truncated');
+
+  const offset = dstPos;
+  if (offset === 0) {
+    dst.set(src.subarray(pos, pos + 8), 0);
+    pos += 8;
+  }
+
+  const lits = decodeBytes(src, pos, end, dstSize);
+  pos += lits.used;
+  const cmds = decodeBytes(src, pos, end, dstSize);
+  pos += cmds.used;
+
+  let cmdStream2Offs = cmds.data.length;
+  if (dstSize > 0x10000) {
+    if (end - pos < 2) fail('Mermaid chunk truncated');
+    cmdStream2Offs = read16LE(src, pos);
+    pos += 2;
+    if (cmdStream2Offs > cmds.data.length) fail('Invalid Mermaid command split');
+  }
+
+  if (end - pos < 2) fail('Mermaid chunk truncated');
+
+  let off16: Uint16Array;
+  const off16Count = read16LE(src, pos);
+  if (off16Count === 0xFFFF) {
+    // off16 is entropy coded as separate high and low bytes
+    pos += 2;
+    const hi = decodeBytes(src, pos, end, dstSize >> 1);
+    pos += hi.used;
+    const lo = decodeBytes(src, pos, end, dstSize >> 1);
+    pos += lo.used;
+    if (lo.data.length !== hi.data.length) fail('Mermaid off16 size mismatch');
+    off16 = new Uint16Array(lo.data.length);
+    for (let i = 0; i < off16.length; i++) {
+      off16[i] = lo.data[i] + hi.data[i] * 256;
+    }
+  } else {
+    pos += 2;
+    if (end - pos < off16Count * 2) fail('Mermaid off16 stream truncated');
+    off16 = new Uint16Array(off16Count);
+    for (let i = 0; i < off16Count; i++) {
+      off16[i] = read16LE(src, pos + i * 2);
+    }
+    pos += off16Count * 2;
+  }
+
+  if (end - pos < 3) fail('Mermaid chunk truncated');
+  const tmp = read24LE(src, pos);
+  pos += 3;
+
+  let off32Stream1: Uint32Array = new Uint32Array(0);
+  let off32Stream2: Uint32Array = new Uint32Array(0);
+
+  if (tmp !== 0) {
+    let off32Size1 = tmp >> 12;
+    let off32Size2 = tmp & 0xFFF;
+    if (off32Size1 === 4095) {
+      if (end - pos < 2) fail('Mermaid chunk truncated');
+      off32Size1 = read16LE(src, pos);
+      pos += 2;
+    }
+    if (off32Size2 === 4095) {
+      if (end - pos < 2) fail('Mermaid chunk truncated');
+      off32Size2 = read16LE(src, pos);
+      pos += 2;
+    }
+
+    const far1 = mermaidDecodeFarOffsets(src, pos, end, off32Size1, offset);
+    pos += far1.used;
+    const far2 = mermaidDecodeFarOffsets(src, pos, end, off32Size2, offset + 0x10000);
+    pos += far2.used;
+    off32Stream1 = far1.offsets;
+    off32Stream2 = far2.offsets;
+  }
+
+  return {
+    lits: lits.data,
+    litPos: 0,
+    cmds: cmds.data,
+    cmdStream2Offs,
+    off16,
+    off16Pos: 0,
+    off32Stream1,
+    off32Stream2,
+    lengthPos: pos,
+  };
+}
+
+/**
+ * Read a variable length value from the Mermaid length stream
+ */
+function mermaidReadLength(src: Uint8Array, lz: MermaidLzTable, end: number): number {
+  if (end - lz.lengthPos === 0) fail('Mermaid length stream truncated');
+  let length = src[lz.lengthPos];
+  if (length > 251) {
+    if (end - lz.lengthPos < 3) fail('Mermaid length stream truncated');
+    length += read16LE(src, lz.lengthPos + 1) * 4;
+    lz.lengthPos += 2;
+  }
+  lz.lengthPos += 1;
+  return length;
+}
+
+/**
+ * Process the commands of one 64KB half of a Mermaid chunk
+ */
+function mermaidProcessHalf(
+  sub: boolean,
+  src: Uint8Array,
+  srcEnd: number,
+  dst: Uint8Array,
+  dstBegin: number,
+  dstSize: number,
+  lz: MermaidLzTable,
+  cmdStart: number,
+  cmdEnd: number,
+  off32: Uint32Array,
+  savedDist: number,
+  startOff: number
+): number {
+  const dstEnd = dstBegin + dstSize;
+  let dstPos = dstBegin + startOff;
+  let recentOffs = savedDist;
+  let off32Pos = 0;
+  const lits = lz.lits;
+  const off16 = lz.off16;
+
+  for (let c = cmdStart; c < cmdEnd; c++) {
+    const cmd = lz.cmds[c];
+
+    if (cmd >= 24) {
+      const litlen = cmd & 7;
+      if (dstEnd - dstPos < litlen || lits.length - lz.litPos < litlen) fail('Mermaid literal out of bounds');
+      copyLiterals(dst, dstPos, lits, lz.litPos, litlen, sub, recentOffs);
+      dstPos += litlen;
+      lz.litPos += litlen;
+
+      // Bit 7 clear means a new 16-bit offset follows
+      if (!(cmd & 0x80)) {
+        if (lz.off16Pos >= off16.length) fail('Mermaid off16 stream overrun');
+        recentOffs = -off16[lz.off16Pos++];
+      }
+
+      const matchlen = (cmd >> 3) & 0xF;
+      const from = dstPos + recentOffs;
+      if (from < 0 || matchlen > dstEnd - dstPos) fail('Mermaid match out of bounds');
+      copyMatch(dst, dstPos, from, matchlen);
+      dstPos += matchlen;
+    } else if (cmd > 2) {
+      const length = cmd + 5;
+      if (off32Pos >= off32.length) fail('Mermaid off32 stream overrun');
+      const from = dstBegin - off32[off32Pos++];
+      recentOffs = from - dstPos;
+      if (dstEnd - dstPos < length) fail('Mermaid match out of bounds');
+      copyMatch(dst, dstPos, from, length);
+      dstPos += length;
+    } else if (cmd === 0) {
+      const length = mermaidReadLength(src, lz, srcEnd) + 64;
+      if (dstEnd - dstPos < length || lits.length - lz.litPos < length) fail('Mermaid literal out of bounds');
+      copyLiterals(dst, dstPos, lits, lz.litPos, length, sub, recentOffs);
+      dstPos += length;
+      lz.litPos += length;
+    } else if (cmd === 1) {
+      const length = mermaidReadLength(src, lz, srcEnd) + 91;
+      if (lz.off16Pos >= off16.length) fail('Mermaid off16 stream overrun');
+      const from = dstPos - off16[lz.off16Pos++];
+      recentOffs = from - dstPos;
+      if (from < 0 || dstEnd - dstPos < length) fail('Mermaid match out of bounds');
+      copyMatch(dst, dstPos, from, length);
+      dstPos += length;
+    } else {
+      const length = mermaidReadLength(src, lz, srcEnd) + 29;
+      if (off32Pos >= off32.length) fail('Mermaid off32 stream overrun');
+      const from = dstBegin - off32[off32Pos++];
+      recentOffs = from - dstPos;
+      if (dstEnd - dstPos < length) fail('Mermaid match out of bounds');
+      copyMatch(dst, dstPos, from, length);
+      dstPos += length;
+    }
+  }
+
+  // Trailing literals
+  const length = dstEnd - dstPos;
+  if (lits.length - lz.litPos < length) fail('Mermaid literal out of bounds');
+  copyLiterals(dst, dstPos, lits, lz.litPos, length, sub, recentOffs);
+  lz.litPos += length;
+
+  return recentOffs;
+}
+
+function mermaidDecodeChunk(
+  mode: number,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+): void {
+  if (mode > 1) fail(`Unsupported Mermaid chunk mode ${mode}`);
+
+  const offset = dstPos;
+  const lz = mermaidReadLzTable(src, pos, end, dst, dstPos, dstSize);
+  let savedDist = -8;
+
+  for (let iteration = 0; iteration < 2; iteration++) {
+    const dstSizeCur = Math.min(dstSize, 0x10000);
+    const cmdStart = iteration === 0 ? 0 : lz.cmdStream2Offs;
+    const cmdEnd = iteration === 0 ? lz.cmdStream2Offs : lz.cmds.length;
+    const off32 = iteration === 0 ? lz.off32Stream1 : lz.off32Stream2;
+    const startOff = offset === 0 && iteration === 0 ? 8 : 0;
+
+    savedDist = mermaidProcessHalf(
+      mode === 0, src, end, dst, dstPos, dstSizeCur, lz, cmdStart, cmdEnd, off32, savedDist, startOff
+    );
+
+    dstPos += dstSizeCur;
+    dstSize -= dstSizeCur;
+    if (dstSize === 0) break;
+  }
+
+  if (lz.lengthPos !== end) fail('Mermaid length stream not fully consumed');
+}
+
+// ============================================================================
+// Leviathan
+// ============================================================================
+
+interface LeviathanLzTable {
+  offsStream: Int32Array;
+  lenStream: Int32Array;
+  litStreams: Uint8Array[];
+  cmdStream: Uint8Array | null;
+  multiCmdStreams: Uint8Array[];
+  cmdStreamSize: number;
+}
+
+function leviathanReadLzTable(
+  chunkType: number,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+): LeviathanLzTable {
+  if (chunkType > 5) fail(`Unsupported Leviathan chunk mode ${chunkType}`);
+  if (end - pos < 13) fail('Leviathan chunk truncated');
+
+  if (dstPos === 0) {
+    dst.set(src.subarray(pos, pos + 8), 0);
+    pos += 8;
+  }
+
+  const offs = readPackedOffsets(src, pos, end, Math.floor(dstSize / 3));
+  pos += offs.used;
+
+  // Packed length stream, bounded by 1/5 of the chunk
+  const lens = decodeBytes(src, pos, end, Math.floor(dstSize / 5));
+  pos += lens.used;
+
+  let litStreams: Uint8Array[];
+  if (chunkType <= 1) {
+    const lits = decodeBytes(src, pos, end, dstSize);
+    pos += lits.used;
+    litStreams = [lits.data];
+  } else {
+    const arrayCount = chunkType === 2 ? 2 : chunkType === 3 ? 4 : 16;
+    const multi = decodeMultiArray(src, pos, end, dstSize, arrayCount);
+    pos += multi.used;
+    litStreams = multi.arrays;
+  }
+
+  if (pos >= end) fail('Leviathan chunk truncated');
+
+  let cmdStream: Uint8Array | null = null;
+  let multiCmdStreams: Uint8Array[] = [];
+  let cmdStreamSize: number;
+
+  if (!(src[pos] & 0x80)) {
+    const cmds = decodeBytes(src, pos, end, dstSize);
+    pos += cmds.used;
+    cmdStream = cmds.data;
+    cmdStreamSize = cmds.data.length;
+  } else {
+    if (src[pos] !== 0x83) fail('Invalid Leviathan command stream header');
+    pos++;
+    const multi = decodeMultiArray(src, pos, end, dstSize, 8);
+    pos += multi.used;
+    multiCmdStreams = multi.arrays;
+    cmdStreamSize = multi.total;
+  }
+
+  const { offsStream, lenStream } = unpackOffsets(
+    src, pos, end, offs.packedOffs, offs.packedOffsExtra, offs.scaling, lens.data
+  );
+
+  return { offsStream, lenStream, litStreams, cmdStream, multiCmdStreams, cmdStreamSize };
+}
+
+/**
+ * Literal decoding for the different Leviathan chunk types
+ */
+class LeviathanLiterals {
+  private positions: number[];
+
+  constructor(
+    private chunkType: number,
+    private streams: Uint8Array[],
+    private chunkStart: number
+  ) {
+    this.positions = streams.map(() => 0);
+  }
+
+  private next(index: number): number {
+    const stream = this.streams[index];
+    if (!stream || this.positions[index] >= stream.length) fail('Leviathan literal stream overrun');
+    return stream[this.positions[index]++];
+  }
+
+  copy(dst: Uint8Array, dstPos: number, length: number, lastOffset: number): void {
+    switch (this.chunkType) {
+      case 0: // Sub
+        for (let i = 0; i < length; i++, dstPos++) {
+          dst[dstPos] = this.next(0) + dst[dstPos + lastOffset];
+        }
+        break;
+      case 1: // Raw
+        for (let i = 0; i < length; i++, dstPos++) {
+          dst[dstPos] = this.next(0);
+        }
+        break;
+      case 2: // LamSub: the first literal after a match has its own stream
+        if (length === 0) break;
+        dst[dstPos] = this.next(1) + dst[dstPos + lastOffset];
+        dstPos++;
+        for (let i = 1; i < length; i++, dstPos++) {
+          dst[dstPos] = this.next(0) + dst[dstPos + lastOffset];
+        }
+        break;
+      case 3: // SubAnd3: stream selected by output position
+      case 5: { // SubAndF
+        const mask = this.chunkType === 3 ? 3 : 15;
+        for (let i = 0; i < length; i++, dstPos++) {
+          dst[dstPos] = this.next((dstPos - this.chunkStart) & mask) + dst[dstPos + lastOffset];
+        }
+        break;
+      }
+      case 4: // O1: stream selected by the high nibble of the previous byte
+        for (let i = 0; i < length; i++, dstPos++) {
+          dst[dstPos] = this.next(dst[dstPos - 1] >> 4);
+        }
+        break;
+    }
+  }
+}
+
+function leviathanProcessLz(
+  chunkType: number,
+  lzt: LeviathanLzTable,
+  dst: Uint8Array,
+  dstPos: number,
+  chunkStart: number,
+  dstEnd: number
+): void {
+  const literals = new LeviathanLiterals(chunkType, lzt.litStreams, chunkStart);
+  const { offsStream, lenStream } = lzt;
+  let lenPos = 0;
+  let lenEnd = lenStream.length;
+  let offsPos = 0;
+
+  // recent[0..6] are the recent offsets, recent[7] the next explicit offset
+  const recent = [-8, -8, -8, -8, -8, -8, -8, 0];
+  let offset = -8;
+
+  const multiPositions = lzt.multiCmdStreams.map(() => 0);
+
+  for (let left = lzt.cmdStreamSize, c = 0; left !== 0; left--) {
+    let cmd: number;
+    if (lzt.cmdStream) {
+      cmd = lzt.cmdStream[c++];
+    } else {
+      // Commands are split into 8 streams selected by output position
+      const index = (dstPos - chunkStart) & 7;
+      const stream = lzt.multiCmdStreams[index];
+      if (multiPositions[index] >= stream.length) fail('Leviathan command stream overrun');
+      cmd = stream[multiPositions[index]++];
+    }
+
+    const offsIndex = cmd >> 5;
+    let matchlen = (cmd & 7) + 2;
+    let litlen = (cmd >> 3) & 3;
+
+    recent[7] = offsStream[offsPos];
+
+    if (litlen === 3) {
+      if (lenPos >= lenEnd) fail('Leviathan length stream overrun');
+      litlen = lenStream[lenPos++] & 0xFFFFFF;
+    }
+    if (dstEnd - dstPos < litlen) fail('Leviathan literal out of bounds');
+    literals.copy(dst, dstPos, litlen, offset);
+    dstPos += litlen;
+
+    // Move the chosen offset to the front
+    offset = recent[offsIndex];
+    for (let i = offsIndex; i > 0; i--) {
+      recent[i] = recent[i - 1];
+    }
+    recent[0] = offset;
+    if (offsIndex === 7) offsPos++;
+
+    if (-offset > dstPos || offset >= 0) fail('Leviathan match offset out of bounds');
+
+    if (matchlen === 9) {
+      if (lenPos >= lenEnd) fail('Leviathan length stream overrun');
+      matchlen = lenStream[--lenEnd] + 6;
+    }
+    if (matchlen > dstEnd - dstPos) fail('Leviathan match length out of bounds');
+    copyMatch(dst, dstPos, dstPos + offset, matchlen);
+    dstPos += matchlen;
+  }
+
+  if (offsPos !== offsStream.length || lenPos !== lenEnd) {
+    fail('Leviathan offset or length stream not fully consumed');
+  }
+
+  if (dstPos < dstEnd) {
+    literals.copy(dst, dstPos, dstEnd - dstPos, offset);
+  } else if (dstPos !== dstEnd) {
+    fail('Leviathan output overrun');
+  }
+}
+
+function leviathanDecodeChunk(
+  mode: number,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+): void {
+  const lzt = leviathanReadLzTable(mode, src, pos, end, dst, dstPos, dstSize);
+  leviathanProcessLz(mode, lzt, dst, dstPos + (dstPos === 0 ? 8 : 0), dstPos, dstPos + dstSize);
+}
+
+// ============================================================================
+// Block and quantum framing
+// ============================================================================
+
+type ChunkDecoder = (
+  mode: number,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstSize: number
+) => void;
+
+/**
+ * Decode a quantum made of 128KB chunks
+ */
+function decodeQuantum(
+  decodeChunk: ChunkDecoder,
+  src: Uint8Array,
+  pos: number,
+  end: number,
+  dst: Uint8Array,
+  dstPos: number,
+  dstEnd: number
+): number {
+  const start = pos;
+
+  while (dstEnd - dstPos !== 0) {
+    const dstCount = Math.min(dstEnd - dstPos, CHUNK_SIZE);
+    if (end - pos < 4) fail('Chunk header truncated');
+
+    const chunkhdr = src[pos + 2] | (src[pos + 1] << 8) | (src[pos] << 16);
+    let srcUsed: number;
+
+    if (!(chunkhdr & 0x800000)) {
+      // Stored as entropy without any match copying
+      const decoded = decodeBytes(src, pos, end, dstCount);
+      if (decoded.data.length !== dstCount) fail('Entropy chunk size mismatch');
+      dst.set(decoded.data, dstPos);
+      srcUsed = decoded.used;
+    } else {
+      pos += 3;
+      srcUsed = chunkhdr & 0x7FFFF;
+      const mode = (chunkhdr >> 19) & 0xF;
+      if (end - pos < srcUsed) fail('Chunk data truncated');
+
+      if (srcUsed < dstCount) {
+        decodeChunk(mode, src, pos, pos + srcUsed, dst, dstPos, dstCount);
+      } else if (srcUsed > dstCount || mode !== 0) {
+        fail('Invalid stored chunk');
+      } else {
+        dst.set(src.subarray(pos, pos + dstCount), dstPos);
+      }
+    }
+
+    pos += srcUsed;
+    dstPos += dstCount;
+  }
+
+  return pos - start;
+}
+
+function getChunkDecoder(decoderType: number): ChunkDecoder {
+  switch (decoderType) {
+    case DECODER_TYPE_KRAKEN:
+      return krakenDecodeChunk;
+    case DECODER_TYPE_MERMAID:
+      return mermaidDecodeChunk;
+    case DECODER_TYPE_LEVIATHAN:
+      return leviathanDecodeChunk;
+    case DECODER_TYPE_LZNA:
+      return fail('LZNA streams are not supported');
+    case DECODER_TYPE_BITKNIT:
+      return fail('BitKnit streams are not supported');
+    default:
+      return fail(`Unknown Oodle decoder type ${decoderType}`);
+  }
+}
+
+/**
+ * Decompress an Oodle LZ stream
+ * @param compressedData The compressed stream
+ * @param decompressedSize The exact size of the decompressed data
+ * @returns The decompressed data
+ * @throws OodleDecodeError if the stream is malformed or uses an unsupported codec
+ */
+export function decompressOodleLz(compressedData: Uint8Array, decompressedSize: number): Uint8Array {
+  const src = compressedData;
+  const dst = new Uint8Array(decompressedSize);
+  let pos = 0;
+  let offset = 0;
+  let uncompressed = false;
+  let useChecksums = false;
+  let decodeChunk: ChunkDecoder | null = null;
+
+  while (offset < decompressedSize) {
+    // Every 256KB block starts with a 2 byte header
+    if ((offset & (BLOCK_SIZE - 1)) === 0) {
+      if (src.length - pos < 2) failTruncated('Block header truncated');
+      const b0 = src[pos];
+      const b1 = src[pos + 1];
+      if ((b0 & 0xF) !== 0xC || ((b0 >> 4) & 3) !== 0) fail('Invalid Oodle block header');
+      uncompressed = ((b0 >> 6) & 1) !== 0;
+      decodeChunk = getChunkDecoder(b1 & 0x7F);
+      useChecksums = (b1 >> 7) !== 0;
+      pos += 2;
+    }
+
+    const dstBytes = Math.min(BLOCK_SIZE, decompressedSize - offset);
+
+    if (uncompressed) {
+      if (src.length - pos < dstBytes) failTruncated('Stored block truncated');
+      dst.set(src.subarray(pos, pos + dstBytes), offset);
+      pos += dstBytes;
+      offset += dstBytes;
+      continue;
+    }
+
+    // Quantum header
+    if (src.length - pos < 3) failTruncated('Quantum header truncated');
+    const v = (src[pos] << 16) | (src[pos + 1] << 8) | src[pos + 2];
+    const size = v & 0x3FFFF;
+
+    if (size === 0x3FFFF) {
+      // Whole block is a single repeated byte
+      if ((v >> 18) !== 1) fail('Invalid quantum header');
+      if (src.length - pos < 4) failTruncated('Quantum header truncated');
+      dst.fill(src[pos + 3], offset, offset + dstBytes);
+      pos += 4;
+      offset += dstBytes;
+      continue;
+    }
+
+    // Checksums are skipped; the decoder validates structure instead
+    if (useChecksums && src.length - pos < 6) failTruncated('Quantum header truncated');
+    pos += useChecksums ? 6 : 3;
+    const compressedSize = size + 1;
+    if (src.length - pos < compressedSize) failTruncated('Quantum data truncated');
+    if (compressedSize > dstBytes) fail('Invalid quantum size');
+
+    if (compressedSize === dstBytes) {
+      dst.set(src.subarray(pos, pos + dstBytes), offset);
+    } else {
+      const n = decodeQuantum(decodeChunk!, src, pos, pos + compressedSize, dst, offset, offset + dstBytes);
+      if (n !== compressedSize) fail('Quantum size mismatch');
+    }
+
+    pos += compressedSize;
+    offset += dstBytes;
+  }
+
+  return dst;
+}
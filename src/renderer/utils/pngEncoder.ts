@@ -0,0 +1,90 @@
+/**
+ * PNG encoder
+ * Encodes RGBA pixels without a canvas, for exports run outside the renderer.
+ * Rows are stored unfiltered and deflated with CompressionStream.
+ */
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+function crc32(data: Uint8Array, crc = 0xFFFFFFFF): number {
+  const table = getCrcTable();
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  // The CRC covers the type and the data
+  view.setUint32(8 + data.length, (crc32(chunk.subarray(4, 8 + data.length)) ^ 0xFFFFFFFF) >>> 0);
+  return chunk;
+}
+
+/**
+ * zlib-compress data
+ */
+export async function deflate(data: BufferSource): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  writer.write(data);
+  writer.close();
+  return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+}
+
+/**
+ * Encode 8-bit RGBA pixels as a PNG file
+ */
+export async function encodePNG(rgba: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8;  // Bit depth
+  header[9] = 6;  // Colour type: RGBA
+  // Compression, filter and interlace methods are all 0
+
+  // Each row is prefixed with its filter type (0 = none)
+  const rowSize = width * 4;
+  const raw = new Uint8Array((rowSize + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * rowSize, (y + 1) * rowSize), y * (rowSize + 1) + 1);
+  }
+
+  const chunks = [
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', await deflate(raw)),
+    createChunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
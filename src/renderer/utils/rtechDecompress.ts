@@ -401,6 +401,6 @@ export function decompressRTech(
  */
 export function canDecompress(compressionType: number): boolean {
   // 0 = NONE, 1 = RTECH, 2 = OODLE, 3 = ZSTD
-  // We support ZSTD (already in rpakParser) and RTECH
-  return compressionType === 1 || compressionType === 3;
+  // We support ZSTD (already in rpakParser), OODLE (oodleLzDecompress) and RTECH
+  return compressionType === 1 || compressionType === 2 || compressionType === 3;
 }
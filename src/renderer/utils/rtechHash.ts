@@ -0,0 +1,69 @@
+/**
+ * RTech asset path hashing
+ * Port of RTech::StringToGuid - turns an asset path into the 64-bit GUID used in RPak files.
+ * Paths are matched case-insensitively and with '\' treated as '/'.
+ */
+
+const MASK64 = (1n << 64n) - 1n;
+const HASH_MUL_A = 0xFB8C4D96501n;
+const HASH_MUL_B = 0x633D5F1n;
+const HASH_LEN_MUL = 0xAE502812AA7333n;
+
+/**
+ * Replace '\' with '/' and fold case for four characters at once
+ */
+function normalizeWord(word: number): number {
+  const backslashes = (word ^ 0x5C5C5C5C) >>> 0;
+  const isBackslash = (~backslashes >>> 7) & (((backslashes - 0x01010101) >>> 0) >>> 7) & 0x01010101;
+  return ((word - Math.imul(45, isBackslash)) & 0xDFDFDFDF) >>> 0;
+}
+
+/**
+ * Get the high bit of each zero byte in a word
+ */
+function zeroBytes(word: number): number {
+  return (~word & ((word - 0x01010101) >>> 0) & 0x80808080) >>> 0;
+}
+
+/**
+ * Hash an asset path to its GUID
+ */
+export function hashAssetPath(path: string): bigint {
+  const encoded = new TextEncoder().encode(path);
+
+  // Words are read past the terminator, so pad with zeroes to a multiple of 4
+  const buffer = new Uint8Array(Math.ceil((encoded.length + 1) / 4) * 4);
+  buffer.set(encoded);
+  const view = new DataView(buffer.buffer);
+
+  let hash = 0n;
+  let length = 0;
+  let word = view.getUint32(0, true);
+  let normalized = normalizeWord(word);
+  let zeros = zeroBytes(word);
+
+  while (!zeros) {
+    const mixed = ((HASH_MUL_A * BigInt(normalized)) & MASK64) >> 24n;
+    const sum = (mixed + HASH_MUL_B * hash) & MASK64;
+    hash = (sum >> 61n) ^ sum;
+
+    length += 4;
+    word = view.getUint32(length, true);
+    normalized = normalizeWord(word);
+    zeros = zeroBytes(word);
+  }
+
+  // Mask of the bytes before the terminator in the last word
+  const tailMask = (((zeros & -zeros) >>> 0) - 1) >>> 0;
+  const tailBytes = Math.floor((31 - Math.clz32(tailMask)) / 8);
+  const tail = ((HASH_MUL_A * BigInt((normalized & tailMask) >>> 0)) & MASK64) >> 24n;
+
+  return (HASH_MUL_B * hash + tail - HASH_LEN_MUL * BigInt(length + tailBytes)) & MASK64;
+}
+
+/**
+ * Hash an asset path to the GUID string format used by ParsedAsset (16 uppercase hex digits)
+ */
+export function hashAssetPathToHex(path: string): string {
+  return hashAssetPath(path).toString(16).padStart(16, '0').toUpperCase();
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { encodeTGA } from './tgaEncoder';
+
+/**
+ * Read the pixels of a TGA written by encodeTGA back as RGBA
+ */
+function readTGA(tga: Uint8Array): { type: number; bitsPerPixel: number; descriptor: number; rgba: Uint8Array; imageEnd: number } {
+  const view = new DataView(tga.buffer, tga.byteOffset, tga.byteLength);
+  const width = view.getUint16(12, true);
+  const height = view.getUint16(14, true);
+  const bytesPerPixel = tga[16] / 8;
+  const rgba = new Uint8Array(width * height * 4);
+
+  let offset = 18;
+  const readPixel = (pixel: number, from: number) => {
+    rgba[pixel * 4] = tga[from + 2];
+    rgba[pixel * 4 + 1] = tga[from + 1];
+    rgba[pixel * 4 + 2] = tga[from];
+    rgba[pixel * 4 + 3] = bytesPerPixel === 4 ? tga[from + 3] : 255;
+  };
+
+  if (tga[2] === 2) {
+    for (let pixel = 0; pixel < width * height; pixel++, offset += bytesPerPixel) {
+      readPixel(pixel, offset);
+    }
+  } else {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width;) {
+        const packet = tga[offset++];
+        const count = (packet & 0x7F) + 1;
+        // Packets never span rows
+        expect(x + count).toBeLessThanOrEqual(width);
+        for (let i = 0; i < count; i++, x++) {
+          readPixel(y * width + x, offset);
+          if (!(packet & 0x80)) offset += bytesPerPixel;
+        }
+        if (packet & 0x80) offset += bytesPerPixel;
+      }
+    }
+  }
+
+  return { type: tga[2], bitsPerPixel: tga[16], descriptor: tga[17], rgba, imageEnd: offset };
+}
+
+function checkFooter(tga: Uint8Array, imageEnd: number, alphaType: number): void {
+  const view = new DataView(tga.buffer, tga.byteOffset, tga.byteLength);
+  expect(tga.length).toBe(imageEnd + 495 + 26);
+  expect(view.getUint16(imageEnd, true)).toBe(495);
+  expect(tga[imageEnd + 494]).toBe(alphaType);
+  expect(view.getUint32(imageEnd + 495, true)).toBe(imageEnd);
+  expect(new TextDecoder().decode(tga.subarray(tga.length - 18))).toBe('TRUEVISION-XFILE.\0');
+}
+
+// Deterministic pseudo-random RGBA with runs of repeated pixels mixed in
+function testPixels(width: number, height: number, alpha: boolean): Uint8Array {
+  const rgba = new Uint8Array(width * height * 4);
+  let state = 1;
+  for (let i = 0; i < width * height; i++) {
+    if (i % 7 < 3 && i > 0) {
+      rgba.copyWithin(i * 4, (i - 1) * 4, i * 4);
+      continue;
+    }
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    rgba.set([state >>> 24, state >>> 16, state >>> 8, alpha ? state : 255], i * 4);
+  }
+  return rgba;
+}
+
+describe('encodeTGA', () => {
+  it('writes a top-down 24-bit image for opaque pixels', () => {
+    const rgba = new Uint8Array([
+      1, 2, 3, 255, 4, 5, 6, 255,
+      7, 8, 9, 255, 10, 11, 12, 255,
+    ]);
+    const tga = encodeTGA(rgba, 2, 2);
+
+    expect(Array.from(tga.subarray(0, 18))).toEqual([0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 2, 0, 24, 0x20]);
+    // BGR, first row first
+    expect(Array.from(tga.subarray(18, 30))).toEqual([3, 2, 1, 6, 5, 4, 9, 8, 7, 12, 11, 10]);
+    checkFooter(tga, 30, 0);
+  });
+
+  it('writes 32-bit BGRA with straight alpha when a pixel is translucent', () => {
+    const tga = encodeTGA(new Uint8Array([1, 2, 3, 128, 4, 5, 6, 255]), 2, 1);
+    const { bitsPerPixel, descriptor, imageEnd } = readTGA(tga);
+
+    expect(bitsPerPixel).toBe(32);
+    expect(descriptor).toBe(0x20 | 8);
+    expect(Array.from(tga.subarray(18, 26))).toEqual([3, 2, 1, 128, 6, 5, 4, 255]);
+    checkFooter(tga, imageEnd, 3);
+  });
+
+  it('round trips run-length encoded images', () => {
+    for (const alpha of [false, true]) {
+      const width = 300;
+      const height = 5;
+      const rgba = testPixels(width, height, alpha);
+      // A row of one colour needs runs split at 128 pixels
+      for (let x = 0; x < width; x++) rgba.set([9, 9, 9, 255], x * 4);
+
+      const tga = encodeTGA(rgba, width, height, { rle: true });
+      const decoded = readTGA(tga);
+      expect(decoded.type).toBe(10);
+      expect(Array.from(decoded.rgba)).toEqual(Array.from(rgba));
+      checkFooter(tga, decoded.imageEnd, alpha ? 3 : 0);
+      expect(decoded.imageEnd - 18).toBeLessThan(width * height * (alpha ? 4 : 3));
+    }
+  });
+});
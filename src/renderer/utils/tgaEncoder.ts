@@ -0,0 +1,147 @@
+/**
+ * TGA encoder
+ * Encodes RGBA pixels as uncompressed or run-length encoded true-colour TGA.
+ * Images are stored top-down, as 32-bit BGRA when any pixel is translucent and
+ * as 24-bit BGR otherwise. A TGA 2.0 extension area marks the alpha channel as
+ * straight alpha, which tools that only read the header would otherwise
+ * treat as undefined.
+ */
+
+const HEADER_SIZE = 18;
+const EXTENSION_AREA_SIZE = 495;
+const FOOTER_SIZE = 26;
+
+// Image types
+const TGA_TRUE_COLOR = 2;
+const TGA_TRUE_COLOR_RLE = 10;
+
+// Image descriptor bit for top-left origin
+const TGA_ORIGIN_TOP = 0x20;
+
+// Extension area attribute type for straight (non-premultiplied) alpha
+const TGA_ALPHA_STRAIGHT = 3;
+
+// RLE packets hold at most 128 pixels and never span rows
+const MAX_PACKET_PIXELS = 128;
+
+export interface TGAOptions {
+  // Run-length encode the pixels
+  rle?: boolean;
+}
+
+function hasTranslucency(rgba: Uint8Array): boolean {
+  for (let i = 3; i < rgba.length; i += 4) {
+    if (rgba[i] !== 255) return true;
+  }
+  return false;
+}
+
+/**
+ * Convert RGBA to BGR(A) pixels
+ */
+function toBGRA(rgba: Uint8Array, pixelCount: number, bytesPerPixel: number): Uint8Array {
+  const out = new Uint8Array(pixelCount * bytesPerPixel);
+  for (let i = 0, o = 0; i < pixelCount * 4; i += 4, o += bytesPerPixel) {
+    out[o] = rgba[i + 2];
+    out[o + 1] = rgba[i + 1];
+    out[o + 2] = rgba[i];
+    if (bytesPerPixel === 4) {
+      out[o + 3] = rgba[i + 3];
+    }
+  }
+  return out;
+}
+
+function pixelsEqual(data: Uint8Array, a: number, b: number, bytesPerPixel: number): boolean {
+  for (let i = 0; i < bytesPerPixel; i++) {
+    if (data[a + i] !== data[b + i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Run-length encode pixels row by row
+ */
+function encodeRLE(pixels: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  // Worst case is one raw packet header per 128 pixels
+  const out = new Uint8Array(pixels.length + Math.ceil(width / MAX_PACKET_PIXELS) * height);
+  let o = 0;
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * width;
+    let x = 0;
+
+    while (x < width) {
+      const start = (rowStart + x) * bytesPerPixel;
+
+      // Count identical pixels from here
+      let run = 1;
+      while (x + run < width && run < MAX_PACKET_PIXELS &&
+        pixelsEqual(pixels, start, start + run * bytesPerPixel, bytesPerPixel)) {
+        run++;
+      }
+
+      if (run > 1) {
+        out[o++] = 0x80 | (run - 1);
+        out.set(pixels.subarray(start, start + bytesPerPixel), o);
+        o += bytesPerPixel;
+        x += run;
+        continue;
+      }
+
+      // Collect pixels up to the next run of two or more
+      let count = 1;
+      while (x + count < width && count < MAX_PACKET_PIXELS) {
+        const next = start + count * bytesPerPixel;
+        if (x + count + 1 < width && pixelsEqual(pixels, next, next + bytesPerPixel, bytesPerPixel)) break;
+        count++;
+      }
+
+      out[o++] = count - 1;
+      out.set(pixels.subarray(start, start + count * bytesPerPixel), o);
+      o += count * bytesPerPixel;
+      x += count;
+    }
+  }
+
+  return out.subarray(0, o);
+}
+
+/**
+ * Encode 8-bit RGBA pixels as a TGA file
+ */
+export function encodeTGA(rgba: Uint8Array, width: number, height: number, options: TGAOptions = {}): Uint8Array {
+  const hasAlpha = hasTranslucency(rgba);
+  const bytesPerPixel = hasAlpha ? 4 : 3;
+
+  const pixels = toBGRA(rgba, width * height, bytesPerPixel);
+  const imageData = options.rle ? encodeRLE(pixels, width, height, bytesPerPixel) : pixels;
+
+  const extensionOffset = HEADER_SIZE + imageData.length;
+  const tga = new Uint8Array(extensionOffset + EXTENSION_AREA_SIZE + FOOTER_SIZE);
+  const view = new DataView(tga.buffer);
+
+  // Header (no ID or colour map)
+  tga[2] = options.rle ? TGA_TRUE_COLOR_RLE : TGA_TRUE_COLOR;
+  view.setUint16(12, width, true);
+  view.setUint16(14, height, true);
+  tga[16] = bytesPerPixel * 8;
+  tga[17] = TGA_ORIGIN_TOP | (hasAlpha ? 8 : 0);
+
+  tga.set(imageData, HEADER_SIZE);
+
+  // Extension area; everything but its size and the attribute type is left empty
+  view.setUint16(extensionOffset, EXTENSION_AREA_SIZE, true);
+  tga[extensionOffset + 494] = hasAlpha ? TGA_ALPHA_STRAIGHT : 0;
+
+  // Footer: extension area offset, no developer area, then the signature
+  const footerOffset = extensionOffset + EXTENSION_AREA_SIZE;
+  view.setUint32(footerOffset, extensionOffset, true);
+  const signature = 'TRUEVISION-XFILE.';
+  for (let i = 0; i < signature.length; i++) {
+    tga[footerOffset + 8 + i] = signature.charCodeAt(i);
+  }
+  // Signature is followed by a null terminator, already zero
+
+  return tga;
+}
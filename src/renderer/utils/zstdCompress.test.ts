@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { decompress } from 'fzstd';
+import { compressZstd } from './zstdCompress';
+
+// Deterministic pseudo-random bytes
+function noise(size: number, seed: number): Uint8Array {
+  const output = new Uint8Array(size);
+  let state = seed;
+  for (let i = 0; i < size; i++) {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    output[i] = state >>> 16;
+  }
+  return output;
+}
+
+function roundTrip(data: Uint8Array): Uint8Array {
+  const compressed = compressZstd(data);
+  expect(Array.from(decompress(compressed))).toEqual(Array.from(data));
+  return compressed;
+}
+
+describe('compressZstd', () => {
+  it('round trips empty and short input', () => {
+    roundTrip(new Uint8Array(0));
+    roundTrip(new TextEncoder().encode('rpak rpak rpak rpak'));
+  });
+
+  it('compresses repeated data with compressed blocks', () => {
+    const text = new TextEncoder().encode('materials/models/weapons/r97/r97_col.rpak\0'.repeat(8000));
+    const compressed = roundTrip(text);
+    expect(compressed.length).toBeLessThan(text.length / 50);
+
+    // Block type 2 (compressed) in the first block header
+    expect((compressed[13] >> 1) & 3).toBe(2);
+  });
+
+  it('finds matches across block boundaries', () => {
+    const block = noise(100 * 1024, 7);
+    const data = new Uint8Array(block.length * 3);
+    data.set(block, 0);
+    data.set(block, block.length);
+    data.set(block, block.length * 2);
+
+    // Only the first copy is stored as literals
+    expect(roundTrip(data).length).toBeLessThan(block.length + 4096);
+  });
+
+  it('stores incompressible blocks raw and single-byte blocks as RLE', () => {
+    const random = noise(200 * 1024, 1);
+    expect(roundTrip(random).length).toBeLessThan(random.length + 64);
+
+    const zeros = new Uint8Array(512 * 1024);
+    expect(roundTrip(zeros).length).toBeLessThan(64);
+  });
+});
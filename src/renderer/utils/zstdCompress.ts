@@ -0,0 +1,411 @@
+/**
+ * ZSTD frame encoder
+ *
+ * fzstd only decompresses, so this writes standard ZSTD frames itself. Each
+ * block is LZ matched with a hash table and written as a compressed block
+ * (raw literals plus sequences coded with the predefined FSE tables). Blocks
+ * of one repeated byte become RLE blocks, and blocks that don't shrink are
+ * stored raw. The output decodes with any ZSTD decoder, including the game's.
+ */
+
+const ZSTD_MAGIC = 0xFD2FB528;
+
+// Maximum block content size (ZSTD_BLOCKSIZE_MAX)
+const MAX_BLOCK_SIZE = 128 * 1024;
+
+const BLOCK_TYPE_RAW = 0;
+const BLOCK_TYPE_RLE = 1;
+const BLOCK_TYPE_COMPRESSED = 2;
+
+// Match finder
+const MIN_MATCH = 4;
+const HASH_LOG = 16;
+// Keeps offset codes within the predefined offset table
+const MAX_OFFSET = (1 << 24) - 1;
+
+// Literal length codes: baseline and extra bits for codes 16-35 (codes 0-15 are the length itself)
+const LL_BASELINES = [16, 18, 20, 22, 24, 28, 32, 40, 48, 64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536];
+const LL_BITS = [1, 1, 1, 1, 2, 2, 3, 3, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+
+// Match length codes: baseline and extra bits for codes 32-52 (codes 0-31 are lengths 3-34)
+const ML_BASELINES = [35, 37, 39, 41, 43, 47, 51, 59, 67, 83, 99, 131, 259, 515, 1027, 2051, 4099, 8195, 16387, 32771, 65539];
+const ML_BITS = [1, 1, 1, 1, 2, 2, 3, 3, 4, 4, 5, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+
+// Predefined FSE distributions (RFC 8878 section 3.1.1.3.2.2)
+const LL_DEFAULT_NORM = [
+  4, 3, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 2, 1, 1, 1, 1, 1, -1, -1, -1, -1,
+];
+const ML_DEFAULT_NORM = [
+  1, 4, 3, 2, 2, 2, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1,
+  1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1, -1, -1,
+];
+const OF_DEFAULT_NORM = [
+  1, 1, 1, 1, 1, 1, 2, 2, 2, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, -1, -1, -1, -1, -1,
+];
+
+interface Sequence {
+  literalLength: number;
+  matchLength: number;
+  offset: number;
+}
+
+interface FseEncodeTable {
+  tableLog: number;
+  stateTable: Uint16Array;
+  deltaNbBits: number[];
+  deltaFindState: number[];
+}
+
+/**
+ * Build an FSE encoding table from a normalized distribution, spreading the
+ * symbols the same way decoders do
+ */
+function buildFseTable(norm: number[], tableLog: number): FseEncodeTable {
+  const tableSize = 1 << tableLog;
+  const tableMask = tableSize - 1;
+  const step = (tableSize >> 1) + (tableSize >> 3) + 3;
+  const tableSymbol = new Uint8Array(tableSize);
+  const cumul = new Array<number>(norm.length + 1);
+  let highThreshold = tableSize - 1;
+
+  // Low probability symbols take the last cells
+  cumul[0] = 0;
+  for (let s = 0; s < norm.length; s++) {
+    if (norm[s] === -1) {
+      cumul[s + 1] = cumul[s] + 1;
+      tableSymbol[highThreshold--] = s;
+    } else {
+      cumul[s + 1] = cumul[s] + norm[s];
+    }
+  }
+
+  let position = 0;
+  for (let s = 0; s < norm.length; s++) {
+    for (let i = 0; i < norm[s]; i++) {
+      tableSymbol[position] = s;
+      do {
+        position = (position + step) & tableMask;
+      } while (position > highThreshold);
+    }
+  }
+
+  const stateTable = new Uint16Array(tableSize);
+  for (let u = 0; u < tableSize; u++) {
+    stateTable[cumul[tableSymbol[u]]++] = tableSize + u;
+  }
+
+  const deltaNbBits: number[] = [];
+  const deltaFindState: number[] = [];
+  let total = 0;
+  for (let s = 0; s < norm.length; s++) {
+    const count = norm[s] === -1 ? 1 : norm[s];
+    const maxBitsOut = tableLog - (31 - Math.clz32(Math.max(count - 1, 1)));
+    if (count === 1) {
+      deltaNbBits.push((tableLog << 16) - tableSize);
+    } else {
+      deltaNbBits.push((maxBitsOut << 16) - (count << maxBitsOut));
+    }
+    deltaFindState.push(total - count);
+    total += count;
+  }
+
+  return { tableLog, stateTable, deltaNbBits, deltaFindState };
+}
+
+const LL_TABLE = buildFseTable(LL_DEFAULT_NORM, 6);
+const ML_TABLE = buildFseTable(ML_DEFAULT_NORM, 6);
+const OF_TABLE = buildFseTable(OF_DEFAULT_NORM, 5);
+
+/**
+ * Little-endian bit writer, read backwards by the decoder
+ */
+class BitWriter {
+  private bytes: number[] = [];
+  private container = 0;
+  private bitCount = 0;
+
+  write(value: number, bits: number): void {
+    if (bits === 0) return;
+    // Values can exceed 32 bits once shifted, so avoid bitwise operators
+    this.container += (value % 2 ** bits) * 2 ** this.bitCount;
+    this.bitCount += bits;
+    while (this.bitCount >= 8) {
+      this.bytes.push(this.container % 256);
+      this.container = Math.floor(this.container / 256);
+      this.bitCount -= 8;
+    }
+  }
+
+  /**
+   * Add the end mark and pad to a whole byte
+   */
+  finish(): Uint8Array {
+    this.write(1, 1);
+    if (this.bitCount > 0) {
+      this.bytes.push(this.container);
+    }
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class FseEncoder {
+  private state = 0;
+
+  constructor(private table: FseEncodeTable) {}
+
+  init(symbol: number): void {
+    const { stateTable, deltaNbBits, deltaFindState } = this.table;
+    const nbBitsOut = (deltaNbBits[symbol] + (1 << 15)) >> 16;
+    const value = (nbBitsOut << 16) - deltaNbBits[symbol];
+    this.state = stateTable[(value >> nbBitsOut) + deltaFindState[symbol]];
+  }
+
+  encode(bits: BitWriter, symbol: number): void {
+    const { stateTable, deltaNbBits, deltaFindState } = this.table;
+    const nbBitsOut = (this.state + deltaNbBits[symbol]) >> 16;
+    bits.write(this.state, nbBitsOut);
+    this.state = stateTable[(this.state >> nbBitsOut) + deltaFindState[symbol]];
+  }
+
+  flush(bits: BitWriter): void {
+    bits.write(this.state, this.table.tableLog);
+  }
+}
+
+function getLiteralLengthCode(length: number): number {
+  if (length < 16) return length;
+  let code = LL_BASELINES.length - 1;
+  while (LL_BASELINES[code] > length) code--;
+  return code + 16;
+}
+
+function getMatchLengthCode(length: number): number {
+  if (length < 35) return length - 3;
+  let code = ML_BASELINES.length - 1;
+  while (ML_BASELINES[code] > length) code--;
+  return code + 32;
+}
+
+/**
+ * Encode the sequences section with the predefined tables
+ */
+function encodeSequences(sequences: Sequence[]): Uint8Array {
+  const count = sequences.length;
+  let header: number[];
+  if (count < 128) {
+    header = [count];
+  } else if (count < 0x7F00) {
+    header = [(count >> 8) + 0x80, count & 0xFF];
+  } else {
+    header = [0xFF, (count - 0x7F00) & 0xFF, (count - 0x7F00) >> 8];
+  }
+  if (count === 0) {
+    return Uint8Array.from(header);
+  }
+
+  // All three symbol types use predefined mode
+  header.push(0);
+
+  const codes = sequences.map(seq => {
+    const offsetValue = seq.offset + 3;
+    return {
+      ll: getLiteralLengthCode(seq.literalLength),
+      ml: getMatchLengthCode(seq.matchLength),
+      of: 31 - Math.clz32(offsetValue),
+      offsetValue,
+    };
+  });
+
+  const bits = new BitWriter();
+  const llState = new FseEncoder(LL_TABLE);
+  const mlState = new FseEncoder(ML_TABLE);
+  const ofState = new FseEncoder(OF_TABLE);
+
+  const writeExtraBits = (index: number) => {
+    const seq = sequences[index];
+    const { ll, ml, of, offsetValue } = codes[index];
+    if (ll >= 16) bits.write(seq.literalLength - LL_BASELINES[ll - 16], LL_BITS[ll - 16]);
+    if (ml >= 32) bits.write(seq.matchLength - ML_BASELINES[ml - 32], ML_BITS[ml - 32]);
+    bits.write(offsetValue - 2 ** of, of);
+  };
+
+  // Sequences are encoded last to first so the decoder reads them in order
+  const last = count - 1;
+  mlState.init(codes[last].ml);
+  ofState.init(codes[last].of);
+  llState.init(codes[last].ll);
+  writeExtraBits(last);
+
+  for (let i = last - 1; i >= 0; i--) {
+    ofState.encode(bits, codes[i].of);
+    mlState.encode(bits, codes[i].ml);
+    llState.encode(bits, codes[i].ll);
+    writeExtraBits(i);
+  }
+
+  mlState.flush(bits);
+  ofState.flush(bits);
+  llState.flush(bits);
+
+  const stream = bits.finish();
+  const output = new Uint8Array(header.length + stream.length);
+  output.set(header, 0);
+  output.set(stream, header.length);
+  return output;
+}
+
+/**
+ * Raw literals section header
+ */
+function encodeLiteralsHeader(size: number): number[] {
+  if (size < 32) {
+    return [size << 3];
+  }
+  if (size < 4096) {
+    return [(1 << 2) | ((size & 0xF) << 4), size >> 4];
+  }
+  return [(3 << 2) | ((size & 0xF) << 4), (size >> 4) & 0xFF, size >> 12];
+}
+
+/**
+ * Match finder state shared by the blocks of a frame, so matches can reach
+ * back into earlier blocks
+ */
+class MatchFinder {
+  private table = new Int32Array(1 << HASH_LOG).fill(-1);
+
+  constructor(private data: Uint8Array) {}
+
+  private hash(pos: number): number {
+    const data = this.data;
+    const value = data[pos] | (data[pos + 1] << 8) | (data[pos + 2] << 16) | (data[pos + 3] << 24);
+    return Math.imul(value, 2654435761) >>> (32 - HASH_LOG);
+  }
+
+  /**
+   * Greedy parse of data[start, end) into sequences; the literals of every
+   * sequence and the trailing literals are collected in order
+   */
+  parse(start: number, end: number): { sequences: Sequence[]; literals: Uint8Array } {
+    const data = this.data;
+    const sequences: Sequence[] = [];
+    const literalChunks: Uint8Array[] = [];
+    let literalStart = start;
+    let pos = start;
+
+    while (pos + MIN_MATCH <= end) {
+      const h = this.hash(pos);
+      const candidate = this.table[h];
+      this.table[h] = pos;
+
+      if (candidate < 0 || pos - candidate > MAX_OFFSET
+        || data[candidate] !== data[pos] || data[candidate + 1] !== data[pos + 1]
+        || data[candidate + 2] !== data[pos + 2] || data[candidate + 3] !== data[pos + 3]) {
+        pos++;
+        continue;
+      }
+
+      let length = MIN_MATCH;
+      while (pos + length < end && data[candidate + length] === data[pos + length]) {
+        length++;
+      }
+
+      literalChunks.push(data.subarray(literalStart, pos));
+      sequences.push({ literalLength: pos - literalStart, matchLength: length, offset: pos - candidate });
+
+      // Index the end of the match for later references
+      const matchEnd = pos + length;
+      for (let i = Math.max(pos + 1, matchEnd - 8); i < matchEnd && i + MIN_MATCH <= end; i++) {
+        this.table[this.hash(i)] = i;
+      }
+
+      pos = matchEnd;
+      literalStart = pos;
+    }
+
+    literalChunks.push(data.subarray(literalStart, end));
+
+    const literals = new Uint8Array(literalChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of literalChunks) {
+      literals.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return { sequences, literals };
+  }
+}
+
+/**
+ * Encode one compressed block body
+ */
+function encodeCompressedBlock(finder: MatchFinder, start: number, end: number): Uint8Array {
+  const { sequences, literals } = finder.parse(start, end);
+  const literalsHeader = encodeLiteralsHeader(literals.length);
+  const sequencesSection = encodeSequences(sequences);
+
+  const output = new Uint8Array(literalsHeader.length + literals.length + sequencesSection.length);
+  output.set(literalsHeader, 0);
+  output.set(literals, literalsHeader.length);
+  output.set(sequencesSection, literalsHeader.length + literals.length);
+  return output;
+}
+
+function isSingleByteRun(data: Uint8Array): boolean {
+  for (let i = 1; i < data.length; i++) {
+    if (data[i] !== data[0]) return false;
+  }
+  return true;
+}
+
+/**
+ * Encode data as a single ZSTD frame
+ */
+export function compressZstd(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const finder = new MatchFinder(data);
+
+  // Magic (4) + frame header descriptor (1) + frame content size (8)
+  const frameHeader = new Uint8Array(13);
+  const view = new DataView(frameHeader.buffer);
+  view.setUint32(0, ZSTD_MAGIC, true);
+  // Frame header descriptor: 8-byte content size, single segment, no checksum, no dictionary
+  frameHeader[4] = (3 << 6) | (1 << 5);
+  view.setBigUint64(5, BigInt(data.length), true);
+  parts.push(frameHeader);
+
+  const blockHeader = (last: boolean, type: number, size: number) => {
+    const value = (last ? 1 : 0) | (type << 1) | (size << 3);
+    return Uint8Array.from([value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF]);
+  };
+
+  if (data.length === 0) {
+    // Empty content still needs one (empty, last) block
+    parts.push(blockHeader(true, BLOCK_TYPE_RAW, 0));
+  }
+
+  for (let start = 0; start < data.length; start += MAX_BLOCK_SIZE) {
+    const end = Math.min(start + MAX_BLOCK_SIZE, data.length);
+    const last = end === data.length;
+    const content = data.subarray(start, end);
+
+    if (isSingleByteRun(content)) {
+      parts.push(blockHeader(last, BLOCK_TYPE_RLE, content.length), content.subarray(0, 1));
+      continue;
+    }
+
+    const compressed = encodeCompressedBlock(finder, start, end);
+    if (compressed.length < content.length) {
+      parts.push(blockHeader(last, BLOCK_TYPE_COMPRESSED, compressed.length), compressed);
+    } else {
+      parts.push(blockHeader(last, BLOCK_TYPE_RAW, content.length), content);
+    }
+  }
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    output.set(part, pos);
+    pos += part.length;
+  }
+  return output;
+}
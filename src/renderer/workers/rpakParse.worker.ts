@@ -0,0 +1,79 @@
+/**
+ * RPak parse worker
+ * Decompresses and parses one pak per request off the renderer thread and
+ * sends back the parser state with the page buffers transferred. Oodle data
+ * is sent to the pool to be decompressed with the DLL.
+ */
+
+import { parseRPak, RPakFileRanges, RPakParserState } from '../parsers/rpakParser';
+import { setWorkerOodleDecompressor } from '../utils/oodleDecompress';
+
+// Oodle data the worker asks the pool to decompress with the DLL
+export interface OodleDecompressRequest {
+  type: 'oodle';
+  requestId: number;
+  data: Uint8Array;
+  decompressedSize: number;
+}
+
+export type ParseWorkerRequest =
+  | { type: 'parse'; id: number; data: ArrayBuffer | RPakFileRanges; filePath: string }
+  | { type: 'oodle'; requestId: number; data: Uint8Array | null };
+
+export type ParseWorkerResponse =
+  | { type: 'result'; id: number; success: true; state: RPakParserState }
+  | { type: 'result'; id: number; success: false; error: string }
+  | OodleDecompressRequest;
+
+const ctx = self as unknown as Worker;
+
+// Oodle requests waiting for the pool's reply
+const oodleRequests = new Map<number, (data: Uint8Array | null) => void>();
+let nextOodleRequestId = 1;
+
+setWorkerOodleDecompressor((data, decompressedSize) => new Promise(resolve => {
+  const requestId = nextOodleRequestId++;
+  oodleRequests.set(requestId, resolve);
+  const request: OodleDecompressRequest = { type: 'oodle', requestId, data, decompressedSize };
+  ctx.postMessage(request);
+}));
+
+/**
+ * Collect the large buffers of the state so they are moved instead of copied
+ */
+function getTransferables(state: RPakParserState): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  const add = (data: Uint8Array) => {
+    if (data.byteLength > 0 && data.buffer instanceof ArrayBuffer) {
+      buffers.add(data.buffer);
+    }
+  };
+
+  state.pageBuffers.forEach(add);
+  add(state.rawData.patchStream);
+  add(state.rawData.patchInsertData);
+  add(state.rawData.externalAssetRefsData);
+  add(state.rawData.trailingData);
+  return Array.from(buffers);
+}
+
+ctx.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  if (event.data.type === 'oodle') {
+    const { requestId, data } = event.data;
+    oodleRequests.get(requestId)?.(data);
+    oodleRequests.delete(requestId);
+    return;
+  }
+
+  const { id, data, filePath } = event.data;
+
+  try {
+    const { parser } = await parseRPak(data, filePath);
+    const state = parser.getState();
+    const response: ParseWorkerResponse = { type: 'result', id, success: true, state };
+    ctx.postMessage(response, getTransferables(state));
+  } catch (error) {
+    const response: ParseWorkerResponse = { type: 'result', id, success: false, error: (error as Error).message };
+    ctx.postMessage(response);
+  }
+};
@@ -0,0 +1,26 @@
+import { defineConfig } from 'vite';
+import path from 'path';
+
+// Command-line build: bundles the CLI with the renderer's loaders and
+// exporters into one Node script
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/rsx.ts',
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        format: 'cjs',
+        banner: '#!/usr/bin/env node',
+        entryFileNames: 'rsx.js',
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'src/renderer'),
+      '@shared': path.resolve(__dirname, 'src/shared'),
+    },
+  },
+});